@@ -1,6 +1,7 @@
 import { defineConfig, devices } from '@playwright/test';
 import 'dotenv/config';
 import { getStorageStatePath } from './tests/constants';
+import { config } from './tests/config';
 
 /**
  * Read environment variables from file.
@@ -11,37 +12,49 @@ import { getStorageStatePath } from './tests/constants';
 // dotenv.config({ path: path.resolve(__dirname, '.env') });
 
 // CI環境（GitHub Actionsなど）かどうかを判定
-const isCI = !!process.env.CI;
+const isCI = config.isCI;
+
+// リソース台帳（tests/tools/resource-ledger.ts）用の実行ID
+// メインプロセスで一度だけ採番し、環境変数経由でワーカーに引き継ぎます
+process.env.PWAPPY_TEST_RUN_ID ||= `${config.runSuffix}-${Date.now()}`;
+
+// ローカル代替バックエンドのテスト（API と store のみでブラウザを使用しない）は chromium プロジェクトでのみ実行します
+const LOCAL_BACKEND_SPECS = 'specs/local/**/*.spec.ts';
 
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
 export default defineConfig({
   testDir: './tests',
+  /* local プロファイルでフロントエンド（PWAPPY_TEST_LOCAL_FRONTEND_DIR）を配信しない場合は、画面を使用しない API のテストだけを実行します */
+  ...(config.profile === 'local' && !config.local.frontendDir ? { testMatch: LOCAL_BACKEND_SPECS } : {}),
+  /* 環境変数の検証と、プロファイルが local の場合のローカル代替バックエンドの起動（tests/config.ts） */
+  globalSetup: './tests/global-setup.ts',
   /* Run tests in files in parallel */
   fullyParallel: false,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
 
   // !!!!!! DEBUG中だけコメントアウトする !!!!!!
-  forbidOnly: !!process.env.CI,
+  forbidOnly: isCI,
 
   /* Retry on CI only */
-  retries: process.env.CI ? 5 : 0,
+  retries: isCI ? 5 : 0,
   /* Opt out of parallel tests on CI. */
-  workers: process.env.CI ? undefined : undefined,
+  workers: isCI ? undefined : undefined,
   /** タイムアウト設定
    * CIでは伸ばす
    */
-  timeout: process.env.CI ? 120 * 1000 : 60 * 1000,
+  timeout: isCI ? 120 * 1000 : 60 * 1000,
   expect: {
     /**
      * expect(locator).toBeVisible() のようなアサーションの最大時間。
      * CIでは伸ばす
      */
-    timeout: process.env.CI ? 20 * 1000 : 10 * 1000,
+    timeout: isCI ? 20 * 1000 : 10 * 1000,
   },
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
-  reporter: 'html',
+  /* テストケースID（WB-* など）のカバレッジ表も test-results/scenario-coverage.md に出力します */
+  reporter: [['html'], ['./tests/tools/scenario-coverage-reporter.ts']],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('/')`. */
@@ -74,35 +87,39 @@ export default defineConfig({
       name: 'chromium',
       use: {
         ...devices['Desktop Chrome'],
-        storageState: getStorageStatePath(process.env.TEST_WORKER_INDEX || '0', 'c'),
+        storageState: getStorageStatePath(config.workerIndex, 'c'),
       },
     },
     {
       name: 'firefox',
+      testIgnore: LOCAL_BACKEND_SPECS,
       use: {
         ...devices['Desktop Firefox'],
-        storageState: getStorageStatePath(process.env.TEST_WORKER_INDEX || '0', 'f'),
+        storageState: getStorageStatePath(config.workerIndex, 'f'),
       },
     },
     {
       name: 'webkit',
+      testIgnore: LOCAL_BACKEND_SPECS,
       use: {
         ...devices['Desktop Safari'],
-        storageState: getStorageStatePath(process.env.TEST_WORKER_INDEX || '0', 's'),
+        storageState: getStorageStatePath(config.workerIndex, 's'),
       },
     },
     {
       name: 'mobile-chrome',
+      testIgnore: LOCAL_BACKEND_SPECS,
       use: {
         ...devices['Pixel 5'],
-        storageState: getStorageStatePath(process.env.TEST_WORKER_INDEX || '0', 'a'),
+        storageState: getStorageStatePath(config.workerIndex, 'a'),
       },
     },
     {
       name: 'mobile-safari',
+      testIgnore: LOCAL_BACKEND_SPECS,
       use: {
         ...devices['iPhone 12'],
-        storageState: getStorageStatePath(process.env.TEST_WORKER_INDEX || '0', 'i'),
+        storageState: getStorageStatePath(config.workerIndex, 'i'),
       },
     },
 
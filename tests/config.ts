@@ -0,0 +1,318 @@
+import path from 'path';
+import fs from 'fs';
+import dotenv from 'dotenv';
+
+/**
+ * 接続先のプロファイル。環境変数 PWAPPY_TEST_PROFILE で切り替えます（デフォルト: production）。
+ * - local: ローカル代替バックエンド（tests/tools/local-backend）を起動して接続する
+ * - staging: 検証環境に接続する
+ * - production: 本番環境に接続する
+ *
+ * `.env.<プロファイル名>` が存在する場合は `.env` より先に読み込みます（既に設定されている環境変数は上書きしません）。
+ */
+export type ProfileName = 'local' | 'staging' | 'production';
+
+const PROFILES: Record<ProfileName, { description: string; remote: boolean }> = {
+    local: { description: 'ローカル代替バックエンド', remote: false },
+    staging: { description: '検証環境', remote: true },
+    production: { description: '本番環境', remote: true },
+};
+
+/**
+ * 環境変数の値が不正、または必須の環境変数が設定されていない場合のエラー。
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(`[Config] ${message}`);
+        this.name = 'ConfigError';
+    }
+}
+
+const readProfile = (): ProfileName => {
+    const name = process.env.PWAPPY_TEST_PROFILE || 'production';
+    if (!(name in PROFILES)) {
+        throw new ConfigError(`PWAPPY_TEST_PROFILE は ${Object.keys(PROFILES).join(' / ')} のいずれかを指定してください: ${name}`);
+    }
+    return name as ProfileName;
+};
+
+// プロファイル固有の .env を読み込みます（.env は playwright.config.ts などで読み込まれる dotenv/config が担当します）
+const profileEnvFile = path.join(process.cwd(), `.env.${readProfile()}`);
+if (fs.existsSync(profileEnvFile)) {
+    dotenv.config({ path: profileEnvFile });
+}
+dotenv.config();
+
+const optional = (name: string): string | undefined => process.env[name] || undefined;
+
+const required = (name: string, hint: string = ''): string => {
+    const value = process.env[name];
+    if (!value) {
+        throw new ConfigError(`${name} が設定されていません（profile: ${readProfile()}）。${hint}`);
+    }
+    return value;
+};
+
+const number = (name: string, defaultValue: number, { min = 0 }: { min?: number } = {}): number => {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') return defaultValue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min) {
+        throw new ConfigError(`${name} の値が不正です（${min} 以上の数値を指定してください）: ${raw}`);
+    }
+    return value;
+};
+
+const flag = (name: string): boolean => {
+    const raw = (process.env[name] || '').toLowerCase();
+    return raw === '1' || raw === 'true';
+};
+
+const oneOf = <T extends string>(name: string, values: readonly T[], defaultValue: T): T => {
+    const raw = (process.env[name] || defaultValue).toLowerCase();
+    if (!values.includes(raw as T)) {
+        throw new ConfigError(`${name} は ${values.join(' / ')} のいずれかを指定してください: ${raw}`);
+    }
+    return raw as T;
+};
+
+const url = (name: string, value: string): string => {
+    try {
+        new URL(value);
+    } catch {
+        throw new ConfigError(`${name} が URL として不正です: ${value}`);
+    }
+    return value;
+};
+
+/**
+ * テストで使用する環境変数の型付きアクセサ。
+ * 値は参照のたびに環境変数から読み込みます（グローバルセットアップで上書きされた値をワーカーで参照するため）。
+ */
+export const config = {
+    /** 接続先のプロファイル */
+    get profile(): ProfileName {
+        return readProfile();
+    },
+    /** CI環境（GitHub Actionsなど）で実行しているかどうか */
+    get isCI(): boolean {
+        return !!process.env.CI;
+    },
+
+    /** ダッシュボードのURL */
+    get baseUrl(): string {
+        const hint = readProfile() === 'local' ? 'ローカル代替バックエンドはグローバルセットアップで起動されます。' : '';
+        return url('PWAPPY_TEST_BASE_URL', required('PWAPPY_TEST_BASE_URL', hint));
+    },
+    /** パスコード認証のログインエンドポイント */
+    get loginEndpoint(): string {
+        return url('PWAPPY_TEST_LOGIN_ENDPOINT', required('PWAPPY_TEST_LOGIN_ENDPOINT'));
+    },
+    get loginPasscode(): string {
+        return required('PWAPPY_TEST_LOGIN_PASSCODE');
+    },
+    /** pwappy の API のオリジン（tests/tools/busy-state.ts）。省略時はダッシュボードのURLのオリジンを使用します */
+    get apiOrigin(): string | undefined {
+        const value = optional('PWAPPY_TEST_API_ORIGIN');
+        return value && new URL(url('PWAPPY_TEST_API_ORIGIN', value)).origin;
+    },
+
+    /** 実行環境の識別子（CIではOS名）。アプリ名・アプリキーや台帳の実行IDに使用します */
+    get runSuffix(): string {
+        return process.env.TEST_RUN_SUFFIX || 'local';
+    },
+    /** playwright.config.ts が採番する実行ID */
+    get runId(): string | undefined {
+        return optional('PWAPPY_TEST_RUN_ID');
+    },
+    /** Playwright が設定するワーカー番号 */
+    get workerIndex(): string {
+        return process.env.TEST_WORKER_INDEX || '0';
+    },
+    /**
+     * ログインに使用するアカウントのワーカー番号。
+     * TEST_WORKER_INDEX は Playwright がワーカー起動時に上書きするため、クリーンアップ対象のアカウントは専用の環境変数で指定します
+     */
+    get accountWorkerIndex(): string {
+        return process.env.PWAPPY_TEST_CLEANUP_WORKER_INDEX || process.env.TEST_WORKER_INDEX || '0';
+    },
+    /** クリーンアップ時に使用するアカウントのブラウザコード（省略時はブラウザから推測します） */
+    get accountBrowserCode(): string | undefined {
+        return optional('PWAPPY_TEST_CLEANUP_BROWSER_CODE');
+    },
+
+    /** AI機能のテストで使用する Gemini APIキー */
+    get geminiApiKey(): string | undefined {
+        return optional('TEST_GEMINI_API_KEY');
+    },
+
+    /** リーク判定に使用する最小経過時間（分） */
+    get ledgerMinAgeMinutes(): number {
+        return number('PWAPPY_TEST_LEDGER_MIN_AGE_MINUTES', 30);
+    },
+
+    /** 認証に関する設定（tests/tools/auth.ts） */
+    auth: {
+        get strategy(): 'passcode' | 'storage-state' | 'cookie' {
+            const inferred = optional('PWAPPY_TEST_STORAGE_STATE') ? 'storage-state' : optional('PWAPPY_TEST_SESSION_COOKIE') ? 'cookie' : 'passcode';
+            return oneOf('PWAPPY_TEST_AUTH_STRATEGY', ['passcode', 'storage-state', 'cookie'] as const, inferred);
+        },
+        get storageState(): string {
+            return required('PWAPPY_TEST_STORAGE_STATE');
+        },
+        get sessionCookie(): string {
+            return required('PWAPPY_TEST_SESSION_COOKIE');
+        },
+        get sessionCheckUrl(): string | undefined {
+            const value = optional('PWAPPY_TEST_SESSION_CHECK_URL');
+            return value && url('PWAPPY_TEST_SESSION_CHECK_URL', value);
+        },
+        get sessionTtlMinutes(): number {
+            return number('PWAPPY_TEST_SESSION_TTL_MINUTES', 10);
+        },
+    },
+
+    /** API通信の記録・再生に関する設定（tests/tools/har-replay.ts） */
+    har: {
+        get mode(): 'off' | 'record' | 'replay' {
+            return oneOf('PWAPPY_TEST_HAR_MODE', ['off', 'record', 'replay'] as const, 'off');
+        },
+        get urlFilter(): RegExp | undefined {
+            const source = optional('PWAPPY_TEST_HAR_URL');
+            if (!source) return undefined;
+            try {
+                return new RegExp(source);
+            } catch {
+                throw new ConfigError(`PWAPPY_TEST_HAR_URL が正規表現として不正です: ${source}`);
+            }
+        },
+    },
+
+    /** フレーキーテストのレポーター（tests/tools/flakiness-reporter.ts）の出力先 */
+    get flakinessFile(): string {
+        return path.resolve(optional('PWAPPY_TEST_FLAKINESS_FILE') || path.join('test-results', 'flakiness.json'));
+    },
+
+    /** テストケースIDのマスターリスト（tests/tools/scenario-coverage-reporter.ts） */
+    get scenarioListFile(): string | undefined {
+        const value = optional('PWAPPY_TEST_SCENARIO_LIST');
+        if (value && !fs.existsSync(value)) {
+            throw new ConfigError(`PWAPPY_TEST_SCENARIO_LIST のファイルが見つかりません: ${value}`);
+        }
+        return value && path.resolve(value);
+    },
+    /** テストケースIDカバレッジの出力先（Markdown。同じ場所に .json も出力します） */
+    get scenarioCoverageFile(): string {
+        return path.resolve(optional('PWAPPY_TEST_SCENARIO_COVERAGE_FILE') || path.join('test-results', 'scenario-coverage.md'));
+    },
+
+    /**
+     * 入力操作を固定する環境（tests/tools/input-strategy.ts）。
+     * ブラウザ名（chromium / firefox / webkit）・OS（mac / windows / linux）・mobile / desktop をカンマ区切りで指定します
+     */
+    get inputStrategy(): string[] {
+        const tokens = (optional('PWAPPY_TEST_INPUT_STRATEGY') || '').split(',').map(token => token.trim().toLowerCase()).filter(Boolean);
+        const allowed = ['chromium', 'firefox', 'webkit', 'mac', 'windows', 'linux', 'mobile', 'desktop'];
+        const invalid = tokens.filter(token => !allowed.includes(token));
+        if (invalid.length > 0) {
+            throw new ConfigError(`PWAPPY_TEST_INPUT_STRATEGY は ${allowed.join(' / ')} をカンマ区切りで指定してください: ${invalid.join(', ')}`);
+        }
+        return tokens;
+    },
+
+    /** 画面の言語（tests/tools/ui-strings.ts）。PWAPPY_TEST_UI_LOCALE で指定します（デフォルト: ja） */
+    get uiLocale(): 'ja' | 'en' {
+        return oneOf('PWAPPY_TEST_UI_LOCALE', ['ja', 'en'] as const, 'ja');
+    },
+
+    /** 通信の監視に関する設定（tests/tools/network-monitor.ts） */
+    network: {
+        /** true の場合、許可されていない 5xx のレスポンスでテストを失敗させます */
+        get strict(): boolean {
+            return flag('PWAPPY_TEST_NETWORK_STRICT');
+        },
+        get slowRequestMs(): number {
+            return number('PWAPPY_TEST_SLOW_REQUEST_MS', 5000, { min: 1 });
+        },
+    },
+
+    /** ローカル代替バックエンドに関する設定（tests/tools/local-backend） */
+    local: {
+        get port(): number {
+            return number('PWAPPY_TEST_LOCAL_BACKEND_PORT', 0);
+        },
+        get stateFile(): string | undefined {
+            const value = optional('PWAPPY_TEST_LOCAL_BACKEND_STATE');
+            return value && path.resolve(value);
+        },
+        get frontendDir(): string | undefined {
+            return optional('PWAPPY_TEST_LOCAL_FRONTEND_DIR');
+        },
+        get reviewDelayMs(): number {
+            return number('PWAPPY_TEST_LOCAL_REVIEW_DELAY_MS', 3000);
+        },
+    },
+};
+
+/**
+ * テスト開始前に、プロファイルに必要な環境変数がすべて正しく設定されているかをまとめて検証します。
+ * 問題があれば、すべての問題を列挙した ConfigError を投げます。
+ */
+export function validateConfig(): void {
+    const problems: string[] = [];
+    const check = (read: () => unknown) => {
+        try {
+            read();
+        } catch (e) {
+            if (!(e instanceof ConfigError)) throw e;
+            problems.push(e.message.replace(/^\[Config\] /, ''));
+        }
+    };
+
+    // HARの再生ではバックエンドに接続せず、記録時のURLでダッシュボードを開くため、接続先と認証の設定は不要です
+    const replaying = (() => {
+        try {
+            return config.har.mode === 'replay';
+        } catch {
+            return false;
+        }
+    })();
+
+    if (PROFILES[config.profile].remote) {
+        if (!replaying) {
+            check(() => config.baseUrl);
+            check(() => {
+                switch (config.auth.strategy) {
+                    case 'passcode':
+                        check(() => config.loginEndpoint);
+                        check(() => config.loginPasscode);
+                        break;
+                    case 'storage-state':
+                        check(() => config.auth.storageState);
+                        break;
+                    case 'cookie':
+                        check(() => config.auth.sessionCookie);
+                        break;
+                }
+            });
+        }
+    } else {
+        check(() => config.local.port);
+        check(() => config.local.reviewDelayMs);
+    }
+    check(() => config.apiOrigin);
+    check(() => config.auth.sessionCheckUrl);
+    check(() => config.auth.sessionTtlMinutes);
+    check(() => config.ledgerMinAgeMinutes);
+    check(() => config.har.mode);
+    check(() => config.har.urlFilter);
+    check(() => config.network.slowRequestMs);
+    check(() => config.scenarioListFile);
+    check(() => config.inputStrategy);
+    check(() => config.uiLocale);
+
+    if (problems.length > 0) {
+        throw new ConfigError(`環境変数の設定に問題があります（profile: ${config.profile}）:\n - ${problems.join('\n - ')}`);
+    }
+    console.log(`[Config] profile: ${config.profile}（${PROFILES[config.profile].description}）`);
+}
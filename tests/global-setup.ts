@@ -0,0 +1,14 @@
+import { config, validateConfig } from './config';
+import startLocalBackendProfile from './tools/local-backend/global-setup';
+
+/**
+ * テスト開始前に環境変数をまとめて検証します。
+ * 未設定の変数があると、ダッシュボードが "undefined" に遷移するなど原因の分かりにくい失敗になるため、ここで明示的に止めます。
+ * local プロファイルの場合は、続けてローカル代替バックエンドを起動します。
+ */
+export default async function globalSetup(): Promise<(() => Promise<void>) | void> {
+    validateConfig();
+    if (config.profile === 'local') {
+        return startLocalBackendProfile();
+    }
+}
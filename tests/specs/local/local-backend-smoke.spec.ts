@@ -0,0 +1,166 @@
+// local-backend-smoke.spec.ts
+
+import 'dotenv/config';
+import { test, expect, request, type APIRequestContext } from '@playwright/test';
+import { config } from '../../config';
+import { ensureAuthenticated } from '../../tools/auth';
+import { LocalBackendStore, LocalBackendError, LOCAL_SAMPLE_APP } from '../../tools/local-backend/store';
+
+/**
+ * ローカル代替バックエンド（tools/local-backend）のテスト。
+ * API のスモークテストは PWAPPY_TEST_PROFILE=local の場合のみ実行し、ワーカーのログイン（tools/auth.ts）から
+ * ダッシュボードの初期化、エディタの保存、公開申請・公開までを、グローバルセットアップで起動したバックエンドに対して確認します。
+ * 状態遷移のテストはバックエンドを起動せずに LocalBackendStore を直接操作するため、どのプロファイルでも実行できます。
+ * いずれもブラウザを使用しないため、chromium プロジェクトでのみ実行します（playwright.config.ts）。
+ */
+
+/**
+ * store の操作が、指定したステータスコードの LocalBackendError になることを確認します。
+ */
+const expectBackendError = (operation: () => unknown, status: number) => {
+    try {
+        operation();
+    } catch (error) {
+        expect(error).toBeInstanceOf(LocalBackendError);
+        expect((error as LocalBackendError).status).toBe(status);
+        return;
+    }
+    throw new Error(`LocalBackendError(${status}) が発生しませんでした`);
+};
+
+test.describe('ローカル代替バックエンドのスモークテスト', () => {
+    test.skip(config.profile !== 'local', 'PWAPPY_TEST_PROFILE=local の場合のみ実行します');
+
+    let api: APIRequestContext;
+
+    test.beforeEach(async ({ }, testInfo) => {
+        // ワーカーのログインと同じ処理（passcodeStrategy / validateSession）でセッションを取得する
+        const storageState = await ensureAuthenticated(testInfo.workerIndex, 'l');
+        api = await request.newContext({ baseURL: config.baseUrl, storageState });
+    });
+
+    test.afterEach(async () => {
+        await api?.dispose();
+    });
+
+    /**
+     * API を呼び出し、成功したレスポンスの details を返します。
+     */
+    const call = async (method: 'get' | 'post' | 'put' | 'delete', url: string, data?: unknown) => {
+        const response = await api[method](url, { data });
+        expect(response.status(), `${method.toUpperCase()} ${url}: ${await response.text()}`).toBe(200);
+        return (await response.json()).details;
+    };
+
+    const findVersion = async (appKey: string, version: string) => {
+        const { apps } = await call('get', 'api/dashboard-init');
+        return apps.find((a: any) => a.appKey === appKey)?.versions.find((v: any) => v.version === version);
+    };
+
+    test('ログインからダッシュボードの初期化、エディタの保存、公開申請・公開までを実行できる', async () => {
+        // アプリを作成する API は提供していないため、ログインしたユーザーに用意されるサンプルアプリを使用する
+        const { appKey } = LOCAL_SAMPLE_APP;
+
+        await test.step('1. ダッシュボードを初期化するとサンプルアプリが含まれる', async () => {
+            const dashboard = await call('get', 'api/dashboard-init');
+            expect(dashboard).toMatchObject({ points: expect.any(Number), apps: expect.any(Array) });
+            expect(dashboard.apps.map((a: any) => a.appKey)).toContain(appKey);
+        });
+
+        await test.step('2. エディタの保存ができる', async () => {
+            await call('put', `api/editor/${appKey}/1.0.0`, { pages: ['home.html'] });
+            expect(await call('get', `api/editor/${appKey}/1.0.0`)).toEqual({ pages: ['home.html'] });
+        });
+
+        await test.step('3. 公開申請すると審査待ちを経て準備完了になる', async () => {
+            const applied = await call('post', `api/publish/${appKey}/1.0.0`, { action: 'apply' });
+            expect(applied.statusLabel).toBe('審査待ち');
+            await expect.poll(async () => (await findVersion(appKey, '1.0.0'))?.status, {
+                timeout: config.local.reviewDelayMs + 10000,
+            }).toBe('ready');
+        });
+
+        await test.step('4. 公開すると公開中になり、エディタから保存できない', async () => {
+            const published = await call('post', `api/publish/${appKey}/1.0.0`, { action: 'publish' });
+            expect(published.statusLabel).toBe('公開中');
+            expect((await api.put(`api/editor/${appKey}/1.0.0`, { data: {} })).status()).toBe(409);
+        });
+
+        await test.step('5. 非公開にすると再び公開申請できる状態になる', async () => {
+            const unpublished = await call('post', `api/publish/${appKey}/1.0.0`, { action: 'unpublish' });
+            expect(unpublished.statusLabel).toBe('非公開');
+        });
+    });
+
+    test('AIコーディングの依頼が完了として記録される', async () => {
+        const before = await call('get', 'api/ai-script-coding');
+
+        const response = await api.post('api/ai-script-coding', { data: { requestContent: 'ボタンを追加してください' } });
+        expect(await response.json()).toEqual({ code: 200, message: 'Request accepted' });
+
+        const tickets = await call('get', 'api/ai-script-coding');
+        expect(tickets).toHaveLength(before.length + 1);
+        expect(tickets.at(-1)).toMatchObject({ requestContent: 'ボタンを追加してください', status: 'completed', finishReason: 'STOP' });
+    });
+
+    test('ログインしていない場合は 401 を返す', async () => {
+        const anonymous = await request.newContext({ baseURL: config.baseUrl });
+        try {
+            expect((await anonymous.get('api/dashboard-init')).status()).toBe(401);
+        } finally {
+            await anonymous.dispose();
+        }
+    });
+});
+
+test.describe('ローカル代替バックエンドの状態遷移', () => {
+    const identkey = 'pwlocal';
+
+    test('新しいユーザーには編集中のサンプルアプリが用意される', async () => {
+        const store = new LocalBackendStore({ reviewDelayMs: 0 });
+        expect(store.listApps(identkey)).toEqual([
+            expect.objectContaining({ ...LOCAL_SAMPLE_APP, versions: [expect.objectContaining({ version: '1.0.0', status: 'draft' })] }),
+        ]);
+        expectBackendError(() => store.createApp(identkey, '別のアプリ', LOCAL_SAMPLE_APP.appKey), 409);
+    });
+
+    test('公開状態は 編集中 → 審査待ち → 準備完了 → 公開中 → 非公開 の順に遷移する', async () => {
+        const store = new LocalBackendStore({ reviewDelayMs: 0 });
+        store.createApp(identkey, 'アプリ', 'app-key');
+
+        expectBackendError(() => store.transition(identkey, 'app-key', '1.0.0', 'publish'), 409);
+
+        expect(store.transition(identkey, 'app-key', '1.0.0', 'apply').status).toBe('review');
+
+        // 一覧の取得時に、経過時間（reviewDelayMs）に応じて準備完了に進む
+        expect(store.app(identkey, 'app-key').versions[0].status).toBe('review');
+        store.listApps(identkey);
+        expect(store.app(identkey, 'app-key').versions[0].status).toBe('ready');
+
+        expect(store.transition(identkey, 'app-key', '1.0.0', 'publish').status).toBe('published');
+        expectBackendError(() => store.saveProject(identkey, 'app-key', '1.0.0', {}), 409);
+
+        expect(store.transition(identkey, 'app-key', '1.0.0', 'unpublish').status).toBe('unpublished');
+        expect(store.saveProject(identkey, 'app-key', '1.0.0', { pages: [] }).project).toEqual({ pages: [] });
+    });
+
+    test('審査待ちは reviewDelayMs が経過するまで準備完了にならず、編集できない', async () => {
+        const store = new LocalBackendStore({ reviewDelayMs: 60 * 60 * 1000 });
+        store.createApp(identkey, 'アプリ', 'app-key');
+        store.transition(identkey, 'app-key', '1.0.0', 'apply');
+
+        expect(store.version(identkey, 'app-key', '1.0.0').status).toBe('review');
+        expectBackendError(() => store.saveProject(identkey, 'app-key', '1.0.0', {}), 409);
+    });
+
+    test('stateFile を指定すると、次回の起動時に状態を引き継ぐ', async ({ }, testInfo) => {
+        const stateFile = testInfo.outputPath('local-backend-state.json');
+        const store = new LocalBackendStore({ stateFile, reviewDelayMs: 0 });
+        store.saveProject(identkey, LOCAL_SAMPLE_APP.appKey, '1.0.0', { pages: ['home.html'] });
+        store.requestScriptCoding(identkey, 'ボタンを追加してください');
+
+        const restored = new LocalBackendStore({ stateFile, reviewDelayMs: 0 });
+        expect(restored.version(identkey, LOCAL_SAMPLE_APP.appKey, '1.0.0').project).toEqual({ pages: ['home.html'] });
+        expect(restored.user(identkey).aiTickets).toHaveLength(1);
+    });
+});
@@ -1,4 +1,5 @@
-import { test, expect, Page } from '@playwright/test';
+import { Page } from '@playwright/test';
+import { test, expect } from '../../tools/scenario-fixture';
 import 'dotenv/config';
 import {
     createApp,
@@ -6,8 +7,11 @@ import {
     expectAppVisibility,
     gotoDashboard,
 } from '../../tools/dashboard-helpers';
+import { waitForIdle } from '../../tools/busy-state';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+const testRunSuffix = config.runSuffix;
 
 test.describe('アプリケーション管理 E2Eシナリオ', () => {
 
@@ -35,14 +39,14 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await addBtn.click();
 
             await page.waitForTimeout(500);
-            const modal = page.locator('dashboard-modal-window#appModal');
+            const modal = page.locator(SELECTORS.dashboard.appModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('アプリケーションの作成');
 
             await modal.locator('.submit-button').click({ force: true });
             await expect(modal.locator('#error-app-name')).toContainText('必須項目です');
 
-            const appNameInput = modal.locator('#input-app-name');
-            const appKeyInput = modal.locator('#input-app-key');
+            const appNameInput = modal.locator(SELECTORS.transient.appNameInput);
+            const appKeyInput = modal.locator(SELECTORS.transient.appKeyInput);
             await expect(appNameInput).toBeEditable();
             await expect(appKeyInput).toBeEditable();
             await appNameInput.fill('不正キーテスト');
@@ -55,7 +59,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await expect(appKeyInput).toBeEditable();
             await appKeyInput.fill(existingAppKey);
             await modal.locator('.submit-button').click({ force: true });
-            const alertDialog = page.locator('alert-component');
+            const alertDialog = page.locator(SELECTORS.transient.alert);
             await expect(alertDialog).toBeVisible();
             await expect(alertDialog).toContainText('アプリケーションキーが重複しています');
             await alertDialog.getByRole('button', { name: '閉じる' }).click();
@@ -65,7 +69,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await modal.locator('.submit-button').click({ force: true });
             await expect(modal).toBeHidden();
 
-            await expect(page.locator('dashboard-app-detail')).toBeVisible({ timeout: 15000 });
+            await expect(page.locator(SELECTORS.appDetail.root)).toBeVisible({ timeout: 15000 });
         });
 
         await test.step('クリーンアップ: 作成したアプリを削除', async () => {
@@ -87,7 +91,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
         });
 
         await test.step('テスト: アプリケーションを編集する', async () => {
-            await expect(page.locator('dashboard-app-detail')).toBeVisible({ timeout: 15000 });
+            await expect(page.locator(SELECTORS.appDetail.root)).toBeVisible({ timeout: 15000 });
             await page.getByText('アプリ設定').click();
 
             await page.waitForTimeout(500);
@@ -97,7 +101,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
 
             await page.waitForTimeout(500);
 
-            const modal = page.locator('dashboard-modal-window#appEditModal');
+            const modal = page.locator(SELECTORS.transient.appEditModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('アプリケーションの編集');
 
             const appNameInput = modal.locator('#edit-app-name');
@@ -105,7 +109,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await appNameInput.fill(editedAppName);
             await modal.locator('.submit-button').click({ force: true });
 
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
+            await waitForIdle(page, 'dashboard');
 
             const appNameSpan = page.locator('.app-data-item').first().locator('span').nth(1);
             await expect(appNameSpan).toHaveText(editedAppName);
@@ -140,7 +144,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await page.waitForTimeout(500);
 
             // 編集用モーダル
-            const modal = page.locator('dashboard-modal-window#appEditModal');
+            const modal = page.locator(SELECTORS.transient.appEditModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('アプリケーションの編集');
 
             const appNameInput = modal.locator('#edit-app-name');
@@ -184,7 +188,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await page.waitForTimeout(500);
             await page.getByRole('button', { name: '編集する' }).click();
 
-            const modal = page.locator('dashboard-modal-window#appEditModal');
+            const modal = page.locator(SELECTORS.transient.appEditModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('アプリケーションの編集');
 
             // 編集用ID規則に基づき #edit-app-key を指定
@@ -197,7 +201,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
                 await modal.locator('.submit-button').click({ force: true });
 
                 // エラー確認: alert-component または インラインエラー (#error-edit-app-key)
-                const alertDialog = page.locator('alert-component');
+                const alertDialog = page.locator(SELECTORS.transient.alert);
 
                 try {
                     // 1. アラートダイアログが出るパターンを試行
@@ -236,8 +240,8 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
         });
 
         await test.step('テスト: 削除確認ダイアログでキャンセルを押し、アプリが削除されないことを確認', async () => {
-            await expect(page.locator('dashboard-app-detail')).toBeVisible({ timeout: 15000 });
-            await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
+            await expect(page.locator(SELECTORS.appDetail.root)).toBeVisible({ timeout: 15000 });
+            await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
             await page.waitForTimeout(500);
 
             const appSettingButton = page.getByText('アプリ設定');
@@ -250,7 +254,7 @@ test.describe('アプリケーション管理 E2Eシナリオ', () => {
             await expect(deleteButton).toBeEnabled({ timeout: 10000 });
             await deleteButton.click({ force: true });
 
-            const confirmDialog = page.locator('message-box#delete-confirm-general');
+            const confirmDialog = page.locator(SELECTORS.appDetail.deleteConfirm);
             await expect(confirmDialog).toBeVisible();
             await confirmDialog.locator('.confirm-cancel-button').click({ force: true });
             await expect(confirmDialog).toBeHidden();
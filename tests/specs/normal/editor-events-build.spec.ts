@@ -1,47 +1,16 @@
-import { test as base, expect, Page, Locator } from '@playwright/test';
+import { Locator } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor } from '../../tools/dashboard-helpers';
-import { EditorHelper, verifyScriptInTestPage } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+import { verifyScriptInTestPage } from '../../tools/editor-helpers';
+import { test, expect } from '../../tools/test-fixtures';
+import { waitForIdle } from '../../tools/busy-state';
+import { SELECTORS } from '../../tools/selectors';
 
 /**
- * テストフィクスチャ（各テストごとに独立したアプリを構築・クリーンアップ）
+ * 各テストごとに独立したアプリを構築・クリーンアップします。
  */
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    editorHelper: EditorHelper;
-};
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`test-evt-bld-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        const appKey = `evt-bld-key-${uniqueId}`.slice(0, 30);
-        await createApp(page, appName, appKey);
-        const editorPage = await openEditor(page, context, appName);
-        await use(editorPage);
-        await editorPage.close();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+test.use({ appPrefix: 'test-evt-bld', appKeyPrefix: 'evt-bld-key' });
 
 test.describe('エディタ内イベント＆スクリプト機能のビルド・実機連携テスト', () => {
-    test.beforeEach(async ({ page }) => {
-        await gotoDashboard(page);
-    });
-
     test('アプリケーションのDOMContentLoadedイベントにスクリプトを割り当て', async ({ editorPage, editorHelper }) => {
         const eventName = 'DOMContentLoaded';
         const scriptName = 'testDomContentLoadScript';
@@ -57,7 +26,7 @@ test.describe('エディタ内イベント＆スクリプト機能のビルド
 
         await test.step('1. イベントにスクリプトを追加し、編集する', async () => {
             await editorHelper.openMoveingHandle("right");
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await expect(scriptContainer).toBeVisible();
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
             await editorHelper.addScriptToEvent({ eventName, scriptName });
@@ -110,7 +79,7 @@ test.describe('エディタ内イベント＆スクリプト機能のビルド
 
         await test.step('1. イベントにスクリプトを追加し、編集する', async () => {
             await editorHelper.openMoveingHandle("right");
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await expect(scriptContainer).toBeVisible();
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
             await editorHelper.addScriptToEvent({ eventName, scriptName });
@@ -155,7 +124,7 @@ test.describe('エディタ内イベント＆スクリプト機能のビルド
 
         await test.step('セットアップ: 2つのページとons-navigator、ボタンを配置する', async () => {
             await editorHelper.openMoveingHandle("left");
-            appNode = editorPage.locator('#dom-tree > div[data-node-type="app"]');
+            appNode = editorPage.locator(`${SELECTORS.editor.domTree} > div[data-node-type="app"]`);
             const rawAppId = await appNode.getAttribute('data-node-id')!;
             expect(rawAppId).not.toBeNull();
             appId = rawAppId!;
@@ -302,7 +271,7 @@ test.describe('エディタ内イベント＆スクリプト機能のビルド
 
         await test.step('1. セットアップ: ページを作成し、ons-navigatorに起動ページとして設定して表示を保証する', async () => {
             await editorHelper.openMoveingHandle('left');
-            const appNode = editorPage.locator('#dom-tree > div[data-node-type="app"]');
+            const appNode = editorPage.locator(`${SELECTORS.editor.domTree} > div[data-node-type="app"]`);
             const rawAppId = await appNode.getAttribute('data-node-id');
             expect(rawAppId).not.toBeNull();
             const appId = rawAppId as string;
@@ -344,8 +313,7 @@ test.describe('エディタ内イベント＆スクリプト機能のビルド
 
             await editorHelper.selectNodeInDomTree(pNode);
 
-            const loadingOverlay = editorPage.locator('app-container-loading-overlay');
-            await expect(loadingOverlay).toBeHidden({ timeout: 30000 });
+            await waitForIdle(editorPage, 'editor');
 
             // モバイル環境でのタイムアウトの原因となる networkidle を排除し、プレビュー内のbodyのロードを直接待機
             const previewFrame = editorHelper.getPreviewFrame();
@@ -359,8 +327,8 @@ test.describe('エディタ内イベント＆スクリプト機能のビルド
                 comment: eventComment
             });
 
-            const scriptContainer = editorPage.locator('script-container');
-            const eventContainer = scriptContainer.locator('event-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
+            const eventContainer = scriptContainer.locator(SELECTORS.editor.eventContainer);
             const eventRow = eventContainer.locator('.editor-row', { hasText: 'click' })
                 .filter({ hasText: eventComment });
 
@@ -1,51 +1,15 @@
-import { test as base, expect, Page, Locator } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor } from '../../tools/dashboard-helpers';
-import { EditorHelper, verifyScriptInTestPage } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+import { verifyScriptInTestPage } from '../../tools/editor-helpers';
+import { test, expect } from '../../tools/test-fixtures';
+import { SELECTORS } from '../../tools/selectors';
 
 /**
- * テストフィクスチャを定義します。（テストごとに個別に作成・削除）
+ * テストごとに個別のアプリを作成・削除します。
  */
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`app-prop-bld-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        const appKey = `key-prop-bld-${uniqueId}`.slice(0, 30);
-        await createApp(page, appName, appKey);
-        const editorPage = await openEditor(page, context, appName);
-
-        await use(editorPage);
-
-        await editorPage.close();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+test.use({ appPrefix: 'app-prop-bld', appKeyPrefix: 'key-prop-bld' });
 
 // --- テストスイート ---
 test.describe('JSDocからのプロパティ解析機能のテスト（保存・実機連携あり）', () => {
-    test.beforeEach(async ({ page }) => {
-        await gotoDashboard(page);
-    });
-
     /**
      * Web ComponentのJSDocに定義された@firesが、
      * イベントパネルにカスタムイベントとして正しく表示されるかを検証します。
@@ -102,7 +66,7 @@ customElements.define('${tagName}', ${scriptName});
         await test.step('1. @firesを持つWeb Componentのスクリプトを作成する', async () => {
             // スクリプトタブに切り替える
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
 
             // 新しいクラスタイプのスクリプトを追加
@@ -114,7 +78,7 @@ customElements.define('${tagName}', ${scriptName});
 
         await test.step('2. 作成したコンポーネントを配置し、イベントパネルを検証する', async () => {
             await editorHelper.openMoveingHandle('left');
-            const appNode = editorPage.locator('#dom-tree > div[data-node-type="app"]');
+            const appNode = editorPage.locator(`${SELECTORS.editor.domTree} > div[data-node-type="app"]`);
 
             // ツールボックスから作成したコンポーネントをappノードに追加
             const componentNode = await editorHelper.addComponent(tagName, appNode);
@@ -124,11 +88,11 @@ customElements.define('${tagName}', ${scriptName});
 
             // イベントタブに切り替える
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
 
             // イベントコンテナを取得
-            const eventContainer = scriptContainer.locator('event-container');
+            const eventContainer = scriptContainer.locator(SELECTORS.editor.eventContainer);
 
             // @firesで定義したイベントがリストに表示されていることを検証
             const eventRow = eventContainer.locator('.editor-row', { hasText: eventName });
@@ -137,8 +101,8 @@ customElements.define('${tagName}', ${scriptName});
         });
 
         await test.step('3. カスタムイベントにスクリプトを割り当てて動作を検証する', async () => {
-            const scriptContainer = editorPage.locator('script-container');
-            const eventContainer = scriptContainer.locator('event-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
+            const eventContainer = scriptContainer.locator(SELECTORS.editor.eventContainer);
             const eventRow = eventContainer.locator('.editor-row', { hasText: eventName });
 
             // イベント行の「+」ボタンをクリックしてスクリプト追加メニューを開く
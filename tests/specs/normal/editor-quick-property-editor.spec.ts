@@ -1,68 +1,12 @@
-import { test as base, expect, Locator, Page } from '@playwright/test';
+import { Locator } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor } from '../../tools/dashboard-helpers';
-import { EditorHelper } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-        await expect(appRow).toBeVisible({ timeout: 15000 });
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        const editorPage = await openEditor(page, context, appName);
-        await use(editorPage);
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+import { test, expect } from '../../tools/test-fixtures';
+import { waitForIdle } from '../../tools/busy-state';
+import { SELECTORS } from '../../tools/selectors';
 
-test.describe.configure({ mode: 'serial' });
+test.use({ appPrefix: 'quick-editor-test', appKeyPrefix: 'qe-test-key', sharedApp: true });
 
-test.beforeAll(async ({ browser }) => {
-    const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-    const workerIndex = test.info().workerIndex;
-    const storageStatePath = getStorageStatePath(workerIndex);
-
-    const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-    appName = `quick-editor-test-${uniqueId}`.slice(0, 30);
-    appKey = `qe-test-key-${uniqueId}`.slice(0, 30);
-
-    const context = await browser.newContext({ storageState: storageStatePath });
-    const page = await context.newPage();
-    await gotoDashboard(page);
-    await createApp(page, appName, appKey);
-    await context.close();
-});
-
-test.afterAll(async ({ browser }) => {
-    if (appKey) {
-        const workerIndex = test.info().workerIndex;
-        const storageStatePath = getStorageStatePath(workerIndex);
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-        await gotoDashboard(page);
-        await deleteApp(page, appKey);
-        await context.close();
-    }
-});
+test.describe.configure({ mode: 'serial' });
 
 test.describe('クイックプロパティエディタ（QuickPropertyEditor）の高度な連動テスト', () => {
 
@@ -74,19 +18,19 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             await editorHelper.selectNodeInDomTree(buttonNode);
 
             // クイックツールバーがマウントされていることを確認
-            const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
+            const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
             await expect(quickToolbar).toBeAttached({ timeout: 10000 });
         });
 
         let originalBgColor: string;
 
         await test.step('2. ツールバーから背景色を変更（仮適用状態の確認）', async () => {
-            const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
+            const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
             const bgBtn = quickToolbar.locator('button[title*="背景色変更"]');
 
             await bgBtn.dispatchEvent('click');
 
-            const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+            const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
             await expect(modal).toBeVisible();
 
             // 変更前の色を保持
@@ -110,7 +54,7 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
         });
 
         await test.step('3. キャンセルしてロールバックされるか検証', async () => {
-            const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+            const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
 
             // キャンセルボタンをクリックして閉じる
             await modal.locator('button', { hasText: 'キャンセル' }).dispatchEvent('click');
@@ -125,11 +69,11 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
         });
 
         await test.step('4. 再度背景色を変更し、「閉じる (確定)」時の AttributesContainer 同期を検証', async () => {
-            const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
+            const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
             const bgBtn = quickToolbar.locator('button[title*="背景色変更"]');
             await bgBtn.dispatchEvent('click');
 
-            const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+            const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
             await expect(modal).toBeVisible();
 
             // 青色に設定
@@ -185,8 +129,8 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
 
         const propertyContainer = editorHelper.getPropertyContainer();
         const bgEditorColorTextInput = propertyContainer.locator('style-background-editor input[type="text"]').first();
-        const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
-        const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+        const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
+        const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
 
         await test.step('2. クイック背景色エディタを開く', async () => {
             const bgBtn = quickToolbar.locator('button[title*="背景色変更"]');
@@ -246,10 +190,10 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             const containerNode = domTree.locator(`.node[data-node-id="${containerNodeId}"]`);
 
             // 💡 ツールボックスから「HTML Tag」をドラッグしてコンテナに追加するプロセスを手動で確実に行います
-            await editorPage.locator('tool-box-item', { hasText: 'HTML Tag' }).dragTo(containerNode);
+            await editorPage.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(containerNode);
 
             // ダイアログが出現するのを待機
-            const dialog = editorPage.locator('message-box#html-tag-select-dialog').first();
+            const dialog = editorPage.locator(SELECTORS.transient.htmlTagSelectDialog).first();
             await expect(dialog).toBeVisible({ timeout: 5000 });
 
             // 入力欄に独自タグ名「non-flex-tag」を入力してEnterで決定
@@ -266,8 +210,8 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             nonFlexNodeId = await nonFlexNode.getAttribute('data-node-id') as string;
         });
 
-        const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
-        const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+        const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
+        const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
 
         await test.step('2. 属性なし独自要素選択時: flexおよびflexitemのクイック編集ボタンが非活性（disabled）になっていること', async () => {
             await editorHelper.openMoveingHandle('left');
@@ -396,8 +340,8 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             await editorHelper.closeMoveingHandle();
         });
 
-        const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
-        const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+        const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
+        const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
 
         await test.step('2. 要素1を選択してクイック基本情報（テキスト）編集を開き、各種値を書き換える', async () => {
             await editorHelper.openMoveingHandle('left');
@@ -487,7 +431,7 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
 
     test('クイック削除: クイックツールバーからの削除、およびappルートの削除防止ガードが機能すること', async ({ editorPage, editorHelper }) => {
         test.setTimeout(60000);
-        const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
+        const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
 
         await test.step('1. 異常系: 起動直後の初期状態（appが自動選択中）で削除ボタンを押した際、警告が出て削除が防止されること', async () => {
             // 💡 起動直後はデフォルトで最上位の app（application）が選択されています。
@@ -584,8 +528,8 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             await expect(borderEditor).toBeVisible();
         });
 
-        const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
-        const modal = editorPage.locator('#pwappy-quick-editor-root .quick-editor-modal');
+        const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
+        const modal = editorPage.locator(SELECTORS.transient.quickEditorModal);
 
         await test.step('2. クイックツールバーから「ボーダー / 角丸 調整」を開く', async () => {
             const borderBtn = quickToolbar.locator('button[title*="ボーダー / 角丸"]').first();
@@ -639,7 +583,7 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
 
     test('クイック削除時の選択状態フォールバック: トップレベルテンプレートや一般要素を削除した際、自動的にappルートが選択状態になること', async ({ editorPage, editorHelper }) => {
         test.setTimeout(60000);
-        const quickToolbar = editorPage.locator('quick-property-editor .quick-toolbar');
+        const quickToolbar = editorPage.locator(SELECTORS.transient.quickPropertyToolbar);
         const domTree = editorHelper.getDomTree();
 
         let pageNodeId: string;
@@ -674,8 +618,7 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             await expect(buttonNode).toBeHidden({ timeout: 5000 });
 
             // 💡 削除後のエディタ再構築（「処理中」オーバーレイ）が完全に消えるのを確実に待ちます
-            const loading = editorPage.locator('app-container-loading-overlay');
-            await expect(loading).toBeHidden({ timeout: 15000 });
+            await waitForIdle(editorPage, 'editor', { timeout: 15000 });
 
             // 💡 リビルド完了後のDOM安定化のための微小待機
             await editorPage.waitForTimeout(500);
@@ -712,8 +655,7 @@ test.describe('クイックプロパティエディタ（QuickPropertyEditor）
             await expect(pageNode).toBeHidden({ timeout: 5000 });
 
             // 💡 削除後のエディタ再構築（「処理中」オーバーレイ）が完全に消えるのを確実に待ちます
-            const loading = editorPage.locator('app-container-loading-overlay');
-            await expect(loading).toBeHidden({ timeout: 15000 });
+            await waitForIdle(editorPage, 'editor', { timeout: 15000 });
 
             // 💡 リビルド完了後のDOM安定化のための微小待機
             await editorPage.waitForTimeout(500);
@@ -1,51 +1,11 @@
-import { test as base, expect, Page } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor } from '../../tools/dashboard-helpers';
-import { EditorHelper } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    appKey: string;
-    editorHelper: EditorHelper;
-};
-
-// 各テストごとにアプリを作成し、エディタを別タブで開くフィクスチャ
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`del-sync-${uniqueId}`.slice(0, 30));
-    },
-    appKey: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`del-sync-key-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName, appKey }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // アプリを作成し、エディタを新しいタブで開く
-        await createApp(page, appName, appKey);
-        const editorPage = await openEditor(page, context, appName);
-
-        await use(editorPage);
-
-        // テスト終了時のクリーンアップ
-        await editorPage.close();
-        await page.bringToFront();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+import { deleteApp } from '../../tools/dashboard-helpers';
+import { test, expect } from '../../tools/test-fixtures';
+import { waitForIdle } from '../../tools/busy-state';
+import { SELECTORS } from '../../tools/selectors';
+
+// 各テストごとにアプリを作成し、エディタを別タブで開きます
+test.use({ appPrefix: 'del-sync', appKeyPrefix: 'del-sync-key' });
 
 test.describe('エディタ内：バックグラウンドでの削除同期テスト', () => {
 
@@ -61,14 +21,14 @@ test.describe('エディタ内：バックグラウンドでの削除同期テ
             await editorPage.bringToFront();
 
             // API通信を発生させて削除を検知させるため、保存を実行する
-            const menuButton = editorPage.locator('#fab-bottom-menu-box');
+            const menuButton = editorPage.locator(SELECTORS.editor.bottomMenuButton);
             await menuButton.click();
-            const platformBottomMenu = editorPage.locator('#platformBottomMenu');
+            const platformBottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(platformBottomMenu).toBeVisible();
             await platformBottomMenu.getByText('保存', { exact: true }).click();
 
             // アラートにメッセージが出るか確認
-            const alert = editorPage.locator('alert-component');
+            const alert = editorPage.locator(SELECTORS.transient.alert);
             await expect(alert).toBeVisible({ timeout: 15000 });
             await expect(alert).toContainText(/アプリケーションが見つかりません/);
 
@@ -90,7 +50,7 @@ test.describe('エディタ内：バックグラウンドでの削除同期テ
             await editorPage.reload({ waitUntil: 'domcontentloaded' });
 
             // リロード直後の初期化通信でエラーになるため、アラートが表示されるか確認
-            const alert = editorPage.locator('alert-component');
+            const alert = editorPage.locator(SELECTORS.transient.alert);
             await expect(alert).toBeVisible({ timeout: 15000 });
             await expect(alert).toContainText(/アプリケーションが見つかりません/);
         });
@@ -101,30 +61,29 @@ test.describe('エディタ内：バックグラウンドでの削除同期テ
             await page.bringToFront();
 
             // 開いているバージョン（1.0.0）を削除する
-            const versionRow = page.locator('.version-card', { hasText: '1.0.0' }).first();
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: '1.0.0' }).first();
             await versionRow.getByTitle('削除').click();
 
-            const confirmDialog = page.locator('message-box#delete-confirm-general');
+            const confirmDialog = page.locator(SELECTORS.appDetail.deleteConfirm);
             await expect(confirmDialog).toBeVisible();
 
             await confirmDialog.getByRole('button', { name: '削除する' }).click();
 
-            await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
+            await waitForIdle(page, 'dashboard');
         });
 
         await test.step('エディタ画面に戻り、保存操作でバージョン削除が検知されることを確認', async () => {
             await editorPage.bringToFront();
 
             // 保存を実行してAPI通信を発生させる
-            const menuButton = editorPage.locator('#fab-bottom-menu-box');
+            const menuButton = editorPage.locator(SELECTORS.editor.bottomMenuButton);
             await menuButton.click();
-            const platformBottomMenu = editorPage.locator('#platformBottomMenu');
+            const platformBottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(platformBottomMenu).toBeVisible();
             await platformBottomMenu.getByText('保存', { exact: true }).click();
 
             // アラートにメッセージが出るか確認
-            const alert = editorPage.locator('alert-component');
+            const alert = editorPage.locator(SELECTORS.transient.alert);
             await expect(alert).toBeVisible({ timeout: 15000 });
             await expect(alert).toContainText(/バージョンが見つかりません/);
 
@@ -136,15 +95,14 @@ test.describe('エディタ内：バックグラウンドでの削除同期テ
         await test.step('ダッシュボードで現在開いているバージョンを削除する', async () => {
             await page.bringToFront();
 
-            const versionRow = page.locator('.version-card', { hasText: '1.0.0' }).first();
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: '1.0.0' }).first();
             await versionRow.getByTitle('削除').click();
 
-            const confirmDialog = page.locator('message-box#delete-confirm-general');
+            const confirmDialog = page.locator(SELECTORS.appDetail.deleteConfirm);
             await expect(confirmDialog).toBeVisible();
             await confirmDialog.getByRole('button', { name: '削除する' }).click();
 
-            await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
+            await waitForIdle(page, 'dashboard');
         });
 
         await test.step('エディタ画面をリロードし、バージョン削除が検知されることを確認', async () => {
@@ -154,7 +112,7 @@ test.describe('エディタ内：バックグラウンドでの削除同期テ
             await editorPage.reload({ waitUntil: 'domcontentloaded' });
 
             // リロード直後の初期化通信でエラーになるため、アラートが表示されるか確認
-            const alert = editorPage.locator('alert-component');
+            const alert = editorPage.locator(SELECTORS.transient.alert);
             await expect(alert).toBeVisible({ timeout: 15000 });
             await expect(alert).toContainText(/バージョンが見つかりません/);
         });
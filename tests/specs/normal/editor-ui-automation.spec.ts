@@ -1,91 +1,17 @@
-import { test as base, expect, Page, Locator, CDPSession, Dialog } from '@playwright/test';
+import { Page, Locator, CDPSession, Dialog } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, addVersion } from '../../tools/dashboard-helpers';
+import { gotoDashboard, openEditor, addVersion } from '../../tools/dashboard-helpers';
 import { EditorHelper, normalizeWhitespace } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
+import { test, expect } from '../../tools/test-fixtures';
+import { getDialogManager } from '../../tools/dialog-manager';
 import path from 'path';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // 作成済みの共有アプリ詳細画面へ移動
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-        await expect(appRow).toBeVisible({ timeout: 15000 });
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        const editorPage = await openEditor(page, context, appName);
-
-        // クライアント側のアニメーションを強制無効化し、ダイアログ非表示などのアサーションを高速化します
-        await editorPage.evaluate(() => {
-            const style = document.createElement('style');
-            style.innerHTML = `
-                *, *::before, *::after {
-                    transition: none !important;
-                    animation: none !important;
-                    transition-duration: 0s !important;
-                    animation-duration: 0s !important;
-                }
-            `;
-            document.head.appendChild(style);
-        }).catch(() => {});
-
-        await use(editorPage);
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+test.use({ appPrefix: 'ui-auto', appKeyPrefix: 'auto-key', sharedApp: true, disableAnimations: true });
 
 // ファイル内の全describeを1つのシリアルグループに包み込み、1個のアプリを順繰りに使い回します
 test.describe.serial('エディタUI自動化統合テスト', () => {
 
-    // テスト全体の開始前に、アプリを1回だけ作成
-    test.beforeAll(async ({ browser }) => {
-        const workerIndex = test.info().workerIndex;
-        const storageStatePath = getStorageStatePath(workerIndex);
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-
-        appName = `ui-auto-${uniqueId}`.slice(0, 30);
-        appKey = `auto-key-${uniqueId}`.slice(0, 30);
-
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-
-        await gotoDashboard(page);
-        await createApp(page, appName, appKey);
-        await context.close();
-    });
-
-    // すべてのテストが終了した後に、アプリを削除
-    test.afterAll(async ({ browser }) => {
-        if (appKey) {
-            const workerIndex = test.info().workerIndex;
-            const storageStatePath = getStorageStatePath(workerIndex);
-            const context = await browser.newContext({ storageState: storageStatePath });
-            const page = await context.newPage();
-
-            await gotoDashboard(page);
-            await deleteApp(page, appKey);
-            await context.close();
-        }
-    });
-
     /**
      * 共有ヘルパー関数: 指定した入力欄をマウスでドラッグする
      */
@@ -132,11 +58,11 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
         test.beforeEach(async ({ editorPage, editorHelper }) => {
             // 右ハンドルを展開
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
 
             // strict mode violation を回避するため、IDで直接「テスト」タブを指定してクリック
             await expect(async () => {
-                const alert = editorPage.locator('alert-component');
+                const alert = editorPage.locator(SELECTORS.transient.alert);
                 if (await alert.isVisible().catch(() => false)) {
                     await alert.getByRole('button', { name: '閉じる' }).click().catch(() => { });
                 }
@@ -144,11 +70,11 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 await scriptContainer.locator('#tab-test').click({ timeout: 2000 });
             }).toPass({ timeout: 15000, intervals: [1000] });
 
-            await expect(scriptContainer.locator('test-container')).toBeVisible();
+            await expect(scriptContainer.locator(SELECTORS.transient.testContainer)).toBeVisible();
         });
 
         test('テストシナリオの追加・編集・削除ができる', async ({ editorPage }) => {
-            const testContainer = editorPage.locator('test-container');
+            const testContainer = editorPage.locator(SELECTORS.transient.testContainer);
             const scenarioName = '新規ログインテスト';
             const editedName = '編集後ログインテスト';
 
@@ -156,7 +82,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 // モバイル対応: getByRole ではなく クラスセレクタ (.add-btn) でクリックする
                 await testContainer.locator('.add-btn').click();
 
-                const modal = editorPage.locator('test-scenario-editor .modal');
+                const modal = editorPage.locator(SELECTORS.transient.testScenarioEditor);
                 await expect(modal).toBeVisible();
 
                 const senarioNameInput = modal.locator('#scenario-name');
@@ -179,7 +105,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 const scenarioItem = testContainer.locator('.scenario-item', { hasText: scenarioName });
                 await scenarioItem.locator('.action-icon.fa-pen').click();
 
-                const modal = editorPage.locator('test-scenario-editor .modal');
+                const modal = editorPage.locator(SELECTORS.transient.testScenarioEditor);
                 await expect(modal).toBeVisible();
 
                 const senarioNameInput = modal.locator('#scenario-name');
@@ -195,7 +121,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 const scenarioItem = testContainer.locator('.scenario-item', { hasText: editedName });
 
                 // 削除アイコンをクリックし、確認ダイアログをOKする
-                editorPage.once('dialog', dialog => dialog.accept());
+                getDialogManager(editorPage).acceptNext();
                 await scenarioItem.locator('.action-icon.delete').click();
 
                 await expect(scenarioItem).toBeHidden();
@@ -203,7 +129,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
         });
 
         test('APIモックの追加・ON/OFFトグル・削除ができる', async ({ editorPage }) => {
-            const testContainer = editorPage.locator('test-container');
+            const testContainer = editorPage.locator(SELECTORS.transient.testContainer);
             const mockPath = '/api/v1/users';
             const mockName = 'ユーザー取得成功';
 
@@ -255,7 +181,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             await test.step('4. APIモックの削除', async () => {
                 const mockItem = testContainer.locator('.mock-item', { hasText: mockName });
                 // 削除アイコンをクリックし、確認ダイアログをOKする
-                editorPage.once('dialog', dialog => dialog.accept());
+                getDialogManager(editorPage).acceptNext();
                 await mockItem.locator('.action-icon.delete').click();
 
                 await expect(mockItem).toBeHidden();
@@ -278,13 +204,13 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             // 手動保存・復元のフロー
             try {
                 await test.step('1. 新しいスナップショットを保存', async () => {
-                    const menuButton = editorPage.locator('#fab-bottom-menu-box');
+                    const menuButton = editorPage.locator(SELECTORS.editor.bottomMenuButton);
                     await menuButton.click();
 
-                    const platformBottomMenu = editorPage.locator('#platformBottomMenu');
+                    const platformBottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     await platformBottomMenu.getByText('スナップショット').click();
 
-                    const snapshotManager = editorPage.locator('snapshot-manager');
+                    const snapshotManager = editorPage.locator(SELECTORS.transient.snapshotManager);
                     await expect(snapshotManager.locator('.container')).toBeVisible();
 
                     await snapshotManager.getByRole('button', { name: '新規スナップショット' }).click();
@@ -317,13 +243,13 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
 
                 await test.step('3. スナップショットから復元を実行', async () => {
                     await editorHelper.closeMoveingHandle();
-                    const menuButton = editorPage.locator('#fab-bottom-menu-box');
+                    const menuButton = editorPage.locator(SELECTORS.editor.bottomMenuButton);
                     await menuButton.click();
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     await expect(bottomMenu).toBeVisible();
                     await bottomMenu.getByText('スナップショット').click();
 
-                    const snapshotManager = editorPage.locator('snapshot-manager');
+                    const snapshotManager = editorPage.locator(SELECTORS.transient.snapshotManager);
                     const snapshotItem = snapshotManager.locator('.snapshot-item', { hasText: uniqueSnapshotName });
                     const restoreButton = snapshotItem.getByRole('button', { name: '復元' });
 
@@ -382,7 +308,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
 
             await test.step('2. 起動時の復旧ダイアログで「復元する」を選択', async () => {
                 // ダイアログが表示されるのを待つ
-                const restoreDialog = editorPage.locator('message-box', { hasText: '前回正常に終了されなかった可能性' });
+                const restoreDialog = editorPage.locator(SELECTORS.transient.messageBox, { hasText: '前回正常に終了されなかった可能性' });
                 await expect(restoreDialog).toBeVisible({ timeout: 20000 });
 
                 const restoreBtn = restoreDialog.getByRole('button', { name: '復元する' });
@@ -432,7 +358,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             });
 
             await test.step('2. 起動時の復旧ダイアログでオーバーレイをクリックし「破棄」と同じ扱いになることを確認', async () => {
-                const restoreDialog = editorPage.locator('message-box', { hasText: '前回正常に終了されなかった可能性' });
+                const restoreDialog = editorPage.locator(SELECTORS.transient.messageBox, { hasText: '前回正常に終了されなかった可能性' });
                 await expect(restoreDialog).toBeVisible({ timeout: 20000 });
 
                 // オーバーレイをクリックしてキャンセル（破棄）扱いにする
@@ -440,7 +366,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 await overlay.evaluate((el: HTMLElement) => el.click());
 
                 // キャンセル扱いになり、確認ダイアログが表示されることを検証
-                const discardConfirm = editorPage.locator('message-box', { hasText: 'すべてのスナップショットを破棄しますか？' });
+                const discardConfirm = editorPage.locator(SELECTORS.transient.messageBox, { hasText: 'すべてのスナップショットを破棄しますか？' });
                 await expect(discardConfirm).toBeVisible({ timeout: 10000 });
 
                 // 標準アラートの出現によるブロッキングを確実にハンドリングするためダイアログイベントを事前待機
@@ -457,7 +383,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             await test.step('3. スナップショット画面の状態確認', async () => {
                 // toPass を用いて確認ダイアログが完全にDOM・属性レベルで非表示に切り替わるまで再試行待機
                 await expect(async () => {
-                    await expect(editorPage.locator('message-box', { hasText: 'すべてのスナップショットを破棄しますか？' })).toBeHidden({ timeout: 1000 });
+                    await expect(editorPage.locator(SELECTORS.transient.messageBox, { hasText: 'すべてのスナップショットを破棄しますか？' })).toBeHidden({ timeout: 1000 });
                 }).toPass({
                     timeout: 10000,
                     intervals: [500]
@@ -467,12 +393,12 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 // これにより「アプリケーション配下に要素がないときにスターターテンプレートのウィンドウが表示される」ことも間接的に検証・処理される
                 await editorHelper.handleStarterTemplateModal();
 
-                await editorPage.locator('#fab-bottom-menu-box').click({ force: true });
-                const bottomMenu = editorPage.locator('#platformBottomMenu');
+                await editorPage.locator(SELECTORS.editor.bottomMenuButton).click({ force: true });
+                const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                 await expect(bottomMenu).toBeVisible();
                 await bottomMenu.getByText('スナップショット').click();
 
-                const manager = editorPage.locator('snapshot-manager');
+                const manager = editorPage.locator(SELECTORS.transient.snapshotManager);
                 const managerTitle = editorPage.locator('h3', { hasText: 'スナップショット管理' });
                 await expect(managerTitle).toBeVisible();
 
@@ -493,7 +419,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
 
     test.describe('エディタ内：ツアーとチュートリアル機能のテスト', () => {
 
-        test('初回起動時にツアーが表示され、完了できること', async ({ page, context, browserName }) => {
+        test('初回起動時にツアーが表示され、完了できること', async ({ page, context, browserName, appName, appKey }) => {
             // タイムアウトを少し長めに設定して、どこで詰まるか確実にログを残す
             test.setTimeout(120000);
 
@@ -515,10 +441,10 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             let editorPage: Page;
             await test.step('2. エディタを起動し、ツアーが表示されることを確認', async () => {
                 // アプリ詳細画面へ遷移する
-                const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
+                const appRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) }).first();
                 await expect(appRow).toBeVisible({ timeout: 15000 });
                 await appRow.click({ force: true });
-                await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
+                await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
 
                 logTime('openEditor 開始');
                 editorPage = await openEditor(page, context, appName);
@@ -533,7 +459,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                     await editorPage.route('**/*.webm', route => route.abort('blockedbyclient'));
                 }
 
-                const tourGuide = editorPage.locator('app-tour-guide');
+                const tourGuide = editorPage.locator(SELECTORS.transient.tourGuide);
                 logTime('tourGuide visible待機開始');
 
                 try {
@@ -554,7 +480,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             });
 
             await test.step('3. ツアーを進めて完了する', async () => {
-                const tourGuide = editorPage.locator('app-tour-guide');
+                const tourGuide = editorPage.locator(SELECTORS.transient.tourGuide);
 
                 if (browserName === 'webkit') {
                     logTime('WebKitワークアラウンド evaluate 開始');
@@ -651,7 +577,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             });
         });
 
-        test('ツアーを途中で閉じた場合、フラグは立たず、次回リロード時に再表示されること', async ({ page, context }) => {
+        test('ツアーを途中で閉じた場合、フラグは立たず、次回リロード時に再表示されること', async ({ page, context, appName, appKey }) => {
             test.setTimeout(90000);
 
             await test.step('1. セットアップ: ツアー未完了状態にする', async () => {
@@ -665,14 +591,14 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             let editorPage: Page;
             await test.step('2. エディタを起動し、ツアー表示後に「後で見る」を押して閉じる', async () => {
                 // アプリ詳細画面へ遷移する
-                const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
+                const appRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) }).first();
                 await expect(appRow).toBeVisible({ timeout: 15000 });
                 await appRow.click({ force: true });
-                await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
+                await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
 
                 editorPage = await openEditor(page, context, appName);
 
-                const tourGuide = editorPage.locator('app-tour-guide');
+                const tourGuide = editorPage.locator(SELECTORS.transient.tourGuide);
                 await expect(tourGuide).toHaveAttribute('visible', '', { timeout: 15000 });
 
                 const laterBtn = tourGuide.locator('button.btn-skip:has-text("後で見る")');
@@ -706,7 +632,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 await tempHelper.handleSnapshotRestoreDialog();
                 await tempHelper.handleStarterTemplateModal();
 
-                const tourGuide = editorPage.locator('app-tour-guide');
+                const tourGuide = editorPage.locator(SELECTORS.transient.tourGuide);
                 await expect(tourGuide).toHaveAttribute('visible', '', { timeout: 20000 });
             });
 
@@ -716,7 +642,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             });
         });
 
-        test('初回ステップで「今後表示しない」を選択した場合、以降起動してもツアーが表示されないこと', async ({ page, context }) => {
+        test('初回ステップで「今後表示しない」を選択した場合、以降起動してもツアーが表示されないこと', async ({ page, context, appName, appKey }) => {
             test.setTimeout(90000);
 
             await test.step('1. セットアップ', async () => {
@@ -730,14 +656,14 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             let editorPage: Page;
             await test.step('2. エディタ起動後、「今後表示しない」ボタンをクリックする', async () => {
                 // アプリ詳細画面へ遷移する
-                const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
+                const appRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) }).first();
                 await expect(appRow).toBeVisible({ timeout: 15000 });
                 await appRow.click({ force: true });
-                await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
+                await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
 
                 editorPage = await openEditor(page, context, appName);
 
-                const tourGuide = editorPage.locator('app-tour-guide');
+                const tourGuide = editorPage.locator(SELECTORS.transient.tourGuide);
                 await expect(tourGuide).toHaveAttribute('visible', '', { timeout: 15000 });
 
                 const noShowBtn = tourGuide.locator('button.btn-skip:has-text("今後表示しない")');
@@ -760,7 +686,7 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                 // アプリが空の場合はスターターモーダルが表示されるため、スキップ処理を追加
                 await tempHelper.handleStarterTemplateModal();
 
-                const tourGuide = editorPage.locator('app-tour-guide');
+                const tourGuide = editorPage.locator(SELECTORS.transient.tourGuide);
                 await expect(tourGuide).not.toHaveAttribute('visible', '', { timeout: 10000 });
             });
 
@@ -770,16 +696,16 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
             });
         });
 
-        test('メニューからチュートリアルモーダルを開けること', async ({ page, context, browserName }) => {
+        test('メニューからチュートリアルモーダルを開けること', async ({ page, context, browserName, appName, appKey }) => {
             let editorPage: Page;
             await test.step('1. チュートリアルモーダルを開く', async () => {
                 // ダッシュボードに一度遷移させてオリジンを確立してから、アプリケーションの選択を開始します
                 await gotoDashboard(page);
                 // アプリ詳細画面へ遷移する
-                const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
+                const appRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) }).first();
                 await expect(appRow).toBeVisible({ timeout: 15000 });
                 await appRow.click({ force: true });
-                await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
+                await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
 
                 editorPage = await openEditor(page, context, appName);
 
@@ -787,10 +713,10 @@ test.describe.serial('エディタUI自動化統合テスト', () => {
                     await editorPage.route('**/*.webm', route => route.abort('blockedbyclient'));
                 }
 
-                const menuButton = editorPage.locator('#fab-bottom-menu-box');
+                const menuButton = editorPage.locator(SELECTORS.editor.bottomMenuButton);
                 await menuButton.click();
 
-                const bottomMenu = editorPage.locator('#platformBottomMenu');
+                const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                 await expect(bottomMenu).toBeVisible();
 
                 const tutorialMenuItem = bottomMenu.locator('.menu-item', { hasText: 'チュートリアル' });
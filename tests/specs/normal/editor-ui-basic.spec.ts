@@ -1,95 +1,16 @@
-import { test as base, expect, Page, Locator, CDPSession, Dialog } from '@playwright/test';
+import { Page, Locator, Dialog } from '@playwright/test';
 import * as path from 'path';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, addVersion } from '../../tools/dashboard-helpers';
-import { EditorHelper, normalizeWhitespace } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
+import { gotoDashboard, addVersion } from '../../tools/dashboard-helpers';
+import { normalizeWhitespace } from '../../tools/editor-helpers';
+import { test, expect } from '../../tools/test-fixtures';
+import { waitForIdle } from '../../tools/busy-state';
+import { getInputStrategy } from '../../tools/input-strategy';
+import { getDragAndDropGestures } from '../../tools/gestures';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // 作成済みの共有アプリ詳細画面へ移動
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-        await expect(appRow).toBeVisible({ timeout: 15000 });
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        const editorPage = await openEditor(page, context, appName);
-
-        // クライアント側のアニメーションを強制無効化し、ダイアログ非表示などのアサーションを高速化します
-        await editorPage.evaluate(() => {
-            const style = document.createElement('style');
-            style.innerHTML = `
-                *, *::before, *::after {
-                    transition: none !important;
-                    animation: none !important;
-                    transition-duration: 0s !important;
-                    animation-duration: 0s !important;
-                }
-            `;
-            document.head.appendChild(style);
-        }).catch(() => {});
-
-        await use(editorPage);
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
-
-// テスト全体の開始前に、アプリを1回だけ作成する
-test.beforeAll(async ({ browser }) => {
-    const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-
-    // workerIndex を取得
-    const workerIndex = test.info().workerIndex;
-    const storageStatePath = getStorageStatePath(workerIndex);
-
-    const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-    appName = `ui-auto-${uniqueId}`.slice(0, 30);
-    appKey = `auto-key-${uniqueId}`.slice(0, 30);
-
-    // ワーカー固有のセッションファイルを指定してコンテキストを作成
-    const context = await browser.newContext({ storageState: storageStatePath });
-    const page = await context.newPage();
-
-    await gotoDashboard(page);
-    await createApp(page, appName, appKey);
-
-    await context.close();
-});
-
-// すべてのテストが終了した後に、アプリを削除する
-test.afterAll(async ({ browser }) => {
-    if (appKey) {
-        // 現在のワーカーのインデックスを取得
-        const workerIndex = test.info().workerIndex;
-        // ワーカー固有のセッションファイルのパスを取得
-        const storageStatePath = getStorageStatePath(workerIndex);
-
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-
-        await gotoDashboard(page);
-        await deleteApp(page, appKey);
-
-        await context.close();
-    }
-});
+test.use({ appPrefix: 'ui-auto', appKeyPrefix: 'auto-key', sharedApp: true, disableAnimations: true });
 
 /**
  * 共有ヘルパー関数: 指定した入力欄をマウスでドラッグする
@@ -163,21 +84,26 @@ test.describe('エディタ内イベント＆スクリプト機能のUIテスト
     test('スクリプトエラーがある場合、タブ移動と保存がブロックされる', async ({ editorPage, editorHelper }) => {
         const scriptName = 'errorScript';
         const invalidScript = 'const 0a = 1;'; // 不正な変数名
+        const validScript = 'const a = 1;';
         const expectedDialogMessage = 'スクリプトのエラーを修正してください';
 
         await test.step('セットアップ: エラーのあるスクリプトを入力する', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript(scriptName, 'function');
             // ヘルパーメソッドを使って、保存せずに不正なスクリプトを入力
             await editorHelper.fillScriptContent(scriptName, invalidScript);
         });
 
+        await test.step('検証: エディタが不正な箇所（1行目）にエラーを表示している', async () => {
+            await expect(editorHelper.scripts.monaco).toHaveMonacoError({ line: 1 });
+        });
+
         await test.step('検証: 他のタブに移動しようとするとダイアログが表示されブロックされる', async () => {
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             const monacoEditor = scriptContainer.locator('.monaco-editor[role="code"]');
-            const alertDialog = editorPage.locator('alert-component');
+            const alertDialog = editorPage.locator(SELECTORS.transient.alert);
 
             // テスト対象のタブ（イベント、サービスワーカー）
             const tabsToTest = ['イベント', 'サービスワーカー'];
@@ -196,7 +122,7 @@ test.describe('エディタ内イベント＆スクリプト機能のUIテスト
                 await expect(monacoEditor).toBeVisible();
                 // 対応するタブのコンテナが表示されていないことを確認
                 if (tabName === 'イベント') {
-                    await expect(scriptContainer.locator('event-container')).toBeHidden();
+                    await expect(scriptContainer.locator(SELECTORS.editor.eventContainer)).toBeHidden();
                 } else if (tabName === 'サービスワーカー') {
                     await expect(scriptContainer.locator('service-worker-container')).toBeHidden();
                 }
@@ -204,10 +130,10 @@ test.describe('エディタ内イベント＆スクリプト機能のUIテスト
         });
 
         await test.step('検証: 保存しようとするとダイアログが表示されブロックされる', async () => {
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             const monacoEditor = scriptContainer.locator('.monaco-editor[role="code"]');
             const saveButton = scriptContainer.locator('#fab-save');
-            const alertDialog = editorPage.locator('alert-component');
+            const alertDialog = editorPage.locator(SELECTORS.transient.alert);
 
             // 保存ボタンをクリック
             await saveButton.click();
@@ -221,6 +147,11 @@ test.describe('エディタ内イベント＆スクリプト機能のUIテスト
             // エディタ（Monaco）が表示されたままであることを確認
             await expect(monacoEditor).toBeVisible();
         });
+
+        await test.step('検証: スクリプトを修正するとエラーが消える', async () => {
+            await editorHelper.scripts.monaco.setValue(validScript);
+            await expect(editorHelper.scripts.monaco).not.toHaveMonacoError();
+        });
     });
 });
 // =========================================================================
@@ -231,7 +162,7 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
 
     test.beforeEach(async ({ page, context }) => {
         await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
+        await waitForIdle(page, 'editor');
     });
 
     test('要素のコピー＆ペースト：同一ページ内および異なるページ間での複製', async ({ editorPage, editorHelper }) => {
@@ -305,7 +236,7 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
 
         await test.step('2. ゴミ箱の中身を確認', async () => {
             await editorHelper.openMoveingHandle('left');
-            const layoutTrashBtn = editorPage.locator('template-container #fab-trash-box');
+            const layoutTrashBtn = editorPage.locator(`${SELECTORS.editor.templateContainer} #fab-trash-box`);
 
             await expect(async () => {
                 if (!await trashBox.isVisible()) {
@@ -332,7 +263,7 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
                 await expect(async () => {
                     // 1. 閉じてしまっていたら開き直す
                     if (!await trashBox.isVisible()) {
-                        await editorPage.locator('template-container #fab-trash-box').click();
+                        await editorPage.locator(`${SELECTORS.editor.templateContainer} #fab-trash-box`).click();
                     }
 
                     // 2. すでに空になっているならクリック処理は不要（リトライ時の考慮）
@@ -358,7 +289,7 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
             }
 
             // 最後にゴミ箱の外（タイトルなど）をクリックして閉じる
-            await editorPage.locator('template-container .title-bar').click();
+            await editorPage.locator(`${SELECTORS.editor.templateContainer} .title-bar`).click();
             await expect(trashBox).toBeHidden();
         });
     });
@@ -399,9 +330,9 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
         });
     });
 
-    test('ドラッグ＆ドロップ：座標操作による要素の順序入れ替え', async ({ editorPage, editorHelper, isMobile }) => {
+    test('ドラッグ＆ドロップ：座標操作による要素の順序入れ替え', async ({ editorPage, editorHelper }) => {
 
-        test.skip(!!process.env.CI, 'CI環境ではマウス座標によるドラッグ＆ドロップが不安定なためスキップします。');
+        test.skip(config.isCI, 'CI環境ではマウス座標によるドラッグ＆ドロップが不安定なためスキップします。');
 
         await editorHelper.handleSnapshotRestoreDialog();
 
@@ -424,55 +355,21 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
             }, { x, y, color });
         };
 
-        // モバイル環境（Chromium）の場合は CDP を使用してタッチイベントを直接送る
-        let cdpSession: CDPSession | null = null;
-        if (isMobile && editorPage.context().browser()?.browserType().name() === 'chromium') {
-            cdpSession = await editorPage.context().newCDPSession(editorPage);
-        }
-
+        // mobile-chrome では CDP のタッチ操作、PCではマウス操作でドラッグします（送り方は input-strategy.ts の dragAndDrop を参照）
+        const gestures = getDragAndDropGestures(editorPage);
         const pointerAction = {
             down: async (x: number, y: number) => {
                 await drawDebugPoint(x, y, 'red');
-                if (isMobile && cdpSession) {
-                    await cdpSession.send('Input.dispatchTouchEvent', {
-                        type: 'touchStart',
-                        touchPoints: [{ x: Math.round(x), y: Math.round(y) }]
-                    });
-                } else {
-                    await editorPage.mouse.move(x, y);
-                    await editorPage.mouse.down();
-                }
+                await gestures.press({ x, y });
             },
-            move: async (fromX: number, fromY: number, toX: number, toY: number, steps: number = 10) => {
-                const stepX = (toX - fromX) / steps;
-                const stepY = (toY - fromY) / steps;
-
-                for (let i = 1; i <= steps; i++) {
-                    const currentX = fromX + stepX * i;
-                    const currentY = fromY + stepY * i;
-                    if (isMobile && cdpSession) {
-                        await cdpSession.send('Input.dispatchTouchEvent', {
-                            type: 'touchMove',
-                            touchPoints: [{ x: Math.round(currentX), y: Math.round(currentY) }]
-                        });
-                    } else {
-                        await editorPage.mouse.move(currentX, currentY);
-                    }
-                    await editorPage.waitForTimeout(20);
-                }
+            move: async (toX: number, toY: number, steps: number = 10) => {
+                await gestures.moveTo({ x: toX, y: toY }, { steps });
             },
             up: async (x?: number, y?: number) => {
                 if (x !== undefined && y !== undefined) {
                     await drawDebugPoint(x, y, 'blue');
                 }
-                if (isMobile && cdpSession) {
-                    await cdpSession.send('Input.dispatchTouchEvent', {
-                        type: 'touchEnd',
-                        touchPoints: []
-                    });
-                } else {
-                    await editorPage.mouse.up();
-                }
+                await gestures.release();
             }
         };
 
@@ -480,10 +377,10 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
          * ツールボックスからコンポーネントを探し、DOMツリーへドラッグ＆ドロップする内部関数
          */
         const dragComponentFromToolbox = async (componentName: string, targetLocator: Locator) => {
-            const toolbox = editorPage.locator('tool-box');
+            const toolbox = editorPage.locator(SELECTORS.editor.toolBox);
             const toolboxContainer = toolbox.locator('.container');
             const toolboxItem = toolbox.locator(`tool-box-item[data-item-type="${componentName}"]`);
-            const layoutPanel = editorPage.locator('template-container .panel');
+            const layoutPanel = editorPage.locator(`${SELECTORS.editor.templateContainer} .panel`);
 
             await editorHelper.openMoveingHandle('left');
 
@@ -526,9 +423,6 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
 
             const ghostExists = await editorPage.evaluate(() => !!document.querySelector('.custom-drag-image'));
 
-            let currentX = startX;
-            let currentY = startY;
-
             for (let i = 0; i < 100; i++) {
                 const pBox = await layoutPanel.boundingBox();
                 const tBox = await targetLocator.boundingBox();
@@ -540,24 +434,18 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
                 const isTargetVisible = destY > pBox.y + 30 && destY < pBox.y + pBox.height - 30;
 
                 if (isTargetVisible) {
-                    await pointerAction.move(currentX, currentY, destX, destY, 15);
-                    currentX = destX;
-                    currentY = destY;
+                    await pointerAction.move(destX, destY, 15);
                     break;
                 } else {
                     const hoverY = destY >= pBox.y + pBox.height - 30 ? pBox.y + pBox.height - 15 : pBox.y + 15;
-                    await pointerAction.move(currentX, currentY, destX, hoverY, 10);
-                    currentX = destX;
-                    currentY = hoverY;
+                    await pointerAction.move(destX, hoverY, 10);
                     await editorPage.waitForTimeout(200);
                 }
             }
 
             const finalBox = await targetLocator.boundingBox();
             if (finalBox) {
-                await pointerAction.move(currentX, currentY, finalBox.x + 20, finalBox.y + 15, 5);
-                currentX = finalBox.x + 20;
-                currentY = finalBox.y + 15;
+                await pointerAction.move(finalBox.x + 20, finalBox.y + 15, 5);
             }
             await editorPage.waitForTimeout(300);
             await pointerAction.up(finalBox?.x, finalBox?.y);
@@ -570,22 +458,22 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
 
         await test.step('1. ページを追加し、ツールボックスからボタンを2つドラッグ＆ドロップで配置', async () => {
             await editorHelper.addPage();
-            const contentArea = editorPage.locator('template-container .node[data-node-explain="コンテンツ"]');
+            const contentArea = editorPage.locator(`${SELECTORS.editor.templateContainer} .node[data-node-explain="コンテンツ"]`);
 
             await dragComponentFromToolbox('ons-button', contentArea);
             await dragComponentFromToolbox('ons-button', contentArea);
 
-            const buttons = editorPage.locator('template-container .node[data-node-type="ons-button"]');
+            const buttons = editorPage.locator(`${SELECTORS.editor.templateContainer} .node[data-node-type="ons-button"]`);
             await expect(buttons).toHaveCount(2);
             await expect(buttons.nth(0)).toHaveAttribute('data-node-dom-id', 'ons-button2');
             await expect(buttons.nth(1)).toHaveAttribute('data-node-dom-id', 'ons-button1');
         });
 
         await test.step('2. ドラッグ操作による順序反転（再進入スクロール発火版）', async () => {
-            const btnTop = editorPage.locator('template-container .node[data-node-dom-id="ons-button2"]');
-            const btnBottom = editorPage.locator('template-container .node[data-node-dom-id="ons-button1"]');
-            const layoutPanel = editorPage.locator('template-container .panel');
-            const targetInsertPoint = editorPage.locator('template-container .node[data-node-dom-id="ons-button1"] + .node-add-point');
+            const btnTop = editorPage.locator(`${SELECTORS.editor.templateContainer} .node[data-node-dom-id="ons-button2"]`);
+            const btnBottom = editorPage.locator(`${SELECTORS.editor.templateContainer} .node[data-node-dom-id="ons-button1"]`);
+            const layoutPanel = editorPage.locator(`${SELECTORS.editor.templateContainer} .panel`);
+            const targetInsertPoint = editorPage.locator(`${SELECTORS.editor.templateContainer} .node[data-node-dom-id="ons-button1"] + .node-add-point`);
 
             await btnTop.scrollIntoViewIfNeeded();
             const startBox = await btnTop.boundingBox();
@@ -594,9 +482,6 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
             await pointerAction.down(startBox.x + startBox.width / 2, startBox.y + startBox.height / 2);
             await editorPage.waitForTimeout(600);
 
-            let currentX = startBox.x + startBox.width / 2;
-            let currentY = startBox.y + startBox.height / 2;
-
             for (let i = 0; i < 100; i++) {
                 const pBox = await layoutPanel.boundingBox();
                 const tBox = await btnBottom.boundingBox();
@@ -608,15 +493,11 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
                 const isTargetVisible = destY > pBox.y + 30 && destY < pBox.y + pBox.height - 30;
 
                 if (isTargetVisible) {
-                    await pointerAction.move(currentX, currentY, destX, destY, 15);
-                    currentX = destX;
-                    currentY = destY;
+                    await pointerAction.move(destX, destY, 15);
                     break;
                 } else {
                     const hoverY = destY >= pBox.y + pBox.height - 30 ? pBox.y + pBox.height - 15 : pBox.y + 15;
-                    await pointerAction.move(currentX, currentY, destX, hoverY, 10);
-                    currentX = destX;
-                    currentY = hoverY;
+                    await pointerAction.move(destX, hoverY, 10);
                     await editorPage.waitForTimeout(200);
                 }
             }
@@ -624,15 +505,13 @@ test.describe('エディタ内：UI構造操作の高度なテスト', () => {
             const finalBox = await btnBottom.boundingBox();
             if (finalBox) {
                 const finalDestY = finalBox.y + finalBox.height - 5;
-                await pointerAction.move(currentX, currentY, finalBox.x + finalBox.width / 2, finalDestY, 5);
-                currentX = finalBox.x + finalBox.width / 2;
-                currentY = finalDestY;
+                await pointerAction.move(finalBox.x + finalBox.width / 2, finalDestY, 5);
             }
             await editorPage.waitForTimeout(400);
             await pointerAction.up(finalBox?.x, finalBox?.y);
             await editorPage.waitForTimeout(500);
 
-            const finalNodes = editorPage.locator('template-container .node[data-node-type="ons-button"]');
+            const finalNodes = editorPage.locator(`${SELECTORS.editor.templateContainer} .node[data-node-type="ons-button"]`);
             await expect(finalNodes.nth(0)).toHaveAttribute('data-node-dom-id', 'ons-button1');
             await expect(finalNodes.nth(1)).toHaveAttribute('data-node-dom-id', 'ons-button2');
         });
@@ -651,9 +530,9 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
 
         // 1. ドラッグ＆ドロップを実行してダイアログを表示
         await editorHelper.openMoveingHandle('left');
-        await editorPage.locator('tool-box-item', { hasText: 'HTML Tag' }).dragTo(targetLocator);
+        await editorPage.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(targetLocator);
 
-        const dialog = editorPage.locator('message-box#html-tag-select-dialog').first();
+        const dialog = editorPage.locator(SELECTORS.transient.htmlTagSelectDialog).first();
         await expect(dialog).toBeVisible({ timeout: 5000 });
 
         // 2. プリセットから「span」を選択 (preset-tag-button に更新)
@@ -681,9 +560,9 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
         const targetLocator = editorPage.locator(contentAreaSelector);
 
         await editorHelper.openMoveingHandle('left');
-        await editorPage.locator('tool-box-item', { hasText: 'HTML Tag' }).dragTo(targetLocator);
+        await editorPage.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(targetLocator);
 
-        const dialog = editorPage.locator('message-box#html-tag-select-dialog').first();
+        const dialog = editorPage.locator(SELECTORS.transient.htmlTagSelectDialog).first();
         await expect(dialog).toBeVisible();
 
         // 1. 手入力欄にカスタムタグ「section」を入力してEnterで決定
@@ -708,9 +587,9 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
         const targetLocator = editorPage.locator(contentAreaSelector);
 
         await editorHelper.openMoveingHandle('left');
-        await editorPage.locator('tool-box-item', { hasText: 'HTML Tag' }).dragTo(targetLocator);
+        await editorPage.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(targetLocator);
 
-        const dialog = editorPage.locator('message-box#html-tag-select-dialog').first();
+        const dialog = editorPage.locator(SELECTORS.transient.htmlTagSelectDialog).first();
         await expect(dialog).toBeVisible();
 
         // 1. キャンセルボタンをクリック
@@ -731,9 +610,9 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
         const targetLocator = editorPage.locator(contentAreaSelector);
 
         await editorHelper.openMoveingHandle('left');
-        await editorPage.locator('tool-box-item', { hasText: 'HTML Tag' }).dragTo(targetLocator);
+        await editorPage.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(targetLocator);
 
-        const dialog = editorPage.locator('message-box#html-tag-select-dialog').first();
+        const dialog = editorPage.locator(SELECTORS.transient.htmlTagSelectDialog).first();
         await expect(dialog).toBeVisible();
 
         // 1. オーバーレイ（背景）をクリック (evaluateによるクリックでビューポート外エラーを回避)
@@ -754,9 +633,9 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
         const targetLocator = editorPage.locator(contentAreaSelector);
 
         await editorHelper.openMoveingHandle('left');
-        await editorPage.locator('tool-box-item', { hasText: 'HTML Tag' }).dragTo(targetLocator);
+        await editorPage.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(targetLocator);
 
-        const dialog = editorPage.locator('message-box#html-tag-select-dialog').first();
+        const dialog = editorPage.locator(SELECTORS.transient.htmlTagSelectDialog).first();
         await expect(dialog).toBeVisible();
 
         // 1. 不適切な文字列（タグ名に使えない記号など）を入力して追加
@@ -771,7 +650,7 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
         await expect(dialog).toBeHidden();
 
         // 3. バリデーションアラート（alert-component）が立ち上がることを検証
-        const alert = editorPage.locator('alert-component');
+        const alert = editorPage.locator(SELECTORS.transient.alert);
         await expect(alert).toBeVisible();
         await expect(alert).toContainText('タグとして不適切な文字列です');
 
@@ -791,21 +670,18 @@ test.describe('HTMLタグ選択ダイアログ機能のテスト', () => {
 
 test.describe('画面エッジホバーによるパネル自動開閉テスト（モバイル）', () => {
 
-    test.beforeEach(async ({ isMobile, editorHelper, editorPage }) => {
+    test.beforeEach(async ({ isMobile, editorHelper }) => {
         // モバイルのテスト時（isMobile フィクスチャが真）のみ活性化し、PCテスト時は安全にスキップ
         test.skip(!isMobile, 'This test is exclusive to mobile viewports with side panels.');
 
-        // スタート時点では両方のパネルが閉じている状態にする
-        await editorHelper.closeMoveingHandle();
-
-        // 完全に閉じるまで少し待機
-        await editorPage.waitForTimeout(500);
+        // スタート時点では両方のパネルが閉じている状態にする（閉じるアニメーションの完了まで待機します）
+        await editorHelper.ensurePanel('none');
     });
 
-    test('要素のドラッグ中に右端にホバーすると右パネルが自動展開される', async ({ editorPage }) => {
-        const appContainer = editorPage.locator('app-container');
+    test('要素のドラッグ中に右端にホバーすると右パネルが自動展開される', async ({ editorPage, editorHelper }) => {
+        const appContainer = editorPage.locator(SELECTORS.editor.appContainer);
         const rightEdgeTrigger = appContainer.locator('.edge-trigger.right');
-        const scriptContainer = editorPage.locator('script-container');
+        const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
 
         await test.step('1. ドラッグの開始状態をシミュレートする', async () => {
             // AppContainer にドラッグ開始を認識させるため、グローバル変数とイベントを発行
@@ -819,15 +695,8 @@ test.describe('画面エッジホバーによるパネル自動開閉テスト
         });
 
         await test.step('2. 画面の右端にマウスポインター（タッチ）を移動してホバーする', async () => {
-            const viewport = editorPage.viewportSize();
-            if (!viewport) throw new Error('Viewport size not set');
-
-            // 画面の右端（幅の10px手前）、高さの中央にポインターを移動
-            const targetX = viewport.width - 10;
-            const targetY = viewport.height / 2;
-
-            // マウス移動により handleGlobalDragMove をトリガー
-            await editorPage.mouse.move(targetX, targetY);
+            // 画面の右端（幅の10px手前）、高さの中央にポインターを移動して handleGlobalDragMove をトリガー
+            await editorHelper.gestures.edgeDrag('right', { dwellMs: 0 });
 
             // 右のトリガーが hover 状態になるか検証
             await expect(rightEdgeTrigger).toHaveClass(/hover/);
@@ -852,10 +721,10 @@ test.describe('画面エッジホバーによるパネル自動開閉テスト
         });
     });
 
-    test('要素のドラッグ中に左端にホバーすると左パネルが自動展開される', async ({ editorPage }) => {
-        const appContainer = editorPage.locator('app-container');
+    test('要素のドラッグ中に左端にホバーすると左パネルが自動展開される', async ({ editorPage, editorHelper }) => {
+        const appContainer = editorPage.locator(SELECTORS.editor.appContainer);
         const leftEdgeTrigger = appContainer.locator('.edge-trigger.left');
-        const templateContainer = editorPage.locator('template-container');
+        const templateContainer = editorPage.locator(SELECTORS.editor.templateContainer);
 
         await test.step('1. ドラッグの開始状態をシミュレートする', async () => {
             await editorPage.evaluate(() => {
@@ -867,14 +736,8 @@ test.describe('画面エッジホバーによるパネル自動開閉テスト
         });
 
         await test.step('2. 画面の左端にマウスポインター（タッチ）を移動してホバーする', async () => {
-            const viewport = editorPage.viewportSize();
-            if (!viewport) throw new Error('Viewport size not set');
-
             // 画面の左端（10px）、高さの中央にポインターを移動
-            const targetX = 10;
-            const targetY = viewport.height / 2;
-
-            await editorPage.mouse.move(targetX, targetY);
+            await editorHelper.gestures.edgeDrag('left', { dwellMs: 0 });
 
             // 左のトリガーが hover 状態になるか検証
             await expect(leftEdgeTrigger).toHaveClass(/hover/);
@@ -940,8 +803,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
             await editorHelper.importProjectFile(downloadPath);
 
             // インポート後のオーバーレイ非表示を待機
-            const loading = editorPage.locator('app-container-loading-overlay');
-            await expect(loading).toBeHidden({ timeout: 20000 });
+            await waitForIdle(editorPage, 'editor', { timeout: 20000 });
 
             await editorPage.waitForTimeout(2000);
         });
@@ -961,12 +823,12 @@ test.describe('プロジェクトのバックアップ・インポート統合
         await test.step('5. 検証：インポート直前の自動スナップショットが作成されていること', async () => {
             await editorHelper.closeMoveingHandle();
             // 下部メニューの操作
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible();
             await bottomMenu.getByText('スナップショット').click();
 
-            const snapshotManager = editorPage.locator('snapshot-manager');
+            const snapshotManager = editorPage.locator(SELECTORS.transient.snapshotManager);
             await expect(snapshotManager.locator('.snapshot-item', { hasText: '自動保存 - インポート実行前' })).toBeVisible();
         });
     });
@@ -1038,7 +900,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
             const propertyContainer = editorHelper.getPropertyContainer();
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
             await editorHelper.setMonacoValue(styleEditor, 'element.style {\n    height: 2000px;\n}');
 
@@ -1097,7 +959,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
     });
 
     test('iPhone 15等ノッチ付きデバイス選択時、プレビューの html 要素に onsflag-iphonex 属性が正しく連動すること', async ({ editorPage, editorHelper }) => {
-        const platformSwitcher = editorPage.locator('platform-switcher');
+        const platformSwitcher = editorPage.locator(SELECTORS.editor.platformSwitcher);
 
         // iframeの html 要素を特定
         const previewFrame = editorHelper.getPreviewFrame();
@@ -1107,7 +969,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
             // メニューを開く
             await platformSwitcher.locator('.screen-rotete-container').click({ force: true });
 
-            const menu = platformSwitcher.locator('#platformEditMenu');
+            const menu = platformSwitcher.locator(SELECTORS.transient.platformEditMenu);
             await expect(menu).toBeVisible();
 
             const deviceSelect = menu.locator('select#device-type');
@@ -1126,7 +988,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
         });
 
         await test.step('3. ラジオボタンで「横」を選択し、横画面用の属性に切り替わることを検証', async () => {
-            const menu = platformSwitcher.locator('#platformEditMenu');
+            const menu = platformSwitcher.locator(SELECTORS.transient.platformEditMenu);
 
             // 💡 HTML定義から特定した横画面のラジオボタン（またはラベル）をチェックします
             // ラジオボタン自体がスタイル調整等で隠れている場合を考慮し force: true を指定
@@ -1141,7 +1003,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
         });
 
         await test.step('4. ノッチなしのモデル（iPhone 5/SE）に切り替えた場合、属性が完全にクリアされることを検証', async () => {
-            const menu = platformSwitcher.locator('#platformEditMenu');
+            const menu = platformSwitcher.locator(SELECTORS.transient.platformEditMenu);
             const deviceSelect = menu.locator('select#device-type');
 
             // iPhone 5/SE に切り替え
@@ -1154,7 +1016,7 @@ test.describe('プロジェクトのバックアップ・インポート統合
         });
 
         await test.step('5. クリーンアップ: 縦向きに戻して詳細メニューを閉じる', async () => {
-            const menu = platformSwitcher.locator('#platformEditMenu');
+            const menu = platformSwitcher.locator(SELECTORS.transient.platformEditMenu);
 
             // 縦画面ラジオボタンをチェックして向きをデフォルトに戻す
             const portraitRadio = menu.locator('input#orientation-portrait');
@@ -1170,11 +1032,11 @@ test.describe('プロジェクトのバックアップ・インポート統合
 
 test.describe('履歴管理（Undo/Redo）のステップバック検証', () => {
 
-    test('編集アクションが1ステップずつ正確に元に戻り、やり直しができること（スタック飛びの解消検証）', async ({ editorPage, editorHelper, isMobile }) => {
+    test('編集アクションが1ステップずつ正確に元に戻り、やり直しができること（スタック飛びの解消検証）', async ({ editorPage, editorHelper }) => {
         const previewSelector = 'ons-button';
-        const isMac = editorPage.context().browser()?.browserType().name() === 'webkit' || process.platform === 'darwin';
-        const undoKey = isMac ? 'Meta+z' : 'Control+z';
-        const redoKey = isMac ? 'Meta+Shift+z' : 'Control+y';
+        const input = getInputStrategy(editorPage);
+        const undoKey = input.shortcut('z');
+        const redoKey = input.modifier === 'Meta' ? input.shortcut('Shift+z') : input.shortcut('y');
 
         // 💡 プラットフォームのコンテナ監視用ログ
         const logState = async (stepTag: string) => {
@@ -1255,10 +1117,8 @@ test.describe('履歴管理（Undo/Redo）のステップバック検証', () =>
         });
 
         await test.step('5. 2回目の元に戻す(Undo)操作 [UIボタンクリック]: 初期状態（Button）に戻ることを検証', async () => {
-            if(isMobile){
-                // 左側パネルを開く
-                await editorHelper.openMoveingHandle('left');
-            }
+            // 左側パネルを開く
+            await editorHelper.ensurePanel('left');
             // 💡 同様に 300ms 安定化を待ったのち、画面上の「元に戻す」ボタンをクリック
             await editorPage.waitForTimeout(300);
             const undoButton = editorPage.locator('button[title*="元に戻す"]').first();
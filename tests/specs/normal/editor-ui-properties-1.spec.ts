@@ -1,94 +1,13 @@
-import { test as base, expect, Page, Locator, CDPSession, Dialog } from '@playwright/test';
+import { Page, Locator, CDPSession, Dialog } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, addVersion } from '../../tools/dashboard-helpers';
-import { EditorHelper, normalizeWhitespace } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
+import { addVersion } from '../../tools/dashboard-helpers';
+import { normalizeWhitespace } from '../../tools/editor-helpers';
+import { test, expect } from '../../tools/test-fixtures';
+import { getDialogManager } from '../../tools/dialog-manager';
+import { getInputStrategy } from '../../tools/input-strategy';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // 作成済みの共有アプリ詳細画面へ移動
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-
-        // アプリケーションカードが出現するまで、必要に応じてリロードを挟みながら待機
-        await expect(async () => {
-            const count = await appRow.count();
-            if (count === 0) {
-                // カードが見つからない場合は、ダッシュボードの表示を更新して再検索を試みます
-                await page.reload({ waitUntil: 'domcontentloaded' }).catch(() => { });
-                await page.locator('dashboard-loading-overlay').waitFor({ state: 'hidden', timeout: 5000 }).catch(() => { });
-            }
-            await expect(appRow).toBeVisible({ timeout: 2000 });
-        }).toPass({
-            timeout: 30000,     // 最大30秒間リトライを繰り返す
-            intervals: [3000]   // リロード後の表示を考慮し、3秒間隔でリトライ
-        });
-
-        // 確実に対象のアプリ詳細画面を開く
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        const editorPage = await openEditor(page, context, appName);
-        await use(editorPage);
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
-
-// テスト全体の開始前に、アプリを1回だけ作成する
-test.beforeAll(async ({ browser }) => {
-    const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-
-    // workerIndex を取得
-    const workerIndex = test.info().workerIndex;
-    const storageStatePath = getStorageStatePath(workerIndex);
-
-    const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-    appName = `ui-prop1-${uniqueId}`.slice(0, 30);
-    appKey = `prop1-key-${uniqueId}`.slice(0, 30);
-
-    // ワーカー固有のセッションファイルを指定してコンテキストを作成
-    const context = await browser.newContext({ storageState: storageStatePath });
-    const page = await context.newPage();
-
-    await gotoDashboard(page);
-    await createApp(page, appName, appKey);
-
-    await context.close();
-});
-
-// すべてのテストが終了した後に、アプリを削除する
-test.afterAll(async ({ browser }) => {
-    if (appKey) {
-        // 現在のワーカーのインデックスを取得
-        const workerIndex = test.info().workerIndex;
-        // ワーカー固有のセッションファイルのパスを取得
-        const storageStatePath = getStorageStatePath(workerIndex);
-
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-
-        await gotoDashboard(page);
-        await deleteApp(page, appKey);
-
-        await context.close();
-    }
-});
+test.use({ appPrefix: 'ui-prop1', appKeyPrefix: 'prop1-key', sharedApp: true });
 
 /**
  * 共有ヘルパー関数: 指定した入力欄をマウスでドラッグする（ハイブリッド動作版）
@@ -171,9 +90,9 @@ test.describe('エディタ内機能のテスト (前半)', () => {
 
         await test.step('検証: DOMツリーのノード選択に応じてプロパティ表示が追従すること', async () => {
             await editorHelper.openMoveingHandle('left');
-            const domTree = editorPage.locator('#dom-tree');
+            const domTree = editorPage.locator(SELECTORS.editor.domTree);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             const propertyIdInput = propertyContainer.locator('input[data-attribute-type="domId"]');
 
             await editorHelper.openMoveingHandle('left');
@@ -191,8 +110,8 @@ test.describe('エディタ内機能のテスト (前半)', () => {
 
         await test.step('検証: 属性(text)の変更がプレビューに反映されること', async () => {
             editorHelper.closeMoveingHandle();
-            const propertyTextInput = editorPage.locator('property-container input[data-attribute-type="text"]');
-            const previewButton = editorPage.locator('#ios-container #renderzone').contentFrame().locator('ons-button');
+            const propertyTextInput = editorPage.locator(`${SELECTORS.editor.propertyContainer} input[data-attribute-type="text"]`);
+            const previewButton = editorPage.locator(SELECTORS.editor.renderzone).contentFrame().locator('ons-button');
 
             await editorHelper.openMoveingHandle('right');
             await expect(propertyTextInput).toBeEditable();
@@ -203,20 +122,20 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: スタイル(CSS)の変更がプレビューに反映されること', async () => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await propertyContainer.getByText('スタイル', { exact: true }).click();
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             await styleEditor.locator('div:nth-child(2) > span > .mtk1').click();
-            await editorPage.keyboard.press('Control+A');
+            await getInputStrategy(editorPage).selectAll();
             await editorPage.keyboard.press('Backspace');
 
             const styleValue = 'element.style {\n    background : red;\n}';
             await editorHelper.setMonacoValue(styleEditor, styleValue);
 
-            const previewButton = editorPage.locator('#ios-container #renderzone').contentFrame().locator('ons-button');
+            const previewButton = editorPage.locator(SELECTORS.editor.renderzone).contentFrame().locator('ons-button');
             await expect(previewButton).toHaveCSS('background-color', 'rgb(255, 0, 0)');
         });
     });
@@ -234,8 +153,8 @@ test.describe('エディタ内機能のテスト (前半)', () => {
 
         await test.step('検証: 属性の追加、値の変更、空文字設定、クリアボタンの動作', async () => {
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
-            const previewButton = editorPage.locator('#ios-container #renderzone').contentFrame().locator('ons-button');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
+            const previewButton = editorPage.locator(SELECTORS.editor.renderzone).contentFrame().locator('ons-button');
 
             await expect(propertyContainer).toBeVisible();
 
@@ -272,7 +191,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
             await expect(targetInput).toHaveValue('');
             await expect(previewButton).toHaveAttribute(attrName, '');
 
-            await expect(editorPage.locator('#attributeList')).toBeHidden();
+            await expect(editorPage.locator(SELECTORS.transient.attributeList)).toBeHidden();
 
             const clearButton = targetInput.locator('+ .clear-button');
             await expect(clearButton).toBeEnabled();
@@ -284,7 +203,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: 属性定義自体を削除できること', async () => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             const editAttrButton = propertyContainer.getByTitle('属性を編集');
             await expect(editAttrButton).toBeVisible();
@@ -306,7 +225,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
             await expect(editAttrButton).toBeVisible();
             await editAttrButton.click();
 
-            const attrList = propertyContainer.locator('#attributeList');
+            const attrList = propertyContainer.locator(SELECTORS.transient.attributeList);
             await expect(attrList).toBeVisible();
 
             const deleteTargetContainer = attrList.locator('div', { hasText: attrName }).locator('..');
@@ -314,7 +233,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
 
             await expect(deleteIcon).toBeVisible();
 
-            editorPage.once('dialog', dialog => dialog.accept());
+            getDialogManager(editorPage).acceptNext();
             await deleteIcon.click();
 
             const finalDeleteButton = editorPage.getByRole('button', { name: '削除' });
@@ -338,8 +257,8 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: 属性の値の変更、空文字設定、クリアができること', async () => {
-            const propertyContainer = editorPage.locator('property-container');
-            const previewButton = editorPage.locator('#ios-container #renderzone').contentFrame().locator('ons-button');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
+            const previewButton = editorPage.locator(SELECTORS.editor.renderzone).contentFrame().locator('ons-button');
             const targetInput = propertyContainer.locator(`input[data-attribute-type="${attrName}"]`);
             await expect(targetInput).toBeVisible();
             await expect(targetInput).toBeEditable();
@@ -353,8 +272,8 @@ test.describe('エディタ内機能のテスト (前半)', () => {
             await expect(targetInput).toHaveValue('');
             await expect(previewButton).toHaveAttribute(attrName, '');
 
-            await editorPage.locator('property-container').click();
-            await expect(editorPage.locator('#attributeList')).toBeHidden();
+            await editorPage.locator(SELECTORS.editor.propertyContainer).click();
+            await expect(editorPage.locator(SELECTORS.transient.attributeList)).toBeHidden();
 
             const clearButton = targetInput.locator('+ .clear-button');
             await expect(clearButton).toBeEnabled();
@@ -367,15 +286,15 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: 属性定義自体を削除できること', async () => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             await propertyContainer.getByTitle('属性を編集').click();
-            const attrList = propertyContainer.locator('#attributeList');
+            const attrList = propertyContainer.locator(SELECTORS.transient.attributeList);
             await expect(attrList).toBeVisible();
 
             const deleteTargetContainer = attrList.locator('div', { hasText: attrName }).locator('..');
             await deleteTargetContainer.locator('> .edit-icon > .fa-solid').click();
-            editorPage.once('dialog', dialog => dialog.accept());
+            getDialogManager(editorPage).acceptNext();
             await editorPage.getByRole('button', { name: '削除' }).click();
 
             await expect(propertyContainer.locator(`input[data-attribute-type="${attrName}"]`)).toBeHidden();
@@ -394,7 +313,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
 
         await test.step('検証: 「要素に」属性を追加するとUIがハイライトされる', async () => {
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             const editAttrButton = propertyContainer.getByTitle('属性を編集');
             await expect(editAttrButton).toBeVisible();
@@ -430,7 +349,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: 「タグに」同名属性を追加するとハイライトが消える', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             const targetInput = propertyContainer.locator(`input[data-attribute-type="${attrName}"]`);
 
             await expect(targetInput).toBeVisible();
@@ -476,7 +395,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
     test('エディタ内で新しいページを追加できる', async ({ editorPage, editorHelper }) => {
         const newPageExplain = 'ページ';
         await editorHelper.addPage();
-        await expect(editorPage.locator('#dom-tree > .node[data-node-type="page"]')).toHaveCount(1);
+        await expect(editorPage.locator(`${SELECTORS.editor.domTree} > .node[data-node-type="page"]`)).toHaveCount(1);
         await editorHelper.expectPageInTemplateList(newPageExplain);
     });
 
@@ -494,7 +413,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         await editorHelper.openAttributeEditor();
         await editorHelper.addAttributeDefinition({ name: attrName, template: 'input[checkbox]', scope: 'tag' });
 
-        const previewButton = editorPage.locator('#ios-container #renderzone').contentFrame().locator('ons-button');
+        const previewButton = editorPage.locator(SELECTORS.editor.renderzone).contentFrame().locator('ons-button');
         const targetInput = editorPage.locator(`input[data-attribute-type="${attrName}"]`);
         await targetInput.check();
         await expect(previewButton).toHaveAttribute(attrName, '');
@@ -625,7 +544,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
             await targetInput.press('Tab');
             await editorHelper.expectPreviewElementAttribute({ selector: previewSelector, attributeName: attrName, value: '' });
 
-            await expect(editorPage.locator('#attributeList')).toBeHidden();
+            await expect(editorPage.locator(SELECTORS.transient.attributeList)).toBeHidden();
 
             const clearButton = targetInput.locator('+ .clear-button');
             await expect(clearButton).toBeEnabled();
@@ -870,12 +789,12 @@ test.describe('エディタ内機能のテスト (前半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
         await test.step('検証: デフォルト状態でstyle-spacingが表示されていること', async () => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             const attributeTypes = await propertyContainer.locator('[data-attribute-type]').evaluateAll(els => {
                 const types = els.map(el => el.getAttribute('data-attribute-type')).filter(t => t !== null);
@@ -887,13 +806,13 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('操作: 属性編集モーダルを開き、style-spacingをドラッグ＆ドロップで並び替える', async () => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             const editAttrButton = propertyContainer.getByTitle('属性を編集');
             await expect(editAttrButton).toBeVisible();
             await editAttrButton.click();
 
-            const attrList = editorPage.locator('#attributeList');
+            const attrList = editorPage.locator(SELECTORS.transient.attributeList);
             await expect(attrList).toBeVisible();
 
             const spacingItem = attrList.locator('div.attribute-item[data-attribute-key="style-spacing"]').first();
@@ -950,7 +869,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: 並び替え後、style-spacingが移動した位置に保持されていること', async () => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             const attributeTypes = await propertyContainer.locator('[data-attribute-type]').evaluateAll(els => {
                 const types = els.map(el => el.getAttribute('data-attribute-type')).filter(t => t !== null);
@@ -978,12 +897,12 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: 上下キーによる即時切り替え', async () => {
-            const topContainer = editorPage.locator('.top-container');
+            const topContainer = editorPage.locator(SELECTORS.transient.topContainer);
             const selectBox = topContainer.locator('.select');
 
             await selectBox.click();
 
-            const topTemplateListContainer = editorPage.locator('#top-template-list');
+            const topTemplateListContainer = editorPage.locator(SELECTORS.transient.topTemplateList);
             await expect(topTemplateListContainer).toBeVisible({ timeout: 5000 });
 
             const items = topTemplateListContainer.locator('.top-template-item');
@@ -1014,12 +933,12 @@ test.describe('エディタ内機能のテスト (前半)', () => {
         });
 
         await test.step('検証: Escapeによるキャンセル（閉じる動作）', async () => {
-            const topContainer = editorPage.locator('.top-container');
+            const topContainer = editorPage.locator(SELECTORS.transient.topContainer);
             const selectBox = topContainer.locator('.select');
 
             await selectBox.click();
 
-            const topTemplateListContainer = editorPage.locator('#top-template-list');
+            const topTemplateListContainer = editorPage.locator(SELECTORS.transient.topTemplateList);
             await expect(topTemplateListContainer).toBeVisible({ timeout: 5000 });
 
             await editorPage.keyboard.press('Escape');
@@ -1035,7 +954,7 @@ test.describe('エディタ内機能のテスト (前半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
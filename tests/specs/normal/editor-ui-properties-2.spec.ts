@@ -1,96 +1,13 @@
-import { test as base, expect, Page, Locator, CDPSession, Dialog } from '@playwright/test';
+import { Page, Locator, CDPSession, Dialog } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, addVersion } from '../../tools/dashboard-helpers';
-import { EditorHelper, normalizeWhitespace } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
+import { gotoDashboard, addVersion } from '../../tools/dashboard-helpers';
+import { normalizeWhitespace, MonacoDriver } from '../../tools/editor-helpers';
+import { test, expect } from '../../tools/test-fixtures';
 import * as path from 'path';
 import * as fs from 'fs';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // 作成済みの共有アプリ詳細画面へ移動
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-        await expect(appRow).toBeVisible({ timeout: 15000 });
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        const editorPage = await openEditor(page, context, appName);
-
-        // クライアント側のアニメーションを強制無効化し、ダイアログ非表示などのアサーションを高速化します
-        await editorPage.evaluate(() => {
-            const style = document.createElement('style');
-            style.innerHTML = `
-                *, *::before, *::after {
-                    transition: none !important;
-                    animation: none !important;
-                    transition-duration: 0s !important;
-                    animation-duration: 0s !important;
-                }
-            `;
-            document.head.appendChild(style);
-        }).catch(() => { });
-
-        await use(editorPage);
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
-
-// テスト全体の開始前に、アプリを1回だけ作成する
-test.beforeAll(async ({ browser }) => {
-    const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-
-    // workerIndex を取得
-    const workerIndex = test.info().workerIndex;
-    const storageStatePath = getStorageStatePath(workerIndex);
-
-    const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-    appName = `ui-auto-${uniqueId}`.slice(0, 30);
-    appKey = `auto-key-${uniqueId}`.slice(0, 30);
-
-    // ワーカー固有のセッションファイルを指定してコンテキストを作成
-    const context = await browser.newContext({ storageState: storageStatePath });
-    const page = await context.newPage();
-
-    await gotoDashboard(page);
-    await createApp(page, appName, appKey);
-
-    await context.close();
-});
-
-// すべてのテストが終了した後に、アプリを削除する
-test.afterAll(async ({ browser }) => {
-    if (appKey) {
-        // 現在のワーカーのインデックスを取得
-        const workerIndex = test.info().workerIndex;
-        // ワーカー固有のセッションファイルのパスを取得
-        const storageStatePath = getStorageStatePath(workerIndex);
-
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-
-        await gotoDashboard(page);
-        await deleteApp(page, appKey);
-
-        await context.close();
-    }
-});
+test.use({ appPrefix: 'ui-auto', appKeyPrefix: 'auto-key', sharedApp: true, disableAnimations: true });
 
 /**
  * 共有ヘルパー関数: 指定した入力欄をマウスでドラッグする（ハイブリッド動作版）
@@ -169,7 +86,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -234,10 +151,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
 
         await test.step('異常系1: max-widthが記述されていてもwidthが引きずられないことの干渉検証', async ({ }) => {
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const targetStyle = 'element.style {\n    max-width: 500px;\n    max-height: 400px;\n}';
@@ -260,10 +177,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('異常系2: セミコロンが欠落した手動CSSが存在してもシステムがクラッシュしないことの検証', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const brokenStyle = 'element.style {\n    width: 300px\n}';
@@ -301,7 +218,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -323,10 +240,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('3. 正常系: 既存のスタイル設定と競合せず、追記・維持されること', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
 
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const presetStyle = 'element.style {\n    color: rgb(0, 128, 0);\n    padding: 15px;\n}';
@@ -377,10 +294,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('5. 異常系: セミコロンのない崩れた手動スタイルが存在しても、クラッシュせずに解析・描画されること', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const brokenStyle = 'element.style {\n    box-shadow: 2px 2px 2px black\n}';
@@ -401,7 +318,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -524,7 +441,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -572,10 +489,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('異常系: 他のスタイルが既に存在する場合、上書き・破壊せずに更新できること', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const presetStyle = 'element.style {\n    color: rgb(255, 255, 255);\n    padding: 20px;\n}';
@@ -598,10 +515,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('異常系: セミコロンのない崩れた手動スタイルがあっても、クラッシュせずに解析できること', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const brokenStyle = 'element.style {\n    background-image: url("images/icon-192x192.webp")\n}';
@@ -698,7 +615,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -732,7 +649,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -768,7 +685,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -808,7 +725,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -819,20 +736,8 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             await fontSizeInput.fill('16px');
             await fontSizeInput.blur();
 
-            await fontSizeInput.evaluate((el: HTMLInputElement) => {
-                el.focus();
-
-                const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                Object.defineProperty(touchStart, 'touches', { value: [{ clientX: 100, clientY: 200 }] });
-                el.dispatchEvent(touchStart);
-
-                const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                Object.defineProperty(touchMove, 'touches', { value: [{ clientX: 150, clientY: 200 }] });
-                window.dispatchEvent(touchMove);
-
-                const touchEnd = new Event('touchend', { bubbles: true, cancelable: true });
-                window.dispatchEvent(touchEnd);
-            });
+            await fontSizeInput.focus();
+            await editorHelper.gestures.touchDrag(fontSizeInput, { dx: 50, dy: 0 });
 
             const val = parseInt(await fontSizeInput.inputValue());
             expect(val).toBeGreaterThan(16);
@@ -846,7 +751,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -862,22 +767,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
                 const bgAlphaBadge = targetInputPanel.locator('.drag-badge[data-drag-type="bg-alpha"]');
                 const elementOpacityBadge = targetInputPanel.locator('.drag-badge[data-drag-type="element-opacity"]');
 
-                await bgAlphaBadge.evaluate((el: HTMLElement) => {
-                    const rect = el.getBoundingClientRect();
-                    const startX = rect.left + rect.width / 2;
-                    const startY = rect.top + rect.height / 2;
-
-                    const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchStart, 'touches', { value: [{ clientX: startX, clientY: startY }] });
-                    el.dispatchEvent(touchStart);
-
-                    const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchMove, 'touches', { value: [{ clientX: startX - 50, clientY: startY }] });
-                    window.dispatchEvent(touchMove);
-
-                    const touchEnd = new Event('touchend', { bubbles: true, cancelable: true });
-                    window.dispatchEvent(touchEnd);
-                });
+                await editorHelper.gestures.touchDrag(bgAlphaBadge, { dx: -50, dy: 0 });
 
                 await expect(async () => {
                     const text = await bgAlphaBadge.innerText();
@@ -885,23 +775,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
                     expect(val).toBeLessThan(100);
                 }).toPass({ timeout: 5000 });
 
-                await elementOpacityBadge.evaluate((el: HTMLElement) => {
-                    const rect = el.getBoundingClientRect();
-                    const startX = rect.left + rect.width / 2;
-                    const startY = rect.top + rect.height / 2;
-
-                    const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchStart, 'touches', { value: [{ clientX: startX, clientY: startY }] });
-                    el.dispatchEvent(touchStart);
-
-                    const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchMove, 'touches', { value: [{ clientX: startX - 50, clientY: startY }] });
-                    window.dispatchEvent(touchMove);
-
-                    const touchEnd = new Event('touchend', { bubbles: true, composed: true });
-                    Object.defineProperty(touchEnd, 'changedTouches', { value: [{ clientX: startX - 50, clientY: startY }] });
-                    window.dispatchEvent(touchEnd);
-                });
+                await editorHelper.gestures.touchDrag(elementOpacityBadge, { dx: -50, dy: 0 });
 
                 await expect(async () => {
                     const text = await elementOpacityBadge.innerText();
@@ -923,7 +797,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -983,10 +857,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('5. 異常系: 他のスタイルが既に存在する場合、上書き・破壊せずに更新できること', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const presetStyle = 'element.style {\n    color: rgb(0, 128, 0);\n    padding: 12px;\n}';
@@ -1009,10 +883,10 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         });
 
         await test.step('6. 異常系: セミコロンのない崩れた手動スタイルがあっても、クラッシュせずに解析できること', async ({ }) => {
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'スタイル');
 
-            const styleEditor = propertyContainer.locator('#style-container > .monaco-editor');
+            const styleEditor = propertyContainer.locator(SELECTORS.transient.styleEditor);
             await expect(styleEditor).toBeVisible();
 
             const brokenStyle = 'element.style {\n    border-radius: 8px\n}';
@@ -1032,7 +906,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -1051,24 +925,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
                 await radiusInput.click({ force: true });
                 await editorPage.waitForTimeout(200);
 
-                await radiusInput.evaluate((el: HTMLInputElement) => {
-                    el.focus();
-
-                    const rect = el.getBoundingClientRect();
-                    const startX = rect.left + rect.width / 2;
-                    const startY = rect.top + rect.height / 2;
-
-                    const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchStart, 'touches', { value: [{ clientX: startX, clientY: startY }] });
-                    el.dispatchEvent(touchStart);
-
-                    const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchMove, 'touches', { value: [{ clientX: startX + 50, clientY: startY }] });
-                    window.dispatchEvent(touchMove);
-
-                    const touchEnd = new Event('touchend', { bubbles: true, cancelable: true });
-                    window.dispatchEvent(touchEnd);
-                });
+                await editorHelper.gestures.touchDrag(radiusInput, { dx: 50, dy: 0 });
 
                 const rVal = parseInt(await radiusInput.inputValue(), 10);
                 expect(rVal).toBeGreaterThan(10);
@@ -1080,24 +937,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
                 await widthInput.click({ force: true });
                 await editorPage.waitForTimeout(200);
 
-                await widthInput.evaluate((el: HTMLInputElement) => {
-                    el.focus();
-
-                    const rect = el.getBoundingClientRect();
-                    const startX = rect.left + rect.width / 2;
-                    const startY = rect.top + rect.height / 2;
-
-                    const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchStart, 'touches', { value: [{ clientX: startX, clientY: startY }] });
-                    el.dispatchEvent(touchStart);
-
-                    const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchMove, 'touches', { value: [{ clientX: startX + 50, clientY: startY }] });
-                    window.dispatchEvent(touchMove);
-
-                    const touchEnd = new Event('touchend', { bubbles: true, cancelable: true });
-                    window.dispatchEvent(touchEnd);
-                });
+                await editorHelper.gestures.touchDrag(widthInput, { dx: 50, dy: 0 });
 
                 const wVal = parseInt(await widthInput.inputValue(), 10);
                 expect(wVal).toBeGreaterThan(2);
@@ -1128,7 +968,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -1178,7 +1018,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
             const { buttonNode } = await editorHelper.setupPageWithButton();
             await editorHelper.selectNodeInDomTree(buttonNode);
             await editorHelper.openMoveingHandle('right');
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, '属性');
         });
 
@@ -1197,25 +1037,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
                 await widthInput.click({ force: true });
                 await editorPage.waitForTimeout(200);
 
-                await widthInput.evaluate((el: HTMLInputElement) => {
-                    el.focus();
-
-                    const rect = el.getBoundingClientRect();
-                    const startX = rect.left + rect.width / 2;
-                    const startY = rect.top + rect.height / 2;
-
-                    const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchStart, 'touches', { value: [{ clientX: startX, clientY: startY }] });
-                    el.dispatchEvent(touchStart);
-
-                    const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchMove, 'touches', { value: [{ clientX: startX + 50, clientY: startY }] });
-                    window.dispatchEvent(touchMove);
-
-                    const touchEnd = new Event('touchend', { bubbles: true, composed: true });
-                    Object.defineProperty(touchEnd, 'changedTouches', { value: [{ clientX: startX + 50, clientY: startY }] });
-                    window.dispatchEvent(touchEnd);
-                });
+                await editorHelper.gestures.touchDrag(widthInput, { dx: 50, dy: 0 });
 
                 const wVal = parseInt(await widthInput.inputValue(), 10);
                 expect(wVal).toBeGreaterThan(100);
@@ -1227,25 +1049,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
                 await heightInput.click({ force: true });
                 await editorPage.waitForTimeout(200);
 
-                await heightInput.evaluate((el: HTMLInputElement) => {
-                    el.focus();
-
-                    const rect = el.getBoundingClientRect();
-                    const startX = rect.left + rect.width / 2;
-                    const startY = rect.top + rect.height / 2;
-
-                    const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchStart, 'touches', { value: [{ clientX: startX, clientY: startY }] });
-                    el.dispatchEvent(touchStart);
-
-                    const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                    Object.defineProperty(touchMove, 'touches', { value: [{ clientX: startX + 50, clientY: startY }] });
-                    window.dispatchEvent(touchMove);
-
-                    const touchEnd = new Event('touchend', { bubbles: true, composed: true });
-                    Object.defineProperty(touchEnd, 'changedTouches', { value: [{ clientX: startX + 50, clientY: startY }] });
-                    window.dispatchEvent(touchEnd);
-                });
+                await editorHelper.gestures.touchDrag(heightInput, { dx: 50, dy: 0 });
 
                 const hVal = parseInt(await heightInput.inputValue(), 10);
                 expect(hVal).toBeGreaterThan(50);
@@ -1284,7 +1088,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         await test.step('3. 目ボタンをクリックして選択枠を非表示にする', async () => {
             await editorHelper.closeMoveingHandle();
 
-            const platformSwitcher = editorPage.locator('platform-switcher');
+            const platformSwitcher = editorPage.locator(SELECTORS.editor.platformSwitcher);
             const toggleHighlightBtn = platformSwitcher.locator('button[title*="選択枠を非表示にする"]');
             await expect(toggleHighlightBtn).toBeVisible();
             await toggleHighlightBtn.click({ force: true });
@@ -1299,7 +1103,7 @@ test.describe('エディタ内機能のテスト (後半)', () => {
         await test.step('5. 再び目ボタンをクリックして選択枠を再表示にする', async () => {
             await editorHelper.closeMoveingHandle();
 
-            const platformSwitcher = editorPage.locator('platform-switcher');
+            const platformSwitcher = editorPage.locator(SELECTORS.editor.platformSwitcher);
             const toggleHighlightBtn = platformSwitcher.locator('button[title*="選択枠を表示する"]');
             await expect(toggleHighlightBtn).toBeVisible();
             await toggleHighlightBtn.click({ force: true });
@@ -1322,7 +1126,7 @@ test.describe('CSSエディタ：数値のインテリジェント増減機能
     test.beforeEach(async ({ editorPage, editorHelper }) => {
         // 右ハンドルを展開し、プロパティパネルの「スタイル」タブに切り替え
         await editorHelper.openMoveingHandle('right');
-        const propertyContainer = editorPage.locator('property-container');
+        const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
         await propertyContainer.locator('#tab-style').click();
         await expect(propertyContainer.locator('#style-container')).toBeVisible();
     });
@@ -1345,59 +1149,18 @@ test.describe('CSSエディタ：数値のインテリジェント増減機能
         key: 'ArrowUp' | 'ArrowDown',
         shift: boolean = false
     ) {
-        // console.log(`[StyleInc:DEBUG] styleEditor の初期化完了を計測開始します...`);
-        const startTime = Date.now();
-        let isReady = false;
-
-        // 最大10秒（100ms * 100回）状態を監視
-        for (let i = 0; i < 100; i++) {
-            const check = await editorPage.evaluate(() => {
-                const container = document.querySelector('app-container');
-                const host = container?.shadowRoot?.querySelector('property-container') as any;
-                return !!(host && host.styleEditor);
-            });
-            if (check) {
-                isReady = true;
-                // console.log(`[StyleInc:DEBUG] styleEditor の初期化を確認。所要時間: ${Date.now() - startTime}ms`);
-                break;
-            }
-            await editorPage.waitForTimeout(100);
-        }
-
-        // if (!isReady) {
-        //     console.log(`[StyleInc:DEBUG] 10秒待機しても styleEditor は初期化されませんでした。`);
-        // }
-
-        // Shadow DOM経由でMonaco Editorのインスタンスに直接アクセスして状態を設定
-        await editorPage.evaluate(({ css }) => {
-            const container = document.querySelector('app-container');
-            const host = container?.shadowRoot?.querySelector('property-container') as any;
-            if (host && host.styleEditor) {
-                host.styleEditor.setValue(css);
-            }
-        }, { css: initialCSS });
+        const styleEditor = new MonacoDriver(editorPage.locator(`${SELECTORS.editor.propertyContainer} #style-container > .monaco-editor`));
+        await styleEditor.setValue(initialCSS);
 
         // カーソル位置の設定とエディタへのフォーカス
-        await editorPage.evaluate(({ l, c }) => {
-            const container = document.querySelector('app-container');
-            const host = container?.shadowRoot?.querySelector('property-container') as any;
-            if (host && host.styleEditor) {
-                host.styleEditor.setPosition({ lineNumber: l, column: c });
-                host.styleEditor.focus();
-            }
-        }, { l: line, c: column });
+        await styleEditor.setPosition({ lineNumber: line, column });
 
         // キーボード操作のシミュレーション
         if (shift) await editorPage.keyboard.down('Shift');
         await editorPage.keyboard.press(key);
         if (shift) await editorPage.keyboard.up('Shift');
 
-        // エラーを投げる可能性のある箇所
-        return await editorPage.evaluate(() => {
-            const container = document.querySelector('app-container');
-            const host = container?.shadowRoot?.querySelector('property-container') as any;
-            return host ? host.styleEditor.getValue() : '';
-        });
+        return await styleEditor.getValue();
     }
 
     test('基本：1px単位の増減 (font-size)', async ({ editorPage }) => {
@@ -1446,41 +1209,13 @@ test.describe('CSSエディタ：数値のインテリジェント増減機能
      * エディタ標準の挙動（この場合は行移動）が維持されることを確認。
      */
     test('数値以外の場所では標準の行移動が行われること', async ({ editorPage }) => {
-        // console.log(`[StyleInc:DEBUG] 数値以外テスト: styleEditor の初期化完了を計測開始します...`);
-        const startTime = Date.now();
-        let isReady = false;
-
-        for (let i = 0; i < 100; i++) {
-            const check = await editorPage.evaluate(() => {
-                const container = document.querySelector('app-container');
-                const host = container?.shadowRoot?.querySelector('property-container') as any;
-                return !!(host && host.styleEditor);
-            });
-            if (check) {
-                isReady = true;
-                // console.log(`[StyleInc:DEBUG] 数値以外テスト: styleEditor の初期化を確認。所要時間: ${Date.now() - startTime}ms`);
-                break;
-            }
-            await editorPage.waitForTimeout(100);
-        }
-
-        await editorPage.evaluate(() => {
-            const container = document.querySelector('app-container');
-            const host = container?.shadowRoot?.querySelector('property-container') as any;
-            if (host && host.styleEditor) {
-                host.styleEditor.setValue('element.style {\n    color: red;\n    display: block;\n}');
-                host.styleEditor.setPosition({ lineNumber: 2, column: 14 }); // 'red'の末尾
-                host.styleEditor.focus();
-            }
-        });
+        const styleEditor = new MonacoDriver(editorPage.locator(`${SELECTORS.editor.propertyContainer} #style-container > .monaco-editor`));
+        await styleEditor.setValue('element.style {\n    color: red;\n    display: block;\n}');
+        await styleEditor.setPosition({ lineNumber: 2, column: 14 }); // 'red'の末尾
 
         await editorPage.keyboard.press('ArrowDown');
 
-        const finalPos = await editorPage.evaluate(() => {
-            const container = document.querySelector('app-container');
-            const host = container?.shadowRoot?.querySelector('property-container') as any;
-            return host ? host.styleEditor.getPosition() : { lineNumber: 0 };
-        });
+        const finalPos = await styleEditor.getPosition();
 
         // 独自の増減処理が走らず、標準の「下の行への移動」が行われたことを検証
         expect(finalPos.lineNumber).toBe(3);
@@ -1557,7 +1292,7 @@ customElements.define('${tagName}', ${scriptName});
         await test.step('1. Web Componentのスクリプトを作成・編集する', async () => {
             // スクリプトタブに切り替える
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
 
             // 新しいクラスタイプのスクリプトを追加
@@ -1569,7 +1304,7 @@ customElements.define('${tagName}', ${scriptName});
 
         await test.step('2. 作成したコンポーネントを配置し、プロパティパネルを検証する', async () => {
             // appノードを取得
-            const appNode = editorPage.locator('#dom-tree > div[data-node-type="app"]');
+            const appNode = editorPage.locator(`${SELECTORS.editor.domTree} > div[data-node-type="app"]`);
 
             // ツールボックスから作成したコンポーネントをappノードに追加
             const componentNode = await editorHelper.addComponent(tagName, appNode);
@@ -1679,7 +1414,7 @@ customElements.define('${tagName}', ${scriptName});
         await expect(autoColorBtn).toBeVisible();
         await autoColorBtn.click();
 
-        const alertDialog = editorPage.locator('alert-component');
+        const alertDialog = editorPage.locator(SELECTORS.transient.alert);
         await expect(alertDialog).toBeVisible({ timeout: 10000 });
         await alertDialog.getByRole('button', { name: '閉じる' }).click();
         await expect(alertDialog).toBeHidden();
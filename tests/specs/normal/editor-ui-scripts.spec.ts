@@ -1,94 +1,13 @@
-import { test as base, expect, Page, Locator, CDPSession, Dialog } from '@playwright/test';
+import { Page, Locator, Dialog } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, addVersion } from '../../tools/dashboard-helpers';
-import { EditorHelper, normalizeWhitespace } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
+import { gotoDashboard, addVersion } from '../../tools/dashboard-helpers';
+import { normalizeWhitespace } from '../../tools/editor-helpers';
+import { waitForMonacoReady } from '../../tools/settled';
+import { test, expect } from '../../tools/test-fixtures';
+import { waitForIdle } from '../../tools/busy-state';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // 作成済みの共有アプリ詳細画面へ移動
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-        await expect(appRow).toBeVisible({ timeout: 15000 });
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        const editorPage = await openEditor(page, context, appName);
-
-        // クライアント側のアニメーションを強制無効化し、ダイアログ非表示などのアサーションを高速化します
-        await editorPage.evaluate(() => {
-            const style = document.createElement('style');
-            style.innerHTML = `
-                *, *::before, *::after {
-                    transition: none !important;
-                    animation: none !important;
-                    transition-duration: 0s !important;
-                    animation-duration: 0s !important;
-                }
-            `;
-            document.head.appendChild(style);
-        }).catch(() => {});
-
-        await use(editorPage);
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
-
-// テスト全体の開始前に、アプリを1回だけ作成する
-test.beforeAll(async ({ browser }) => {
-    const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-
-    // workerIndex を取得
-    const workerIndex = test.info().workerIndex;
-    const storageStatePath = getStorageStatePath(workerIndex);
-
-    const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-    appName = `ui-auto-${uniqueId}`.slice(0, 30);
-    appKey = `auto-key-${uniqueId}`.slice(0, 30);
-
-    // ワーカー固有のセッションファイルを指定してコンテキストを作成
-    const context = await browser.newContext({ storageState: storageStatePath });
-    const page = await context.newPage();
-
-    await gotoDashboard(page);
-    await createApp(page, appName, appKey);
-
-    await context.close();
-});
-
-// すべてのテストが終了した後に、アプリを削除する
-test.afterAll(async ({ browser }) => {
-    if (appKey) {
-        // 現在のワーカーのインデックスを取得
-        const workerIndex = test.info().workerIndex;
-        // ワーカー固有のセッションファイルのパスを取得
-        const storageStatePath = getStorageStatePath(workerIndex);
-
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-
-        await gotoDashboard(page);
-        await deleteApp(page, appKey);
-
-        await context.close();
-    }
-});
+test.use({ appPrefix: 'ui-auto', appKeyPrefix: 'auto-key', sharedApp: true, disableAnimations: true });
 
 /**
  * 共有ヘルパー関数: 指定した入力欄をマウスでドラッグする
@@ -142,10 +61,10 @@ test.describe('エディタ内：コンソール機能のテスト', () => {
         await editorHelper.openMoveingHandle('right');
 
         // コンソールタブに切り替える
-        const scriptContainer = editorPage.locator('script-container');
+        const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
         await expect(scriptContainer).toBeVisible();
         await expect(async () => {
-            const alert = editorPage.locator('alert-component');
+            const alert = editorPage.locator(SELECTORS.transient.alert);
             if (await alert.isVisible().catch(() => false)) {
                 await alert.getByRole('button', { name: '閉じる' }).click().catch(() => { });
             }
@@ -156,7 +75,7 @@ test.describe('エディタ内：コンソール機能のテスト', () => {
     });
 
     test('ログレベルフィルタリング機能の検証', async ({ editorPage }) => {
-        const consoleContainer = editorPage.locator('script-container console-container');
+        const consoleContainer = editorPage.locator(`${SELECTORS.editor.scriptContainer} console-container`);
 
         // 1. 各種ログを出力させる (RenderZoneController経由で捕捉される)
         // プレビューフレーム内で実行する必要があるため、iframeを特定
@@ -236,7 +155,7 @@ test.describe('エディタ内：コンソール機能のテスト', () => {
     });
 
     test('クリップボードコピー機能の検証', async ({ editorPage, browserName }) => {
-        const consoleContainer = editorPage.locator('script-container console-container');
+        const consoleContainer = editorPage.locator(`${SELECTORS.editor.scriptContainer} console-container`);
         const copyButton = consoleContainer.locator('button.toolbar-btn[title="表示中のログをコピー"]');
 
         await test.step('ログ出力とコピー実行', async () => {
@@ -255,7 +174,7 @@ test.describe('エディタ内：コンソール機能のテスト', () => {
         });
 
         await test.step('アラートの確認', async () => {
-            const alert = editorPage.locator('alert-component');
+            const alert = editorPage.locator(SELECTORS.transient.alert);
             await expect(alert).toBeVisible();
             await expect(alert).toContainText('コンソールログをコピーしました');
             await alert.getByRole('button', { name: '閉じる' }).click();
@@ -278,7 +197,7 @@ test.describe('エディタ内：コンソール機能のテスト', () => {
     });
 
     test('ログクリアとUI配置の検証', async ({ editorPage }) => {
-        const consoleContainer = editorPage.locator('script-container console-container');
+        const consoleContainer = editorPage.locator(`${SELECTORS.editor.scriptContainer} console-container`);
         const clearButton = consoleContainer.locator('button.toolbar-btn[title="コンソールをクリア"]');
         const copyButton = consoleContainer.locator('button.toolbar-btn[title="表示中のログをコピー"]');
 
@@ -322,7 +241,7 @@ test.describe('エディタ内：コンソール機能のテスト', () => {
 
     // console.table デバッグ出力テスト
     test('console.tableによる表形式（テーブル）デバッグ出力機能の検証', async ({ editorPage }) => {
-        const consoleContainer = editorPage.locator('script-container console-container');
+        const consoleContainer = editorPage.locator(`${SELECTORS.editor.scriptContainer} console-container`);
         const logTable = consoleContainer.locator('table.log-table');
 
         // ログを一度完全にクリア
@@ -391,14 +310,14 @@ test.describe('UIアクションパレット機能の検証', () => {
             buttonId = await buttonNode.getAttribute('data-node-id') as string;
 
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testScript');
             await editorHelper.openScriptForEditing('testScript');
 
             // Monaco Editor の JS/TS 言語サービス(フォーマッター)の初期化完了を確実に待ち、
             // 挿入完了時のフォーマット例外によるハングアップを回避する
-            await editorPage.waitForTimeout(3000);
+            await waitForMonacoReady(editorPage, { timeout: 15000 });
         });
 
         await test.step('パレットの起動: ドロップイベントをシミュレートする', async () => {
@@ -410,12 +329,12 @@ test.describe('UIアクションパレット機能の検証', () => {
                 }));
             }, buttonId);
 
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
             await expect(paletteOverlay).toHaveClass(/active/);
         });
 
         await test.step('メソッドの選択と引数入力: setText を選んで挿入', async () => {
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
 
             // 検索ボックスにテキストを入力してアクションを絞り込む
             const input = paletteOverlay.locator('#paletteInput');
@@ -482,16 +401,16 @@ test.describe('UIアクションパレット機能の検証', () => {
 
             // 右ハンドルを展開し、スクリプトタブで新規スクリプトを作成・編集状態にする
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testBackboneSort');
             await editorHelper.openScriptForEditing('testBackboneSort');
         });
 
         await test.step('2. エディタ上で右クリックしてパレットを起動し、ソートされた最上位グループを検証', async () => {
-            const monacoEditor = editorPage.locator('script-container .monaco-editor[role="code"]');
+            const monacoEditor = editorPage.locator(`${SELECTORS.editor.scriptContainer} .monaco-editor[role="code"]`);
             const viewLine = monacoEditor.locator('.view-line').first();
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
 
             // 💡 コンテキストメニュー経由でパレットを「要素未定」の状態で起動
             await expect(async () => {
@@ -535,16 +454,16 @@ test.describe('UIアクションパレット機能の検証', () => {
     test('コンテキストメニューから起動し、キーボード操作で画面遷移・キャンセルができる', async ({ editorPage, editorHelper }) => {
         await test.step('セットアップ', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testKeyboard');
             await editorHelper.openScriptForEditing('testKeyboard');
         });
 
         await test.step('右クリックでコンテキストメニューを開き、パレットを起動する', async () => {
-            const monacoEditor = editorPage.locator('script-container .monaco-editor[role="code"]');
+            const monacoEditor = editorPage.locator(`${SELECTORS.editor.scriptContainer} .monaco-editor[role="code"]`);
             const viewLine = monacoEditor.locator('.view-line').first();
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
 
             // メニューの描画・イベントバインド遅延によるクリックの空振りを防ぐため、toPassによる自動リトライを導入
             await expect(async () => {
@@ -580,7 +499,7 @@ test.describe('UIアクションパレット機能の検証', () => {
         });
 
         await test.step('キーボードナビゲーションの検証', async () => {
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
 
             // --- 下キーを押して選択を移動し、Enter で決定 ---
             await editorPage.keyboard.press('ArrowDown');
@@ -614,7 +533,7 @@ test.describe('UIアクションパレット機能の検証', () => {
             appNodeId = await appNode.getAttribute('data-node-id') as string;
 
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testSuggest');
             await editorHelper.openScriptForEditing('testSuggest');
@@ -631,7 +550,7 @@ test.describe('UIアクションパレット機能の検証', () => {
                 }));
             }, appNodeId);
 
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
             await expect(paletteOverlay).toHaveClass(/active/);
 
             // サジェスト候補を確実に表示させるため、複数引数ではなく、単一引数の「属性の値を取得 (getAttribute)」を選択
@@ -643,7 +562,7 @@ test.describe('UIアクションパレット機能の検証', () => {
         });
 
         await test.step('サジェストに定義済みの変数が表示されることを検証', async () => {
-            const paletteOverlay = editorPage.locator('#paletteOverlay-teleported');
+            const paletteOverlay = editorPage.locator(SELECTORS.editor.paletteOverlay);
 
             // リスト内にさきほど定義した変数（@myDummyVar）が存在するか
             const varSuggest = paletteOverlay.locator('.palette-item', { hasText: '@myDummyVar' });
@@ -685,12 +604,12 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
 
         await test.step('1. コンポーネントエディタを開き、新しいコンポーネントを作成', async () => {
             await editorHelper.openMoveingHandle('left');
-            const toolBox = editorPage.locator('tool-box');
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
 
             // コンポーネントエディタを開くアイコンをクリック
             await toolBox.locator('.title-icon-bar-button').click();
 
-            const itemEditor = editorPage.locator('tool-box-item-editor');
+            const itemEditor = editorPage.locator(SELECTORS.transient.toolBoxItemEditor);
             await expect(itemEditor).toBeVisible();
 
             // 名前とコードの入力
@@ -709,7 +628,7 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
         });
 
         await test.step('2. ツールボックスにコンポーネントが表示されることを確認', async () => {
-            const toolBox = editorPage.locator('tool-box');
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
 
             // 検索ボックスで絞り込み
             const filterInput = toolBox.locator('#filter-input');
@@ -727,7 +646,7 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
             // 左パネルを開いてD&Dの準備
             await editorHelper.openMoveingHandle('left');
 
-            const contentAreaLocator = editorPage.locator('#dom-tree div[data-node-explain="コンテンツ"]');
+            const contentAreaLocator = editorPage.locator(`${SELECTORS.editor.domTree} div[data-node-explain="コンテンツ"]`);
             const toolBoxItem = editorPage.locator(`tool-box-item[data-item-type="${componentName}"]`);
 
             // カスタムコンポーネントをD&Dで追加
@@ -752,11 +671,11 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
 
         await test.step('1. 新しいカスタムコンポーネントを事前作成', async () => {
             await editorHelper.openMoveingHandle('left');
-            const toolBox = editorPage.locator('tool-box');
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
 
             await toolBox.locator('.title-icon-bar-button').click();
 
-            const itemEditor = editorPage.locator('tool-box-item-editor');
+            const itemEditor = editorPage.locator(SELECTORS.transient.toolBoxItemEditor);
             await expect(itemEditor).toBeVisible();
 
             const componentNameInput = itemEditor.locator('#component-name');
@@ -772,7 +691,7 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
         });
 
         await test.step('2. ツールボックスから作成したコンポーネントの編集を起動する', async () => {
-            const toolBox = editorPage.locator('tool-box');
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
 
             const filterInput = toolBox.locator('#filter-input');
             await expect(filterInput).toBeEditable();
@@ -787,12 +706,12 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
             // 登録したコンポーネントを、追加の時に使用したボタンの場所へドラッグ＆ドロップして編集を起動する
             await customItem.dragTo(editButtonZone);
 
-            const itemEditor = editorPage.locator('tool-box-item-editor');
+            const itemEditor = editorPage.locator(SELECTORS.transient.toolBoxItemEditor);
             await expect(itemEditor).toBeVisible({ timeout: 15000 });
         });
 
         await test.step('3. コンポーネント情報（名前・コード）を変更して保存する', async () => {
-            const itemEditor = editorPage.locator('tool-box-item-editor');
+            const itemEditor = editorPage.locator(SELECTORS.transient.toolBoxItemEditor);
 
             // 新しい名前を入力
             const componentNameInput = itemEditor.locator('#component-name');
@@ -810,7 +729,7 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
         });
 
         await test.step('4. ツールボックスに編集内容が正常に同期・更新されていることを検証する', async () => {
-            const toolBox = editorPage.locator('tool-box');
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
 
             const filterInput = toolBox.locator('#filter-input');
             await expect(filterInput).toBeEditable();
@@ -834,18 +753,12 @@ test.describe('エディタ内：カスタムコンポーネント（ツール
 test.describe('スクリプトの並べ替えテスト', () => {
 
     test('スクリプト編集メニューからドラッグ＆ドロップで順序を変更できる', async ({ editorPage, editorHelper, isMobile }) => {
-        const scriptContainer = editorPage.locator('script-container');
-        const listContainer = scriptContainer.locator('#script-list-container');
+        const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
+        const listContainer = scriptContainer.locator(SELECTORS.transient.scriptList);
         const addMenu = listContainer.locator('#scriptAddMenu');
         const scriptListPopup = scriptContainer.locator('#scriptList');
         const scriptNames = ['scriptA', 'scriptB', 'scriptC'];
 
-        // --- モバイル用のタッチ操作シミュレーター ---
-        let cdpSession: CDPSession | null = null;
-        if (isMobile && editorPage.context().browser()?.browserType().name() === 'chromium') {
-            cdpSession = await editorPage.context().newCDPSession(editorPage);
-        }
-
         await test.step('1. スクリプトを3つ作成する', async () => {
             await editorHelper.openMoveingHandle('right');
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
@@ -880,51 +793,16 @@ test.describe('スクリプトの並べ替えテスト', () => {
             const itemC = scriptListPopup.locator('.script-item', { hasText: 'scriptC' });
             const handleA = itemA.locator('.drag-handle');
 
-            const boxA = await handleA.boundingBox();
             const boxC = await itemC.boundingBox();
 
-            if (!boxA || !boxC) throw new Error('座標取得失敗');
+            if (!boxC) throw new Error('座標取得失敗');
 
-            const startX = Math.round(boxA.x + boxA.width / 2);
-            const startY = Math.round(boxA.y + boxA.height / 2);
             const endX = Math.round(boxC.x + boxC.width / 2);
             const endY = Math.round(boxC.y + boxC.height + 10); // Cの下側
 
-            if (isMobile && cdpSession) {
-                // --- モバイル: 厳密な TouchEvent シミュレーション ---
-                await cdpSession.send('Input.dispatchTouchEvent', {
-                    type: 'touchStart',
-                    touchPoints: [{ x: startX, y: startY }]
-                });
-
-                // ScriptContainer.js の 300ms タイマー（長押し判定）を待機
-                await editorPage.waitForTimeout(500);
-
-                const steps = 10;
-                for (let i = 1; i <= steps; i++) {
-                    const moveX = startX + (endX - startX) * (i / steps);
-                    const moveY = startY + (endY - startY) * (i / steps);
-                    await cdpSession.send('Input.dispatchTouchEvent', {
-                        type: 'touchMove',
-                        touchPoints: [{ x: Math.round(moveX), y: Math.round(moveY) }]
-                    });
-                    await editorPage.waitForTimeout(20);
-                }
-
-                await editorPage.waitForTimeout(200);
-                await cdpSession.send('Input.dispatchTouchEvent', {
-                    type: 'touchEnd',
-                    touchPoints: []
-                });
-            } else {
-                // --- PC: マウス操作シミュレーション ---
-                await handleA.hover();
-                await editorPage.mouse.down();
-                await editorPage.waitForTimeout(500);
-                await editorPage.mouse.move(endX, endY, { steps: 15 });
-                await editorPage.waitForTimeout(200);
-                await editorPage.mouse.up();
-            }
+            // ScriptContainer.js の 300ms タイマー（長押し判定）を超えて押し続けてから動かします
+            // （モバイルではタッチ、PCではマウスで操作します）
+            await editorHelper.gestures.touchDrag(handleA, { x: endX, y: endY }, { holdMs: 500, steps: 15, releaseDelayMs: 200 });
 
             await editorPage.waitForTimeout(1000);
         });
@@ -956,7 +834,7 @@ test.describe('エディタ内：スクリプト高度機能・連携テスト',
     test.beforeEach(async ({ page, context }) => {
         await gotoDashboard(page);
         // 起動時のローディング待機
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
+        await waitForIdle(page, 'editor');
     });
 
     test('サービスワーカー管理：イベント定義、スクリプト紐付け、削除', async ({ editorPage, editorHelper }) => {
@@ -973,7 +851,7 @@ function ${scriptName}(event) {
 
         await test.step('1. サービスワーカー用のスクリプトを作成', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript(scriptName, 'function');
             await editorHelper.editScriptContent(scriptName, scriptContent);
@@ -1056,7 +934,7 @@ function ${scriptName}(event) {
 
             // スクリプト作成
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript(scriptName);
 
@@ -1069,7 +947,7 @@ function ${scriptName}(event) {
         });
 
         await test.step('2. スクリプトを削除（ゴミ箱へ移動）', async () => {
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
 
             const scriptRow = scriptContainer.locator('.editor-row', { hasText: scriptName });
@@ -1086,9 +964,9 @@ function ${scriptName}(event) {
 
         await test.step('3. イベント紐付けが自動解除されていることを検証', async () => {
             // イベントタブに戻る
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
-            const eventContainer = scriptContainer.locator('event-container');
+            const eventContainer = scriptContainer.locator(SELECTORS.editor.eventContainer);
 
             // clickイベント行を探す
             const eventRow = eventContainer.locator(`.editor-row:has(div.label:text-is("click"))`);
@@ -1113,7 +991,7 @@ customElements.define('${componentTagName}', ${scriptName});
 
         await test.step('1. Web Component定義スクリプトを作成', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
 
             await editorHelper.addNewScript(scriptName, 'class');
@@ -1122,13 +1000,13 @@ customElements.define('${componentTagName}', ${scriptName});
 
         await test.step('2. Toolboxにコンポーネントが追加されていることを確認', async () => {
             await editorHelper.openMoveingHandle('left');
-            const toolBox = editorPage.locator('tool-box');
-            await expect(toolBox.locator('tool-box-item', { hasText: componentTagName })).toBeVisible();
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
+            await expect(toolBox.locator(SELECTORS.editor.toolBoxItem, { hasText: componentTagName })).toBeVisible();
         });
 
         await test.step('3. スクリプトを削除し、Toolboxからも消えることを確認', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
 
             // エディタが開いている状態なので、スクリプトタブをクリックしてリスト表示に戻る
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
@@ -1144,13 +1022,13 @@ customElements.define('${componentTagName}', ${scriptName});
 
             // Toolbox確認
             await editorHelper.openMoveingHandle('left');
-            const toolBox = editorPage.locator('tool-box');
-            await expect(toolBox.locator('tool-box-item', { hasText: componentTagName })).toBeHidden();
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
+            await expect(toolBox.locator(SELECTORS.editor.toolBoxItem, { hasText: componentTagName })).toBeHidden();
         });
 
         await test.step('4. スクリプトを復元し、Toolboxに復活することを確認', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
 
             // ゴミ箱を開く
             await scriptContainer.locator('#fab-trash-box').click();
@@ -1170,8 +1048,8 @@ customElements.define('${componentTagName}', ${scriptName});
 
             // Toolboxに復活しているか
             await editorHelper.openMoveingHandle('left');
-            const toolBox = editorPage.locator('tool-box');
-            await expect(toolBox.locator('tool-box-item', { hasText: componentTagName })).toBeVisible();
+            const toolBox = editorPage.locator(SELECTORS.editor.toolBox);
+            await expect(toolBox.locator(SELECTORS.editor.toolBoxItem, { hasText: componentTagName })).toBeVisible();
         });
     });
 
@@ -1191,7 +1069,7 @@ customElements.define('${componentTagName}', ${scriptName});
             await idInput.press('Enter');
 
             // スクリプト作成
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript(scriptName);
         });
@@ -1205,7 +1083,7 @@ customElements.define('${componentTagName}', ${scriptName});
             }
 
             // プロパティタブ（属性）を開き、ID行にあるペーストボタンをクリック
-            await editorHelper.switchTabInContainer(editorPage.locator('property-container'), '属性');
+            await editorHelper.switchTabInContainer(editorPage.locator(SELECTORS.editor.propertyContainer), '属性');
             const propertyContainer = editorHelper.getPropertyContainer();
 
             // IDラベルの横にある「スクリプトにIDを貼り付け」ボタン（fa-codeアイコン）を探す
@@ -1225,12 +1103,12 @@ customElements.define('${componentTagName}', ${scriptName});
             expect(normalizedReceived).toContain(normalizedExpected);
 
             // エディタを閉じる（保存して戻る）
-            await editorPage.locator('script-container #fab-save').click();
+            await editorPage.locator(`${SELECTORS.editor.scriptContainer} #fab-save`).click();
 
             // 【修正】新仕様対応：戻るボタン（#fab-close）をクリックしてエディタを閉じ、一覧に戻る
-            await editorPage.locator('script-container #fab-close').click();
+            await editorPage.locator(`${SELECTORS.editor.scriptContainer} #fab-close`).click();
 
-            await editorPage.locator('script-container #script-list-container').waitFor({ state: 'visible' });
+            await editorPage.locator(`${SELECTORS.editor.scriptContainer} ${SELECTORS.transient.scriptList}`).waitFor({ state: 'visible' });
         });
 
         await test.step('3. スクリプトの影響範囲（使用箇所）検索機能の検証', async () => {
@@ -1243,7 +1121,7 @@ customElements.define('${componentTagName}', ${scriptName});
             });
 
             // スクリプト一覧に戻る
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
 
             // 影響範囲ボタン（目のアイコン）をクリック
@@ -1272,17 +1150,17 @@ customElements.define('${componentTagName}', ${scriptName});
 
         test.beforeEach(async ({ editorPage, editorHelper }) => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript(scriptName);
             await editorHelper.editScriptContent(scriptName, initialContent);
 
             // 【修正】editScriptContentの内部で自動的に一覧に戻るため、表示検証のみに変更します
-            await expect(scriptContainer.locator('#script-list-container')).toBeVisible();
+            await expect(scriptContainer.locator(SELECTORS.transient.scriptList)).toBeVisible();
         });
 
         test('変更がない場合、確認なしでエディタを閉じることができる', async ({ editorPage, editorHelper }) => {
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             const editorContainer = scriptContainer.locator('#script-container');
 
             await editorHelper.openScriptForEditing(scriptName);
@@ -1291,12 +1169,12 @@ customElements.define('${componentTagName}', ${scriptName});
             const closeBtn = scriptContainer.locator('#fab-close');
             await closeBtn.click();
 
-            await expect(scriptContainer.locator('#script-list-container')).toBeVisible();
+            await expect(scriptContainer.locator(SELECTORS.transient.scriptList)).toBeVisible();
             await expect(editorContainer).toBeHidden();
         });
 
         test('変更がある場合、確認ダイアログで「キャンセル（いいえ）」を選択すると変更が破棄されて一覧に戻る', async ({ editorPage, editorHelper }) => {
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             const monacoEditor = scriptContainer.locator('.monaco-editor[role="code"]');
 
             await editorHelper.openScriptForEditing(scriptName);
@@ -1312,7 +1190,7 @@ customElements.define('${componentTagName}', ${scriptName});
 
             await scriptContainer.locator('#fab-close').click();
 
-            await expect(scriptContainer.locator('#script-list-container')).toBeVisible();
+            await expect(scriptContainer.locator(SELECTORS.transient.scriptList)).toBeVisible();
 
             await editorHelper.openScriptForEditing(scriptName);
             const currentContent = await editorHelper.getMonacoEditorContent();
@@ -1320,7 +1198,7 @@ customElements.define('${componentTagName}', ${scriptName});
         });
 
         test('変更がある場合、確認ダイアログで「OK（はい）」を選択すると変更が保存されて一覧に戻る', async ({ editorPage, editorHelper }) => {
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             const monacoEditor = scriptContainer.locator('.monaco-editor[role="code"]');
 
             await editorHelper.openScriptForEditing(scriptName);
@@ -1334,7 +1212,7 @@ customElements.define('${componentTagName}', ${scriptName});
 
             await scriptContainer.locator('#fab-close').click();
 
-            await expect(scriptContainer.locator('#script-list-container')).toBeVisible();
+            await expect(scriptContainer.locator(SELECTORS.transient.scriptList)).toBeVisible();
 
             await editorHelper.openScriptForEditing(scriptName);
             const currentContent = await editorHelper.getMonacoEditorContent();
@@ -1342,8 +1220,8 @@ customElements.define('${componentTagName}', ${scriptName});
         });
 
         test('「最近開いたスクリプトを再開する」バナーが表示され、クリックして再編集に入れること', async ({ editorPage, editorHelper }) => {
-            const scriptContainer = editorPage.locator('script-container');
-            const listContainer = scriptContainer.locator('#script-list-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
+            const listContainer = scriptContainer.locator(SELECTORS.transient.scriptList);
             const editorContainer = scriptContainer.locator('#script-container');
 
             // 💡 beforeEachで直前に編集を終えて閉じた scriptName (cancelTestScript) の
@@ -1385,7 +1263,7 @@ test.describe('Monacoエディタにおける2本指ピンチによるフォン
     test('スクリプトエディタ上でピンチアウト操作を行うと、フォントサイズが拡大する', async ({ editorPage, editorHelper }) => {
         await test.step('セットアップ: スクリプトを新規作成して編集画面を開く', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testPinch');
             await editorHelper.openScriptForEditing('testPinch');
@@ -1412,41 +1290,9 @@ test.describe('Monacoエディタにおける2本指ピンチによるフォン
         });
 
         await test.step('2本指ピンチアウト（拡大）操作を擬似的に発行する', async () => {
-            // タッチ配列オブジェクトの厳密な型チェック例外を回避するため、
-            // Event に対して Object.defineProperty で touches プロパティを後挿入してディスパッチします
-            await editorPage.evaluate(() => {
-                const appContainer = document.querySelector('app-container');
-                const scriptContainer = appContainer?.shadowRoot?.querySelector('script-container');
-                const editorElement = scriptContainer?.shadowRoot?.querySelector('#script-container');
-
-                if (!editorElement) throw new Error('Editor element not found');
-
-                // 1. touchstart (2本指の間隔: 100px = |200 - 100|)
-                const touchStart = new Event('touchstart', { bubbles: true, cancelable: true });
-                Object.defineProperty(touchStart, 'touches', {
-                    value: [
-                        { clientX: 100, clientY: 100 },
-                        { clientX: 200, clientY: 100 }
-                    ],
-                    writable: false
-                });
-                editorElement.dispatchEvent(touchStart);
-
-                // 2. touchmove (2本指の間隔を広げる: 200px = |250 - 50| -> スケール 2.0 倍)
-                const touchMove = new Event('touchmove', { bubbles: true, cancelable: true });
-                Object.defineProperty(touchMove, 'touches', {
-                    value: [
-                        { clientX: 50, clientY: 100 },
-                        { clientX: 250, clientY: 100 }
-                    ],
-                    writable: false
-                });
-                editorElement.dispatchEvent(touchMove);
-
-                // 3. touchend
-                const touchEnd = new Event('touchend', { bubbles: true, cancelable: true });
-                editorElement.dispatchEvent(touchEnd);
-            });
+            // 2本指の間隔を 100px から 200px に広げる（スケール 2.0 倍）
+            const editorElement = editorPage.locator(`${SELECTORS.editor.scriptContainer} #script-container`);
+            await editorHelper.gestures.pinch(editorElement, { scale: 2, spacing: 100 });
         });
 
         await test.step('フォントサイズが想定通り拡大されたことを検証', async () => {
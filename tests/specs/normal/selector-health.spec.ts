@@ -0,0 +1,231 @@
+// selector-health.spec.ts
+
+import 'dotenv/config';
+import { type Page } from '@playwright/test';
+import { test, expect } from '../../tools/test-fixtures';
+import { DashboardPage } from '../../tools/dashboard-page';
+import { uiText } from '../../tools/ui-strings';
+import {
+    SELECTORS, findMissingSelectors, findMissingTransientSelectors, findUnassignedTransientSelectors, formatMissingSelectors,
+    type MissingSelector, type SelectorScreen, type TransientState,
+} from '../../tools/selectors';
+
+/**
+ * セレクタのレジストリ（tools/selectors.ts）に登録したセレクタが、実際の画面で解決できるかを確認します。
+ * 製品の DOM 構造の変更で多くのテストが同時に失敗した場合、このテストの結果から原因のセレクタを特定できます。
+ * transient のセレクタは、TRANSIENT_STATES に割り当てた状態を操作で再現してから確認します。
+ */
+test.use({ appPrefix: 'selector-health', appKeyPrefix: 'sel-key', sharedApp: true });
+
+test.describe('セレクタのヘルスチェック', () => {
+
+    test('transient のセレクタがすべて確認する状態に割り当てられている', () => {
+        expect(findUnassignedTransientSelectors(), '[Selector] TRANSIENT_STATES と UNCHECKED_TRANSIENT_SELECTORS のいずれにも含まれないセレクタがあります').toEqual([]);
+    });
+
+    test('登録したセレクタがダッシュボード・エディタ・ファイルエクスプローラー・アーカイブ・設定で解決できる', async ({ page, editorPage, editorHelper }) => {
+        test.setTimeout(300000);
+        const missing: MissingSelector[] = [];
+        const unreachable: string[] = [];
+        const skipped: string[] = [];
+
+        /**
+         * 画面を表示してから、その画面のセレクタを確認します。
+         * 画面の表示に失敗しても残りの画面の確認を続けるため、エラーは記録するだけにします。
+         */
+        const checkScreen = async (target: Page, screen: SelectorScreen, show: () => Promise<void>) => {
+            await show().catch((e: Error) => {
+                unreachable.push(`  - ${screen}: ${e.message.split('\n')[0]}`);
+            });
+            missing.push(...await findMissingSelectors(target, screen));
+        };
+
+        /**
+         * 操作で画面を transient のセレクタが表示される状態にしてから、その状態のセレクタを確認します。
+         * show が false を返した場合は、アカウントの設定によりその状態にできないため、確認せずに記録します。
+         * 確認の後は hide で状態を戻します。戻せなかった場合も残りの確認を続けます。
+         */
+        const checkState = async (target: Page, state: TransientState, show: () => Promise<boolean | void>, hide?: () => Promise<void>) => {
+            const shown = await show().catch((e: Error) => {
+                unreachable.push(`  - ${state}: ${e.message.split('\n')[0]}`);
+            });
+            if (shown === false) {
+                skipped.push(`  - ${state}`);
+            } else {
+                missing.push(...await findMissingTransientSelectors(target, state));
+            }
+            await hide?.().catch(() => { });
+        };
+
+        /** エディタで開いたメニューやモーダルを閉じます */
+        const pressEscape = () => editorPage.keyboard.press('Escape');
+
+        await test.step('1. エディタ', async () => {
+            await checkScreen(editorPage, 'editor', async () => {
+                await expect(editorPage.locator(SELECTORS.editor.preview)).toBeVisible();
+            });
+            await checkState(editorPage, 'editor', async () => { });
+        });
+
+        await test.step('2. エディタの下部メニュー', async () => {
+            const bottomMenuButton = editorPage.locator(SELECTORS.editor.bottomMenuButton);
+            await checkScreen(editorPage, 'editorBottomMenu', async () => {
+                await editorHelper.ensurePanel('none');
+                await bottomMenuButton.click();
+            });
+            await checkState(editorPage, 'bottomMenu', async () => { }, async () => {
+                await bottomMenuButton.click();
+                await expect(editorHelper.platform.bottomMenu).toBeHidden();
+            });
+        });
+
+        await test.step('3. スナップショットマネージャー', async () => {
+            await checkState(editorPage, 'snapshotManager', () => editorHelper.snapshots.open(), () => editorHelper.snapshots.close());
+        });
+
+        await test.step('4. DOMツリーのメニューとトップレベルのテンプレート一覧', async () => {
+            await checkState(editorPage, 'domTreeMenu', async () => {
+                await editorHelper.ensurePanel('left');
+                await editorPage.locator(`${SELECTORS.editor.templateContainer} #hamburger`).click();
+                await expect(editorPage.locator(SELECTORS.transient.contextMenu)).toBeVisible();
+            }, pressEscape);
+            await checkState(editorPage, 'topTemplateList', async () => {
+                await editorHelper.ensurePanel('left');
+                await editorPage.locator(SELECTORS.transient.topContainer).locator('.select').click();
+                await expect(editorPage.locator(SELECTORS.transient.topTemplateList)).toBeVisible();
+            }, pressEscape);
+        });
+
+        await test.step('5. ツールボックスのコンポーネントエディタ', async () => {
+            await checkState(editorPage, 'toolBoxItemEditor', async () => {
+                await editorHelper.ensurePanel('left');
+                await editorPage.locator(SELECTORS.editor.toolBox).locator('.title-icon-bar-button').click();
+                await expect(editorPage.locator(SELECTORS.transient.toolBoxItemEditor)).toBeVisible();
+            }, pressEscape);
+        });
+
+        await test.step('6. プラットフォーム切り替えのメニュー', async () => {
+            const rotateButton = editorHelper.platform.root.locator('.screen-rotete-container');
+            const menu = editorHelper.platform.root.locator(SELECTORS.transient.platformEditMenu);
+            await checkState(editorPage, 'platformEditMenu', async () => {
+                await rotateButton.click({ force: true });
+                await expect(menu).toBeVisible();
+            }, async () => {
+                await rotateButton.click({ force: true });
+                await expect(menu).toBeHidden();
+            });
+        });
+
+        await test.step('7. クイックツールバーとプロパティパネル', async () => {
+            const quickEditorModal = editorPage.locator(SELECTORS.transient.quickEditorModal);
+            await checkState(editorPage, 'quickEditor', async () => {
+                const { buttonNode } = await editorHelper.setupPageWithButton();
+                await editorHelper.selectNodeInDomTree(buttonNode);
+                await editorPage.locator(SELECTORS.transient.quickPropertyToolbar).locator('button[title*="背景色変更"]').dispatchEvent('click');
+                await expect(quickEditorModal).toBeVisible();
+            }, async () => {
+                await quickEditorModal.locator('button', { hasText: 'キャンセル' }).dispatchEvent('click');
+                await expect(quickEditorModal).toBeHidden();
+            });
+            await checkState(editorPage, 'attributeEditor', () => editorHelper.openAttributeEditor(), pressEscape);
+            await checkState(editorPage, 'styleTab', () => editorHelper.properties.switchTab(uiText('tab.style')));
+        });
+
+        await test.step('8. スクリプトタブとAIコーディングウィンドウ', async () => {
+            await checkState(editorPage, 'scriptTab', () => editorHelper.scripts.open());
+            await checkState(editorPage, 'aiCoder', async () => {
+                await editorHelper.scripts.add('selectorHealth');
+                await editorHelper.scripts.openForEditing('selectorHealth');
+                if (!await editorPage.locator(SELECTORS.editor.scriptContainer).locator('button#aiButton').isVisible()) return false;
+                await editorHelper.aiCoder.open();
+            }, pressEscape);
+        });
+
+        await test.step('9. テストタブ', async () => {
+            await checkState(editorPage, 'testTab', async () => {
+                await editorHelper.tests.open();
+                await editorHelper.tests.root.locator('.add-btn').click({ force: true });
+                await expect(editorPage.locator(SELECTORS.transient.testScenarioEditor)).toBeVisible();
+            }, pressEscape);
+        });
+
+        await test.step('10. AIエージェント', async () => {
+            await checkState(editorPage, 'agentChat', async () => {
+                await editorHelper.ensurePanel('none');
+                await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+                const agentItem = editorHelper.platform.bottomMenu.getByText(uiText('platform.agent'));
+                if (!await agentItem.isVisible()) return false;
+                await agentItem.click();
+                await expect(editorPage.locator(SELECTORS.transient.agentChatWindow)).toBeVisible();
+            }, pressEscape);
+        });
+
+        await test.step('11. ファイルエクスプローラー', async () => {
+            await checkScreen(editorPage, 'fileExplorer', () => editorHelper.openFileExplorer());
+            await checkState(editorPage, 'directoryMenu', async () => {
+                await editorHelper.fileExplorer.performOperation('newDirectory');
+                await expect(editorPage.locator(SELECTORS.transient.directoryMenu)).toBeVisible();
+            }, pressEscape);
+        });
+
+        const dashboard = new DashboardPage(page);
+
+        await test.step('12. ダッシュボードのアプリ詳細', async () => {
+            await page.bringToFront();
+            await checkScreen(page, 'appDetail', async () => {
+                await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
+            });
+            await checkState(page, 'appEditModal', async () => {
+                await page.getByText(uiText('dashboard.appSettings')).click();
+                await page.getByRole('button', { name: uiText('dashboard.editApp') }).click();
+                await expect(page.locator(SELECTORS.transient.appEditModal).locator('span[slot="header-title"]')).toBeVisible();
+            });
+        });
+
+        await test.step('13. ダッシュボードのアプリ一覧', async () => {
+            // 開いたモーダルやメニューは、ダッシュボードを開き直して閉じる
+            await checkScreen(page, 'dashboard', () => dashboard.goto());
+            await checkState(page, 'dashboardMenu', async () => {
+                await page.locator(`${SELECTORS.dashboard.menuButton}[title="${uiText('dashboard.menu')}"]`).click({ force: true });
+                await expect(page.locator(SELECTORS.transient.appMenuList)).toBeVisible();
+            }, () => dashboard.goto());
+            await checkState(page, 'newAppModal', async () => {
+                await page.getByRole('button', { name: uiText('dashboard.newApp') }).click({ force: true });
+                await expect(page.locator(SELECTORS.dashboard.appModal).locator('span[slot="header-title"]')).toBeVisible();
+            }, () => dashboard.goto());
+        });
+
+        await test.step('14. ダッシュボードのアーカイブ', async () => {
+            await checkScreen(page, 'archive', () => dashboard.archive.open());
+            await dashboard.archive.backToWorkbench().catch(() => { });
+        });
+
+        let aiEnabled = false;
+
+        await test.step('15. ダッシュボードの設定', async () => {
+            await checkScreen(page, 'settings', () => dashboard.settings.open());
+            await checkState(page, 'settings', async () => {
+                aiEnabled = await page.locator(SELECTORS.settings.aiCodingCheckbox).isChecked();
+            });
+            await dashboard.settings.close().catch(() => { });
+        });
+
+        await test.step('16. AIヒントバナー', async () => {
+            await checkState(page, 'aiHintBanner', async () => {
+                if (aiEnabled) return false;
+                // 閉じた記録を消して、バナーが表示される状態にする
+                await page.evaluate(() => localStorage.removeItem('pwappy_ai_hint_closed'));
+                await dashboard.goto();
+            });
+        });
+
+        const report = [
+            missing.length > 0 ? `解決できなかったセレクタ（${missing.length}件）:\n${formatMissingSelectors(missing)}` : 'すべてのセレクタを解決できました。',
+            ...(unreachable.length > 0 ? [`表示できなかった画面・状態:\n${unreachable.join('\n')}`] : []),
+            ...(skipped.length > 0 ? [`アカウントの設定により確認しなかった状態:\n${skipped.join('\n')}`] : []),
+        ].join('\n\n');
+        await test.info().attach('selector-health', { body: report, contentType: 'text/plain' });
+
+        expect(missing, `[Selector] ${report}`).toEqual([]);
+    });
+});
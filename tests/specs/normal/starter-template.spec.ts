@@ -1,90 +1,19 @@
-import { test as base, expect, Page } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor } from '../../tools/dashboard-helpers';
-import { EditorHelper } from '../../tools/editor-helpers';
-import { getStorageStatePath } from '../../constants';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-let appName: string;
-let appKey: string;
-
-type EditorFixtures = {
-    editorPage: Page;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    editorPage: async ({ page, context }, use) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // 作成済みの共有アプリ詳細画面へ移動
-        const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-        await expect(appRow).toBeVisible({ timeout: 15000 });
-        await appRow.click({ force: true });
-        await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-        // 【重要】常に同一の初期バージョン '1.0.0' を { skipStarterModal: false } で開く
-        // 保存せずに閉じるため、DB上は常に「完全に空」の状態が維持され、使い回しが可能です
-        const editorPage = await openEditor(page, context, appName, '1.0.0', { skipStarterModal: false });
-
-        await use(editorPage);
-
-        // 保存をせずに閉じる
-        await editorPage.close();
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
-
-// テスト全体の開始前に、アプリを1回だけ作成する
-test.beforeAll(async ({ browser }) => {
-    const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-
-    // workerIndex を取得
-    const workerIndex = test.info().workerIndex;
-    const storageStatePath = getStorageStatePath(workerIndex);
-
-    const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-    appName = `ui-auto-${uniqueId}`.slice(0, 30);
-    appKey = `auto-key-${uniqueId}`.slice(0, 30);
-
-    // ワーカー固有のセッションファイルを指定してコンテキストを作成
-    const context = await browser.newContext({ storageState: storageStatePath });
-    const page = await context.newPage();
-
-    await gotoDashboard(page);
-    await createApp(page, appName, appKey);
-
-    await context.close();
-});
-
-// すべてのテストが終了した後に、アプリを削除する
-test.afterAll(async ({ browser }) => {
-    if (appKey) {
-        // 現在のワーカーのインデックスを取得
-        const workerIndex = test.info().workerIndex;
-        // ワーカー固有のセッションファイルのパスを取得
-        const storageStatePath = getStorageStatePath(workerIndex);
-
-        const context = await browser.newContext({ storageState: storageStatePath });
-        const page = await context.newPage();
-
-        await gotoDashboard(page);
-        await deleteApp(page, appKey);
-
-        await context.close();
-    }
-});
+import { test, expect } from '../../tools/test-fixtures';
+import { SELECTORS } from '../../tools/selectors';
+
+/**
+ * テストファイル全体で1つのアプリを共有します。
+ * 常に同一の初期バージョン '1.0.0' をスターターテンプレートモーダル付きで開き、保存せずに閉じるため、
+ * DB上は常に「完全に空」の状態が維持され、使い回しが可能です。
+ */
+test.use({ appPrefix: 'ui-auto', appKeyPrefix: 'auto-key', sharedApp: true, skipStarterModal: false });
 
 test.describe('スターターテンプレート（骨組み）機能の検証', () => {
 
     test('Navigator（基本の画面遷移）の骨組みを適用できる', async ({ editorPage, editorHelper }) => {
         test.setTimeout(120000);
-        const modal = editorPage.locator('starter-template-modal');
+        const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
         await expect(modal).toBeVisible();
 
         await test.step('1. モーダルから「基本の画面遷移」を選択', async () => {
@@ -109,9 +38,9 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
             await editorHelper.expectPageInTemplateList('詳細画面');
 
             // 遷移元ボタンの紐付け状態を確認するため、ホーム画面のUUIDを取得
-            const topContainer = editorPage.locator('.top-container');
+            const topContainer = editorPage.locator(SELECTORS.transient.topContainer);
             await topContainer.locator('.select').click();
-            const topTemplateListContainer = editorPage.locator('#top-template-list');
+            const topTemplateListContainer = editorPage.locator(SELECTORS.transient.topTemplateList);
             await expect(topTemplateListContainer).toBeVisible();
 
             const homeItem = topTemplateListContainer.locator('div.top-template-item', { hasText: 'ホーム画面' });
@@ -133,23 +62,23 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
             await expect(pushButtonNode).toBeVisible();
 
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
 
             // スクリプト一覧タブ：pushDetail が登録されていること
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
-            const scriptListContainer = scriptContainer.locator('#script-list-container');
+            const scriptListContainer = scriptContainer.locator(SELECTORS.transient.scriptList);
             await expect(scriptListContainer.locator('.editor-row', { hasText: 'pushDetail' })).toBeVisible();
 
             // イベントタブ：ons-button の click イベントに pushDetail が紐づいていること
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
-            const eventContainer = scriptContainer.locator('event-container');
+            const eventContainer = scriptContainer.locator(SELECTORS.editor.eventContainer);
             const clickEventRow = eventContainer.locator('.editor-row', { hasText: 'click' });
             await expect(clickEventRow.locator('.editor-row-right-item', { hasText: 'pushDetail' }).first()).toBeVisible({ timeout: 10000 });
         });
     });
 
     test('Tab Bar（タブメニュー）の骨組みを適用できる', async ({ editorPage, editorHelper }) => {
-        const modal = editorPage.locator('starter-template-modal');
+        const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
         await expect(modal).toBeVisible();
 
         await test.step('1. モーダルから「タブメニュー」を選択', async () => {
@@ -180,7 +109,7 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
 
     test('Splitter（サイドメニュー）の適用とスクリプトの自動バインドを検証する', async ({ editorPage, editorHelper }) => {
         test.setTimeout(120000); // 処理が多いため長めに設定
-        const modal = editorPage.locator('starter-template-modal');
+        const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
         await expect(modal).toBeVisible();
 
         await test.step('1. モーダルから「サイドメニュー」を選択', async () => {
@@ -201,7 +130,7 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
 
         await test.step('3. 自動生成されたスクリプトの検証', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
 
             // スクリプトが3つ追加されていることを確認
@@ -214,10 +143,10 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
             await editorHelper.openMoveingHandle('left');
 
             // テンプレート選択リストを展開し、ホーム画面とメニュー画面のUUIDを取得
-            const topContainer = editorPage.locator('.top-container');
+            const topContainer = editorPage.locator(SELECTORS.transient.topContainer);
             await topContainer.locator('.select').click();
 
-            const topTemplateListContainer = editorPage.locator('#top-template-list');
+            const topTemplateListContainer = editorPage.locator(SELECTORS.transient.topTemplateList);
             await expect(topTemplateListContainer).toBeVisible({ timeout: 10000 });
 
             const homeItem = topTemplateListContainer.locator('div.top-template-item', { hasText: 'ホーム画面' });
@@ -237,9 +166,9 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
             const menuButtonNode = await editorHelper.selectNodeByAttribute('data-node-dom-id', 'menu_button');
 
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
-            const eventContainer = scriptContainer.locator('event-container');
+            const eventContainer = scriptContainer.locator(SELECTORS.editor.eventContainer);
 
             // ツールバーボタン（menu_button）の click イベントに openMenu が紐づいていることを確認
             const clickEventRow = eventContainer.locator('.editor-row', { hasText: 'click' });
@@ -257,7 +186,7 @@ test.describe('スターターテンプレート（骨組み）機能の検証',
     });
 
     test('「閉じて一から自分で作る（スキップ）」を選択すると空のままエディタを利用できる', async ({ editorPage, editorHelper }) => {
-        const modal = editorPage.locator('starter-template-modal');
+        const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
         await expect(modal).toBeVisible();
 
         await test.step('1. スキップボタンをクリック', async () => {
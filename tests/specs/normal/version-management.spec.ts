@@ -1,4 +1,4 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '../../tools/scenario-fixture';
 import 'dotenv/config';
 import {
     createApp,
@@ -11,8 +11,10 @@ import {
     expectVersionVisibility,
     gotoDashboard,
 } from '../../tools/dashboard-helpers';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+const testRunSuffix = config.runSuffix;
 
 test.describe('バージョン管理 E2Eシナリオ', () => {
 
@@ -39,7 +41,7 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
             const newVersionBtn = page.getByRole('button', { name: '+ 新規バージョン' });
             await newVersionBtn.click();
             await page.waitForTimeout(500);
-            const modal = page.locator('dashboard-modal-window#versionModal');
+            const modal = page.locator(SELECTORS.appDetail.versionModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('バージョンの追加');
 
             const versionInput = modal.locator('#input-version');
@@ -47,7 +49,7 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
             await versionInput.fill(autoCreatedVersion);
             await modal.locator('.submit-button').click({ force: true });
 
-            const alertDialog = page.locator('alert-component');
+            const alertDialog = page.locator(SELECTORS.transient.alert);
             await expect(alertDialog).toContainText('同じバージョンがすでに存在しています', { timeout: 5000 }).catch(async () => {
                 await expect(modal.locator('#error-version')).toContainText('重複しています');
             });
@@ -98,7 +100,7 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
 
         await test.step('テスト: 1.0.0を複製すると、1.0.2が作成されることを確認', async () => {
             await duplicateVersion(page, '1.0.0');
-            await expect(page.locator('alert-component')).toBeHidden();
+            await expect(page.locator(SELECTORS.transient.alert)).toBeHidden();
             await expectVersionVisibility(page, expectedDuplicatedVersion, true);
         });
 
@@ -120,10 +122,10 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
         });
 
         await test.step('テスト: 1.0.0を1.1.0に編集しようとするとエラーになる', async () => {
-            const versionRow = page.locator('.version-card', { hasText: '1.0.0' });
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: '1.0.0' });
             await versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-pen') }).click();
 
-            const modal = page.locator('dashboard-modal-window#versionModal');
+            const modal = page.locator(SELECTORS.appDetail.versionModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('バージョンの編集');
 
             const versionInput = modal.locator('#input-version');
@@ -131,7 +133,7 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
             await versionInput.fill('1.1.0');
             await modal.locator('.submit-button').click({ force: true });
 
-            const alertDialog = page.locator('alert-component');
+            const alertDialog = page.locator(SELECTORS.transient.alert);
             await expect(alertDialog).toContainText('指定されたバージョンは既に存在します').catch(async () => {
                 await expect(modal.locator('#error-version')).toContainText('重複しています');
             });
@@ -161,10 +163,10 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
         });
 
         await test.step('テスト: 編集ダイアログで各種バリデーションエラーを確認', async () => {
-            const versionRow = page.locator('.version-card', { hasText: initialVersion });
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: initialVersion });
             await versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-pen') }).click();
 
-            const modal = page.locator('dashboard-modal-window#versionModal');
+            const modal = page.locator(SELECTORS.appDetail.versionModal);
             await expect(modal.locator('span[slot="header-title"]')).toContainText('バージョンの編集');
 
             const versionInput = modal.locator('#input-version');
@@ -208,7 +210,7 @@ test.describe('バージョン管理 E2Eシナリオ', () => {
 
         await test.step('テスト: 30文字のバージョンを複製しようとするとエラーになる', async () => {
             await duplicateVersion(page, tooLongVersion);
-            const alertDialog = page.locator('alert-component');
+            const alertDialog = page.locator(SELECTORS.transient.alert);
             await expect(alertDialog).toContainText(/複製後のバージョン名が30文字を超えます/);
             await alertDialog.getByRole('button', { name: '閉じる' }).click();
         });
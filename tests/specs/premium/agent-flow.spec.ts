@@ -1,90 +1,33 @@
-import { test as base, expect, Page } from '@playwright/test';
+import { type Page } from '@playwright/test';
 import 'dotenv/config';
+import { test, expect } from '../../tools/test-fixtures';
 import { createApp, deleteApp, gotoDashboard, openEditor, setAiCoding } from '../../tools/dashboard-helpers';
-import { EditorHelper } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`ai-test-app-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        const appKey = `test-key-${uniqueId}`.slice(0, 30); // ※ここは各ファイルのプレフィックスに合わせてください
-
-        await createApp(page, appName, appKey);
-        const editorPage = await openEditor(page, context, appName);
-
-        // テスト本体の実行
-        await use(editorPage);
+import { AgentBlueprintBuilder } from '../../tools/agent-blueprint';
+import { AgentMockServer } from '../../tools/agent-mock-server';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
-        try {
-            await editorPage.evaluate(() => window.stop());
-        } catch (e) {
-            // 既にナビゲーション中等でエラーが出た場合は無視
-        }
-
-        await editorPage.close();
-        await page.bringToFront();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+test.use({ appPrefix: 'ai-test-app', aiCoding: true });
 
 test.describe('AIエージェント機能：UI・連携・コマンド反映テスト（モック実行）', () => {
 
-    test.beforeEach(async ({ page, context }) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // dashboard-helpers側の年齢確認モーダル待機によるタイムアウトを防ぐため、エラーを握り潰して続行させます
-        try {
-            await setAiCoding(page, true);
-        } catch (e) {
-            console.warn('[Warning] setAiCoding failed/timed out, continuing test...', e);
-        }
-    });
-
-    test.afterEach(async ({ page }) => {
-        try {
-            await setAiCoding(page, false);
-        } catch (e) {
-            console.warn('[Warning] setAiCoding (disable) failed, ignoring...', e);
-        }
-    });
-
     test('エージェントウィンドウ：基本UI、リサイズ、および設定変更', async ({ editorPage, editorHelper }) => {
         await test.step('1. AIエージェントウィンドウを起動', async () => {
             // メニューからAIエージェントを開く
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible();
             await bottomMenu.getByText('AIエージェント').click();
 
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             await expect(agentWindow).toBeVisible();
         });
 
         await test.step('2. パネルのリサイズ操作を検証', async () => {
             // Shadow DOM内も含めたスコープでチャットパネルを特定
-            const chatPanel = editorPage.locator('agent-chat-window .chat-panel');
+            const chatPanel = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .chat-panel`);
             // ToolBoxItemEditor内のリサイザーと区別するため、agent-chat-window内のリサイザーを特定
-            const resizer = editorPage.locator('agent-chat-window .resizer');
+            const resizer = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .resizer`);
 
             const initialBox = await chatPanel.boundingBox();
             const resizerBox = await resizer.boundingBox();
@@ -106,7 +49,7 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
         });
 
         await test.step('3. モデル設定モーダルの操作', async () => {
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             await agentWindow.locator('.settings-btn').click();
 
             const modal = agentWindow.locator('.modal-dialog:has-text("AIエージェント設定")');
@@ -125,12 +68,12 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
 
     test('ウェルカム画面：アーキテクチャ・テンプレートの選択と反映', async ({ editorPage }) => {
         await test.step('1. 初期表示のテンプレート選択カードを確認', async () => {
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible();
             await bottomMenu.getByText('AIエージェント').click();
 
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             const welcome = agentWindow.locator('.welcome-screen');
             await expect(welcome).toBeVisible();
 
@@ -144,7 +87,7 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
         });
 
         await test.step('2. 選択解除の動作確認', async () => {
-            const tabCard = editorPage.locator('agent-chat-window .template-card', { hasText: 'Tab Bar' });
+            const tabCard = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .template-card`, { hasText: 'Tab Bar' });
             await tabCard.click();
             await expect(tabCard).not.toHaveClass(/selected/);
         });
@@ -153,83 +96,46 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
     test('APIモック実行：AI応答（設計図）の受信から画面構築（Build）までの自動反映', async ({ editorPage, editorHelper }) => {
         test.setTimeout(120000); // タイムアウト延長
 
-        let isProcessing = false;
-        let getRequestCount = 0;
-
         // AI APIの呼び出しをフックして、ダミーの設計図JSONを返す
-        // 正規表現で広くフックし、POST（チケット発行）とGET（ポーリング）の非同期仕様に適合させます
-        await editorPage.route(/.*agent.*/, async route => {
-            const request = route.request();
-            if (request.method() === 'POST') {
-                isProcessing = true;
-                getRequestCount = 0;
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({ code: 200, details: { ticket: 'mock-ticket-12345' } })
-                });
-            } else if (request.method() === 'GET') {
-                if (!isProcessing) {
-                    await route.fulfill({
-                        status: 200,
-                        contentType: 'application/json',
-                        body: JSON.stringify({ code: 200, details: { aiAgentRequests: [] } })
-                    });
-                    return;
-                }
-
-                getRequestCount++;
-                // 1回目のポーリングは pending を返し、2回目以降で completed を返すことでUI状態遷移の確実性を担保します
-                const status = getRequestCount <= 1 ? "pending" : "completed";
-
-                const mockPayload = JSON.stringify({
-                    blueprint: {
-                        root_html: '<ons-navigator id="appNavigator" page="home.html"></ons-navigator>',
-                        pages: [
-                            { template_id: "home.html", content: '<ons-page id="home-page" explain="ホーム画面" template-id="home.html"><div class="page__background"></div><div class="page__content"><ons-button id="hello-btn" explain="挨拶ボタン">Hello AI</ons-button></div></ons-page>' }
-                        ],
-                        global_css: "ons-button { color: red; }",
-                        scripts: [{ name: "sayHello", content: "function sayHello() { ons.notification.alert('Hello from Mock!'); }", description: "挨拶" }],
-                        event_bindings: [{ target_dom_id: "hello-btn", event_type: "click", script_name: "sayHello" }]
-                    },
-                    thought: "モックデータを使用してTODOアプリの骨格を作成しました。"
-                });
-
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({
-                        code: 200,
-                        details: { aiAgentRequests: [{ status: status, responsePayload: mockPayload }] }
-                    })
-                });
-            } else {
-                await route.continue();
-            }
-        });
+        // 1回目のポーリングは pending を返し、2回目以降で completed を返すことでUI状態遷移の確実性を担保します
+        const agent = new AgentMockServer(editorPage).respondWith(
+            new AgentBlueprintBuilder()
+                .rootHtml('<ons-navigator id="appNavigator" page="home.html"></ons-navigator>')
+                .page('home.html', '<ons-page id="home-page" explain="ホーム画面" template-id="home.html"><div class="page__background"></div><div class="page__content"><ons-button id="hello-btn" explain="挨拶ボタン">Hello AI</ons-button></div></ons-page>')
+                .globalCss('ons-button { color: red; }')
+                .script('sayHello', "function sayHello() { ons.notification.alert('Hello from Mock!'); }", '挨拶')
+                .bindEvent('hello-btn', 'click', 'sayHello')
+                .thought('モックデータを使用してTODOアプリの骨格を作成しました。'),
+            { pendingPolls: 1 }
+        );
+        await agent.install();
 
         await test.step('1. 指示を送信してモック応答をトリガー', async () => {
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible();
             await bottomMenu.getByText('AIエージェント').click();
 
-            const textarea = editorPage.locator('agent-chat-window textarea.user-input');
+            const textarea = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(textarea).toBeEditable();
             await textarea.fill('TODOアプリを作って');
 
             // 自動実行モードに設定（.mode-selector経由で特定）
-            const autoBtn = editorPage.locator('agent-chat-window .mode-selector button').filter({ hasText: '自動' });
+            const autoBtn = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .mode-selector button`).filter({ hasText: '自動' });
             await expect(autoBtn).toBeVisible();
             await autoBtn.click();
 
-            const sendButton = editorPage.locator('agent-chat-window #send-button');
+            const sendButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`);
             await expect(sendButton).toBeVisible();
             await sendButton.click();
+
+            // 入力した指示がリクエストに含まれていることを確認
+            const [request] = await agent.waitForRequests(1);
+            expect(JSON.stringify(request.body)).toContain('TODOアプリを作って');
         });
 
         await test.step('2. 設計図に基づいた画面構築の完了を確認', async () => {
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
 
             // AIの思考メッセージが表示されるのを待つ
             await expect(agentWindow.getByText('モックデータを使用して')).toBeVisible({ timeout: 30000 });
@@ -244,7 +150,7 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
             await editorHelper.openMoveingHandle('left');
 
             // テンプレートリスト（プルダウン）を開く
-            await editorPage.locator('template-container .select').click();
+            await editorPage.locator(`${SELECTORS.editor.templateContainer} .select`).click();
 
             // "ホーム画面" (explain属性) がリストに追加されていることを確認
             const homePageItem = editorPage.locator('.top-template-item').filter({ hasText: 'ホーム画面' });
@@ -261,7 +167,7 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
 
         await test.step('3. スクリプトとイベント紐付けの検証', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             // スクリプトが作成されているか
             await expect(scriptContainer.locator('.editor-row', { hasText: 'sayHello' })).toBeVisible();
@@ -270,35 +176,35 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
             const button = await editorHelper.selectNodeByAttribute('data-node-dom-id', 'hello-btn');
             await editorHelper.openMoveingHandle('right');
             await editorHelper.switchTabInContainer(scriptContainer, 'イベント');
-            await expect(editorPage.locator('event-container').locator('.editor-row-right-item', { hasText: 'sayHello' })).toBeVisible();
+            await expect(editorPage.locator(SELECTORS.editor.eventContainer).locator('.editor-row-right-item', { hasText: 'sayHello' })).toBeVisible();
         });
     });
 
     test('手動実行モード：プロンプトのコピーと応答の貼り付けUI', async ({ editorPage }) => {
 
         // CI環境（GitHub Actionsなど）の場合のみスキップ
-        test.skip(!!process.env.CI, 'CI環境ではクリップボード権限の制限によりテストが失敗するためスキップします。ローカルでは実行されます。');
+        test.skip(config.isCI, 'CI環境ではクリップボード権限の制限によりテストが失敗するためスキップします。ローカルでは実行されます。');
 
         await test.step('1. 手動モードで指示を開始', async () => {
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible();
             await bottomMenu.getByText('AIエージェント').click();
 
             // 手動モードを選択（.mode-selector経由）
-            const manualBtn = editorPage.locator('agent-chat-window .mode-selector button').filter({ hasText: '手動' });
+            const manualBtn = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .mode-selector button`).filter({ hasText: '手動' });
             await expect(manualBtn).toBeVisible();
             await manualBtn.click();
 
-            const userInput = editorPage.locator('agent-chat-window textarea.user-input');
+            const userInput = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(userInput).toBeEditable();
             await userInput.fill('テスト指示');
-            await editorPage.locator('agent-chat-window #send-button').click();
+            await editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`).click();
         });
 
         await test.step('2. 手動プロンプト実行UIの検証', async () => {
             // モーダルではなくチャット履歴のアイテムとして表示される
-            const manualUI = editorPage.locator('agent-chat-window .message-bubble', { hasText: '手動実行の待機中' }).last();
+            const manualUI = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .message-bubble`, { hasText: '手動実行の待機中' }).last();
             await expect(manualUI).toBeVisible();
 
             // コピーボタンの存在
@@ -324,91 +230,63 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
 
     test('中断（停止・キャンセル）後の再送信テスト', async ({ editorPage }) => {
         // AI APIの呼び出しをフックして、処理中状態（pending）を返し続けるようにする
-        let requestCount = 0;
-        await editorPage.route(/.*agent.*/, async route => {
-            const request = route.request();
-            if (request.method() === 'POST') {
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({ code: 200, details: { ticket: `mock-ticket-cancel-test-${requestCount++}` } })
-                });
-            } else if (request.method() === 'GET') {
-                // 常に pending を返して待機させる
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({
-                        code: 200,
-                        details: { aiAgentRequests: [{ status: "pending" }] }
-                    })
-                });
-            } else if (request.method() === 'PUT') {
-                // キャンセルAPI
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({ code: 200, message: "canceled" })
-                });
-            } else {
-                await route.continue();
-            }
-        });
+        const agent = new AgentMockServer(editorPage).stall();
+        await agent.install();
 
         await test.step('1. 1回目の指示を送信', async () => {
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible();
             await bottomMenu.getByText('AIエージェント').click();
 
-            const textarea = editorPage.locator('agent-chat-window textarea.user-input');
+            const textarea = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(textarea).toBeEditable();
             await textarea.fill('1回目の指示');
 
             // 自動実行モードに設定
-            const autoBtn = editorPage.locator('agent-chat-window .mode-selector button').filter({ hasText: '自動' });
+            const autoBtn = editorPage.locator(`${SELECTORS.transient.agentChatWindow} .mode-selector button`).filter({ hasText: '自動' });
             await expect(autoBtn).toBeVisible();
             await autoBtn.click();
 
-            const sendButton = editorPage.locator('agent-chat-window #send-button');
+            const sendButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`);
             await expect(sendButton).toBeVisible();
             await sendButton.click();
 
-            const cancelButton = editorPage.locator('agent-chat-window #cancel-button');
+            const cancelButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #cancel-button`);
             await expect(cancelButton).toBeVisible({ timeout: 10000 });
         });
 
         await test.step('2. 停止（キャンセル）ボタンを押して処理を中断する', async () => {
-            const cancelButton = editorPage.locator('agent-chat-window #cancel-button');
+            const cancelButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #cancel-button`);
             await cancelButton.click();
 
             // キャンセル後、通常の送信ボタンに戻ることを確認
-            const sendButton = editorPage.locator('agent-chat-window #send-button');
+            const sendButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`);
             await expect(sendButton).toBeVisible();
         });
 
         await test.step('3. 2回目の指示を送信', async () => {
-            const textarea = editorPage.locator('agent-chat-window textarea.user-input');
+            const textarea = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(textarea).toBeEditable();
             await textarea.fill('2回目の指示');
 
-            const sendButton = editorPage.locator('agent-chat-window #send-button');
+            const sendButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`);
             await sendButton.click();
 
             // 送信後、再び処理中になり「停止」ボタンが表示されるか確認
-            const cancelButton = editorPage.locator('agent-chat-window #cancel-button');
+            const cancelButton = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #cancel-button`);
             await expect(cancelButton).toBeVisible({ timeout: 10000 });
         });
     });
 
     test('プレビュー更新ボタン：モバイル含むドラッグ＆ドロップ後のドラッグ解除とリロード検証', async ({ editorPage, isMobile }) => {
         // 1. AIエージェントウィンドウを起動
-        await editorPage.locator('#fab-bottom-menu-box').click();
-        const bottomMenu = editorPage.locator('#platformBottomMenu');
+        await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+        const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
         await expect(bottomMenu).toBeVisible();
         await bottomMenu.getByText('AIエージェント').click();
 
-        const agentWindow = editorPage.locator('agent-chat-window');
+        const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
         await expect(agentWindow).toBeVisible();
 
         // モバイルの場合は、プレビュー操作を行う前に「プレビュー」タブへ切り替える
@@ -488,7 +366,7 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
             });
 
             await test.step('3. モーダルに「AIに作ってもらう」カードが存在することを確認しクリック', async () => {
-                const modal = editorPage.locator('starter-template-modal');
+                const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
                 await expect(modal).toBeVisible();
 
                 const aiCard = modal.locator('.card.ai-card', { hasText: 'AIに作ってもらう' });
@@ -498,10 +376,10 @@ test.describe('AIエージェント機能：UI・連携・コマンド反映テ
             });
 
             await test.step('4. モーダルが閉じ、AIエージェントウィンドウが開くことを検証', async () => {
-                const modal = editorPage.locator('starter-template-modal');
+                const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
                 await expect(modal).toBeHidden();
 
-                const agentWindow = editorPage.locator('agent-chat-window');
+                const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
                 await expect(agentWindow).toBeVisible({ timeout: 10000 });
             });
         } finally {
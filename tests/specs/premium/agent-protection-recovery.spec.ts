@@ -1,132 +1,36 @@
-import { test as base, expect, Page } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, setAiCoding } from '../../tools/dashboard-helpers';
-import { EditorHelper } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${Date.now()}`;
-        await use(`agent-protect-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName }, use) => {
-        // console.log(`[Fixture:editorPage:Enter] appName: ${appName}, Initial URL: ${page.url()}`);
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        const appKey = `test-key-${uniqueId}`.slice(0, 30);
-
-        await gotoDashboard(page);
-
-        // console.log(`[Fixture:editorPage:BeforeCreateApp] Current URL: ${page.url()}`);
-        await createApp(page, appName, appKey);
-        // console.log(`[Fixture:editorPage:AfterCreateApp] Current URL: ${page.url()}`);
-
-        const editorPage = await openEditor(page, context, appName);
-        // console.log(`[Fixture:editorPage:AfterOpenEditor]`);
-
-        // テスト本体の実行
-        await use(editorPage);
-
-        try {
-            await editorPage.evaluate(() => window.stop());
-        } catch (e) {
-            // 既にナビゲーション中等でエラーが出た場合は無視
-        }
-
-        await editorPage.close();
-        await page.bringToFront();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+import { test, expect } from '../../tools/test-fixtures';
+import { AgentBlueprintBuilder } from '../../tools/agent-blueprint';
+import { AgentMockServer } from '../../tools/agent-mock-server';
+import { SELECTORS } from '../../tools/selectors';
 
-test.describe('AIエージェント：エラーリカバリと保護機能（ロック）の検証', () => {
-
-    test.beforeEach(async ({ page }) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
+test.use({ appPrefix: 'agent-protect', aiCoding: true });
 
-        try {
-            // AIコーディング機能を有効化
-            await setAiCoding(page, true);
-        } catch (e) {
-            console.warn('[Warning] setAiCoding failed/timed out, continuing test...', e);
-        }
-    });
-
-    test.afterEach(async ({ page }) => {
-        try {
-            // 他のテストに影響を与えないよう無効化に戻す
-            await setAiCoding(page, false);
-        } catch (e) {
-            console.warn('[Warning] setAiCoding (disable) failed, ignoring...', e);
-        }
-    });
+test.describe('AIエージェント：エラーリカバリと保護機能（ロック）の検証', () => {
 
     test('修復不能なJSONの連続受信時、リトライ上限で停止し手動修正から再開できる', async ({ editorPage, editorHelper }) => {
-        let isProcessing1 = false;
-        await editorPage.route(/.*agent.*/, async route => {
-            const request = route.request();
-            if (request.method() === 'POST') {
-                isProcessing1 = true;
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({ code: 200, details: { ticket: 'mock-ticket-1' } })
-                });
-            } else if (request.method() === 'GET') {
-                if (!isProcessing1) {
-                    await route.fulfill({
-                        status: 200,
-                        contentType: 'application/json',
-                        body: JSON.stringify({ code: 200, details: { aiAgentRequests: [] } })
-                    });
-                    return;
-                }
-                // 即座に完了状態かつ不正なJSONを返却し、ポーリング待機時間をカットする
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({
-                        code: 200,
-                        details: { aiAgentRequests: [{ status: "completed", responsePayload: `THIS IS NOT A JSON AT ALL. SYSTEM MUST FAIL.` }] }
-                    })
-                });
-            } else {
-                await route.continue();
-            }
-        });
+        // 即座に完了状態かつ不正なJSONを返却し、ポーリング待機時間をカットする
+        const agent = new AgentMockServer(editorPage).respondMalformed();
+        await agent.install();
 
         await test.step('1. AIにリクエストを送信', async () => {
             await editorHelper.closeMoveingHandle();
             // console.log('[DEBUG] agent-protection: Opening bottom menu...');
-            await editorPage.locator('#fab-bottom-menu-box').click({ force: true });
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click({ force: true });
 
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible({ timeout: 10000 });
 
             // console.log('[DEBUG] agent-protection: Clicking AI Agent button...');
             await bottomMenu.getByText('AIエージェント').click({ force: true });
-            const userInput = editorPage.locator('agent-chat-window textarea.user-input');
+            const userInput = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(userInput).toBeEditable();
             await userInput.fill('テスト');
-            await editorPage.locator('agent-chat-window #send-button').click({ force: true });
+            await editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`).click({ force: true });
         });
 
         await test.step('2. リトライ上限到達と手動修正モードへの移行を確認', async () => {
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             // 高速にループが回るため、タイムアウトを20秒程度に短縮しても十分間に合う
             await expect(agentWindow.getByText('構築エラーが発生しました')).toBeVisible({ timeout: 20000 });
             await expect(agentWindow.getByText('自動修復の試行回数が')).toBeVisible();
@@ -138,32 +42,33 @@ test.describe('AIエージェント：エラーリカバリと保護機能（ロ
 
         await test.step('3. 正しいJSONを手動で入力して続行し、正常に反映されるか確認', async () => {
 
-            await editorPage.unroute(/.*agent.*/);
-            const validJson = JSON.stringify({
-                blueprint: {
-                    pages: [{ template_id: "manual-home.html", content: "<ons-page id='manual-page' explain='手動修正ページ'></ons-page>" }]
-                },
-                thought: "手動で修正しました。"
-            }, null, 2);
+            await agent.uninstall();
+            const validJson = JSON.stringify(
+                new AgentBlueprintBuilder()
+                    .page('manual-home.html', "<ons-page id='manual-page' explain='手動修正ページ'></ons-page>")
+                    .thought('手動で修正しました。')
+                    .build(),
+                null, 2
+            );
 
-            const responseInput = editorPage.locator('agent-chat-window #manual-response-input');
+            const responseInput = editorPage.locator(`${SELECTORS.transient.agentChatWindow} #manual-response-input`);
             await expect(responseInput).toBeEditable();
             await responseInput.fill(validJson);
-            await editorPage.locator('agent-chat-window').getByRole('button', { name: '処理を続行' }).click({ force: true });
+            await editorPage.locator(SELECTORS.transient.agentChatWindow).getByRole('button', { name: '処理を続行' }).click({ force: true });
 
             // 重要：反映完了のログが出るのを待つ
-            await expect(editorPage.locator('agent-chat-window').getByText('システム構成を更新しました')).toBeVisible({ timeout: 20000 });
-            await editorPage.locator('agent-chat-window .close-btn').click({ force: true });
+            await expect(editorPage.locator(SELECTORS.transient.agentChatWindow).getByText('システム構成を更新しました')).toBeVisible({ timeout: 20000 });
+            await editorPage.locator(`${SELECTORS.transient.agentChatWindow} .close-btn`).click({ force: true });
 
             // 適用されたページが表示されるよう、トップレベルテンプレートを切り替える
             await editorHelper.openMoveingHandle('left');
-            const templateContainer = editorPage.locator('template-container');
+            const templateContainer = editorPage.locator(SELECTORS.editor.templateContainer);
 
             // リスト表示のポーリングを強化
             await expect(async () => {
                 const selectBox = templateContainer.locator('.select');
                 await selectBox.click({ force: true });
-                await expect(templateContainer.locator('#top-template-list')).toBeVisible({ timeout: 2000 });
+                await expect(templateContainer.locator(SELECTORS.transient.topTemplateList)).toBeVisible({ timeout: 2000 });
             }).toPass({ timeout: 15000 });
 
             // アイテムを確実にクリック
@@ -171,7 +76,7 @@ test.describe('AIエージェント：エラーリカバリと保護機能（ロ
             await listItem.scrollIntoViewIfNeeded();
             await listItem.click({ force: true });
 
-            const domTree = editorPage.locator('#dom-tree');
+            const domTree = editorPage.locator(SELECTORS.editor.domTree);
             await expect(domTree.locator('.label-explain').filter({ hasText: /^手動修正ページ$/ }).first()).toBeVisible({ timeout: 15000 });
         });
     });
@@ -179,78 +84,43 @@ test.describe('AIエージェント：エラーリカバリと保護機能（ロ
     test('実行時エラー（Syntax Error）の自動検知とエラー状態の維持', async ({ editorPage, editorHelper }) => {
         const { buttonNode } = await editorHelper.setupPageWithButton();
         await editorHelper.openMoveingHandle('right');
-        const scriptContainer = editorPage.locator('script-container');
+        const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
         await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
         await editorHelper.addNewScript('goodScript');
 
-        let isProcessing2 = false;
-        await editorPage.route(/.+\/ai-.+/, async route => {
-            const request = route.request();
-            if (request.method() === 'POST') {
-                isProcessing2 = true;
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({ code: 200, details: { ticket: 'mock-ticket-2' } })
-                });
-            } else if (request.method() === 'GET') {
-                if (!isProcessing2) {
-                    await route.fulfill({
-                        status: 200,
-                        contentType: 'application/json',
-                        body: JSON.stringify({ code: 200, details: { aiAgentRequests: [] } })
-                    });
-                    return;
-                }
-                // 即座に完了状態を返す
-                const mockPayload = JSON.stringify({
-                    blueprint: {
-                        scripts: [{
-                            name: "badScript",
-                            // スクリプト追加時の即時評価で確実にSyntaxErrorを発生させるための不正な構文
-                            content: "function badScript() { \n const a = ; // SyntaxError \n }",
-                            description: "バグ"
-                        }]
-                    },
-                    thought: "バグ入り追加"
-                });
-                await route.fulfill({
-                    status: 200,
-                    contentType: 'application/json',
-                    body: JSON.stringify({
-                        code: 200,
-                        details: { aiAgentRequests: [{ status: "completed", responsePayload: mockPayload }] }
-                    })
-                });
-            } else {
-                await route.continue();
-            }
-        });
+        // 即座に完了状態を返す
+        const agent = new AgentMockServer(editorPage, /.+\/ai-.+/).respondWith(
+            new AgentBlueprintBuilder()
+                // スクリプト追加時の即時評価で確実にSyntaxErrorを発生させるための不正な構文
+                .script('badScript', "function badScript() { \n const a = ; // SyntaxError \n }", 'バグ')
+                .thought('バグ入り追加')
+        );
+        await agent.install();
 
         await test.step('1. バグ入りスクリプトをAIに生成させる', async () => {
             await editorHelper.closeMoveingHandle();
             // console.log('[DEBUG] agent-protection: Opening bottom menu...');
-            await editorPage.locator('#fab-bottom-menu-box').click({ force: true });
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click({ force: true });
 
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible({ timeout: 10000 });
 
             // console.log('[DEBUG] agent-protection: Clicking AI Agent button...');
             await bottomMenu.getByText('AIエージェント').click({ force: true });
-            const userInput = editorPage.locator('agent-chat-window textarea.user-input');
+            const userInput = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(userInput).toBeEditable();
             await userInput.fill('バグを作って');
-            await editorPage.locator('agent-chat-window #send-button').click({ force: true });
+            await editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`).click({ force: true });
         });
 
         await test.step('2. 実行時エラーがフックされ、構築エラーUIが出ることを確認', async () => {
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             await expect(agentWindow.getByText('構築エラーが発生しました')).toBeVisible({ timeout: 20000 });
             await expect(agentWindow.locator('.message-agent').filter({ hasText: 'SyntaxError' })).toBeVisible();
         });
 
         await test.step('3. エラー状態が維持されることの検証（バグ入りデータが残っていること）', async () => {
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             await agentWindow.locator('.close-btn').click({ force: true });
 
             await editorHelper.openMoveingHandle('right');
@@ -259,6 +129,11 @@ test.describe('AIエージェント：エラーリカバリと保護機能（ロ
             await expect(scriptContainer.locator('.editor-row', { hasText: 'badScript' })).toBeVisible();
             await expect(scriptContainer.locator('.editor-row', { hasText: 'goodScript' })).toBeVisible();
         });
+
+        await test.step('4. badScript を開くと、構文エラーの箇所（2行目）にエラーが表示されていることを確認', async () => {
+            await editorHelper.openScriptForEditing('badScript');
+            await expect(editorHelper.scripts.monaco).toHaveMonacoError({ line: 2 });
+        });
     });
 
     test('保護機能（ロック）：AIによる削除・上書き命令のシステム的ブロック', async ({ editorPage, editorHelper }) => {
@@ -274,11 +149,11 @@ test.describe('AIエージェント：エラーリカバリと保護機能（ロ
             await explainInput.fill(targetPageName);
             await explainInput.press('Enter');
 
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript(targetScriptName);
 
-            const propertyContainer = editorPage.locator('property-container');
+            const propertyContainer = editorPage.locator(SELECTORS.editor.propertyContainer);
             await editorHelper.switchTabInContainer(propertyContainer, 'アプリ設定');
             const appSettingContainer = editorPage.locator('appsetting-container');
 
@@ -294,74 +169,43 @@ test.describe('AIエージェント：エラーリカバリと保護機能（ロ
         });
 
         await test.step('2. AIにロック対象の削除と上書きを命じる', async () => {
-            let isProcessing3 = false;
-            await editorPage.route(/.*agent.*/, async route => {
-                const request = route.request();
-                if (request.method() === 'POST') {
-                    isProcessing3 = true;
-                    await route.fulfill({
-                        status: 200,
-                        contentType: 'application/json',
-                        body: JSON.stringify({ code: 200, details: { ticket: 'mock-ticket-3' } })
-                    });
-                } else if (request.method() === 'GET') {
-                    if (!isProcessing3) {
-                        await route.fulfill({
-                            status: 200,
-                            contentType: 'application/json',
-                            body: JSON.stringify({ code: 200, details: { aiAgentRequests: [] } })
-                        });
-                        return;
-                    }
-                    // 即座に完了状態を返す
-                    const mockPayload = JSON.stringify({
-                        blueprint: {
-                            deleted_items: { pages: ["application", "home.html", "page2.html"] },
-                            scripts: [{ name: targetScriptName, content: "function lockedScript() { console.log('Hacked!'); }", description: "Hacked" }]
-                        },
-                        thought: "削除と上書き"
-                    });
-                    await route.fulfill({
-                        status: 200,
-                        contentType: 'application/json',
-                        body: JSON.stringify({
-                            code: 200,
-                            details: { aiAgentRequests: [{ status: "completed", responsePayload: mockPayload }] }
-                        })
-                    });
-                } else {
-                    await route.continue();
-                }
-            });
+            // 即座に完了状態を返す
+            const agent = new AgentMockServer(editorPage).respondWith(
+                new AgentBlueprintBuilder()
+                    .deletePages('application', 'home.html', 'page2.html')
+                    .script(targetScriptName, "function lockedScript() { console.log('Hacked!'); }", 'Hacked')
+                    .thought('削除と上書き')
+            );
+            await agent.install();
 
             await editorHelper.closeMoveingHandle();
 
             // console.log('[DEBUG] agent-protection: Opening AI Agent window...');
             await expect(async () => {
-                await editorPage.locator('#fab-bottom-menu-box').click({ force: true });
-                const bottomMenu = editorPage.locator('#platformBottomMenu');
+                await editorPage.locator(SELECTORS.editor.bottomMenuButton).click({ force: true });
+                const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                 await expect(bottomMenu).toBeVisible({ timeout: 2000 });
                 await bottomMenu.getByText('AIエージェント').click({ force: true });
-                const agentWindow = editorPage.locator('agent-chat-window');
+                const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
                 await expect(agentWindow).toBeVisible({ timeout: 2000 });
             }).toPass({ timeout: 15000, intervals: [1000] });
 
-            const userInput = editorPage.locator('agent-chat-window textarea.user-input');
+            const userInput = editorPage.locator(`${SELECTORS.transient.agentChatWindow} textarea.user-input`);
             await expect(userInput).toBeEditable();
             await userInput.fill('命令');
-            await editorPage.locator('agent-chat-window #send-button').click({ force: true });
+            await editorPage.locator(`${SELECTORS.transient.agentChatWindow} #send-button`).click({ force: true });
 
-            await expect(editorPage.locator('agent-chat-window').getByText('システム構成を更新しました')).toBeVisible({ timeout: 20000 });
-            await editorPage.locator('agent-chat-window .close-btn').click({ force: true });
+            await expect(editorPage.locator(SELECTORS.transient.agentChatWindow).getByText('システム構成を更新しました')).toBeVisible({ timeout: 20000 });
+            await editorPage.locator(`${SELECTORS.transient.agentChatWindow} .close-btn`).click({ force: true });
         });
 
         await test.step('3. ロックされたリソースが守られているか検証', async () => {
             await editorHelper.openMoveingHandle('left');
-            const domTree = editorPage.locator('#dom-tree');
+            const domTree = editorPage.locator(SELECTORS.editor.domTree);
             await expect(domTree.locator('.label-explain').filter({ hasText: new RegExp(`^${targetPageName}$`) }).first()).toBeVisible();
 
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.openScriptForEditing(targetScriptName);
 
@@ -1,6 +1,7 @@
 import { test, expect } from '@playwright/test';
 import 'dotenv/config';
 import { setAiCoding, navigateToSettings, gotoDashboard } from '../../tools/dashboard-helpers';
+import { SELECTORS } from '../../tools/selectors';
 
 /**
  * AIヒントバナーの挙動に関するテスト
@@ -27,13 +28,13 @@ test.describe('AIヒントバナーの検証', () => {
     });
 
     test('AIが無効かつ未閉鎖の場合、バナーが表示される', async ({ page }) => {
-        const banner = page.locator('.ai-hint-banner');
+        const banner = page.locator(SELECTORS.transient.aiHintBanner);
         await expect(banner).toBeVisible();
         await expect(banner).toContainText('AIアシスタントで開発を加速');
     });
 
     test('バナーの「×」ボタンで閉じると、リロード後も表示されない', async ({ page }) => {
-        const banner = page.locator('.ai-hint-banner');
+        const banner = page.locator(SELECTORS.transient.aiHintBanner);
         const closeButton = banner.locator('.ai-hint-close');
 
         // 1. バナーを閉じる
@@ -46,11 +47,11 @@ test.describe('AIヒントバナーの検証', () => {
 
         // 3. リロードしても再表示されないことを確認
         await page.reload({ waitUntil: 'domcontentloaded' });
-        await expect(page.locator('.ai-hint-banner')).toBeHidden();
+        await expect(page.locator(SELECTORS.transient.aiHintBanner)).toBeHidden();
     });
 
     test('バナーからAI機能を有効化できる', async ({ page }) => {
-        const banner = page.locator('.ai-hint-banner');
+        const banner = page.locator(SELECTORS.transient.aiHintBanner);
         const enableButton = banner.locator('.ai-hint-button');
 
         // 1. 有効化ボタンをクリック
@@ -75,7 +76,7 @@ test.describe('AIヒントバナーの検証', () => {
         // ベタ書きを廃止し、堅牢なヘルパー関数を使用する
         await navigateToSettings(page);
 
-        const checkbox = page.locator('#aiCodingCheckbox');
+        const checkbox = page.locator(SELECTORS.settings.aiCodingCheckbox);
         await expect(checkbox).toBeChecked();
     });
 
@@ -91,7 +92,7 @@ test.describe('AIヒントバナーの検証', () => {
         await page.evaluate(() => localStorage.removeItem('pwappy_ai_hint_closed'));
         await page.reload({ waitUntil: 'domcontentloaded' });
 
-        await expect(page.locator('.ai-hint-banner')).toBeHidden();
+        await expect(page.locator(SELECTORS.transient.aiHintBanner)).toBeHidden();
 
         // クリーンアップ: 他のテストのために無効に戻す
         try {
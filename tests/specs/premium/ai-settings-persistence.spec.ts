@@ -1,50 +1,9 @@
-import { test as base, expect, Page, Locator } from '@playwright/test';
+import { type Locator } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor, setAiCoding } from '../../tools/dashboard-helpers';
-import { EditorHelper } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`ai-persist-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        const appKey = `test-key-${uniqueId}`.slice(0, 30); // ※ここは各ファイルのプレフィックスに合わせてください
-
-        await createApp(page, appName, appKey);
-        const editorPage = await openEditor(page, context, appName);
-
-        // テスト本体の実行
-        await use(editorPage);
-
-        try {
-            await editorPage.evaluate(() => window.stop());
-        } catch (e) {
-            // 既にナビゲーション中等でエラーが出た場合は無視
-        }
-
-        await editorPage.close();
-        await page.bringToFront();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+import { test, expect } from '../../tools/test-fixtures';
+import { SELECTORS } from '../../tools/selectors';
+
+test.use({ appPrefix: 'ai-persist', aiCoding: true });
 
 // --- ランダム化のためのユーティリティ ---
 const getRandomItem = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
@@ -62,13 +21,6 @@ async function getRandomOptionValue(selectLocator: Locator): Promise<string> {
 
 test.describe('AI設定の永続化テスト', () => {
     test.setTimeout(180000);
-    test.beforeEach(async ({ page, context }) => {
-        await gotoDashboard(page);
-        await page.locator('app-container-loading-overlay').getByText('処理中').waitFor({ state: 'hidden' });
-
-        // AI機能を有効化（アカウント設定）
-        await setAiCoding(page, true);
-    });
 
     test('AIコーダーの設定がUI上の選択肢からランダムに選んでもリロード後に保持される', async ({ editorPage, editorHelper }) => {
         let targetModel: string;
@@ -77,13 +29,13 @@ test.describe('AI設定の永続化テスト', () => {
 
         await test.step('1. AIコーダー画面を開き、UIからモデルを取得してランダムに変更', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testScript');
             await editorHelper.openScriptForEditing('testScript');
             await editorHelper.openAiCodingWindow();
 
-            const aiWindow = editorPage.locator('ai-coder-window');
+            const aiWindow = editorPage.locator(SELECTORS.transient.aiCoderWindow);
             await aiWindow.locator('#setting-btn').click();
             const settingWindow = aiWindow.locator('#setting-window');
 
@@ -107,7 +59,7 @@ test.describe('AI設定の永続化テスト', () => {
             // スイッチ部分をクリック
             const checkbox = settingWindow.locator('#use-onsenui-check');
             if (await checkbox.isChecked() !== targetOnsen) {
-                await settingWindow.locator('label.switch').click();
+                await settingWindow.locator(SELECTORS.settings.aiCodingSwitch).click();
             }
 
             // 閉じるボタンをクリック
@@ -125,13 +77,13 @@ test.describe('AI設定の永続化テスト', () => {
 
         await test.step('3. スクリプトを再作成して設定が保持されているか確認', async () => {
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('testScript');
             await editorHelper.openScriptForEditing('testScript');
             await editorHelper.openAiCodingWindow();
 
-            const aiWindow = editorPage.locator('ai-coder-window');
+            const aiWindow = editorPage.locator(SELECTORS.transient.aiCoderWindow);
             await aiWindow.locator('#setting-btn').click();
             const settingWindow = aiWindow.locator('#setting-window');
             await expect(settingWindow).toBeVisible();
@@ -158,12 +110,12 @@ test.describe('AI設定の永続化テスト', () => {
         const targetMode = Math.random() > 0.5 ? '自動' : '手動';
 
         await test.step('1. AIエージェント画面を開き、UIからモデルを取得してランダムに変更', async () => {
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible()
             await bottomMenu.getByText('AIエージェント').click();
 
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
 
             await agentWindow.locator('.settings-btn').click();
             const modal = agentWindow.locator('.modal-dialog');
@@ -193,12 +145,12 @@ test.describe('AI設定の永続化テスト', () => {
         });
 
         await test.step('3. AIエージェントを再度開き、設定が保持されているか確認', async () => {
-            await editorPage.locator('#fab-bottom-menu-box').click();
-            const bottomMenu = editorPage.locator('#platformBottomMenu');
+            await editorPage.locator(SELECTORS.editor.bottomMenuButton).click();
+            const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
             await expect(bottomMenu).toBeVisible()
             await bottomMenu.getByText('AIエージェント').click();
 
-            const agentWindow = editorPage.locator('agent-chat-window');
+            const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
             const modeBtn = agentWindow.locator('.mode-btn').filter({ hasText: targetMode });
             await expect(modeBtn).toHaveClass(/active/);
 
@@ -1,4 +1,5 @@
-import { test, expect, Page } from '@playwright/test';
+import { Page } from '@playwright/test';
+import { test, expect } from '../../tools/scenario-fixture';
 import 'dotenv/config';
 import {
     createApp,
@@ -9,10 +10,13 @@ import {
     completePublication,
     unpublishVersion,
 } from '../../tools/dashboard-helpers';
+import { waitForIdle } from '../../tools/busy-state';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
 test.describe.configure({ mode: 'serial' });
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+const testRunSuffix = config.runSuffix;
 
 test.describe('アーカイブ E2Eシナリオ', () => {
 
@@ -81,10 +85,10 @@ test.describe('アーカイブ E2Eシナリオ', () => {
         });
 
         await test.step('テスト: アプリケーションをアーカイブする', async () => {
-            const appRow = page.locator('.app-card', { hasText: appName }).first();
+            const appRow = page.locator(SELECTORS.dashboard.appCard, { hasText: appName }).first();
 
             await expect(async () => {
-                const alert = page.locator('alert-component');
+                const alert = page.locator(SELECTORS.transient.alert);
                 if (await alert.isVisible().catch(() => false)) {
                     await alert.getByRole('button', { name: '閉じる' }).click().catch(() => { });
                 }
@@ -94,7 +98,7 @@ test.describe('アーカイブ E2Eシナリオ', () => {
                 await page.waitForTimeout(500);
 
                 await page.getByRole('button', { name: ' アーカイブする' }).click();
-                const confirmDialog = page.locator('message-box#archive-confirm');
+                const confirmDialog = page.locator(SELECTORS.appDetail.archiveConfirm);
                 await page.waitForTimeout(500);
                 await expect(confirmDialog).toBeVisible({ timeout: 5000 });
 
@@ -110,33 +114,33 @@ test.describe('アーカイブ E2Eシナリオ', () => {
                 await expect(confirmDialog).toBeHidden({ timeout: 5000 });
             }).toPass({ timeout: 20000, intervals: [1000] });
 
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 150000 });
+            await waitForIdle(page, 'dashboard', { timeout: 150000 });
             await expectAppVisibility(page, appKey, false);
         });
 
         await test.step('テスト: アーカイブタブで表示されることを確認', async () => {
-            const alert = page.locator('alert-component');
+            const alert = page.locator(SELECTORS.transient.alert);
             if (await alert.isVisible().catch(() => false)) {
                 await alert.getByRole('button', { name: '閉じる' }).click({ force: true }).catch(() => { });
             }
 
             await page.getByRole('button', { name: ' アーカイブ' }).click({ force: true });
-            const archivedAppCard = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) });
+            const archivedAppCard = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) });
             await expect(archivedAppCard).toBeVisible({ timeout: 10000 });
         });
 
         await test.step('テスト: アーカイブから復元する', async () => {
-            const archiveRow = page.locator('.app-card', { hasText: appName });
+            const archiveRow = page.locator(SELECTORS.dashboard.appCard, { hasText: appName });
 
             await expect(async () => {
-                const alert = page.locator('alert-component');
+                const alert = page.locator(SELECTORS.transient.alert);
                 if (await alert.isVisible().catch(() => false)) {
                     await alert.getByRole('button', { name: '閉じる' }).click().catch(() => { });
                 }
 
                 await archiveRow.getByRole('button', { name: /復元/ }).click({ force: true, timeout: 2000 });
 
-                const confirmDialog = page.locator('message-box#restore-confirm');
+                const confirmDialog = page.locator(SELECTORS.archive.restoreConfirm);
                 await expect(confirmDialog).toBeVisible({ timeout: 5000 });
 
                 // console.log(`[ArchiveTest:Action] 復元実行ボタンをクリックします`);
@@ -145,9 +149,9 @@ test.describe('アーカイブ E2Eシナリオ', () => {
                 await expect(confirmDialog).toBeHidden({ timeout: 5000 });
             }).toPass({ timeout: 20000, intervals: [1000] });
 
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 150000 });
+            await waitForIdle(page, 'dashboard', { timeout: 150000 });
 
-            const alertDialog = page.locator('alert-component');
+            const alertDialog = page.locator(SELECTORS.transient.alert);
             await expect(alertDialog).toBeVisible();
             await expect(alertDialog).toContainText(`復元しました`);
             await alertDialog.getByRole('button', { name: '閉じる' }).click();
@@ -178,7 +182,7 @@ test.describe('アーカイブ E2Eシナリオ', () => {
 
         await test.step('テスト: アプリケーションをアーカイブする', async () => {
             await expect(async () => {
-                const alert = page.locator('alert-component');
+                const alert = page.locator(SELECTORS.transient.alert);
                 if (await alert.isVisible().catch(() => false)) {
                     await alert.getByRole('button', { name: '閉じる' }).click().catch(() => { });
                 }
@@ -188,7 +192,7 @@ test.describe('アーカイブ E2Eシナリオ', () => {
                 await page.waitForTimeout(500);
 
                 await page.getByRole('button', { name: ' アーカイブする' }).click();
-                const confirmDialog = page.locator('message-box#archive-confirm');
+                const confirmDialog = page.locator(SELECTORS.appDetail.archiveConfirm);
                 await page.waitForTimeout(500);
                 await expect(confirmDialog).toBeVisible({ timeout: 5000 });
 
@@ -204,19 +208,19 @@ test.describe('アーカイブ E2Eシナリオ', () => {
                 await expect(confirmDialog).toBeHidden({ timeout: 5000 });
             }).toPass({ timeout: 20000, intervals: [1000] });
 
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 150000 });
+            await waitForIdle(page, 'dashboard', { timeout: 150000 });
             await expectAppVisibility(page, appKey, false);
         });
 
         await test.step('テスト: アーカイブタブでメニューグループ（QRコード等）が表示されることを確認', async () => {
-            const alert = page.locator('alert-component');
+            const alert = page.locator(SELECTORS.transient.alert);
             if (await alert.isVisible().catch(() => false)) {
                 await alert.getByRole('button', { name: '閉じる' }).click({ force: true }).catch(() => { });
             }
 
             await page.getByRole('button', { name: ' アーカイブ' }).click({ force: true });
 
-            const archivedAppCard = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) });
+            const archivedAppCard = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) });
             await expect(archivedAppCard).toBeVisible({ timeout: 10000 });
 
             // dashboard-app-menu-group がマウントされ、表示されていることを確認
@@ -225,17 +229,17 @@ test.describe('アーカイブ E2Eシナリオ', () => {
         });
 
         await test.step('クリーンアップ: アプリを復元し、非公開にして削除する', async () => {
-            const archiveRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) });
+            const archiveRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) });
 
             await expect(async () => {
-                const alert = page.locator('alert-component');
+                const alert = page.locator(SELECTORS.transient.alert);
                 if (await alert.isVisible().catch(() => false)) {
                     await alert.getByRole('button', { name: '閉じる' }).click().catch(() => { });
                 }
 
                 await archiveRow.getByRole('button', { name: /復元/ }).click({ force: true, timeout: 2000 });
 
-                const confirmDialog = page.locator('message-box#restore-confirm');
+                const confirmDialog = page.locator(SELECTORS.archive.restoreConfirm);
                 await expect(confirmDialog).toBeVisible({ timeout: 5000 });
 
                 // console.log(`[ArchiveTest:Action] 復元実行ボタンをクリックします`);
@@ -244,9 +248,9 @@ test.describe('アーカイブ E2Eシナリオ', () => {
                 await expect(confirmDialog).toBeHidden({ timeout: 5000 });
             }).toPass({ timeout: 20000, intervals: [1000] });
 
-            await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 150000 });
+            await waitForIdle(page, 'dashboard', { timeout: 150000 });
 
-            const alertDialog = page.locator('alert-component');
+            const alertDialog = page.locator(SELECTORS.transient.alert);
             await expect(alertDialog).toBeVisible();
             await alertDialog.getByRole('button', { name: '閉じる' }).click();
             await expect(alertDialog).toBeHidden();
@@ -255,11 +259,11 @@ test.describe('アーカイブ E2Eシナリオ', () => {
             await expectAppVisibility(page, appKey, true);
 
             // アプリを選択して詳細を開く
-            const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) });
+            const appRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) });
             await appRow.click({ force: true });
 
             // バージョン管理から非公開にする
-            await expect(page.locator('.detail-tab.active')).toContainText('バージョン管理', { timeout: 10000 });
+            await expect(page.locator(SELECTORS.appDetail.activeTab)).toContainText('バージョン管理', { timeout: 10000 });
             await unpublishVersion(page, appName, '1.0.0');
 
             // アプリを完全に削除する
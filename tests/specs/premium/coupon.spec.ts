@@ -1,6 +1,7 @@
 import { test, expect } from '@playwright/test';
 import 'dotenv/config';
 import { gotoDashboard } from '../../tools/dashboard-helpers';
+import { SELECTORS } from '../../tools/selectors';
 
 test.describe('クーポン機能 E2Eシナリオ', () => {
 
@@ -28,7 +29,7 @@ test.describe('クーポン機能 E2Eシナリオ', () => {
         const dialog = dashboardPoint.locator('#coupon-input-dialog');
         const input = dashboardPoint.locator('#coupon-code-input');
         const applyButton = dashboardPoint.locator('.confirm-ok-button');
-        const alert = page.locator('alert-component');
+        const alert = page.locator(SELECTORS.transient.alert);
 
         await test.step('1. クーポンコードを入力して適用する', async () => {
             // ボタンが表示されるまで待つ
@@ -99,7 +100,7 @@ test.describe('クーポン機能 E2Eシナリオ', () => {
         const couponButton = dashboardPoint.getByTitle('クーポン入力');
         const input = dashboardPoint.locator('#coupon-code-input');
         const applyButton = dashboardPoint.locator('.confirm-ok-button');
-        const alert = page.locator('alert-component');
+        const alert = page.locator(SELECTORS.transient.alert);
         const alertCloseButton = alert.getByRole('button', { name: '閉じる' });
 
         const maxAttempts = 6;
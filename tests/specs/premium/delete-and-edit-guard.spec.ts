@@ -8,10 +8,12 @@ import {
     unpublishVersion,
     gotoDashboard,
 } from '../../tools/dashboard-helpers';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
 test.describe.configure({ mode: 'serial' });
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+const testRunSuffix = config.runSuffix;
 
 test.describe('削除・編集のガード条件テスト', () => {
 
@@ -45,7 +47,7 @@ test.describe('削除・編集のガード条件テスト', () => {
         });
 
         await test.step('テスト(公開準備中): アプリとバージョンの編集/削除ボタンの状態を確認', async () => {
-            const versionRow = page.locator('.version-card', { hasText: version }).first();
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: version }).first();
 
             await expect(versionRow).toContainText('審査待ち');
             await expect(versionRow).toContainText('準備完了', { timeout: 120000 });
@@ -59,7 +61,7 @@ test.describe('削除・編集のガード条件テスト', () => {
         });
 
         await test.step('テスト(公開中): アプリとバージョンの編集/削除ボタンが非活性であることを確認', async () => {
-            const versionRow = page.locator('.version-card', { hasText: version }).first();
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: version }).first();
 
             await expect(versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-pen') })).toBeVisible({ visible: false });
             await expect(versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-trash') })).toBeVisible({ visible: false });
@@ -74,14 +76,14 @@ test.describe('削除・編集のガード条件テスト', () => {
             await page.getByText('バージョン管理').click();
             await unpublishVersion(page, appName, version);
 
-            const versionRow = page.locator('.version-card', { hasText: version }).first();
+            const versionRow = page.locator(SELECTORS.appDetail.versionCard, { hasText: version }).first();
             await expect(versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-download') })).toBeVisible();
             await expect(versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-pen') })).toBeVisible();
             await expect(versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-copy') })).toBeVisible();
             await expect(versionRow.locator('.btn-icon').filter({ has: page.locator('.fa-trash') })).toBeVisible();
 
             await deleteApp(page, appKey);
-            const appNameCell = page.locator('.app-card .app-name', { hasText: new RegExp(`^${appName}$`) });
+            const appNameCell = page.locator(`${SELECTORS.dashboard.appCard} ${SELECTORS.dashboard.appName}`, { hasText: new RegExp(`^${appName}$`) });
             await expect(appNameCell).toBeHidden();
         });
     });
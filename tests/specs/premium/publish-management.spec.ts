@@ -18,10 +18,12 @@ import {
     gotoDashboard,
 } from '../../tools/dashboard-helpers';
 import { EditorHelper } from '../../tools/editor-helpers';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
 test.describe.configure({ mode: 'serial' });
 
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
+const testRunSuffix = config.runSuffix;
 
 test.describe('公開管理 E2Eシナリオ', () => {
 
@@ -53,7 +55,7 @@ test.describe('公開管理 E2Eシナリオ', () => {
 
             await startPublishPreparation(page, appName, version);
             await expectVersionStatus(page, version, '審査待ち');
-            await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, intervals: [10000, 20000] });
+            await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, initialDelay: 10000, maxDelay: 20000 });
             await expectVersionStatus(page, version, '準備完了');
 
             const currentPoints = await getCurrentPoints(page);
@@ -85,7 +87,7 @@ test.describe('公開管理 E2Eシナリオ', () => {
         const appName = (`審査PP固定テスト-${uniqueId}`).slice(0, 30);
         const appKey = (`mod-fixed-test-${uniqueId}`).slice(0, 30);
         const version = '1.0.0';
-        const apiKey = process.env.TEST_GEMINI_API_KEY || '';
+        const apiKey = config.geminiApiKey || '';
 
         await test.step('セットアップ: アプリ作成とAPIキー登録', async () => {
             await createApp(page, appName, appKey);
@@ -99,7 +101,7 @@ test.describe('公開管理 E2Eシナリオ', () => {
 
             await startPublishPreparation(page, appName, version);
             await expectVersionStatus(page, version, '審査待ち');
-            await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, intervals: [10000, 20000] });
+            await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, initialDelay: 10000, maxDelay: 20000 });
             await expectVersionStatus(page, version, '準備完了');
 
             const currentPoints = await getCurrentPoints(page);
@@ -121,7 +123,7 @@ test.describe('公開管理 E2Eシナリオ', () => {
         const appName = (`審査GemNG影響なしテスト-${uniqueId}`).slice(0, 30);
         const appKey = (`mod-gem-ng-ok-test-${uniqueId}`).slice(0, 30);
         const version = '1.0.0';
-        let apiKey = process.env.TEST_GEMINI_API_KEY || '';
+        let apiKey = config.geminiApiKey || '';
 
         if (apiKey !== '') {
             apiKey = apiKey.slice(0, -10) + 'xxxxxxxxxx';
@@ -142,7 +144,7 @@ test.describe('公開管理 E2Eシナリオ', () => {
             await page.waitForTimeout(3000);
             const currentPoints = await getCurrentPoints(page);
             expect(initialPoints - currentPoints).toBe(0);
-            await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, intervals: [10000, 20000] });
+            await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, initialDelay: 10000, maxDelay: 20000 });
             await expectVersionStatus(page, version, '準備完了');
         });
 
@@ -228,7 +230,7 @@ test.describe('公開管理 E2Eシナリオ', () => {
             const editorHelper = new EditorHelper(editorPage, isMobile);
 
             await editorHelper.openMoveingHandle("right");
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'スクリプト');
             await editorHelper.addNewScript('mockScript');
             await editorHelper.openScriptForEditing('mockScript');
@@ -1,5 +1,6 @@
-import { test as base, expect, Page } from '@playwright/test';
+import { type Page } from '@playwright/test';
 import 'dotenv/config';
+import { test, expect } from '../../tools/test-fixtures';
 import {
     createApp,
     deleteApp,
@@ -10,25 +11,14 @@ import {
     gotoDashboard
 } from '../../tools/dashboard-helpers';
 import { EditorHelper } from '../../tools/editor-helpers';
+import { config } from '../../config';
+import { SELECTORS } from '../../tools/selectors';
 
 /**
- * テスト実行ごとに一意の識別子を生成するための定数。
- * ローカル実行時やCI環境でのリソース競合を避けるために使用します。
+ * 各テストでユニークなアプリケーション名・アプリキーを使用します。
+ * AI設定の変更後にアプリを作成する必要があるため、エディタの起動は各テスト内で行います。
  */
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-/**
- * Playwrightのテストフィクスチャを拡張。
- * 各テストでユニークなアプリケーション名を提供します。
- */
-const test = base.extend<{ appName: string }>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        await use(`ai-snap-test-app-${uniqueId}`.slice(0, 30));
-    },
-});
+test.use({ appPrefix: 'ai-snap-test-app', appKeyPrefix: 'ai-snap-key' });
 
 test.describe.configure({ mode: 'serial' });
 
@@ -40,29 +30,20 @@ test.describe.configure({ mode: 'serial' });
  * 「設定変更の完了後にエディタを開く」という順序を厳守する必要があります。
  */
 test.describe('AIエージェントとスナップショット機能の統合テスト', () => {
-    let appKey: string;
 
     /**
      * 各テスト実行前の共通セットアップ処理。
      */
-    test.beforeEach(async ({ page, context }) => {
+    test.beforeEach(async ({ page }) => {
         // ダッシュボードページへ移動
         await gotoDashboard(page);
-
-        // 実行ごとにユニークなappKeyを生成
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        appKey = `ai-snap-key-${uniqueId}`.slice(0, 30);
     });
 
     /**
      * 各テスト実行後のクリーンアップ処理。
      */
-    test.afterEach(async ({ page }) => {
-        if (appKey) {
-            await deleteApp(page, appKey);
-        }
+    test.afterEach(async ({ page, appKey }) => {
+        await deleteApp(page, appKey);
         // AI設定を無効に戻しておく（他のテストへの影響を防ぐ）
         await setAiCoding(page, false);
     });
@@ -71,8 +52,8 @@ test.describe('AIエージェントとスナップショット機能の統合テ
      * ケース1: AI機能有効 且つ Gemini APIキー登録済み の場合
      * AIエージェントが表示され、デフォルトのモデル設定が正しいことを確認します。
      */
-    test('AIエージェント機能のUIとデフォルト設定を検証する（APIキー登録済み）', async ({ page, context, appName, isMobile }) => {
-        const apiKey = process.env.TEST_GEMINI_API_KEY;
+    test('AIエージェント機能のUIとデフォルト設定を検証する（APIキー登録済み）', async ({ page, context, appName, appKey, isMobile }) => {
+        const apiKey = config.geminiApiKey;
         test.skip(!apiKey, 'TEST_GEMINI_API_KEY is not set. Skipping AI Agent test.');
 
         let editorPage: Page;
@@ -92,21 +73,21 @@ test.describe('AIエージェントとスナップショット機能の統合テ
             await test.step('3. AIエージェントボタンが表示され、ウィンドウが開くことを確認', async () => {
                 // console.log('[DEBUG] Case 1: Opening AI Agent window...');
                 await expect(async () => {
-                    await editorPage.locator('#fab-bottom-menu-box').evaluate((el: HTMLElement) => el.click());
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    await editorPage.locator(SELECTORS.editor.bottomMenuButton).evaluate((el: HTMLElement) => el.click());
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     await expect(bottomMenu).toBeVisible({ timeout: 2000 });
 
                     const agentButton = bottomMenu.getByText('AIエージェント');
                     await expect(agentButton).toBeVisible({ timeout: 2000 });
                     await agentButton.evaluate((el: HTMLElement) => el.click());
 
-                    const agentWindow = editorPage.locator('agent-chat-window');
+                    const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
                     await expect(agentWindow).toBeVisible({ timeout: 2000 });
                 }).toPass({ timeout: 15000, intervals: [1000] });
             });
 
             await test.step('4. モデル設定モーダル内のデフォルト値を確認', async () => {
-                const agentWindow = editorPage.locator('agent-chat-window');
+                const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
                 await agentWindow.locator('.settings-btn').evaluate((el: HTMLElement) => el.click());
 
                 const settingsModal = agentWindow.locator('.modal-dialog');
@@ -130,7 +111,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
      * ケース2: AI機能有効 且つ Gemini APIキー「未登録」の場合
      * APIキーが未登録でもAIエージェントボタンが表示されることを確認します。
      */
-    test('Gemini APIキーが未登録でも、AI機能が有効ならAIエージェントボタンが表示されることを確認する', async ({ page, context, appName, isMobile }) => {
+    test('Gemini APIキーが未登録でも、AI機能が有効ならAIエージェントボタンが表示されることを確認する', async ({ page, context, appName, appKey, isMobile }) => {
         let editorPage: Page;
 
         await test.step('1. 設定変更：AI機能を有効化しAPIキーを削除', async () => {
@@ -148,15 +129,15 @@ test.describe('AIエージェントとスナップショット機能の統合テ
             await test.step('3. メニューを開き、AIエージェントボタンが表示されることを確認', async () => {
                 // console.log('[DEBUG] Case 2: Opening AI Agent window...');
                 await expect(async () => {
-                    await editorPage.locator('#fab-bottom-menu-box').evaluate((el: HTMLElement) => el.click());
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    await editorPage.locator(SELECTORS.editor.bottomMenuButton).evaluate((el: HTMLElement) => el.click());
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     await expect(bottomMenu).toBeVisible({ timeout: 2000 });
 
                     const agentButton = bottomMenu.getByText('AIエージェント');
                     await expect(agentButton).toBeVisible({ timeout: 2000 });
                     await agentButton.evaluate((el: HTMLElement) => el.click());
 
-                    const agentWindow = editorPage.locator('agent-chat-window');
+                    const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
                     await expect(agentWindow).toBeVisible({ timeout: 2000 });
                 }).toPass({ timeout: 15000, intervals: [1000] });
             });
@@ -170,7 +151,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
      * ケース3: AI機能自体が「無効」の場合
      * APIキーの状態に関わらず、AIエージェントボタンが表示されないことを確認します。
      */
-    test('AIコーディング機能が無効の場合、AIエージェントボタンが表示されないことを確認する', async ({ page, context, appName, isMobile }) => {
+    test('AIコーディング機能が無効の場合、AIエージェントボタンが表示されないことを確認する', async ({ page, context, appName, appKey, isMobile }) => {
         let editorPage: Page;
 
         await test.step('1. 設定変更：AI機能を明示的に無効化', async () => {
@@ -187,8 +168,8 @@ test.describe('AIエージェントとスナップショット機能の統合テ
             await test.step('3. メニューを開き、AIエージェントボタンが非表示であることを確認', async () => {
                 // console.log('[DEBUG] Case 3: Checking AI Agent button is hidden...');
                 await expect(async () => {
-                    await editorPage.locator('#fab-bottom-menu-box').evaluate((el: HTMLElement) => el.click());
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    await editorPage.locator(SELECTORS.editor.bottomMenuButton).evaluate((el: HTMLElement) => el.click());
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     await expect(bottomMenu).toBeVisible({ timeout: 2000 });
 
                     const agentButton = bottomMenu.getByText('AIエージェント');
@@ -205,7 +186,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
      * ケース4: スナップショットとAIエージェントの組み合わせテスト
      * 手動スナップショットを作成し、要素の削除後に復元できるか検証します。
      */
-    test('手動スナップショット：破壊的な変更をスナップショットで元に戻す（AIエージェント連携）', async ({ page, context, appName, isMobile }) => {
+    test('手動スナップショット：破壊的な変更をスナップショットで元に戻す（AIエージェント連携）', async ({ page, context, appName, appKey, isMobile }) => {
         test.setTimeout(180000);
 
         await test.step('1. 設定変更：AI機能を有効化', async () => {
@@ -238,17 +219,17 @@ test.describe('AIエージェントとスナップショット機能の統合テ
                 // メニュー展開とエージェントウィンドウ表示をリトライ付きで確実に行う
                 // console.log('[DEBUG] snapshot: Opening AI Agent window...');
                 await expect(async () => {
-                    const agentWindow = editorPage.locator('agent-chat-window');
+                    const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
 
                     // 既に開いていれば何もしないで抜ける
                     if (await agentWindow.isVisible().catch(() => false)) {
                         return;
                     }
 
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     // メニューが開いていなければ開く
                     if (!(await bottomMenu.isVisible().catch(() => false))) {
-                        await editorPage.locator('#fab-bottom-menu-box').evaluate((el: HTMLElement) => el.click());
+                        await editorPage.locator(SELECTORS.editor.bottomMenuButton).evaluate((el: HTMLElement) => el.click());
                         await expect(bottomMenu).toBeVisible({ timeout: 2000 });
                     }
 
@@ -258,7 +239,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
 
                 await editorPage.waitForTimeout(1000); // ウィンドウが安定するのを待つ
 
-                const agentWindow = editorPage.locator('agent-chat-window');
+                const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
 
                 await agentWindow.locator('button[title="添付"]').evaluate((el: HTMLElement) => el.click());
                 await editorPage.waitForTimeout(500); // メニューが開くのを待つ
@@ -300,7 +281,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
                 // スナップショット画面の展開も確実に行う
                 // console.log('[DEBUG] snapshot: Opening Snapshot Manager...');
                 await expect(async () => {
-                    const manager = editorPage.locator('snapshot-manager');
+                    const manager = editorPage.locator(SELECTORS.transient.snapshotManager);
                     // Playwrightの判定回避のため、ShadowDOM内部の実体コンテナで可視性をチェック
                     const managerContainer = manager.locator('.container');
 
@@ -308,9 +289,9 @@ test.describe('AIエージェントとスナップショット機能の統合テ
                         return;
                     }
 
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     if (!(await bottomMenu.isVisible().catch(() => false))) {
-                        await editorPage.locator('#fab-bottom-menu-box').evaluate((el: HTMLElement) => el.click());
+                        await editorPage.locator(SELECTORS.editor.bottomMenuButton).evaluate((el: HTMLElement) => el.click());
                         await expect(bottomMenu).toBeVisible({ timeout: 2000 });
                     }
 
@@ -318,7 +299,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
                     await expect(managerContainer).toBeVisible({ timeout: 2000 });
                 }).toPass({ timeout: 15000, intervals: [1000] });
 
-                const manager = editorPage.locator('snapshot-manager');
+                const manager = editorPage.locator(SELECTORS.transient.snapshotManager);
                 const item = manager.locator('.snapshot-item', { hasText: snapshotName });
                 await expect(item).toBeVisible({ timeout: 10000 });
 
@@ -377,7 +358,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
      * ケース5: スナップショット保存ダイアログのキャンセルテスト
      * スナップショット保存ダイアログを開き、キャンセルボタンで閉じられるか検証します。
      */
-    test('AIエージェント画面からのスナップショット保存をキャンセルできることを確認する', async ({ page, context, appName, isMobile }) => {
+    test('AIエージェント画面からのスナップショット保存をキャンセルできることを確認する', async ({ page, context, appName, appKey, isMobile }) => {
         test.setTimeout(120000);
 
         await test.step('1. 設定変更：AI機能を有効化', async () => {
@@ -396,12 +377,12 @@ test.describe('AIエージェントとスナップショット機能の統合テ
             await test.step('3. AIエージェントウィンドウを開く', async () => {
                 // console.log('[DEBUG] snapshot-cancel: Opening AI Agent window...');
                 await expect(async () => {
-                    const agentWindow = editorPage.locator('agent-chat-window');
+                    const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
                     if (await agentWindow.isVisible().catch(() => false)) return;
 
-                    const bottomMenu = editorPage.locator('#platformBottomMenu');
+                    const bottomMenu = editorPage.locator(SELECTORS.editorBottomMenu.root);
                     if (!(await bottomMenu.isVisible().catch(() => false))) {
-                        await editorPage.locator('#fab-bottom-menu-box').evaluate((el: HTMLElement) => el.click());
+                        await editorPage.locator(SELECTORS.editor.bottomMenuButton).evaluate((el: HTMLElement) => el.click());
                         await expect(bottomMenu).toBeVisible({ timeout: 2000 });
                     }
 
@@ -411,7 +392,7 @@ test.describe('AIエージェントとスナップショット機能の統合テ
             });
 
             await test.step('4. スナップショット保存ダイアログを開き、キャンセルする', async () => {
-                const agentWindow = editorPage.locator('agent-chat-window');
+                const agentWindow = editorPage.locator(SELECTORS.transient.agentChatWindow);
 
                 await agentWindow.locator('button[title="添付"]').evaluate((el: HTMLElement) => el.click());
                 await editorPage.waitForTimeout(500); // メニューが開くのを待つ
@@ -1,56 +1,9 @@
-import { test as base, expect, Page } from '@playwright/test';
 import 'dotenv/config';
-import { createApp, deleteApp, gotoDashboard, openEditor } from '../../tools/dashboard-helpers';
-import { EditorHelper, normalizeWhitespace } from '../../tools/editor-helpers';
-
-const testRunSuffix = process.env.TEST_RUN_SUFFIX || 'local';
-
-type EditorFixtures = {
-    editorPage: Page;
-    appName: string;
-    editorHelper: EditorHelper;
-};
-
-const test = base.extend<EditorFixtures>({
-    appName: async ({ }, use) => {
-        const workerIndex = test.info().workerIndex;
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${Date.now()}`;
-        await use(`mock-adv-${uniqueId}`.slice(0, 30));
-    },
-    editorPage: async ({ page, context, appName }, use) => {
-        // console.log(`[Fixture:editorPage:Enter] appName: ${appName}, Initial URL: ${page.url()}`);
-        const workerIndex = test.info().workerIndex;
-        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
-        const uniqueId = `${testRunSuffix}-${workerIndex}-${reversedTimestamp}`;
-        const appKey = `test-key-${uniqueId}`.slice(0, 30); // ※ここは各ファイルのプレフィックスに合わせてください
-
-        await gotoDashboard(page);
-
-        // console.log(`[Fixture:editorPage:BeforeCreateApp] Current URL: ${page.url()}`);
-        await createApp(page, appName, appKey);
-        // console.log(`[Fixture:editorPage:AfterCreateApp] Current URL: ${page.url()}`);
-
-        const editorPage = await openEditor(page, context, appName);
-        // console.log(`[Fixture:editorPage:AfterOpenEditor]`);
-
-        // テスト本体の実行
-        await use(editorPage);
-
-        try {
-            await editorPage.evaluate(() => window.stop());
-        } catch (e) {
-            // 既にナビゲーション中等でエラーが出た場合は無視
-        }
-
-        await editorPage.close();
-        await page.bringToFront();
-        await deleteApp(page, appKey);
-    },
-    editorHelper: async ({ editorPage, isMobile }, use) => {
-        const helper = new EditorHelper(editorPage, isMobile);
-        await use(helper);
-    },
-});
+import { test, expect } from '../../tools/test-fixtures';
+import { normalizeWhitespace } from '../../tools/editor-helpers';
+import { SELECTORS } from '../../tools/selectors';
+
+test.use({ appPrefix: 'mock-adv' });
 
 test.describe('テスト＆モック：高度なブラウザAPIモックとアサーション詳細表示', () => {
     test.setTimeout(180000);
@@ -60,37 +13,27 @@ test.describe('テスト＆モック：高度なブラウザAPIモックとア
         await test.step('1. 意図的に失敗するテストシナリオを作成', async () => {
             // D&D（setupPageWithButton）を省き、直接テストタブを開く
             await editorHelper.openMoveingHandle('right');
-            const scriptContainer = editorPage.locator('script-container');
+            const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
             await editorHelper.switchTabInContainer(scriptContainer, 'テスト');
 
-            const testContainer = editorPage.locator('test-container');
+            const testContainer = editorPage.locator(SELECTORS.transient.testContainer);
             await testContainer.locator('.add-btn').click({ force: true });
-            const modal = editorPage.locator('test-scenario-editor .modal');
+            const modal = editorPage.locator(SELECTORS.transient.testScenarioEditor);
             await expect(modal).toBeVisible();
             const scenarioNameInput = modal.locator('#scenario-name');
             await expect(scenarioNameInput).toBeEditable();
             await scenarioNameInput.fill(scenarioName);
 
             const badTestCode = `export default async function runTest() { throw new Error('FAIL_MARKER_007'); }`;
-            const monacoEditorLocator = modal.locator('.monaco-editor[role="code"]');
-
-            await monacoEditorLocator.evaluate((el: any, code) => {
-                const host = (el.getRootNode() as ShadowRoot).host as any;
-                if (host && host.monacoEditor) { host.monacoEditor.setValue(code); }
-            }, badTestCode);
-
-            const textarea = monacoEditorLocator.locator('textarea').first();
-            await textarea.focus();
-            await editorPage.keyboard.press('End');
-            await editorPage.keyboard.type(' ');
-            await editorPage.keyboard.press('Backspace');
+            // 変更イベントが発生する方法で書き換えるため、保存ボタンが有効になります
+            await editorHelper.tests.scenarioEditor.setValue(badTestCode);
 
             await modal.getByRole('button', { name: '保存' }).click({ force: true });
             await expect(modal).toBeHidden();
         });
 
         await test.step('2. テストを実行し、詳細な失敗理由を確認する', async () => {
-            const testContainer = editorPage.locator('test-container');
+            const testContainer = editorPage.locator(SELECTORS.transient.testContainer);
             const scenarioRow = testContainer.locator('.scenario-item', { hasText: scenarioName });
             await scenarioRow.locator('.run-btn').click({ force: true });
 
@@ -109,10 +52,10 @@ test.describe('テスト＆モック：高度なブラウザAPIモックとア
 
     test('3種類のブラウザモック（同期、非同期、プロパティ）と関数の連鎖(IIFE)の実行', async ({ editorPage, editorHelper }) => {
         await editorHelper.openMoveingHandle('right');
-        const scriptContainer = editorPage.locator('script-container');
+        const scriptContainer = editorPage.locator(SELECTORS.editor.scriptContainer);
         await editorHelper.switchTabInContainer(scriptContainer, 'テスト');
 
-        const testContainer = editorPage.locator('test-container');
+        const testContainer = editorPage.locator(SELECTORS.transient.testContainer);
 
         await test.step('1. 各種ブラウザモックを定義する', async () => {
             await testContainer.locator('.tab', { hasText: 'APIモック' }).click({ force: true });
@@ -168,8 +111,8 @@ test.describe('テスト＆モック：高度なブラウザAPIモックとア
             await editorHelper.closeMoveingHandle();
 
             // モックを有効にするため「動作モード」に切り替える
-            const platformSwitcher = editorPage.locator('platform-switcher');
-            const editMenu = editorPage.locator('#platformEditMenu');
+            const platformSwitcher = editorPage.locator(SELECTORS.editor.platformSwitcher);
+            const editMenu = editorPage.locator(SELECTORS.transient.platformEditMenu);
 
             // 1. メニューが開くまで、1秒ごとにクリックと表示確認を繰り返す
             await expect(async () => {
@@ -1,6 +1,101 @@
 import { test, expect, Page } from '@playwright/test';
 import 'dotenv/config';
-import { expectAppVisibility, gotoDashboard } from './dashboard-helpers';
+import { detectBrowserCode, expectAppVisibility, gotoDashboard } from './dashboard-helpers';
+import { type LeakedApp, findLeakedApps, getLedgerMinAgeMs, listLedgerFiles, pruneLedgerFiles, readLedger, releaseResource } from './resource-ledger';
+import { config } from '../config';
+import { uiText } from './ui-strings';
+import { SELECTORS } from './selectors';
+
+/**
+ * クリーンアップの動作設定。すべて環境変数で指定します（tests/tools/cleanup-cli.ts から渡されます）。
+ *
+ * - PWAPPY_TEST_CLEANUP_MODE: all (デフォルト) はアカウント上の全アプリ、ledger はリソース台帳 (.ledger/) 上で
+ *   解放されていないアプリのみを対象にします
+ * - PWAPPY_TEST_CLEANUP_DRY_RUN: 1 の場合、対象と予定される処理を表示するだけで何も変更しません
+ * - PWAPPY_TEST_CLEANUP_KEY_PREFIX: 指定したプレフィックスで始まるアプリキーのみを対象にします
+ * - PWAPPY_TEST_CLEANUP_KEY_PATTERN: 指定した正規表現に一致するアプリキーのみを対象にします
+ * - PWAPPY_TEST_CLEANUP_MIN_AGE_MINUTES: 台帳上の作成日時から指定時間経過したアプリのみを対象にします
+ *   （台帳に記録のないアプリは作成日時が不明なため対象外になります）
+ * - PWAPPY_TEST_CLEANUP_SCOPE: all (デフォルト) / archive / workbench
+ * - PWAPPY_TEST_CLEANUP_CONCURRENCY: 並行して処理するページ数 (デフォルト: 10)
+ * - PWAPPY_TEST_CLEANUP_UNPUBLISH_ONLY: 1 の場合、公開中のバージョンを非公開にするだけでアプリは削除しません
+ *   （アーカイブでは公開中のアプリの復元のみを行い、削除はしません）
+ */
+type CleanupOptions = {
+  mode: 'all' | 'ledger';
+  dryRun: boolean;
+  keyPrefix: string | null;
+  keyPattern: RegExp | null;
+  minAgeMs: number | null;
+  scope: 'all' | 'archive' | 'workbench';
+  concurrency: number;
+  unpublishOnly: boolean;
+};
+
+const readCleanupOptions = (): CleanupOptions => {
+  const env = process.env;
+  const isOn = (value: string | undefined) => value === '1' || value === 'true';
+
+  const scope = env.PWAPPY_TEST_CLEANUP_SCOPE || 'all';
+  if (scope !== 'all' && scope !== 'archive' && scope !== 'workbench') {
+    throw new Error(`[Cleanup] PWAPPY_TEST_CLEANUP_SCOPE の値が不正です: ${scope}`);
+  }
+
+  const concurrency = Number(env.PWAPPY_TEST_CLEANUP_CONCURRENCY || '10');
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`[Cleanup] PWAPPY_TEST_CLEANUP_CONCURRENCY の値が不正です: ${env.PWAPPY_TEST_CLEANUP_CONCURRENCY}`);
+  }
+
+  let minAgeMs: number | null = null;
+  if (env.PWAPPY_TEST_CLEANUP_MIN_AGE_MINUTES) {
+    const minutes = Number(env.PWAPPY_TEST_CLEANUP_MIN_AGE_MINUTES);
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      throw new Error(`[Cleanup] PWAPPY_TEST_CLEANUP_MIN_AGE_MINUTES の値が不正です: ${env.PWAPPY_TEST_CLEANUP_MIN_AGE_MINUTES}`);
+    }
+    minAgeMs = minutes * 60 * 1000;
+  }
+
+  return {
+    mode: env.PWAPPY_TEST_CLEANUP_MODE === 'ledger' ? 'ledger' : 'all',
+    dryRun: isOn(env.PWAPPY_TEST_CLEANUP_DRY_RUN),
+    keyPrefix: env.PWAPPY_TEST_CLEANUP_KEY_PREFIX || null,
+    keyPattern: env.PWAPPY_TEST_CLEANUP_KEY_PATTERN ? new RegExp(env.PWAPPY_TEST_CLEANUP_KEY_PATTERN) : null,
+    minAgeMs,
+    scope,
+    concurrency,
+    unpublishOnly: isOn(env.PWAPPY_TEST_CLEANUP_UNPUBLISH_ONLY),
+  };
+};
+
+/**
+ * サマリー表の1行。処理したアプリごとに、実行した（ドライランの場合は予定の）操作を記録します。
+ */
+type CleanupResult = {
+  area: 'archive' | 'workbench';
+  appKey: string;
+  appName: string;
+  action: 'restored' | 'unpublished' | 'deleted' | 'kept' | 'failed';
+  detail: string;
+};
+
+/**
+ * キューからアプリキーを1件ずつ取り出し、最大 concurrency 件を並行して処理します。
+ */
+const runWithConcurrency = async (appKeys: string[], concurrency: number, processApp: (appKey: string) => Promise<void>) => {
+  const queue = [...appKeys];
+  const workers = Array(concurrency).fill(null).map(async () => {
+    while (queue.length > 0) {
+      // shift()で配列の先頭から1件取り出す
+      const appKey = queue.shift();
+      if (appKey) {
+        await processApp(appKey);
+      }
+    }
+  });
+
+  // 全ワーカーの処理が終わるまで待つ
+  await Promise.all(workers);
+};
 
 test.describe.serial('手動実行: 全アプリケーション削除スクリプト', () => {
 
@@ -8,6 +103,13 @@ test.describe.serial('手動実行: 全アプリケーション削除スクリ
     // マルチスレッドで大量のページを処理するため、十分なタイムアウトを確保
     test.setTimeout(1200000);
 
+    const options = readCleanupOptions();
+    const { concurrency, dryRun, unpublishOnly } = options;
+    console.log('[Cleanup] 設定:', { ...options, keyPattern: options.keyPattern?.source ?? null });
+    if (dryRun) {
+      console.log('[Cleanup] ドライランです。アプリの復元・非公開化・削除は行いません。');
+    }
+
     const disableAnimationCode = `
       const style = document.createElement('style');
       style.innerHTML = \`
@@ -26,216 +128,310 @@ test.describe.serial('手動実行: 全アプリケーション削除スクリ
       await gotoDashboard(page);
     });
 
-    const concurrency = 10;
+    // 台帳の作成記録（最小経過時間の判定に使用）
+    const ledgerEntries = listLedgerFiles().flatMap(readLedger);
+    const createdAtByKey = new Map<string, number>();
+    for (const entry of ledgerEntries) {
+      if (entry.event === 'created' && entry.kind === 'app') {
+        createdAtByKey.set(entry.appKey, Date.parse(entry.createdAt));
+      }
+    }
+
+    // 台帳モードでは、ログイン中のアカウント（ブラウザコード・ワーカー番号）でリークしたアプリのみを対象にします
+    let ledgerTargets: Map<string, LeakedApp> | null = null;
+    if (options.mode === 'ledger') {
+      const leakedApps = findLeakedApps(ledgerEntries, {
+        worker: config.accountWorkerIndex,
+        browserCode: detectBrowserCode(page),
+        minAgeMs: options.minAgeMs ?? getLedgerMinAgeMs(),
+      });
+      ledgerTargets = new Map(leakedApps.map(app => [app.appKey, app]));
+      console.log(`[Ledger] 台帳上でリークと判定されたアプリ (${ledgerTargets.size}件):`, [...ledgerTargets.keys()]);
+    }
 
-    // ====================================================
-    // 1. アーカイブのクリーンアップ
-    // ====================================================
-    console.log('--- アーカイブを復元・削除開始 ---');
-    await page.getByRole('button', { name: 'アーカイブ' }).click();
+    const isTarget = (appKey: string) => {
+      if (ledgerTargets !== null && !ledgerTargets.has(appKey)) return false;
+      if (options.keyPrefix && !appKey.startsWith(options.keyPrefix)) return false;
+      if (options.keyPattern && !options.keyPattern.test(appKey)) return false;
+      if (options.minAgeMs !== null) {
+        const createdAt = createdAtByKey.get(appKey);
+        if (createdAt === undefined || Date.now() - createdAt < options.minAgeMs) return false;
+      }
+      return true;
+    };
+
+    // 削除が完了したアプリを台帳上でも解放済みにします
+    const markReleased = (appKey: string) => {
+      const app = ledgerTargets?.get(appKey);
+      if (app) {
+        releaseResource({ kind: 'app', appKey, browserCode: app.browserCode }, app.runId);
+        ledgerTargets!.delete(appKey);
+      }
+    };
+
+    const results: CleanupResult[] = [];
 
-    while (true) {
-      await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
+    // 一度処理したアプリは（失敗した場合も含め）同じフェーズで再処理しません
+    const collectAppKeys = async (processed: Set<string>) => {
+      await expect(page.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
       await page.waitForLoadState('networkidle');
 
       // 画面上の全アプリキーを収集
-      let archivedAppKeys = await page.locator('.app-card .app-key').allInnerTexts();
+      const appKeys = await page.locator(`${SELECTORS.dashboard.appCard} ${SELECTORS.dashboard.appKey}`).allInnerTexts();
       // Setを使って重複を完全に排除し、処理の二重実行を防止する
-      archivedAppKeys = Array.from(new Set(archivedAppKeys.map(k => k.trim()))).filter(k => k.length > 0);
+      return Array.from(new Set(appKeys.map(k => k.trim())))
+        .filter(k => k.length > 0 && !processed.has(k) && isTarget(k));
+    };
 
-      if (archivedAppKeys.length === 0) {
-        console.log('アーカイブは空です。');
-        break;
-      }
+    // ====================================================
+    // 1. アーカイブのクリーンアップ
+    // ====================================================
+    if (options.scope !== 'workbench') {
+      console.log('--- アーカイブを復元・削除開始 ---');
+      await page.getByRole('button', { name: uiText('dashboard.archive') }).click();
 
-      console.log(`[Archive] 今回処理するアプリキー (${archivedAppKeys.length}件):`, archivedAppKeys);
+      const processedArchive = new Set<string>();
+      while (true) {
+        const archivedAppKeys = await collectAppKeys(processedArchive);
 
-      // 1件のアプリを処理する関数
-      const processArchiveApp = async (appKey: string) => {
-        const newPage = await context.newPage();
-        try {
-          await newPage.addInitScript(disableAnimationCode);
-          await gotoDashboard(newPage);
+        if (archivedAppKeys.length === 0) {
+          console.log('アーカイブに対象のアプリはありません。');
+          break;
+        }
 
-          await newPage.getByRole('button', { name: 'アーカイブ' }).click();
-          await expect(newPage.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-          await newPage.waitForLoadState('networkidle');
+        console.log(`[Archive] 今回処理するアプリキー (${archivedAppKeys.length}件):`, archivedAppKeys);
+        archivedAppKeys.forEach(k => processedArchive.add(k));
+
+        // 1件のアプリを処理する関数
+        const processArchiveApp = async (appKey: string) => {
+          const newPage = await context.newPage();
+          let appName = '';
+          try {
+            await newPage.addInitScript(disableAnimationCode);
+            await gotoDashboard(newPage);
+
+            await newPage.getByRole('button', { name: uiText('dashboard.archive') }).click();
+            await expect(newPage.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
+            await newPage.waitForLoadState('networkidle');
+
+            const targetRow = newPage.locator(SELECTORS.dashboard.appCard, { has: newPage.locator(SELECTORS.dashboard.appKey, { hasText: new RegExp(`^${appKey}$`) }) }).first();
+            if (await targetRow.count() === 0) {
+              console.log(`[Archive] ${appKey} は既に見つかりません。スキップします。`);
+              return;
+            }
 
-          const targetRow = newPage.locator('.app-card', { has: newPage.locator('.app-key', { hasText: new RegExp(`^${appKey}$`) }) }).first();
-          if (await targetRow.count() === 0) {
-            console.log(`[Archive] ${appKey} は既に見つかりません。スキップします。`);
-            return;
+            appName = await targetRow.locator(SELECTORS.dashboard.appName).innerText();
+            console.log(`[Archive] 処理開始: ${appName} (${appKey})`);
+
+            const deleteButton = targetRow.locator('.btn-danger-outline');
+            const openButton = targetRow.getByText('OPEN');
+
+            // 公開中（OPEN表示あり）のアプリは、非公開化のためにワークベンチへ復元します
+            if (!(await openButton.isVisible())) {
+              if (unpublishOnly) {
+                results.push({ area: 'archive', appKey, appName, action: 'kept', detail: '非公開のため保持' });
+                return;
+              }
+              if (dryRun) {
+                results.push({ area: 'archive', appKey, appName, action: 'deleted', detail: '(dry-run) アーカイブから削除予定' });
+                return;
+              }
+              await targetRow.scrollIntoViewIfNeeded();
+              await deleteButton.click({ force: true });
+              await expect(newPage.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
+              const confirmDialog = newPage.locator(SELECTORS.archive.deleteConfirm);
+              await expect(confirmDialog).toBeVisible();
+              await confirmDialog.locator('.confirm-ok-button').click();
+              await expect(newPage.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
+              await expect(newPage.locator(SELECTORS.dashboard.loadingOverlay)).toBeHidden();
+              markReleased(appKey);
+              results.push({ area: 'archive', appKey, appName, action: 'deleted', detail: 'アーカイブから削除' });
+              console.log(` -> アーカイブから削除完了: ${appName} (${appKey})`);
+            } else {
+              if (dryRun) {
+                results.push({ area: 'archive', appKey, appName, action: 'restored', detail: '(dry-run) ワークベンチへ復元予定' });
+                return;
+              }
+              await targetRow.scrollIntoViewIfNeeded();
+              await targetRow.getByRole('button', { name: uiText('dashboard.restore') }).click();
+              await expect(newPage.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
+              const restoreConfirm = newPage.locator(SELECTORS.archive.restoreConfirm);
+              await expect(restoreConfirm).toBeVisible();
+              await restoreConfirm.locator('.confirm-restore-button').click({ force: true });
+              await expect(newPage.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
+
+              const alertDialog = newPage.locator(SELECTORS.transient.alert);
+              await expect(alertDialog).toBeVisible();
+              await alertDialog.getByRole('button', { name: uiText('common.close') }).click();
+              results.push({ area: 'archive', appKey, appName, action: 'restored', detail: 'ワークベンチへ復元' });
+              console.log(` -> ワークベンチに復元完了: ${appName} (${appKey})`);
+            }
+          } catch (e) {
+            console.error(`[Archive] ${appKey} の処理中にエラーが発生しました:`, e);
+            results.push({ area: 'archive', appKey, appName, action: 'failed', detail: String(e).split('\n')[0] });
+          } finally {
+            await newPage.close();
           }
+        };
 
-          const appName = await targetRow.locator('.app-name').innerText();
-          console.log(`[Archive] 処理開始: ${appName} (${appKey})`);
-
-          const deleteButton = targetRow.locator('.btn-danger-outline');
-          const openButton = targetRow.getByText('OPEN');
-
-          if (await !openButton.isVisible()) {
-            await targetRow.scrollIntoViewIfNeeded();
-            await deleteButton.click({ force: true });
-            await expect(newPage.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-            const confirmDialog = newPage.locator('message-box#delete-confirm');
-            await expect(confirmDialog).toBeVisible();
-            await confirmDialog.locator('.confirm-ok-button').click();
-            await expect(newPage.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-            await expect(newPage.locator('dashboard-loading-overlay')).toBeHidden();
-            console.log(` -> アーカイブから削除完了: ${appName} (${appKey})`);
-          } else {
-            await targetRow.scrollIntoViewIfNeeded();
-            await targetRow.getByRole('button', { name: /復元/ }).click();
-            await expect(newPage.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-            const restoreConfirm = newPage.locator('message-box#restore-confirm');
-            await expect(restoreConfirm).toBeVisible();
-            await restoreConfirm.locator('.confirm-restore-button').click({ force: true });
-            await expect(newPage.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-            const alertDialog = newPage.locator('alert-component');
-            await expect(alertDialog).toBeVisible();
-            await alertDialog.getByRole('button', { name: '閉じる' }).click();
-            console.log(` -> ワークベンチに復元完了: ${appName} (${appKey})`);
-          }
-        } catch (e) {
-          console.error(`[Archive] ${appKey} の処理中にエラーが発生しました:`, e);
-        } finally {
-          await newPage.close();
-        }
-      };
-
-      // 最大5並行でキュー（配列）から1件ずつ取り出して処理するワーカーを作成
-      const archiveWorkers = Array(concurrency).fill(null).map(async () => {
-        while (archivedAppKeys.length > 0) {
-          // shift()で配列の先頭から1件取り出す
-          const appKey = archivedAppKeys.shift();
-          if (appKey) {
-            await processArchiveApp(appKey);
-          }
-        }
-      });
+        await runWithConcurrency(archivedAppKeys, concurrency, processArchiveApp);
 
-      // 全ワーカーの処理が終わるまで待つ
-      await Promise.all(archiveWorkers);
+        // 画面更新してまだ残っているか再検証
+        await page.reload();
+        await page.getByRole('button', { name: uiText('dashboard.archive') }).click();
+      }
 
-      // 画面更新してまだ残っているか再検証
-      await page.reload();
-      await page.getByRole('button', { name: 'アーカイブ' }).click();
+      await page.getByRole('button', { name: uiText('dashboard.backToWorkbench') }).click();
     }
 
-    await page.getByRole('button', { name: 'ワークベンチに戻る' }).click();
-
 
     // ====================================================
     // 2. ワークベンチのクリーンアップ
     // ====================================================
-    console.log('--- ワークベンチのクリーンアップを開始 ---');
-    while (true) {
-      await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-      await page.waitForLoadState('networkidle');
+    if (options.scope !== 'archive') {
+      console.log('--- ワークベンチのクリーンアップを開始 ---');
+      const processedWorkbench = new Set<string>();
+      while (true) {
+        const workbenchAppKeys = await collectAppKeys(processedWorkbench);
+
+        if (workbenchAppKeys.length === 0) {
+          console.log('ワークベンチに対象のアプリはありません。');
+          break;
+        }
 
-      let workbenchAppKeys = await page.locator('.app-card .app-key').allInnerTexts();
-      workbenchAppKeys = Array.from(new Set(workbenchAppKeys.map(k => k.trim()))).filter(k => k.length > 0);
+        console.log(`[Workbench] 今回処理するアプリキー (${workbenchAppKeys.length}件):`, workbenchAppKeys);
+        workbenchAppKeys.forEach(k => processedWorkbench.add(k));
+
+        // 1件のアプリを処理する関数
+        const processWorkbenchApp = async (appKey: string) => {
+          const newPage = await context.newPage();
+          let appName = '';
+          try {
+            await newPage.addInitScript(disableAnimationCode);
+            await gotoDashboard(newPage);
+
+            const targetRow = newPage.locator(SELECTORS.dashboard.appCard, { has: newPage.locator(SELECTORS.dashboard.appKey, { hasText: new RegExp(`^${appKey}$`) }) }).first();
+            if (await targetRow.count() === 0) {
+              console.log(`[Workbench] ${appKey} は既に見つかりません。スキップします。`);
+              return;
+            }
 
-      if (workbenchAppKeys.length === 0) {
-        console.log('ワークベンチのアプリケーションは空です。');
-        break;
-      }
+            appName = await targetRow.locator(SELECTORS.dashboard.appName).innerText();
+            console.log(`[Workbench] 処理開始: ${appName} (${appKey})`);
 
-      console.log(`[Workbench] 今回処理するアプリキー (${workbenchAppKeys.length}件):`, workbenchAppKeys);
+            await targetRow.scrollIntoViewIfNeeded();
+            await targetRow.click({ force: true });
+
+            await expect(newPage.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
+            await expect(newPage.locator(SELECTORS.appDetail.activeTab)).toContainText(uiText('dashboard.tab.versions'));
+            await expect(newPage.locator(SELECTORS.dashboard.loadingOverlay)).toBeHidden({ timeout: 30000 });
+
+            if (dryRun) {
+              const publishedVersions = await newPage.locator(SELECTORS.appDetail.versionCard, { hasText: uiText('version.status.published') }).locator(SELECTORS.appDetail.versionName).allInnerTexts();
+              if (publishedVersions.length > 0) {
+                results.push({ area: 'workbench', appKey, appName, action: 'unpublished', detail: `(dry-run) 非公開化予定: ${publishedVersions.join(', ')}` });
+              }
+              if (!unpublishOnly) {
+                results.push({ area: 'workbench', appKey, appName, action: 'deleted', detail: '(dry-run) 削除予定' });
+              }
+              return;
+            }
 
-      // 1件のアプリを処理する関数
-      const processWorkbenchApp = async (appKey: string) => {
-        const newPage = await context.newPage();
-        try {
-          await newPage.addInitScript(disableAnimationCode);
-          await gotoDashboard(newPage);
+            // [非公開化] 全バージョンを非公開にするループ
+            const unpublishedVersions: string[] = [];
+            while (true) {
+              await expect(newPage.locator(SELECTORS.dashboard.loadingOverlay)).toBeHidden({ timeout: 30000 });
 
-          const targetRow = newPage.locator('.app-card', { has: newPage.locator('.app-key', { hasText: new RegExp(`^${appKey}$`) }) }).first();
-          if (await targetRow.count() === 0) {
-            console.log(`[Workbench] ${appKey} は既に見つかりません。スキップします。`);
-            return;
-          }
+              const publishedVersionRow = newPage.locator(SELECTORS.appDetail.versionCard, { hasText: uiText('version.status.published') }).first();
+              if (await publishedVersionRow.count() === 0) {
+                break;
+              }
 
-          const appName = await targetRow.locator('.app-name').innerText();
-          console.log(`[Workbench] 処理開始: ${appName} (${appKey})`);
+              const version = await publishedVersionRow.locator(SELECTORS.appDetail.versionName).innerText();
+              console.log(`  -> バージョン ${version} を非公開にします (${appKey})`);
 
-          await targetRow.scrollIntoViewIfNeeded();
-          await targetRow.click({ force: true });
+              const unPublishBtn = publishedVersionRow.getByRole('button', { name: uiText('version.unpublish') });
+              await unPublishBtn.scrollIntoViewIfNeeded();
+              await unPublishBtn.click();
 
-          await expect(newPage.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-          await expect(newPage.locator('.detail-tab.active')).toContainText('バージョン管理');
-          await expect(newPage.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 30000 });
+              await expect(newPage.locator(SELECTORS.appDetail.publishConfirm)).toBeVisible({ timeout: 30000 });
+              const confirmDialog = newPage.locator(SELECTORS.appDetail.publishConfirm);
+              await confirmDialog.locator('.confirm-ok-button').click({ force: true });
 
-          // [非公開化] 全バージョンを非公開にするループ
-          while (true) {
-            await expect(newPage.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 30000 });
+              await expect(newPage.locator(SELECTORS.dashboard.loadingOverlay)).toBeHidden({ timeout: 30000 });
 
-            const publishedVersionRow = newPage.locator('.version-card', { hasText: '公開中' }).first();
-            if (await publishedVersionRow.count() === 0) {
-              break;
+              const updatedVersionRow = newPage.locator(SELECTORS.appDetail.versionCard, { hasText: version });
+              await expect(updatedVersionRow).not.toContainText(uiText('version.status.published'));
+              unpublishedVersions.push(version);
+            }
+            if (unpublishedVersions.length > 0) {
+              results.push({ area: 'workbench', appKey, appName, action: 'unpublished', detail: unpublishedVersions.join(', ') });
             }
 
-            const version = await publishedVersionRow.locator('.v-version').innerText();
-            console.log(`  -> バージョン ${version} を非公開にします (${appKey})`);
-
-            const unPublishBtn = publishedVersionRow.getByRole('button', { name: /非公開へ/ });
-            await unPublishBtn.scrollIntoViewIfNeeded();
-            await unPublishBtn.click();
-
-            await expect(newPage.locator('message-box#publish-action-confirm')).toBeVisible({ timeout: 30000 });
-            const confirmDialog = newPage.locator('message-box#publish-action-confirm');
-            await confirmDialog.locator('.confirm-ok-button').click({ force: true });
-
-            await expect(newPage.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 30000 });
+            if (unpublishOnly) {
+              if (unpublishedVersions.length === 0) {
+                results.push({ area: 'workbench', appKey, appName, action: 'kept', detail: '公開中のバージョンなし' });
+              }
+              return;
+            }
 
-            const updatedVersionRow = newPage.locator('.version-card', { hasText: version });
-            await expect(updatedVersionRow).not.toContainText('公開中');
-          }
+            // [削除]
+            const appSetting = newPage.getByText(uiText('dashboard.appSettings'));
+            await expect(appSetting).toBeVisible();
+            await appSetting.click();
+            const deleteButton = newPage.getByRole('button', { name: uiText('common.confirmDelete') });
 
-          // [削除]
-          const appSetting = newPage.getByText('アプリ設定');
-          await expect(appSetting).toBeVisible();
-          await appSetting.click();
-          const deleteButton = newPage.getByRole('button', { name: '削除する' });
+            await newPage.waitForTimeout(500);
+            await expect(deleteButton).toBeEnabled({ timeout: 10000 });
+            await deleteButton.click();
 
-          await newPage.waitForTimeout(500);
-          await expect(deleteButton).toBeEnabled({ timeout: 10000 });
-          await deleteButton.click();
+            await newPage.waitForTimeout(500);
 
-          await newPage.waitForTimeout(500);
+            const confirmDialog = newPage.locator(SELECTORS.appDetail.deleteConfirm);
+            await expect(confirmDialog).toBeVisible();
+            await confirmDialog.locator('.confirm-ok-button').click({ force: true });
 
-          const confirmDialog = newPage.locator('message-box#delete-confirm-general');
-          await expect(confirmDialog).toBeVisible();
-          await confirmDialog.locator('.confirm-ok-button').click({ force: true });
+            await expect(newPage.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout: 30000 });
+            await expect(newPage.locator(SELECTORS.dashboard.loadingOverlay)).toBeHidden();
+            markReleased(appKey);
+            results.push({ area: 'workbench', appKey, appName, action: 'deleted', detail: '' });
+            console.log(` -> 削除完了: ${appName} (${appKey})`);
+
+          } catch (e) {
+            console.error(`[Workbench] ${appKey} の処理中にエラーが発生しました:`, e);
+            results.push({ area: 'workbench', appKey, appName, action: 'failed', detail: String(e).split('\n')[0] });
+          } finally {
+            await newPage.close();
+          }
+        };
 
-          await expect(newPage.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-          await expect(newPage.locator('dashboard-loading-overlay')).toBeHidden();
-          console.log(` -> 削除完了: ${appName} (${appKey})`);
+        await runWithConcurrency(workbenchAppKeys, concurrency, processWorkbenchApp);
 
-        } catch (e) {
-          console.error(`[Workbench] ${appKey} の処理中にエラーが発生しました:`, e);
-        } finally {
-          await newPage.close();
-        }
-      };
-
-      // 最大5並行でキュー（配列）から1件ずつ取り出して処理するワーカーを作成
-      const workbenchWorkers = Array(concurrency).fill(null).map(async () => {
-        while (workbenchAppKeys.length > 0) {
-          // shift()で配列の先頭から1件取り出す
-          const appKey = workbenchAppKeys.shift();
-          if (appKey) {
-            await processWorkbenchApp(appKey);
-          }
-        }
-      });
+        // 画面を再読み込みして、残りのアプリがないか確認
+        await page.reload();
+      }
+    }
 
-      // 全ワーカーの処理が終わるまで待つ
-      await Promise.all(workbenchWorkers);
+    if (ledgerTargets !== null && !dryRun && options.scope === 'all' && !unpublishOnly) {
+      // ワークベンチにもアーカイブにも残っていないアプリは手動削除済みとみなし、台帳上で解放します
+      for (const appKey of [...ledgerTargets.keys()]) {
+        if (!isTarget(appKey) || results.some(r => r.appKey === appKey && r.action === 'failed')) continue;
+        console.log(`[Ledger] ${appKey} はアカウント上に見つからないため、解放済みにします。`);
+        markReleased(appKey);
+      }
+      const pruned = pruneLedgerFiles();
+      console.log(`[Ledger] 解放済みの台帳ファイルを ${pruned.length} 件削除しました。`);
+    }
 
-      // 画面を再読み込みして、残りのアプリがないか確認
-      await page.reload();
+    // ====================================================
+    // 3. サマリー
+    // ====================================================
+    const countOf = (action: CleanupResult['action']) => results.filter(r => r.action === action).length;
+    console.log(`--- クリーンアップ結果${dryRun ? ' (dry-run)' : ''} ---`);
+    if (results.length > 0) {
+      console.table(results);
     }
+    console.log(`restored: ${countOf('restored')}, unpublished: ${countOf('unpublished')}, deleted: ${countOf('deleted')}, kept: ${countOf('kept')}, failed: ${countOf('failed')}`);
+    await test.info().attach('cleanup-summary', { body: JSON.stringify({ options: { ...options, keyPattern: options.keyPattern?.source ?? null }, results }, null, 2), contentType: 'application/json' });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,123 @@
+/**
+ * AIエージェントが返す設計図（blueprint）のページ定義。
+ */
+export type AgentBlueprintPage = {
+    template_id: string;
+    content: string;
+};
+
+/**
+ * AIエージェントが返す設計図のスクリプト定義。
+ */
+export type AgentBlueprintScript = {
+    name: string;
+    content: string;
+    description?: string;
+};
+
+/**
+ * AIエージェントが返す設計図のイベント紐付け定義。
+ */
+export type AgentBlueprintEventBinding = {
+    target_dom_id: string;
+    event_type: string;
+    script_name: string;
+};
+
+/**
+ * AIエージェントが返す設計図本体。
+ * エディタは含まれている項目だけを反映するため、すべての項目が省略可能です。
+ */
+export type AgentBlueprint = {
+    root_html?: string;
+    pages?: AgentBlueprintPage[];
+    global_css?: string;
+    scripts?: AgentBlueprintScript[];
+    event_bindings?: AgentBlueprintEventBinding[];
+    deleted_items?: { pages?: string[]; scripts?: string[] };
+};
+
+/**
+ * AIエージェントの応答（ポーリング結果の responsePayload に JSON 文字列として格納される内容）。
+ */
+export type AgentResponsePayload = {
+    blueprint: AgentBlueprint;
+    thought: string;
+};
+
+/**
+ * AIエージェントの応答を組み立てるビルダー。
+ *
+ * @example
+ * const payload = new AgentBlueprintBuilder()
+ *     .rootHtml('<ons-navigator id="appNavigator" page="home.html"></ons-navigator>')
+ *     .page('home.html', '<ons-page id="home-page" explain="ホーム画面" template-id="home.html"></ons-page>')
+ *     .script('sayHello', "function sayHello() { ons.notification.alert('Hello'); }", '挨拶')
+ *     .bindEvent('hello-btn', 'click', 'sayHello')
+ *     .thought('骨格を作成しました。')
+ *     .build();
+ */
+export class AgentBlueprintBuilder {
+    private readonly blueprint: AgentBlueprint = {};
+    private thoughtText = '';
+
+    /** ルートのHTML（ons-navigator など）を設定します。 */
+    rootHtml(html: string): this {
+        this.blueprint.root_html = html;
+        return this;
+    }
+
+    /** ページ（テンプレート）を追加します。 */
+    page(templateId: string, content: string): this {
+        (this.blueprint.pages ??= []).push({ template_id: templateId, content });
+        return this;
+    }
+
+    /** アプリ全体のCSSを設定します。 */
+    globalCss(css: string): this {
+        this.blueprint.global_css = css;
+        return this;
+    }
+
+    /** スクリプトを追加します。 */
+    script(name: string, content: string, description?: string): this {
+        (this.blueprint.scripts ??= []).push(description === undefined ? { name, content } : { name, content, description });
+        return this;
+    }
+
+    /** DOM要素のイベントにスクリプトを紐付けます。 */
+    bindEvent(targetDomId: string, eventType: string, scriptName: string): this {
+        (this.blueprint.event_bindings ??= []).push({ target_dom_id: targetDomId, event_type: eventType, script_name: scriptName });
+        return this;
+    }
+
+    /** 削除対象のページを追加します。 */
+    deletePages(...templateIds: string[]): this {
+        const deleted = (this.blueprint.deleted_items ??= {});
+        (deleted.pages ??= []).push(...templateIds);
+        return this;
+    }
+
+    /** 削除対象のスクリプトを追加します。 */
+    deleteScripts(...scriptNames: string[]): this {
+        const deleted = (this.blueprint.deleted_items ??= {});
+        (deleted.scripts ??= []).push(...scriptNames);
+        return this;
+    }
+
+    /** AIの思考メッセージ（チャットに表示される説明文）を設定します。 */
+    thought(text: string): this {
+        this.thoughtText = text;
+        return this;
+    }
+
+    /** 応答オブジェクトを生成します。 */
+    build(): AgentResponsePayload {
+        return { blueprint: structuredClone(this.blueprint), thought: this.thoughtText };
+    }
+
+    /** responsePayload に格納する JSON 文字列を生成します。 */
+    toPayload(): string {
+        return JSON.stringify(this.build());
+    }
+}
@@ -0,0 +1,216 @@
+import { expect, type Page, type Route } from '@playwright/test';
+import { AgentBlueprintBuilder, type AgentResponsePayload } from './agent-blueprint';
+
+/**
+ * AIエージェントへの1回の依頼（POST）に対してモックが返す応答の筋書き。
+ * - completed: pendingPolls 回 pending を返した後、payload を completed として返す
+ * - malformed: JSON として解釈できない文字列を completed として返す
+ * - error: 指定したステータスコードで失敗させる（at: 'post' は依頼自体、'poll' はポーリング）
+ * - stall: pending を返し続ける（停止・キャンセル操作の検証用）
+ */
+export type AgentMockScenario =
+    | { type: 'completed'; payload: AgentResponsePayload; pendingPolls: number }
+    | { type: 'malformed'; text: string }
+    | { type: 'error'; status: number; at: 'post' | 'poll'; body?: unknown }
+    | { type: 'stall' };
+
+/**
+ * エディタから送信された依頼（POST）の記録。
+ */
+export type AgentMockRequest = {
+    ticket: string;
+    url: string;
+    /** リクエストボディ（JSON として解釈できた場合はオブジェクト、できなければ文字列） */
+    body: unknown;
+};
+
+type TicketState = {
+    ticket: string;
+    scenario: AgentMockScenario;
+    polls: number;
+    canceled: boolean;
+};
+
+/**
+ * AIエージェントAPI（POST でチケット発行 → GET でポーリング → PUT でキャンセル）のモック。
+ * 依頼ごとに筋書きを順番に消費し、筋書きが尽きた後は最後の筋書きを繰り返します
+ * （自動修復のリトライで同じ応答を返し続けるケースを想定）。
+ *
+ * @example
+ * const agent = new AgentMockServer(editorPage);
+ * agent.respondWith(new AgentBlueprintBuilder().page('home.html', '...').thought('作成しました。'), { pendingPolls: 1 });
+ * await agent.install();
+ * // ... 指示を送信 ...
+ * expect(agent.requests[0].body).toMatchObject({ ... });
+ */
+export class AgentMockServer {
+    private readonly scenarios: AgentMockScenario[] = [];
+    private readonly recorded: AgentMockRequest[] = [];
+    private current: TicketState | null = null;
+    private ticketCount = 0;
+    private cancelCount = 0;
+    private installed = false;
+
+    private readonly handler = (route: Route) => this.handle(route);
+
+    /**
+     * @param page エディタのPageオブジェクト
+     * @param url フックするURLパターン（デフォルト: agent を含むURL）
+     */
+    constructor(private readonly page: Page, private readonly url: RegExp = /.*agent.*/) { }
+
+    /**
+     * 設計図を返す筋書きを追加します。
+     * @param response 応答（ビルダーまたは組み立て済みのオブジェクト）
+     * @param options.pendingPolls completed を返す前に pending を返すポーリング回数（デフォルト: 0）
+     */
+    respondWith(response: AgentBlueprintBuilder | AgentResponsePayload, options: { pendingPolls?: number } = {}): this {
+        const payload = response instanceof AgentBlueprintBuilder ? response.build() : response;
+        this.scenarios.push({ type: 'completed', payload, pendingPolls: options.pendingPolls ?? 0 });
+        return this;
+    }
+
+    /**
+     * JSON として解釈できない応答を返す筋書きを追加します。
+     */
+    respondMalformed(text: string = 'THIS IS NOT A JSON AT ALL. SYSTEM MUST FAIL.'): this {
+        this.scenarios.push({ type: 'malformed', text });
+        return this;
+    }
+
+    /**
+     * エラーステータスを返す筋書きを追加します。
+     * @param status HTTPステータスコード
+     * @param options.at 'post' は依頼自体を、'poll' はポーリングを失敗させます（デフォルト: 'post'）
+     * @param options.body レスポンスボディ（省略時は { code: status }）
+     */
+    failWith(status: number, options: { at?: 'post' | 'poll'; body?: unknown } = {}): this {
+        this.scenarios.push({ type: 'error', status, at: options.at ?? 'post', body: options.body });
+        return this;
+    }
+
+    /**
+     * pending を返し続ける筋書きを追加します。
+     */
+    stall(): this {
+        this.scenarios.push({ type: 'stall' });
+        return this;
+    }
+
+    /**
+     * ルートを登録します。筋書きは登録後に追加しても構いません。
+     */
+    async install(): Promise<void> {
+        if (this.installed) return;
+        await this.page.route(this.url, this.handler);
+        this.installed = true;
+    }
+
+    /**
+     * ルートを解除し、以降の通信を実際のAPIへ流します。
+     */
+    async uninstall(): Promise<void> {
+        if (!this.installed) return;
+        await this.page.unroute(this.url, this.handler);
+        this.installed = false;
+        this.current = null;
+    }
+
+    /** エディタから送信された依頼の一覧（送信順） */
+    get requests(): readonly AgentMockRequest[] {
+        return this.recorded;
+    }
+
+    /** キャンセル（PUT）を受け付けた回数 */
+    get canceledCount(): number {
+        return this.cancelCount;
+    }
+
+    /**
+     * 指定した件数の依頼が送信されるまで待機します。
+     */
+    async waitForRequests(count: number, timeout: number = 10000): Promise<readonly AgentMockRequest[]> {
+        await expect.poll(() => this.recorded.length, {
+            message: `AIエージェントへの依頼が ${count} 件送信されるのを待機中`,
+            timeout
+        }).toBeGreaterThanOrEqual(count);
+        return this.recorded;
+    }
+
+    private nextScenario(): AgentMockScenario {
+        const index = Math.min(this.ticketCount - 1, this.scenarios.length - 1);
+        if (index < 0) {
+            throw new Error('[AgentMock] 筋書きが登録されていません。respondWith() などで応答を登録してください。');
+        }
+        return this.scenarios[index];
+    }
+
+    private async handle(route: Route): Promise<void> {
+        const request = route.request();
+        const method = request.method();
+
+        if (method === 'POST') {
+            this.ticketCount++;
+            const ticket = `mock-ticket-${this.ticketCount}`;
+            const scenario = this.nextScenario();
+
+            let body: unknown = request.postData();
+            try {
+                body = request.postDataJSON();
+            } catch {
+                // JSON でない場合は文字列のまま記録する
+            }
+            this.recorded.push({ ticket, url: request.url(), body });
+
+            if (scenario.type === 'error' && scenario.at === 'post') {
+                this.current = null;
+                await fulfillJson(route, scenario.body ?? { code: scenario.status }, scenario.status);
+                return;
+            }
+
+            this.current = { ticket, scenario, polls: 0, canceled: false };
+            await fulfillJson(route, { code: 200, details: { ticket } });
+        } else if (method === 'GET') {
+            const state = this.current;
+            if (!state || state.canceled) {
+                await fulfillJson(route, { code: 200, details: { aiAgentRequests: [] } });
+                return;
+            }
+
+            state.polls++;
+            const { scenario } = state;
+            switch (scenario.type) {
+                case 'completed': {
+                    const status = state.polls <= scenario.pendingPolls ? 'pending' : 'completed';
+                    const entry = status === 'pending' ? { status } : { status, responsePayload: JSON.stringify(scenario.payload) };
+                    await fulfillJson(route, { code: 200, details: { aiAgentRequests: [entry] } });
+                    break;
+                }
+                case 'malformed':
+                    await fulfillJson(route, { code: 200, details: { aiAgentRequests: [{ status: 'completed', responsePayload: scenario.text }] } });
+                    break;
+                case 'error':
+                    await fulfillJson(route, scenario.body ?? { code: scenario.status }, scenario.status);
+                    break;
+                case 'stall':
+                    await fulfillJson(route, { code: 200, details: { aiAgentRequests: [{ status: 'pending' }] } });
+                    break;
+            }
+        } else if (method === 'PUT') {
+            // キャンセルAPI
+            this.cancelCount++;
+            if (this.current) this.current.canceled = true;
+            await fulfillJson(route, { code: 200, message: 'canceled' });
+        } else {
+            await route.continue();
+        }
+    }
+}
+
+async function fulfillJson(route: Route, body: unknown, status: number = 200): Promise<void> {
+    await route.fulfill({
+        status,
+        contentType: 'application/json',
+        body: JSON.stringify(body)
+    });
+}
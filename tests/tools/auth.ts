@@ -0,0 +1,224 @@
+import fs from 'fs';
+import path from 'path';
+import { request } from '@playwright/test';
+import { generateIdentKey, getStorageStatePath } from '../constants';
+import { config } from '../config';
+
+/**
+ * ワーカー用セッションを取得する方法。
+ * login はセッション（Cookie）を storageStatePath に保存します。
+ */
+export type AuthStrategy = {
+    name: string;
+    login: (params: { identkey: string; storageStatePath: string }) => Promise<void>;
+};
+
+/**
+ * ログインエンドポイントにパスコードとidentkeyを送信してセッションを取得します（デフォルト）。
+ */
+export const passcodeStrategy = (loginUrl: string, passcode: string): AuthStrategy => ({
+    name: 'passcode',
+    login: async ({ identkey, storageStatePath }) => {
+        const apiContext = await request.newContext();
+        try {
+            const response = await apiContext.post(loginUrl, {
+                data: { passcode, identkey }
+            });
+            if (response.status() !== 200) {
+                const body = await response.text();
+                throw new Error(`Login failed for identkey ${identkey} with status ${response.status()}: ${body}`);
+            }
+            const result = await response.json();
+            console.log(`[Auth] Login success (identkey: ${identkey}):`, result);
+            await apiContext.storageState({ path: storageStatePath });
+        } finally {
+            await apiContext.dispose();
+        }
+    }
+});
+
+/**
+ * 事前に用意した storageState ファイルをコピーして使用します。
+ * 手動でログインしたブラウザのセッションを流用する場合などに使用します。
+ */
+export const storageStateStrategy = (sourcePath: string): AuthStrategy => ({
+    name: 'storage-state',
+    login: async ({ storageStatePath }) => {
+        if (!fs.existsSync(sourcePath)) {
+            throw new Error(`Storage state file not found: ${sourcePath}`);
+        }
+        fs.copyFileSync(sourcePath, storageStatePath);
+    }
+});
+
+/**
+ * 環境変数で渡されたCookie（`name=value; name2=value2` 形式）からセッションを作成します。
+ */
+export const cookieStrategy = (cookieHeader: string, baseUrl: string): AuthStrategy => ({
+    name: 'cookie',
+    login: async ({ storageStatePath }) => {
+        const { hostname, protocol } = new URL(baseUrl);
+        const cookies = cookieHeader.split(';').map(c => c.trim()).filter(Boolean).map(pair => {
+            const index = pair.indexOf('=');
+            return {
+                name: pair.slice(0, index),
+                value: pair.slice(index + 1),
+                domain: hostname,
+                path: '/',
+                expires: -1,
+                httpOnly: true,
+                secure: protocol === 'https:',
+                sameSite: 'Lax' as const,
+            };
+        });
+        fs.writeFileSync(storageStatePath, JSON.stringify({ cookies, origins: [] }, null, 2), 'utf-8');
+    }
+});
+
+/**
+ * 環境変数から認証方法を決定します。
+ * PWAPPY_TEST_AUTH_STRATEGY（passcode / storage-state / cookie）で明示できます。
+ * 省略時は PWAPPY_TEST_STORAGE_STATE → PWAPPY_TEST_SESSION_COOKIE → パスコードの順で、設定されているものを使用します。
+ */
+export const resolveAuthStrategy = (): AuthStrategy => {
+    switch (config.auth.strategy) {
+        case 'storage-state':
+            return storageStateStrategy(config.auth.storageState);
+        case 'cookie':
+            return cookieStrategy(config.auth.sessionCookie, config.baseUrl);
+        case 'passcode':
+            return passcodeStrategy(config.loginEndpoint, config.loginPasscode);
+    }
+};
+
+/**
+ * セッションの有効性を確認するURL。
+ * PWAPPY_TEST_SESSION_CHECK_URL（例: dashboard-init のURL）を指定した場合は 200 が返ることを確認します。
+ * 省略時はベースURLを開き、401/403 やログイン画面へのリダイレクトが返らないことを確認します。
+ */
+const getSessionCheckUrl = (): { url: string; strict: boolean } | null => {
+    const checkUrl = config.auth.sessionCheckUrl;
+    if (checkUrl) return { url: checkUrl, strict: true };
+    return process.env.PWAPPY_TEST_BASE_URL ? { url: config.baseUrl, strict: false } : null;
+};
+
+/**
+ * レスポンスがセッション切れ（401 またはログイン画面へのリダイレクト）を示しているかを判定します。
+ */
+export const isSessionExpiredResponse = (status: number, location: string = ''): boolean => {
+    if (status === 401 || status === 403) return true;
+    return status >= 300 && status < 400 && /login|signin|auth/i.test(location);
+};
+
+/**
+ * 保存済みのセッションが有効かどうかを確認します。
+ * 確認先が設定されていない場合は、中身があれば有効とみなします。
+ */
+export async function validateSession(storageStatePath: string): Promise<boolean> {
+    if (!fs.existsSync(storageStatePath)) return false;
+    const content = fs.readFileSync(storageStatePath, 'utf-8').trim();
+    if (content === '{}' || content === '') return false;
+
+    const check = getSessionCheckUrl();
+    if (!check) return true;
+
+    const apiContext = await request.newContext({ storageState: storageStatePath });
+    try {
+        const response = await apiContext.get(check.url, { maxRedirects: 0, failOnStatusCode: false });
+        const status = response.status();
+        if (check.strict) return status === 200;
+        return !isSessionExpiredResponse(status, response.headers()['location']);
+    } catch (e) {
+        // ネットワークエラー時はセッションの問題と区別できないため、再ログインせず有効とみなします
+        console.warn(`[Auth] Session check failed (${check.url}), assuming the session is valid.`, e);
+        return true;
+    } finally {
+        await apiContext.dispose();
+    }
+}
+
+// 同一プロセス内で確認済みのセッション（パス → 確認日時）
+// ダッシュボードを開くたびに確認APIを呼ばないよう、一定時間はキャッシュします
+const validatedAt = new Map<string, number>();
+
+const getSessionTtlMs = (): number => config.auth.sessionTtlMinutes * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getMtime = (filePath: string): number | undefined => fs.statSync(filePath, { throwIfNoEntry: false })?.mtimeMs;
+
+/**
+ * ディレクトリの作成をロックとして使い、複数ワーカーが同じファイルに対して同時にログインしないようにします。
+ * 異常終了で残ったロックは staleMs を過ぎたら削除します。
+ */
+export async function withFileLock<T>(
+    targetPath: string,
+    action: () => Promise<T>,
+    { timeout = 60000, staleMs = 120000 }: { timeout?: number; staleMs?: number } = {}
+): Promise<T> {
+    const lockPath = `${targetPath}.lock`;
+    const deadline = Date.now() + timeout;
+
+    while (true) {
+        try {
+            fs.mkdirSync(lockPath);
+            break;
+        } catch (e: any) {
+            if (e.code !== 'EEXIST') throw e;
+            const stat = fs.statSync(lockPath, { throwIfNoEntry: false });
+            if (stat && Date.now() - stat.mtimeMs > staleMs) {
+                console.warn(`[Auth] Removing stale lock: ${lockPath}`);
+                fs.rmSync(lockPath, { recursive: true, force: true });
+                continue;
+            }
+            if (Date.now() > deadline) {
+                throw new Error(`[Auth] Timed out waiting for lock: ${lockPath}`);
+            }
+            await sleep(200);
+        }
+    }
+
+    try {
+        return await action();
+    } finally {
+        fs.rmSync(lockPath, { recursive: true, force: true });
+    }
+}
+
+/**
+ * ワーカー固有のセッションを用意し、storageState ファイルのパスを返します。
+ * 保存済みのセッションが有効であればそのまま使用し、無効（期限切れ）であれば再ログインします。
+ *
+ * @param workerIndex ワーカー番号
+ * @param browserCode ブラウザコード（getStorageStatePath / generateIdentKey と同じ）
+ * @param options.force true の場合は有効性を確認せずに再ログインします（401 を検知した場合など）
+ */
+export async function ensureAuthenticated(
+    workerIndex: string | number = config.workerIndex,
+    browserCode: string = 'x',
+    options: { force?: boolean } = {}
+): Promise<string> {
+    const storageStatePath = getStorageStatePath(workerIndex, browserCode);
+    const lastValidated = validatedAt.get(storageStatePath);
+    if (!options.force && lastValidated && Date.now() - lastValidated < getSessionTtlMs()) {
+        return storageStatePath;
+    }
+
+    const mtimeBefore = getMtime(storageStatePath);
+    await withFileLock(storageStatePath, async () => {
+        // ロック待ちの間に別のワーカーがログインを済ませている場合は、強制指定でもそのセッションを確認して使用します
+        const refreshedByOther = getMtime(storageStatePath) !== mtimeBefore;
+        if ((!options.force || refreshedByOther) && await validateSession(storageStatePath)) {
+            return;
+        }
+
+        const strategy = resolveAuthStrategy();
+        const identkey = generateIdentKey(workerIndex, browserCode);
+        console.log(`[Auth] Session is missing or expired. Logging in for Worker ${workerIndex} (identkey: ${identkey}, strategy: ${strategy.name})...`);
+        fs.mkdirSync(path.dirname(storageStatePath), { recursive: true });
+        await strategy.login({ identkey, storageStatePath });
+    });
+
+    validatedAt.set(storageStatePath, Date.now());
+    return storageStatePath;
+}
@@ -0,0 +1,193 @@
+/**
+ * 処理中状態（ローディングオーバーレイ・「処理中...」の表示・API 通信）の検出。
+ * 画面ごとに異なるオーバーレイをまとめて扱い、すべて解消されるまで待機する waitForIdle を提供します。
+ *
+ * @example
+ * await platformBottomMenu.getByText(uiText('platform.save'), { exact: true }).click();
+ * await waitForIdle(page, 'editor');
+ */
+import { type BrowserContext, type Locator, type Page, type Request } from '@playwright/test';
+import { config } from '../config';
+import { resolveBaseUrl } from './har-replay';
+import { uiText } from './ui-strings';
+import { SELECTORS } from './selectors';
+
+/**
+ * 待機する範囲。
+ * - dashboard: ダッシュボードのオーバーレイと「処理中...」の表示
+ * - editor: エディタのオーバーレイ（ファイルエクスプローラーを含む）
+ * - file-explorer: ファイルエクスプローラーのオーバーレイ
+ * - all: すべて
+ */
+export type BusyScope = 'dashboard' | 'editor' | 'file-explorer' | 'all';
+
+export type WaitForIdleOptions = {
+    /** タイムアウト（デフォルト: 30000ミリ秒） */
+    timeout?: number;
+    /** 処理中の表示・通信がない状態がこの時間（ミリ秒）続いたら完了とみなします（デフォルト: 300ミリ秒） */
+    quietMs?: number;
+    /** 完了を待たない通信の URL（部分一致または正規表現）。ストリーミングなど長時間続く通信を指定します */
+    ignoreRequests?: (string | RegExp)[];
+};
+
+type BusyIndicator = {
+    name: string;
+    scopes: BusyScope[];
+    /** 表示されている場合に処理中とみなす要素 */
+    locate: (page: Page) => Locator;
+};
+
+/** 処理中を示す表示の一覧 */
+const BUSY_INDICATORS: BusyIndicator[] = [
+    { name: 'dashboard-loading-overlay', scopes: ['dashboard'], locate: page => page.locator(SELECTORS.dashboard.loadingOverlay) },
+    { name: '「処理中...」', scopes: ['dashboard'], locate: page => page.getByText(uiText('dashboard.busy')).first() },
+    { name: 'app-container-loading-overlay', scopes: ['editor'], locate: page => page.locator(SELECTORS.editor.loadingOverlay).getByText(uiText('editor.busy')) },
+    { name: 'file-explorer-loading-overlay', scopes: ['editor', 'file-explorer'], locate: page => page.locator(SELECTORS.fileExplorer.loadingOverlay) },
+];
+
+/** 完了待ちの対象とする通信の種類 */
+const API_RESOURCE_TYPES = ['fetch', 'xhr'];
+
+const POLL_INTERVAL = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * waitForIdle がタイムアウトした場合のエラー。解消されなかったオーバーレイと通信を保持します。
+ */
+export class BusyStateError extends Error {
+    constructor(readonly scope: BusyScope, readonly overlays: string[], readonly requests: string[], timeout: number) {
+        super([
+            `[Busy] ${timeout}ms 以内に処理中の状態が解消されませんでした（scope: ${scope}）`,
+            ...overlays.map(name => `  - 表示中: ${name}`),
+            ...requests.map(request => `  - 通信中: ${request}`),
+        ].join('\n'));
+        this.name = 'BusyStateError';
+    }
+}
+
+/**
+ * pwappy の API 通信かどうかを判定します（API のオリジンと完全に一致する fetch / XHR）。
+ * オリジンは PWAPPY_TEST_API_ORIGIN、未設定の場合はダッシュボードのURL（HARの再生中は記録時のURL）から決めます。
+ */
+const isPwappyApiRequest = (request: Request): boolean => {
+    if (!API_RESOURCE_TYPES.includes(request.resourceType())) return false;
+    try {
+        return new URL(request.url()).origin === (config.apiOrigin ?? new URL(resolveBaseUrl()).origin);
+    } catch {
+        return false;
+    }
+};
+
+// コンテキストごとのカウンター
+const counters = new WeakMap<BrowserContext, RequestCounter>();
+
+/**
+ * ブラウザコンテキスト内で完了していない pwappy の API 通信を数えます。
+ * 開始済みの通信は数えられないため、trackRequests はページを開く前（DashboardPage.goto）に呼び出します。
+ */
+export class RequestCounter {
+    private readonly pending = new Set<Request>();
+
+    private readonly onRequest = (request: Request) => {
+        if (isPwappyApiRequest(request)) this.pending.add(request);
+    };
+
+    private readonly onRequestDone = (request: Request) => {
+        this.pending.delete(request);
+    };
+
+    constructor(private readonly context: BrowserContext) {
+        context.on('request', this.onRequest);
+        context.on('requestfinished', this.onRequestDone);
+        context.on('requestfailed', this.onRequestDone);
+        context.on('close', () => this.dispose());
+    }
+
+    /**
+     * 完了していない通信。page を指定した場合は、そのページ（フレームを含む）から発行された通信のみを返します。
+     */
+    pendingRequests(page?: Page): Request[] {
+        return [...this.pending].filter(request => {
+            try {
+                const owner = request.frame().page();
+                // 閉じたページの通信は完了イベントが届かない場合があるため、完了したものとして扱います
+                if (owner.isClosed()) {
+                    this.pending.delete(request);
+                    return false;
+                }
+                return !page || owner === page;
+            } catch {
+                // Service Worker のリクエストなど、フレームに属さない場合はページを特定できません
+                return !page;
+            }
+        });
+    }
+
+    /**
+     * 完了していない通信の数。
+     */
+    count(page?: Page): number {
+        return this.pendingRequests(page).length;
+    }
+
+    private dispose(): void {
+        this.context.off('request', this.onRequest);
+        this.context.off('requestfinished', this.onRequestDone);
+        this.context.off('requestfailed', this.onRequestDone);
+        this.pending.clear();
+        counters.delete(this.context);
+    }
+}
+
+/**
+ * コンテキストの通信の追跡を開始し、カウンターを返します。既に開始している場合は同じカウンターを返します。
+ */
+export const trackRequests = (context: BrowserContext): RequestCounter => {
+    let counter = counters.get(context);
+    if (!counter) {
+        counter = new RequestCounter(context);
+        counters.set(context, counter);
+    }
+    return counter;
+};
+
+/**
+ * 指定した範囲のローディングオーバーレイ・「処理中...」の表示と、ページから発行された pwappy の API 通信が
+ * すべて解消されるまで待機します。解消されない場合は、残っている表示と通信を含む BusyStateError を投げます。
+ *
+ * 操作の直後はオーバーレイの表示が遅れることがあるため、quietMs の間なにも検出されないことを確認してから完了とみなします。
+ */
+export async function waitForIdle(page: Page, scope: BusyScope = 'all', options: WaitForIdleOptions = {}): Promise<void> {
+    const { timeout = 30000, quietMs = 300, ignoreRequests = [] } = options;
+    const counter = trackRequests(page.context());
+    const indicators = BUSY_INDICATORS.filter(indicator => scope === 'all' || indicator.scopes.includes(scope));
+    const isIgnored = (url: string) => ignoreRequests.some(pattern => typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url));
+
+    const deadline = Date.now() + timeout;
+    let idleSince: number | null = null;
+    let overlays: string[] = [];
+    let requests: string[] = [];
+
+    while (Date.now() < deadline) {
+        overlays = [];
+        for (const indicator of indicators) {
+            if (await indicator.locate(page).isVisible().catch(() => false)) overlays.push(indicator.name);
+        }
+        requests = counter.pendingRequests(page)
+            .filter(request => !isIgnored(request.url()))
+            .map(request => `${request.method()} ${request.url()}`);
+
+        if (overlays.length > 0 || requests.length > 0) {
+            idleSince = null;
+        } else {
+            idleSince ??= Date.now();
+            if (Date.now() - idleSince >= quietMs) return;
+        }
+        await sleep(POLL_INTERVAL);
+    }
+
+    // 最後の確認で何も検出されていなければ、解消したものとみなします
+    if (overlays.length === 0 && requests.length === 0) return;
+    throw new BusyStateError(scope, overlays, requests, timeout);
+}
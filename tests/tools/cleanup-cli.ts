@@ -0,0 +1,139 @@
+/**
+ * テストアカウントのメンテナンス用コマンド。
+ * CIが不安定だった翌日などに手動で実行し、残ったアプリ・アーカイブを整理します。
+ *
+ * 実際の処理は tests/tools/a0-cleanup-all-apps.spec.ts（gotoDashboard でのログインを含む）が行い、
+ * このコマンドはオプションを環境変数に変換して Playwright を起動するだけです。
+ * run-ts.mjs から Node.js の型ストリップ機能（Node.js 22.6 以上。古い場合は run-ts.mjs がメッセージを表示して終了します）で直接実行するため、Node.js 標準モジュール以外は import しないでください。
+ *
+ * @example
+ * # 何が削除されるかを確認する
+ * npm run cleanup -- --dry-run --prefix ui-auto
+ * # 作成から2時間以上経過したリーク分のみを、公開停止だけして残す
+ * npm run cleanup -- --ledger --min-age 120 --unpublish-only
+ */
+import { spawnSync } from 'child_process';
+import { parseArgs } from 'util';
+
+const usage = `
+使い方: npm run cleanup -- [options]
+
+  --dry-run               対象と予定される処理を表示するだけで、何も変更しません
+  --prefix <prefix>       指定したプレフィックスで始まるアプリキーのみを対象にします
+  --pattern <regex>       指定した正規表現に一致するアプリキーのみを対象にします
+  --min-age <minutes>     リソース台帳上の作成日時から指定時間（分）経過したアプリのみを対象にします
+                          （台帳に記録のないアプリは対象外になります）
+  --archive-only          アーカイブのみを処理します
+  --workbench-only        ワークベンチのみを処理します
+  --concurrency <n>       並行して処理するページ数 (デフォルト: 10)
+  --unpublish-only        公開中のバージョンを非公開にするだけで、アプリは削除しません
+  --ledger                リソース台帳 (.ledger/) 上でリークと判定されたアプリのみを対象にします
+  --project <name>        使用する Playwright のプロジェクト (デフォルト: chromium)
+  --worker <n>            対象アカウントのワーカー番号 (デフォルト: 0)
+  --browser-code <code>   対象アカウントのブラウザコード (c/f/s/a/i)。省略時はプロジェクトから推測します
+  -h, --help              このヘルプを表示します
+`;
+
+const fail = (message: string): never => {
+    console.error(`[Cleanup] ${message}`);
+    console.error(usage);
+    process.exit(2);
+};
+
+const { values } = (() => {
+    try {
+        return parseArgs({
+            options: {
+                'dry-run': { type: 'boolean', default: false },
+                'prefix': { type: 'string' },
+                'pattern': { type: 'string' },
+                'min-age': { type: 'string' },
+                'archive-only': { type: 'boolean', default: false },
+                'workbench-only': { type: 'boolean', default: false },
+                'concurrency': { type: 'string', default: '10' },
+                'unpublish-only': { type: 'boolean', default: false },
+                'ledger': { type: 'boolean', default: false },
+                'project': { type: 'string', default: 'chromium' },
+                'worker': { type: 'string', default: '0' },
+                'browser-code': { type: 'string' },
+                'help': { type: 'boolean', short: 'h', default: false },
+            },
+            strict: true,
+        });
+    } catch (e: any) {
+        return fail(e.message);
+    }
+})();
+
+if (values.help) {
+    console.log(usage);
+    process.exit(0);
+}
+
+// 実行前に値を検証し、Playwright の起動後にエラーになることを防ぎます
+if (values['archive-only'] && values['workbench-only']) {
+    fail('--archive-only と --workbench-only は同時に指定できません。');
+}
+if (values.pattern !== undefined) {
+    try {
+        new RegExp(values.pattern);
+    } catch (e: any) {
+        fail(`--pattern の正規表現が不正です: ${e.message}`);
+    }
+}
+if (values['min-age'] !== undefined && !(Number(values['min-age']) >= 0)) {
+    fail(`--min-age には0以上の数値（分）を指定してください: ${values['min-age']}`);
+}
+if (!(Number.isInteger(Number(values.concurrency)) && Number(values.concurrency) >= 1)) {
+    fail(`--concurrency には1以上の整数を指定してください: ${values.concurrency}`);
+}
+if (!/^\d+$/.test(values.worker)) {
+    fail(`--worker には0以上の整数を指定してください: ${values.worker}`);
+}
+
+// Playwright のプロジェクト名と、アカウント識別用のブラウザコードの対応
+const browserCodes: Record<string, string> = {
+    'chromium': 'c',
+    'firefox': 'f',
+    'webkit': 's',
+    'mobile-chrome': 'a',
+    'mobile-safari': 'i',
+};
+const browserCode = values['browser-code'] ?? browserCodes[values.project];
+if (!browserCode) {
+    fail(`--project ${values.project} のブラウザコードが不明です。--browser-code を指定してください。`);
+}
+
+const scope = values['archive-only'] ? 'archive' : values['workbench-only'] ? 'workbench' : 'all';
+
+const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    PWAPPY_TEST_CLEANUP_WORKER_INDEX: values.worker,
+    PWAPPY_TEST_CLEANUP_BROWSER_CODE: browserCode,
+    PWAPPY_TEST_CLEANUP_MODE: values.ledger ? 'ledger' : 'all',
+    PWAPPY_TEST_CLEANUP_DRY_RUN: values['dry-run'] ? '1' : '',
+    PWAPPY_TEST_CLEANUP_KEY_PREFIX: values.prefix ?? '',
+    PWAPPY_TEST_CLEANUP_KEY_PATTERN: values.pattern ?? '',
+    PWAPPY_TEST_CLEANUP_MIN_AGE_MINUTES: values['min-age'] ?? '',
+    PWAPPY_TEST_CLEANUP_SCOPE: scope,
+    PWAPPY_TEST_CLEANUP_CONCURRENCY: values.concurrency,
+    PWAPPY_TEST_CLEANUP_UNPUBLISH_ONLY: values['unpublish-only'] ? '1' : '',
+};
+
+console.log(`[Cleanup] project=${values.project} worker=${values.worker} browserCode=${browserCode} scope=${scope}${values['dry-run'] ? ' (dry-run)' : ''}`);
+
+const result = spawnSync(
+    'npx',
+    [
+        'playwright', 'test', 'tests/tools/a0-cleanup-all-apps.spec.ts',
+        `--project=${values.project}`,
+        '--workers=1',
+        '--retries=0',
+        '--reporter=line',
+        '--output=test-results-cleanup',
+    ],
+    // Windows では npx がシェル経由でしか起動できないため shell を有効にします
+    { stdio: 'inherit', env, shell: process.platform === 'win32' }
+);
+
+process.exit(result.status ?? 1);
@@ -0,0 +1,236 @@
+import { expect, type BrowserContext, type ConsoleMessage, type Frame, type Page, type TestInfo, type WebError } from '@playwright/test';
+
+/**
+ * 収集するログの種類。
+ * - pageerror: 捕捉されなかった例外
+ * - error: console.error
+ * - warning: console.warn
+ */
+export type ConsoleEntryKind = 'pageerror' | 'error' | 'warning';
+
+export type ConsoleEntry = {
+    kind: ConsoleEntryKind;
+    /** 出力元（例: `editor`, `editor > renderzone`, `test-page`） */
+    source: string;
+    text: string;
+    /** 出力元のスクリプトのURLと行番号 */
+    location: string;
+    /** pageerror のスタックトレース */
+    stack?: string;
+    /** テスト開始からの経過時間（ミリ秒） */
+    at: number;
+};
+
+/** ログの本文に対する条件。文字列は部分一致、正規表現は test で判定します */
+export type ConsolePattern = string | RegExp;
+
+type RawEntry = Omit<ConsoleEntry, 'source'> & { page: Page | null; frameTag: string | null };
+
+// コンテキストごとのコレクター（ヘルパーからページに名前を付けるために参照します）
+const collectors = new WeakMap<BrowserContext, ConsoleCollector>();
+
+/**
+ * コンテキストに設定されているコレクターを返します（未設定の場合は undefined）。
+ */
+export const getConsoleCollector = (context: BrowserContext): ConsoleCollector | undefined => collectors.get(context);
+
+const matches = (text: string, pattern: ConsolePattern): boolean =>
+    typeof pattern === 'string' ? text.includes(pattern) : pattern.test(text);
+
+/**
+ * ブラウザコンテキスト内のすべてのページ（エディタ、プレビューの iframe、実機テストページなど）から
+ * console.error / console.warn と捕捉されなかった例外を収集し、出力元のページ・フレームを付けて記録します。
+ *
+ * ページの名前は label で付けます（ダッシュボードは gotoDashboard、エディタは openEditor、実機テストページは saveAndOpenTestPage で自動的に付けられます）。
+ * 名前のないページは `page-<番号>` と表示されます。
+ */
+export class ConsoleCollector {
+    private readonly startedAt = Date.now();
+    private readonly entries: RawEntry[] = [];
+    private readonly labels = new WeakMap<Page, string>();
+    private readonly frameTags = new WeakMap<Frame, Promise<string | null>>();
+    private readonly pending = new Set<Promise<void>>();
+    private pageCount = 0;
+
+    private readonly onPage = (page: Page) => {
+        if (!this.labels.has(page)) {
+            this.labels.set(page, `page-${++this.pageCount}`);
+        }
+    };
+
+    private readonly onConsole = (message: ConsoleMessage) => {
+        const type = message.type();
+        if (type !== 'error' && type !== 'warning') return;
+
+        const { url, lineNumber, columnNumber } = message.location();
+        this.record(message.page(), () => this.resolveConsoleFrameTag(message), {
+            kind: type,
+            text: message.text(),
+            location: url ? `${url}:${lineNumber}:${columnNumber}` : '',
+            at: Date.now() - this.startedAt,
+        });
+    };
+
+    private readonly onWebError = (webError: WebError) => {
+        const error = webError.error();
+        const { url, line, column } = webError.location();
+        const page = webError.page();
+        this.record(page, () => this.resolveFrameTagByUrl(page, url), {
+            kind: 'pageerror',
+            text: error.message,
+            location: url ? `${url}:${line}:${column}` : '',
+            stack: error.stack,
+            at: Date.now() - this.startedAt,
+        });
+    };
+
+    constructor(private readonly context: BrowserContext) { }
+
+    /**
+     * 収集を開始します。
+     */
+    start(): this {
+        this.context.pages().forEach(this.onPage);
+        this.context.on('page', this.onPage);
+        this.context.on('console', this.onConsole);
+        this.context.on('weberror', this.onWebError);
+        collectors.set(this.context, this);
+        return this;
+    }
+
+    /**
+     * 収集を終了します。出力元のフレームの判定が終わるまで待機します。
+     */
+    async stop(): Promise<void> {
+        this.context.off('page', this.onPage);
+        this.context.off('console', this.onConsole);
+        this.context.off('weberror', this.onWebError);
+        collectors.delete(this.context);
+        await Promise.all(this.pending);
+    }
+
+    /**
+     * ページに名前を付けます。ログの出力元に表示されます。
+     */
+    label(page: Page, name: string): void {
+        this.labels.set(page, name);
+    }
+
+    /**
+     * 収集したログ。kinds を指定した場合はその種類のみを返します。
+     */
+    entriesOf(...kinds: ConsoleEntryKind[]): ConsoleEntry[] {
+        return this.entries
+            .filter(entry => kinds.length === 0 || kinds.includes(entry.kind))
+            .sort((a, b) => a.at - b.at)
+            .map(({ page, frameTag, ...entry }) => ({ ...entry, source: this.sourceOf(page, frameTag) }));
+    }
+
+    /**
+     * 捕捉されなかった例外が発生していないことを確認します。
+     * 発生することが分かっている例外は allow で除外できます。
+     *
+     * @example
+     * await consoleCollector.expectNoUncaughtErrors([/ResizeObserver loop/]);
+     */
+    async expectNoUncaughtErrors(allow: ConsolePattern[] = []): Promise<void> {
+        await this.expectNone(['pageerror'], allow, '捕捉されなかった例外が発生しました');
+    }
+
+    /**
+     * 捕捉されなかった例外と console.error が出力されていないことを確認します。
+     * 発生することが分かっているエラーは allow で除外できます。
+     */
+    async expectNoErrors(allow: ConsolePattern[] = []): Promise<void> {
+        await this.expectNone(['pageerror', 'error'], allow, 'コンソールにエラーが出力されました');
+    }
+
+    /**
+     * 収集したログをテストのレポートに添付します。何も収集されていない場合は添付しません。
+     */
+    async attachTo(testInfo: TestInfo): Promise<void> {
+        const entries = this.entriesOf();
+        if (entries.length === 0) return;
+        await testInfo.attach('browser-console', {
+            body: JSON.stringify(entries, null, 2),
+            contentType: 'application/json',
+        });
+    }
+
+    private async expectNone(kinds: ConsoleEntryKind[], allow: ConsolePattern[], message: string): Promise<void> {
+        await Promise.all(this.pending);
+        const unexpected = this.entriesOf(...kinds)
+            .filter(entry => !allow.some(pattern => matches(entry.text, pattern)))
+            .map(entry => `[${entry.source}] ${entry.text}`);
+        expect(unexpected, `[ConsoleCollector] ${message}`).toEqual([]);
+    }
+
+    private record(page: Page | null, resolveFrameTag: () => Promise<string | null>, entry: Omit<RawEntry, 'page' | 'frameTag'>): void {
+        const raw: RawEntry = { ...entry, page, frameTag: null };
+        this.entries.push(raw);
+
+        // フレームの特定には非同期の問い合わせが必要なため、記録後に補完します
+        const task = resolveFrameTag()
+            .then(tag => { raw.frameTag = tag; })
+            .catch(() => { })
+            .finally(() => this.pending.delete(task));
+        this.pending.add(task);
+    }
+
+    /**
+     * console の引数（JSHandle）は出力したフレームの実行コンテキストに属するため、引数の上で評価して出力元のフレームを特定します。
+     * 外部スクリプトが iframe 内で出力した場合も、スクリプトのURLではなく実行したフレームで判定されます。
+     * 引数がない場合や評価できない場合（フレームが破棄された後など）は、スクリプトのURLから推測します。
+     */
+    private async resolveConsoleFrameTag(message: ConsoleMessage): Promise<string | null> {
+        const page = message.page();
+        const handle = message.args()[0];
+        if (page && handle) {
+            const origin = await handle.evaluate(() => {
+                if (window === window.top) return null;
+                // 親フレームがクロスオリジンの場合は frameElement を参照できないため、URLで照合します
+                const element = window.frameElement;
+                return { id: element ? (element.id || element.getAttribute('name') || 'iframe') : null, href: location.href };
+            }).catch(() => undefined);
+            if (origin === null) return null;
+            if (origin) {
+                return origin.id ?? await this.tagOf(page.frames().find(f => f !== page.mainFrame() && f.url() === origin.href));
+            }
+        }
+        return this.resolveFrameTagByUrl(page, message.location().url);
+    }
+
+    /**
+     * スクリプトのURLと一致するURLを持つ子フレームを出力元とみなします。
+     * 捕捉されなかった例外（pageerror）は出力元のフレームを取得できないため、この方法で推測します。
+     * iframe 内で実行された外部スクリプト（URLがフレームと異なるもの）の例外は、ページ本体の出力として記録されます。
+     */
+    private async resolveFrameTagByUrl(page: Page | null, scriptUrl: string): Promise<string | null> {
+        if (!page || !scriptUrl) return null;
+        return this.tagOf(page.frames().find(f => f !== page.mainFrame() && f.url() === scriptUrl));
+    }
+
+    /**
+     * 子フレームの iframe 要素の id（なければ name）を返します。フレームがない場合は null を返します。
+     */
+    private async tagOf(frame: Frame | undefined): Promise<string | null> {
+        if (!frame) return null;
+
+        let tag = this.frameTags.get(frame);
+        if (!tag) {
+            tag = (async () => {
+                const element = await frame.frameElement();
+                const id = await element.evaluate(el => (el as Element).id || (el as Element).getAttribute('name') || '');
+                await element.dispose();
+                return id || 'iframe';
+            })();
+            this.frameTags.set(frame, tag);
+        }
+        return tag;
+    }
+
+    private sourceOf(page: Page | null, frameTag: string | null): string {
+        const pageLabel = page ? (this.labels.get(page) ?? 'page') : 'worker';
+        return frameTag ? `${pageLabel} > ${frameTag}` : pageLabel;
+    }
+}
@@ -1,101 +1,30 @@
-import { expect, type Page, type BrowserContext } from '@playwright/test';
-import { EditorHelper } from './editor-helpers';
-import { clickAndOpenNewTabSafely } from './window-helpers';
-import { ensureAuthenticated } from '../constants';
-import fs from 'fs';
+import { type Page, type BrowserContext } from '@playwright/test';
+import { DashboardPage, detectBrowserCode } from './dashboard-page';
+import { type LeakedApp, findAppKeyByName, findLeakedApps, listLedgerFiles, readLedger, releaseResource } from './resource-ledger';
+import { config } from '../config';
+import { uiText } from './ui-strings';
+import { type RetryOptions } from './retry';
 
 /**
- * pageオブジェクトからブラウザの1文字コードを推測します
+ * ダッシュボード操作の関数版ヘルパー。
+ * 実装は dashboard-page.ts の DashboardPage に集約しており、ここでは既存スペック向けに同じシグネチャで委譲するだけです。
+ * 新しく書くスペックでは DashboardPage を直接使用してください。
  */
-function detectBrowserCode(page: Page): string {
-    if (process.env.PWAPPY_TEST_CLEANUP_BROWSER_CODE) {
-        return process.env.PWAPPY_TEST_CLEANUP_BROWSER_CODE;
-    }
 
-    const ua = page.context().browser()?.browserType().name() || '';
-    const viewport = page.viewportSize();
-    const isMobile = viewport ? viewport.width < 768 : false;
-
-    if (isMobile) {
-        return ua.includes('webkit') ? 'i' : 'a'; // iOS: i, Android: a
-    }
-    if (ua.includes('firefox')) return 'f';
-    if (ua.includes('webkit')) return 's'; // Safari: s
-    return 'c'; // Chromium: c (デフォルト)
-}
+export { detectBrowserCode };
 
 /**
  * アプリケーションがリストに表示されているか/いないかを確認します。
  */
 export async function expectAppVisibility(page: Page, appKey: string, isVisible: boolean): Promise<void> {
-    await expect(async () => {
-        const appKeyCell = page.locator('.app-card .app-key', { hasText: appKey }).first();
-        if (isVisible) {
-            await expect(appKeyCell).toBeVisible({ timeout: 2000 });
-        } else {
-            await expect(appKeyCell).toBeHidden({ timeout: 2000 });
-        }
-    }).toPass({ timeout: 30000, intervals: [1000] });
+    await new DashboardPage(page).app(appKey).expectVisible(isVisible);
 }
 
 /**
  * ダッシュボード画面で新しいアプリケーションを正常に作成します。
  */
 export async function createApp(page: Page, appName: string, appKey: string): Promise<void> {
-    // console.log(`[createApp:Enter] Current URL: ${page.url()}, appName: ${appName}, appKey: ${appKey}`);
-
-    // about:blank の場合に警告を出す
-    if (page.url() === 'about:blank') {
-        console.log(`[createApp:WARNING] The page URL is 'about:blank'. This means the dashboard is not loaded, and elements will likely not be found.`);
-    }
-
-    const appModal = page.locator('dashboard-modal-window#appModal');
-    await expect(async () => {
-        if (await appModal.locator('span[slot="header-title"]').isVisible().catch(() => false)) return;
-        const addBtn = page.getByRole('button', { name: '+ 新規作成' });
-
-        // クリック失敗時に画面のテキストをダンプし、503画面かどうかを確認する
-        try {
-            await addBtn.click({ force: true, timeout: 2000 });
-        } catch (e: any) {
-            console.log(`[createApp:FATAL] '+ 新規作成' button click failed.`);
-            console.log(`[createApp:FATAL] Current URL: ${page.url()}`);
-            console.log(`[createApp:FATAL] Context Pages Count: ${page.context().pages().length}`);
-            const pagesInfo = page.context().pages().map((p, i) => `Page ${i}: ${p.url()}`).join(', ');
-            console.log(`[createApp:FATAL] Pages Info: ${pagesInfo}`);
-            const bodyText = await page.evaluate(() => document.body.innerText.substring(0, 300)).catch(() => '');
-            console.log(`[createApp:FATAL] Body Text (first 300 chars):\n${bodyText}`);
-            console.log(`[createApp:FATAL] Stack trace:\n${e.stack}`);
-            throw e;
-        }
-
-        await expect(appModal.locator('span[slot="header-title"]')).toBeVisible({ timeout: 3000 });
-    }).toPass({ timeout: 20000, intervals: [1000] });
-
-    await page.waitForTimeout(500);
-
-    const appNameInput = page.locator('#input-app-name');
-    await expect(appNameInput).toBeEditable();
-    await appNameInput.fill(appName);
-
-    const appKeyInput = page.locator('#input-app-key');
-    await expect(appKeyInput).toBeEditable();
-    await appKeyInput.fill(appKey);
-
-    await expect(async () => {
-        const alert = page.locator('alert-component');
-        if (await alert.isVisible().catch(() => false)) {
-            await alert.getByRole('button', { name: '閉じる' }).click({ force: true }).catch(() => { });
-        }
-        await appModal.locator('.submit-button').click({ force: true, timeout: 2000 });
-    }).toPass({ timeout: 15000, intervals: [1000] });
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(appModal).toBeHidden();
-
-    await page.waitForTimeout(500);
-
-    await expect(page.locator('dashboard-app-detail')).toBeVisible({ timeout: 15000 });
+    await new DashboardPage(page).createApp(appName, appKey);
 }
 
 /**
@@ -103,50 +32,59 @@ export async function createApp(page: Page, appName: string, appKey: string): Pr
  * クリーンアップスクリプトと同じ「アプリ設定」からの削除フローを使用します。
  */
 export async function deleteApp(page: Page, appKey: string): Promise<void> {
-    // console.log(`[deleteApp:Enter] Current URL: ${page.url()}, appKey: ${appKey}`);
-    await page.bringToFront();
-
-    // 1. 確実にダッシュボード（ワークベンチ）を表示
-    await gotoDashboard(page);
-
-    // 2. アプリカードを特定
-    const appRow = page.locator('.app-card', { has: page.locator('.app-key', { hasText: appKey }) }).first();
-
-    // アプリが存在しない場合は何もしない
-    if (await appRow.count() === 0) {
-        console.log(`[DEBUG] deleteApp: アプリ (${appKey}) が見つからないため終了します。`);
-        return;
-    }
-
-    // 3. アプリカードをクリックして詳細画面（バージョン管理）を開く
-    await appRow.click({ force: true });
-
-    // 4. 詳細画面が表示されるのを待機（アクティブなタブが表示されるまで）
-    await expect(page.locator('.detail-tab.active')).toBeVisible({ timeout: 10000 });
-
-    await page.waitForTimeout(500);
-
-    // 5. 「アプリ設定」タブをクリック
-    await page.getByText('アプリ設定').click();
-
-    await page.waitForTimeout(500);
+    await new DashboardPage(page).app(appKey).delete();
+}
 
-    // 6. 「削除する」ボタンが有効になるのを待ってクリック
-    const deleteButton = page.getByRole('button', { name: '削除する' });
-    await expect(deleteButton).toBeEnabled({ timeout: 10000 });
-    await deleteButton.click({ force: true });
+/**
+ * 台帳上で解放されていない（クラッシュやタイムアウトで後片付けされなかった）アプリを削除します。
+ * ログイン中のアカウントに対応する記録（ブラウザコード・ワーカー番号が一致するもの）のみを対象にし、
+ * 作成から一定時間（PWAPPY_TEST_LEDGER_MIN_AGE_MINUTES）経過していないアプリは実行中とみなして残します。
+ * @returns 削除したアプリの一覧
+ */
+export async function cleanupLeakedApps(
+    page: Page,
+    options: { runId?: string; worker?: string; minAgeMs?: number } = {}
+): Promise<LeakedApp[]> {
+    const entries = listLedgerFiles().flatMap(readLedger);
+    const leakedApps = findLeakedApps(entries, {
+        ...options,
+        worker: options.worker ?? config.workerIndex,
+        browserCode: detectBrowserCode(page),
+    });
 
-    await page.waitForTimeout(500);
+    const dashboard = new DashboardPage(page);
+    const removed: LeakedApp[] = [];
+    for (const app of leakedApps) {
+        console.log(`[Ledger] リークしたアプリを削除します: ${app.appName ?? ''} (${app.appKey}) run=${app.runId} createdAt=${app.createdAt}`);
+        try {
+            await dashboard.goto();
+            const appCard = dashboard.app(app.appKey);
+            if (await appCard.locator.count() === 0) {
+                // アーカイブ済みの可能性があるため解放せずに残し、台帳クリーンアップ（アーカイブ復元を含む）に任せます
+                console.log(`[Ledger] ${app.appKey} がワークベンチに見つかりません。スキップします。`);
+                continue;
+            }
 
-    // 7. 確認ダイアログ（設定画面からの削除用ID: #delete-confirm-general）を処理
-    const confirmDialog = page.locator('message-box#delete-confirm-general');
-    await expect(confirmDialog).toBeVisible({ timeout: 5000 });
-    await confirmDialog.locator('.confirm-ok-button').click({ force: true });
+            // 公開中のバージョンが残っていると削除できないため、先に非公開化します
+            if (app.publishedVersions.length > 0) {
+                await appCard.open();
+                for (const version of app.publishedVersions) {
+                    const versionCard = appCard.version(version);
+                    if (await versionCard.locator.filter({ hasText: uiText('version.status.published') }).count() > 0) {
+                        await versionCard.unpublish();
+                    }
+                }
+            }
 
-    // 8. 削除処理（「処理中...」の表示とオーバーレイ）が消えるのを待機
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    const loadingOverlay = page.locator('dashboard-loading-overlay');
-    await expect(loadingOverlay).toBeHidden({ timeout: 10000 });
+            await appCard.delete();
+            // 記録元の実行IDで解放し、別ランの台帳からもリークとして扱われないようにします
+            releaseResource({ kind: 'app', appKey: app.appKey, browserCode: app.browserCode }, app.runId);
+            removed.push(app);
+        } catch (e) {
+            console.warn(`[Ledger] ${app.appKey} の削除に失敗しました。`, e);
+        }
+    }
+    return removed;
 }
 
 /**
@@ -160,517 +98,94 @@ export async function openEditor(
     version: string = '1.0.0',
     options: { skipStarterModal?: boolean } = { skipStarterModal: true }
 ): Promise<Page> {
-    const versionRow = page.locator('.version-card', { hasText: version }).first();
-    await expect(versionRow).toBeVisible({ timeout: 10000 });
-
-    const editorBtn = versionRow.getByRole('button', { name: /エディタ/ });
-    await expect(editorBtn).toBeVisible({ timeout: 5000 });
-
-    // アプリ作成直後など、背後でローディング中であれば消えるのを待つ
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 15000 }).catch(() => { });
-
-    // 共通関数を使ってタブを開く
-    const editorPage = await clickAndOpenNewTabSafely(page, context, async () => {
-        await editorBtn.click({ force: true }).catch(async () => {
-            await editorBtn.evaluate((el: HTMLElement) => el.click()).catch(() => { });
-        });
-    });
-
-    const tempDialogHandler = async (dialog: any) => {
-        await dialog.accept().catch(() => { });
-    };
-    editorPage.on('dialog', tempDialogHandler);
-
-    await editorPage.waitForLoadState('domcontentloaded');
-
-    // 開発用オーバーレイによるポインタ遮断を防ぐスタイルを注入
-    await editorPage.evaluate(() => {
-        const style = document.createElement('style');
-        style.id = 'webpack-overlay-bypass';
-        style.innerHTML = `
-           #webpack-dev-server-client-overlay,
-           iframe[src*="blank"] {
-               display: none !important;
-               pointer-events: none !important;
-               width: 0 !important;
-               height: 0 !important;
-               opacity: 0 !important;
-           }
-       `;
-        document.head.appendChild(style);
-    }).catch(() => { });
-
-    const tempHelper = new EditorHelper(editorPage, false);
-
-    // スナップショット復元ダイアログのスキップ
-    await tempHelper.handleSnapshotRestoreDialog();
-
-    // スターターテンプレートモーダルの処理（デフォルトでスキップ）
-    if (options.skipStarterModal) {
-        await tempHelper.handleStarterTemplateModal();
-    }
-
-    editorPage.off('dialog', tempDialogHandler);
-
-    await expect(editorPage.locator('ios-component')).toBeVisible();
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    return editorPage;
+    return new DashboardPage(page).version(version).openEditor(context, options);
 }
 
 export async function publishVersion(page: Page, appName: string, version: string): Promise<void> {
-    let versionRow = page.locator('.version-card', { hasText: version });
-    const prepBtn = versionRow.getByRole('button', { name: '審査に提出' });
-    await prepBtn.evaluate((el: HTMLElement) => el.click()).catch(() => prepBtn.click({ force: true }));
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    let confirmDialog = page.locator('message-box#publish-action-confirm');
-    await expect(confirmDialog).toBeVisible();
-
-    const applyBtn = confirmDialog.getByRole('button', { name: '申請する' });
-    await applyBtn.evaluate((el: HTMLElement) => el.click()).catch(() => applyBtn.click({ force: true }));
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-    await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, intervals: [10000, 20000] });
-    await waitForVersionStatus(page, version, '準備完了');
-
-    versionRow = page.locator('.version-card', { hasText: version });
-    const pubBtn = versionRow.getByRole('button', { name: '公開する' });
-    await pubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => pubBtn.click({ force: true }));
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    confirmDialog = page.locator('message-box#publish-action-confirm');
-    await expect(confirmDialog).toBeVisible();
-
-    const finalPubBtn = confirmDialog.getByRole('button', { name: '公開する' });
-    await finalPubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => finalPubBtn.click({ force: true }));
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
+    await new DashboardPage(page).version(version, findAppKeyByName(appName)).publish();
 }
 
 export async function unpublishVersion(page: Page, appName: string, version: string): Promise<void> {
-    const versionRow = page.locator('.version-card', { hasText: version });
-    const unpubBtn = versionRow.getByRole('button', { name: /非公開/ });
-    await unpubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => unpubBtn.click({ force: true }));
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    const confirmDialog = page.locator('message-box#publish-action-confirm');
-    await expect(confirmDialog).toBeVisible();
-
-    const finalUnpubBtn = confirmDialog.getByRole('button', { name: /非公開にする|公開停止/ });
-    await finalUnpubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => finalUnpubBtn.click({ force: true }));
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
+    await new DashboardPage(page).version(version, findAppKeyByName(appName)).unpublish();
 }
 
 export async function startPublishPreparation(page: Page, appName: string, version: string): Promise<void> {
-    const versionRow = page.locator('.version-card', { hasText: version });
-    const prepBtn = versionRow.getByRole('button', { name: '審査申請' });
-    await prepBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-    const confirmDialog = page.locator('message-box#publish-action-confirm');
-    await expect(confirmDialog).toBeVisible();
-
-    const applyBtn = confirmDialog.getByRole('button', { name: '申請する' });
-    await applyBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 150000 });
+    await new DashboardPage(page).version(version, findAppKeyByName(appName)).startPublishPreparation();
 }
 
 export async function completePublication(page: Page, appName: string, version: string): Promise<void> {
-    await waitForVersionStatus(page, version, '準備完了', { timeout: 150000, intervals: [10000, 20000] });
-    await waitForVersionStatus(page, version, '準備完了');
-
-    const readyVersionRow = page.locator('.version-card', { hasText: version });
-    const pubBtn = readyVersionRow.getByRole('button', { name: '公開する' });
-    await pubBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-    const publishConfirmDialog = page.locator('message-box#publish-action-confirm');
-    await expect(publishConfirmDialog).toBeVisible();
-
-    const confirmBtn = publishConfirmDialog.getByRole('button', { name: '公開する' });
-    await confirmBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 150000 });
+    await new DashboardPage(page).version(version, findAppKeyByName(appName)).completePublication();
 }
 
 export async function expectVersionStatus(page: Page, version: string, statusText: string): Promise<void> {
-    const versionRow = page.locator('.version-card', { hasText: version });
-    await expect(versionRow.locator('.badge')).toContainText(statusText);
+    await new DashboardPage(page).version(version).expectStatus(statusText);
 }
 
 export async function downloadVersion(page: Page, { appName, appKey, version }: { appName: string, appKey: string, version: string }): Promise<void> {
-    const versionRow = page.locator('.version-card', { hasText: version });
-
-    const dlBtn = versionRow.getByTitle('DL (10PP)');
-    await dlBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-    const confirmDialog = page.locator('message-box#download-confirm');
-    await expect(confirmDialog).toBeVisible();
-
-    const confirmDlBtn = confirmDialog.getByRole('button', { name: 'ダウンロード' });
-    const [download] = await Promise.all([
-        page.waitForEvent('download'),
-        confirmDlBtn.evaluate((el: HTMLElement) => el.click()).catch(() => confirmDlBtn.click({ force: true })),
-    ]);
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-    const expectedVersionInFilename = version.replace(/\./g, '_');
-    const expectedBaseFilename = `${appKey.replace(/\./g, '_')}_${expectedVersionInFilename}`;
-    const suggestedFilename = download.suggestedFilename();
-    expect(suggestedFilename).toContain(expectedBaseFilename);
-    expect(suggestedFilename).toContain('.zip');
+    await new DashboardPage(page).version(version).download(appKey);
 }
 
 export async function expectVersionVisibility(page: Page, version: string, isVisible: boolean): Promise<void> {
-    await expect(async () => {
-        const versionCell = page.locator('.version-card .v-version').filter({ hasText: version }).first();
-        if (isVisible) {
-            await expect(versionCell).toBeVisible({ timeout: 2000 });
-            await expect(versionCell).toContainText(version);
-        } else {
-            await expect(versionCell).toBeHidden({ timeout: 2000 });
-        }
-    }).toPass({ timeout: 30000, intervals: [1000] });
+    await new DashboardPage(page).version(version).expectVisible(isVisible);
 }
 
 export async function addVersion(page: Page, versionName: string): Promise<void> {
-    await expect(async () => {
-        const alert = page.locator('alert-component');
-        if (await alert.isVisible().catch(() => false)) {
-            await alert.getByRole('button', { name: '閉じる' }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
-        }
-
-        const addBtn = page.getByRole('button', { name: '+ 新規バージョン' })
-        await addBtn.click();
-
-        page.waitForTimeout(500);
-
-        const modal = page.locator('dashboard-modal-window#versionModal');
-        await expect(modal.locator('span[slot="header-title"]')).toBeVisible({ timeout: 2000 });
-    }).toPass({ timeout: 15000, intervals: [1000] });
-
-    const modal = page.locator('dashboard-modal-window#versionModal');
-    const versionInput = modal.locator('#input-version');
-    await expect(versionInput).toBeEditable();
-    await versionInput.fill(versionName);
-
-    await expect(async () => {
-        const alert = page.locator('alert-component');
-        if (await alert.isVisible().catch(() => false)) {
-            await alert.getByRole('button', { name: '閉じる' }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
-        }
-        await modal.locator('.submit-button').click({ force: true, timeout: 2000 });
-    }).toPass({ timeout: 15000, intervals: [1000] });
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
-    await expect(modal).toBeHidden();
+    await new DashboardPage(page).addVersion(versionName);
 }
 
 export async function setupAppWithVersions(page: Page, { appName, appKey, versions }: { appName: string, appKey: string, versions: string[] }): Promise<void> {
-    await createApp(page, appName, appKey);
-
-    const alert = page.locator('alert-component');
-    if (await alert.isVisible().catch(() => false)) {
-        await alert.getByRole('button', { name: '閉じる' }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
-        await expect(alert).toBeHidden();
-    }
-
-    const additionalVersions = versions.filter(v => v !== '1.0.0');
-    for (const version of additionalVersions) {
-        await addVersion(page, version);
-    }
-
-    for (const version of versions) {
-        await expectVersionVisibility(page, version, true);
-    }
+    await new DashboardPage(page).setupAppWithVersions({ appName, appKey, versions });
 }
 
 export async function editVersion(page: Page, oldVersion: string, newVersion: string): Promise<void> {
-    const versionRow = page.locator('.version-card', { hasText: oldVersion });
-    const editBtn = versionRow.getByTitle('名前変更');
-    await editBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
-
-    const modal = page.locator('dashboard-modal-window#versionModal');
-    await expect(modal.locator('span[slot="header-title"]')).toBeVisible();
-
-    await page.waitForTimeout(500);
-
-    const versionInput = modal.locator('#input-version');
-    await expect(versionInput).toBeEditable();
-    await versionInput.fill(newVersion);
-    await modal.locator('.submit-button').evaluate((el: HTMLElement) => el.click()).catch(() => modal.locator('.submit-button').click({ force: true }));
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
+    await new DashboardPage(page).version(oldVersion).rename(newVersion);
 }
 
 export async function duplicateVersion(page: Page, sourceVersion: string): Promise<void> {
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
-
-    await expect(async () => {
-        const alert = page.locator('alert-component');
-        if (await alert.isVisible().catch(() => false)) {
-            await alert.getByRole('button', { name: '閉じる' }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
-        }
-        const versionRow = page.locator('.version-card', { hasText: sourceVersion }).first();
-        const dupButton = versionRow.getByTitle('複製');
-
-        await dupButton.click();
-    }).toPass({ timeout: 15000, intervals: [1000] });
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
+    await new DashboardPage(page).version(sourceVersion).duplicate();
 }
 
 export async function deleteVersion(page: Page, versionToDelete: string): Promise<void> {
-    const versionRow = page.locator('.version-card', { hasText: versionToDelete });
-    const delBtn = versionRow.getByRole('button', { name: '' });
-
-    await delBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-
-    await page.waitForTimeout(500);
-
-    const confirmDialog = page.locator('message-box#delete-confirm-general');
-    await expect(confirmDialog).toBeVisible();
-
-    const confirmDelBtn = confirmDialog.getByRole('button', { name: '削除する' });
-    await confirmDelBtn.click();
-
-    await expect(page.getByText('処理中...')).toHaveCount(0, { timeout: 30000 });
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden();
+    await new DashboardPage(page).version(versionToDelete).delete();
 }
 
 export async function getCurrentPoints(page: Page): Promise<number> {
-    const pointTextLocator = page.locator('p.pp-point-text');
-    await expect(pointTextLocator).toBeVisible();
-    const textContent = await pointTextLocator.textContent();
-    if (textContent === null) throw new Error('ポイントのテキストコンテンツが取得できませんでした。');
-    const pointString = textContent.replace(/,/g, '').replace(/PP/i, '').trim();
-    const points = parseInt(pointString, 10);
-    if (isNaN(points)) throw new Error(`ポイントの数値変換に失敗しました。取得した文字列: "${textContent}"`);
-    return points;
+    return new DashboardPage(page).getCurrentPoints();
 }
 
 export async function navigateToSettings(page: Page): Promise<void> {
-    await expect(page.locator('dashboard-loading-overlay')).toBeHidden({ timeout: 10000 }).catch(() => { });
-    const alert = page.locator('alert-component');
-    if (await alert.isVisible().catch(() => false)) {
-        await alert.getByRole('button', { name: '閉じる' }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
-        await expect(alert).toBeHidden({ timeout: 2000 }).catch(() => { });
-    }
-
-    const menuBtn = page.locator('button.menu-button[title="メニュー"]');
-    await menuBtn.evaluate((el: HTMLElement) => el.click()).catch(() => menuBtn.click({ force: true }));
-
-    const menuList = page.locator('#appMenuList');
-    await expect(menuList).toBeVisible();
-
-    const settingItem = menuList.locator('.dashboard-menu-item', { hasText: '設定' });
-    await settingItem.evaluate((el: HTMLElement) => el.click()).catch(() => settingItem.click({ force: true }));
-
-    const settingsContent = page.locator('.setting-content');
-    await expect(settingsContent).toBeVisible();
-    await expect(settingsContent.getByText('AI機能を有効にする')).toBeVisible();
+    await new DashboardPage(page).settings.open();
 }
 
 export async function setAiCoding(page: Page, enable: boolean): Promise<void> {
-    await navigateToSettings(page);
-    await page.waitForTimeout(500);
-
-    const checkbox = page.locator('#aiCodingCheckbox');
-    const isCurrentlyEnabled = await checkbox.isChecked();
-
-    if (isCurrentlyEnabled === enable) {
-        await closeSettings(page);
-        return;
-    }
-
-    const label = page.locator('label.switch').filter({ has: page.locator('#aiCodingCheckbox') });
-    await label.evaluate((el: HTMLElement) => el.click()).catch(() => label.click({ force: true }));
-
-    if (enable) {
-        const parentModal = page.locator('#aiCodingConfirmModal');
-        try {
-            await expect(parentModal.locator('.modal')).toBeVisible({ timeout: 3000 });
-            const submitBtn = parentModal.locator('span[slot="submit-button-text"]');
-            await submitBtn.evaluate((el: HTMLElement) => el.click()).catch(() => submitBtn.click({ force: true }));
-            await expect(parentModal).toBeHidden({ timeout: 5000 });
-        } catch (e) { }
-    }
-
-    if (enable) {
-        await expect(checkbox).toBeChecked({ timeout: 5000 });
-    } else {
-        await expect(checkbox).not.toBeChecked({ timeout: 5000 });
-    }
-
-    await page.waitForTimeout(1000);
-    await closeSettings(page);
+    await new DashboardPage(page).settings.setAiCoding(enable);
 }
 
 export async function closeSettings(page: Page): Promise<void> {
-    const accountSetting = page.locator('dashboard-account-setting');
-    await expect(async () => {
-        const alert = page.locator('alert-component');
-        if (await alert.isVisible().catch(() => false)) {
-            await alert.getByRole('button', { name: '閉じる' }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
-            await page.waitForTimeout(300);
-        }
-        await accountSetting.click({ position: { x: 10, y: 10 }, force: true });
-        if (await page.locator('.setting-content').isVisible().catch(() => false)) {
-            await page.mouse.click(0, 0);
-        }
-        await expect(page.locator('.setting-content')).toBeHidden({ timeout: 2000 });
-    }).toPass({ timeout: 10000, intervals: [1000] });
+    await new DashboardPage(page).settings.close();
 }
 
 export async function setGeminiApiKey(page: Page, apiKey: string): Promise<void> {
-    await navigateToSettings(page);
-    const apiKeyForm = page.locator('.api-key-form');
-    if (!(await apiKeyForm.isVisible())) {
-        await closeSettings(page);
-        return;
-    }
-
-    await apiKeyForm.locator('input#gemini-api-key').fill(apiKey);
-    const saveBtn = apiKeyForm.locator('button.save-api-key-button');
-    await saveBtn.evaluate((el: HTMLElement) => el.click()).catch(() => saveBtn.click({ force: true }));
-
-    const successAlert = page.locator('.alert', { hasText: 'APIキーを登録しました。' });
-    await expect(successAlert).toBeVisible();
-    const closeBtn = successAlert.locator('button#closeButton');
-    await closeBtn.evaluate((el: HTMLElement) => el.click()).catch(() => closeBtn.click({ force: true }));
-    await expect(successAlert).toBeHidden();
-
-    const registeredDisplay = page.locator('.api-key-display');
-    await expect(registeredDisplay).toBeVisible();
-    await expect(registeredDisplay.getByText('APIキーは登録済みです。')).toBeVisible();
-
-    await closeSettings(page);
+    await new DashboardPage(page).settings.setGeminiApiKey(apiKey);
 }
 
 export async function deleteGeminiApiKey(page: Page): Promise<void> {
-    await navigateToSettings(page);
-    const registeredDisplay = page.locator('.api-key-display');
-    if (!(await registeredDisplay.isVisible())) {
-        await closeSettings(page);
-        return;
-    }
-
-    page.once('dialog', async dialog => {
-        expect(dialog.message()).toBe('登録されているAPIキーを本当に削除しますか？');
-        await dialog.accept();
-    });
-
-    const delBtn = registeredDisplay.locator('button.delete-api-key-button');
-    await delBtn.evaluate((el: HTMLElement) => el.click()).catch(() => delBtn.click({ force: true }));
-
-    const deleteAlert = page.locator('.alert', { hasText: 'APIキーを削除しました。' });
-    await expect(deleteAlert).toBeVisible();
-    const closeBtn = deleteAlert.locator('button#closeButton');
-    await closeBtn.evaluate((el: HTMLElement) => el.click()).catch(() => closeBtn.click({ force: true }));
-    await expect(deleteAlert).toBeHidden();
-
-    const apiKeyForm = page.locator('.api-key-form');
-    await expect(apiKeyForm.locator('input#gemini-api-key')).toBeVisible();
-
-    await closeSettings(page);
+    await new DashboardPage(page).settings.deleteGeminiApiKey();
 }
 
 export async function waitForVersionStatus(
     page: Page,
     version: string,
     expectedStatus: string,
-    options: { timeout?: number; intervals?: number[] } = {}
+    options: Pick<RetryOptions, 'timeout' | 'initialDelay' | 'maxDelay'> = {}
 ): Promise<void> {
-    const { timeout = 150000, intervals = [10000, 20000, 30000] } = options;
-
-    await expect(async () => {
-        const versionRow = page.locator('.version-card', { hasText: version });
-        const statusCell = versionRow.locator('.badge');
-        await expect(statusCell).toContainText(expectedStatus, { timeout: 5000 });
-    }).toPass({ timeout: timeout, intervals: intervals });
+    await new DashboardPage(page).version(version).waitForStatus(expectedStatus, options);
 }
 
 export async function gotoDashboard(page: Page): Promise<void> {
-    // console.log(`[gotoDashboard:Enter] Current URL: ${page.url()}`);
-
-    const workerIndex = process.env.TEST_WORKER_INDEX || '0';
-    const browserCode = detectBrowserCode(page);
-
-    // ★ 引数の順番を (workerIndex, browserCode) で呼び出します
-    const storageStatePath = await ensureAuthenticated(workerIndex, browserCode);
-
-    // Cookieの動的注入
-    try {
-        if (fs.existsSync(storageStatePath)) {
-            const state = JSON.parse(fs.readFileSync(storageStatePath, 'utf-8'));
-            if (state.cookies && state.cookies.length > 0) {
-                await page.context().addCookies(state.cookies);
-                // console.log(`[gotoDashboard] Cookies successfully injected for Worker ${workerIndex} (${browserCode})`);
-            }
-        }
-    } catch (e) {
-        console.error(`[gotoDashboard:Error] Failed to inject cookies:`, e);
-    }
-
-    // ページ単位で発生した5xxエラーを記録
-    if (!(page as any).__hasErrorLogger) {
-        page.on('response', response => {
-            if (response.status() >= 500) {
-                console.log(`[Global:NetworkError] ${response.status()} ${response.statusText()} - ${response.request().method()} ${response.url()}`);
-            }
-        });
-        (page as any).__hasErrorLogger = true;
-    }
-
-    const dashboardInitPromise = page.waitForResponse(response =>
-        response.url().includes('dashboard-init') && response.status() === 200,
-        { timeout: 15000 }
-    ).catch(() => { });
-
-    // console.log(`[gotoDashboard:Navigating] to ${String(process.env.PWAPPY_TEST_BASE_URL)}`);
-
-    // 3. Cookieが注入された状態でダッシュボードページへ遷移
-    await page.goto(String(process.env.PWAPPY_TEST_BASE_URL), { waitUntil: 'domcontentloaded' });
-    // console.log(`[gotoDashboard:Navigated] Current URL: ${page.url()}`);
-
-    // デフォルトでツアーを表示させないようにする
-    await page.evaluate(() => {
-        localStorage.setItem('pwappy_tour_completed', 'true');
-    });
-
-    // 1. まず通信の完了を待つ
-    await dashboardInitPromise;
-
-    // 2. ローディングオーバーレイが表示された場合、それが消えるのを待つ
-    const loadingOverlay = page.locator('dashboard-loading-overlay');
-    await expect(loadingOverlay).toBeHidden({ timeout: 30000 }).catch(() => { });
-
-    // 3. Litのレンダリング安定化のための微小待機
-    await page.waitForTimeout(500);
+    await new DashboardPage(page).goto();
 }
 
 export async function reloadDashboard(page: Page): Promise<void> {
-    const dashboardInitPromise = page.waitForResponse(response =>
-        response.url().includes('dashboard-init') && response.status() === 200,
-        { timeout: 10000 }
-    ).catch(() => { });
-
-    await page.reload({ waitUntil: 'domcontentloaded' });
-    await dashboardInitPromise;
-}
\ No newline at end of file
+    await new DashboardPage(page).reload();
+}
@@ -0,0 +1,1075 @@
+import { expect, type Page, type BrowserContext, type Locator } from '@playwright/test';
+import { EditorHelper } from './editor-helpers';
+import { getInputStrategy } from './input-strategy';
+import { ensureAuthenticated, isSessionExpiredResponse } from './auth';
+import { isHarReplaying, resolveBaseUrl } from './har-replay';
+import { getNetworkMonitor } from './network-monitor';
+import { getConsoleCollector } from './console-collector';
+import { retryUntil, type RetryOptions } from './retry';
+import { waitForApiIdle, waitForLitUpdates, waitForSettled } from './settled';
+import { BusyStateError, trackRequests, waitForIdle } from './busy-state';
+import { getDialogManager } from './dialog-manager';
+import { type LedgerResourceKind, getCurrentApp, recordResource, releaseResource, setCurrentApp } from './resource-ledger';
+import { uiText } from './ui-strings';
+import fs from 'fs';
+import { config } from '../config';
+import { SELECTORS } from './selectors';
+
+/**
+ * pageオブジェクトからブラウザの1文字コードを推測します
+ */
+export function detectBrowserCode(page: Page): string {
+    if (config.accountBrowserCode) {
+        return config.accountBrowserCode;
+    }
+
+    const ua = page.context().browser()?.browserType().name() || '';
+    const viewport = page.viewportSize();
+    const isMobile = viewport ? viewport.width < 768 : false;
+
+    if (isMobile) {
+        return ua.includes('webkit') ? 'i' : 'a'; // iOS: i, Android: a
+    }
+    if (ua.includes('firefox')) return 'f';
+    if (ua.includes('webkit')) return 's'; // Safari: s
+    return 'c'; // Chromium: c (デフォルト)
+}
+
+/** 5xxエラーのログ出力を登録済みのページ */
+const errorLoggedPages = new WeakSet<Page>();
+
+/** ダッシュボードを開く際のログインの試行回数（2回目以降はセッションを強制的に取り直します） */
+const MAX_LOGIN_ATTEMPTS = 2;
+
+/**
+ * ダッシュボード画面のページオブジェクト。
+ * アプリ・バージョンの操作は `app()` / `version()` から取得するカードオブジェクト経由で行います。
+ *
+ * @example
+ * const dashboard = new DashboardPage(page);
+ * await dashboard.goto();
+ * const app = await dashboard.createApp(appName, appKey);
+ * await app.version('1.0.0').publish();
+ * await expect(app.version('1.0.0').status).toContainText('公開中');
+ * await dashboard.settings.setAiCoding(true);
+ */
+export class DashboardPage {
+    /** アーカイブ画面 */
+    readonly archive: ArchiveSection;
+    /** アカウント設定画面 */
+    readonly settings: SettingsSection;
+
+    constructor(readonly page: Page) {
+        this.archive = new ArchiveSection(this);
+        this.settings = new SettingsSection(this);
+    }
+
+    /** 画面全体を覆うローディングオーバーレイ */
+    get loadingOverlay(): Locator {
+        return this.page.locator(SELECTORS.dashboard.loadingOverlay);
+    }
+
+    /**
+     * 「処理中...」の表示が消えるまで待機します。
+     */
+    async waitForProcessing(timeout: number = 30000): Promise<void> {
+        await expect(this.page.getByText(uiText('dashboard.busy'))).toHaveCount(0, { timeout });
+    }
+
+    /**
+     * 「処理中...」の表示・ローディングオーバーレイ・API 通信がすべて解消されるまで待機します。
+     * @param timeout タイムアウト（デフォルト: 30000ミリ秒）
+     */
+    async waitForIdle(timeout?: number): Promise<void> {
+        await waitForIdle(this.page, 'dashboard', { timeout });
+    }
+
+    /**
+     * 表示中のアラート（alert-component）があれば閉じます。表示されていなければ何もしません。
+     * @returns 閉じたアラートのメッセージ（表示されていなかった場合は null）
+     */
+    async dismissAlert(): Promise<string | null> {
+        return await getDialogManager(this.page).closeAlert();
+    }
+
+    /**
+     * ワーカー固有のセッションを注入した上でダッシュボードを開きます。
+     * セッション切れ（dashboard-init の 401 やログイン画面へのリダイレクト）を検知した場合は、再ログインして1回だけやり直します。
+     */
+    async goto(): Promise<void> {
+        const page = this.page;
+        // console.log(`[gotoDashboard:Enter] Current URL: ${page.url()}`);
+
+        const workerIndex = config.accountWorkerIndex;
+        const browserCode = detectBrowserCode(page);
+        getConsoleCollector(page.context())?.label(page, 'dashboard');
+        trackRequests(page.context());
+        getDialogManager(page);
+
+        // ページ単位で発生した5xxエラーを記録（ネットワークモニターがコンテキスト全体を監視している場合は不要です）
+        if (!errorLoggedPages.has(page) && !getNetworkMonitor(page.context())) {
+            page.on('response', response => {
+                if (response.status() >= 500) {
+                    console.log(`[Global:NetworkError] ${response.status()} ${response.statusText()} - ${response.request().method()} ${response.url()}`);
+                }
+            });
+            errorLoggedPages.add(page);
+        }
+
+        for (let attempt = 0; attempt < MAX_LOGIN_ATTEMPTS; attempt++) {
+            // HARの再生中はバックエンドに接続しないため、ログインせずに記録時のURLを開きます
+            if (!isHarReplaying()) {
+                // ★ 引数の順番を (workerIndex, browserCode) で呼び出します
+                const storageStatePath = await ensureAuthenticated(workerIndex, browserCode, { force: attempt > 0 });
+                await this.injectCookies(storageStatePath);
+            }
+
+            const dashboardInitPromise = page.waitForResponse(response =>
+                response.url().includes('dashboard-init'),
+                { timeout: 15000 }
+            ).catch(() => null);
+
+            // console.log(`[gotoDashboard:Navigating] to ${resolveBaseUrl()}`);
+
+            // 3. Cookieが注入された状態でダッシュボードページへ遷移
+            await page.goto(resolveBaseUrl(), { waitUntil: 'domcontentloaded' });
+            // console.log(`[gotoDashboard:Navigated] Current URL: ${page.url()}`);
+
+            // 1. まず通信の完了を待つ
+            const dashboardInit = await dashboardInitPromise;
+
+            const redirectedToLogin = /login|signin/i.test(new URL(page.url()).pathname);
+            if (!isHarReplaying() && (redirectedToLogin || (dashboardInit && isSessionExpiredResponse(dashboardInit.status())))) {
+                if (attempt === MAX_LOGIN_ATTEMPTS - 1) {
+                    const reason = redirectedToLogin ? `redirected to ${page.url()}` : `dashboard-init returned ${dashboardInit!.status()}`;
+                    throw new Error(`[gotoDashboard] Session is still expired after re-authenticating ${MAX_LOGIN_ATTEMPTS - 1} time(s) for Worker ${workerIndex} (${browserCode}): ${reason}. Check PWAPPY_TEST_LOGIN_ENDPOINT / PWAPPY_TEST_AUTH_STRATEGY.`);
+                }
+                console.warn(`[gotoDashboard] Session expired for Worker ${workerIndex} (${browserCode}). Re-authenticating...`);
+                continue;
+            }
+            break;
+        }
+
+        // デフォルトでツアーを表示させないようにする
+        await page.evaluate(() => {
+            localStorage.setItem('pwappy_tour_completed', 'true');
+        });
+
+        // 2. ローディングオーバーレイと API 通信が解消されるのを待つ
+        // 遷移前から続いている通信などで画面を開けなくならないよう、解消されない場合は警告して続行します
+        try {
+            await this.waitForIdle();
+        } catch (e) {
+            if (!(e instanceof BusyStateError)) throw e;
+            console.warn(`[gotoDashboard] 処理中の状態が解消されないまま続行します。\n${e.message}`);
+        }
+
+        // 3. Litのレンダリングが安定するのを待つ（API 通信は 2. で待機済みです）
+        await waitForSettled(page, { api: false });
+    }
+
+    /**
+     * storageState ファイルのCookieをページのコンテキストに注入します。
+     */
+    private async injectCookies(storageStatePath: string): Promise<void> {
+        try {
+            if (fs.existsSync(storageStatePath)) {
+                const state = JSON.parse(fs.readFileSync(storageStatePath, 'utf-8'));
+                if (state.cookies && state.cookies.length > 0) {
+                    await this.page.context().addCookies(state.cookies);
+                    // console.log(`[gotoDashboard] Cookies successfully injected`);
+                }
+            }
+        } catch (e) {
+            console.error(`[gotoDashboard:Error] Failed to inject cookies:`, e);
+        }
+    }
+
+    /**
+     * ダッシュボードを再読み込みし、初期化APIの完了を待ちます。
+     */
+    async reload(): Promise<void> {
+        const dashboardInitPromise = this.page.waitForResponse(response =>
+            response.url().includes('dashboard-init') && response.status() === 200,
+            { timeout: 10000 }
+        ).catch(() => { });
+
+        await this.page.reload({ waitUntil: 'domcontentloaded' });
+        await dashboardInitPromise;
+    }
+
+    /**
+     * ワークベンチ上のアプリカードを取得します。
+     */
+    app(appKey: string): AppCard {
+        return new AppCard(this, appKey);
+    }
+
+    /**
+     * 現在開いているアプリ詳細画面のバージョンカードを取得します。
+     * アプリを特定して操作したい場合は `app(appKey).version(version)` を使用してください。
+     * @param appKey 台帳に記録する対象のアプリ。省略した場合、公開・バージョンの追加などは台帳に記録しません
+     */
+    version(version: string, appKey?: string): VersionCard {
+        return new VersionCard(this, version, undefined, appKey);
+    }
+
+    /**
+     * 新しいアプリケーションを作成し、作成されたアプリのカードを返します。
+     * 作成後はアプリ詳細画面が開いた状態になります。
+     */
+    async createApp(appName: string, appKey: string): Promise<AppCard> {
+        const page = this.page;
+        // console.log(`[createApp:Enter] Current URL: ${page.url()}, appName: ${appName}, appKey: ${appKey}`);
+
+        // about:blank の場合に警告を出す
+        if (page.url() === 'about:blank') {
+            console.log(`[createApp:WARNING] The page URL is 'about:blank'. This means the dashboard is not loaded, and elements will likely not be found.`);
+        }
+
+        const appModal = page.locator(SELECTORS.dashboard.appModal);
+        await retryUntil('DashboardPage.createApp(open)', async () => {
+            if (await appModal.locator('span[slot="header-title"]').isVisible().catch(() => false)) return;
+            const addBtn = page.getByRole('button', { name: uiText('dashboard.newApp') });
+
+            // クリック失敗時に画面のテキストをダンプし、503画面かどうかを確認する
+            try {
+                await addBtn.click({ force: true, timeout: 2000 });
+            } catch (e: any) {
+                console.log(`[createApp:FATAL] '+ 新規作成' button click failed.`);
+                console.log(`[createApp:FATAL] Current URL: ${page.url()}`);
+                console.log(`[createApp:FATAL] Context Pages Count: ${page.context().pages().length}`);
+                const pagesInfo = page.context().pages().map((p, i) => `Page ${i}: ${p.url()}`).join(', ');
+                console.log(`[createApp:FATAL] Pages Info: ${pagesInfo}`);
+                const bodyText = await page.evaluate(() => document.body.innerText.substring(0, 300)).catch(() => '');
+                console.log(`[createApp:FATAL] Body Text (first 300 chars):\n${bodyText}`);
+                console.log(`[createApp:FATAL] Stack trace:\n${e.stack}`);
+                throw e;
+            }
+
+            await expect(appModal.locator('span[slot="header-title"]')).toBeVisible({ timeout: 3000 });
+        }, { timeout: 20000 });
+
+        await waitForLitUpdates(page, { tags: ['dashboard-modal-window'] });
+
+        const appNameInput = page.locator(SELECTORS.transient.appNameInput);
+        await expect(appNameInput).toBeEditable();
+        await appNameInput.fill(appName);
+
+        const appKeyInput = page.locator(SELECTORS.transient.appKeyInput);
+        await expect(appKeyInput).toBeEditable();
+        await appKeyInput.fill(appKey);
+
+        await retryUntil('DashboardPage.createApp(submit)', async () => {
+            await this.dismissAlert();
+            await appModal.locator('.submit-button').click({ force: true, timeout: 2000 });
+        });
+
+        // 送信後にテストが落ちてもアプリが残る可能性があるため、この時点で台帳に記録します
+        setCurrentApp(page, appKey);
+        recordResource({ kind: 'app', appKey, appName, browserCode: detectBrowserCode(page) });
+
+        await this.waitForProcessing();
+        await expect(appModal).toBeHidden();
+
+        await waitForSettled(page);
+
+        await expect(page.locator(SELECTORS.appDetail.root)).toBeVisible({ timeout: 15000 });
+        return this.app(appKey);
+    }
+
+    /**
+     * アプリを作成し、指定したバージョンをすべて追加します（'1.0.0' は作成時に自動で追加されます）。
+     */
+    async setupAppWithVersions({ appName, appKey, versions }: { appName: string, appKey: string, versions: string[] }): Promise<AppCard> {
+        const app = await this.createApp(appName, appKey);
+        await this.dismissAlert();
+
+        const additionalVersions = versions.filter(v => v !== '1.0.0');
+        for (const version of additionalVersions) {
+            await this.addVersion(version, appKey);
+        }
+
+        for (const version of versions) {
+            await this.version(version).expectVisible(true);
+        }
+        return app;
+    }
+
+    /**
+     * 現在開いているアプリ詳細画面で新しいバージョンを追加します。
+     * @param appKey 台帳に記録する対象のアプリ。省略した場合は台帳に記録しません
+     */
+    async addVersion(versionName: string, appKey?: string): Promise<VersionCard> {
+        const page = this.page;
+
+        const modal = page.locator(SELECTORS.appDetail.versionModal);
+        await retryUntil('DashboardPage.addVersion(open)', async () => {
+            await expect(modal.locator('span[slot="header-title"]')).toBeVisible({ timeout: 2000 });
+        }, {
+            strategies: [{
+                name: 'click',
+                run: async () => {
+                    await this.dismissAlert();
+                    await page.getByRole('button', { name: uiText('version.new') }).click();
+                },
+            }],
+        });
+
+        const versionInput = modal.locator('#input-version');
+        await expect(versionInput).toBeEditable();
+        await versionInput.fill(versionName);
+
+        await retryUntil('DashboardPage.addVersion(submit)', async () => {
+            await this.dismissAlert();
+            await modal.locator('.submit-button').click({ force: true, timeout: 2000 });
+        });
+        this.trackAppResource(appKey, 'created', 'version', versionName);
+
+        await this.waitForIdle();
+        await expect(modal).toBeHidden();
+        return this.version(versionName, appKey);
+    }
+
+    /**
+     * ヘッダーに表示されている保有ポイントを数値で返します。
+     */
+    async getCurrentPoints(): Promise<number> {
+        const pointTextLocator = this.page.locator(SELECTORS.dashboard.pointText);
+        await expect(pointTextLocator).toBeVisible();
+        const textContent = await pointTextLocator.textContent();
+        if (textContent === null) throw new Error('ポイントのテキストコンテンツが取得できませんでした。');
+        const pointString = textContent.replace(/,/g, '').replace(/PP/i, '').trim();
+        const points = parseInt(pointString, 10);
+        if (isNaN(points)) throw new Error(`ポイントの数値変換に失敗しました。取得した文字列: "${textContent}"`);
+        return points;
+    }
+
+    /**
+     * アプリ配下のリソース（バージョン・公開状態）を台帳に記録/解放します。
+     * 別のアプリに誤って記録しないよう、画面の状態からは推測せず、呼び出し側で特定したアプリのみを記録します。
+     * アプリが特定できない場合は記録しません（アプリ単位のクリーンアップで回収されるため）。
+     */
+    trackAppResource(appKey: string | undefined, event: 'created' | 'released', kind: LedgerResourceKind, version: string): void {
+        if (!appKey) return;
+
+        const target = { kind, appKey, version, browserCode: detectBrowserCode(this.page) };
+        if (event === 'created') {
+            recordResource(target);
+        } else {
+            releaseResource(target);
+        }
+    }
+}
+
+/**
+ * ワークベンチ上のアプリカード。
+ */
+export class AppCard {
+    constructor(readonly dashboard: DashboardPage, readonly appKey: string) { }
+
+    /** アプリカードの要素 */
+    get locator(): Locator {
+        const page = this.dashboard.page;
+        return page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: this.appKey }) }).first();
+    }
+
+    /**
+     * アプリがリストに表示されているか/いないかを確認します。
+     */
+    async expectVisible(isVisible: boolean): Promise<void> {
+        const page = this.dashboard.page;
+        await retryUntil('AppCard.expectVisible', async () => {
+            const appKeyCell = page.locator(`${SELECTORS.dashboard.appCard} ${SELECTORS.dashboard.appKey}`, { hasText: this.appKey }).first();
+            if (isVisible) {
+                await expect(appKeyCell).toBeVisible({ timeout: 2000 });
+            } else {
+                await expect(appKeyCell).toBeHidden({ timeout: 2000 });
+            }
+        }, { timeout: 30000 });
+    }
+
+    /**
+     * アプリカードをクリックして詳細画面（バージョン管理）を開きます。
+     */
+    async open(): Promise<void> {
+        await this.locator.click({ force: true });
+        await expect(this.dashboard.page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
+        setCurrentApp(this.dashboard.page, this.appKey);
+    }
+
+    /**
+     * このアプリの詳細画面が開いていなければ開きます。
+     */
+    async ensureOpen(): Promise<void> {
+        const page = this.dashboard.page;
+        if (getCurrentApp(page) === this.appKey && await page.locator(SELECTORS.appDetail.activeTab).isVisible().catch(() => false)) {
+            return;
+        }
+        if (await this.locator.count() === 0) {
+            await this.dashboard.goto();
+        }
+        await this.open();
+    }
+
+    /**
+     * このアプリのバージョンカードを取得します。操作時に必要であればアプリ詳細画面を開きます。
+     */
+    version(version: string): VersionCard {
+        return new VersionCard(this.dashboard, version, this);
+    }
+
+    /**
+     * このアプリに新しいバージョンを追加します。
+     */
+    async addVersion(versionName: string): Promise<VersionCard> {
+        await this.ensureOpen();
+        await this.dashboard.addVersion(versionName, this.appKey);
+        return this.version(versionName);
+    }
+
+    /**
+     * アプリ設定からアプリケーションを削除します。アプリが存在しない場合は何もしません。
+     * クリーンアップスクリプトと同じ「アプリ設定」からの削除フローを使用します。
+     */
+    async delete(): Promise<void> {
+        const page = this.dashboard.page;
+        // console.log(`[deleteApp:Enter] Current URL: ${page.url()}, appKey: ${this.appKey}`);
+        await page.bringToFront();
+
+        // 1. 確実にダッシュボード（ワークベンチ）を表示
+        await this.dashboard.goto();
+
+        // 2. アプリカードを特定
+        const appRow = this.locator;
+
+        // アプリが存在しない場合は何もしない
+        if (await appRow.count() === 0) {
+            console.log(`[DEBUG] deleteApp: アプリ (${this.appKey}) が見つからないため終了します。`);
+            return;
+        }
+
+        // 3. アプリカードをクリックして詳細画面（バージョン管理）を開く
+        // 4. 詳細画面が表示されるのを待機（アクティブなタブが表示されるまで）
+        await this.open();
+
+        await waitForSettled(page);
+
+        // 5. 「アプリ設定」タブをクリック
+        await page.getByText(uiText('dashboard.appSettings')).click();
+
+        await waitForLitUpdates(page);
+
+        // 6. 「削除する」ボタンが有効になるのを待ってクリック
+        const deleteButton = page.getByRole('button', { name: uiText('common.confirmDelete') });
+        await expect(deleteButton).toBeEnabled({ timeout: 10000 });
+        await deleteButton.click({ force: true });
+
+        await waitForLitUpdates(page);
+
+        // 7. 確認ダイアログ（設定画面からの削除用ID: #delete-confirm-general）を処理
+        const confirmDialog = page.locator(SELECTORS.appDetail.deleteConfirm);
+        await expect(confirmDialog).toBeVisible({ timeout: 5000 });
+        await confirmDialog.locator('.confirm-ok-button').click({ force: true });
+
+        // 8. 削除処理（「処理中...」の表示とオーバーレイ）が消えるのを待機
+        await this.dashboard.waitForIdle(10000);
+
+        releaseResource({ kind: 'app', appKey: this.appKey, browserCode: detectBrowserCode(page) });
+    }
+
+    /**
+     * アプリ設定からアプリケーションをアーカイブします。
+     */
+    async archive(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.ensureOpen();
+
+        await retryUntil('AppCard.archive', async () => {
+            await this.dashboard.dismissAlert();
+
+            await page.getByText(uiText('dashboard.appSettings')).click();
+            await waitForLitUpdates(page);
+
+            await page.getByRole('button', { name: uiText('dashboard.archiveApp') }).click();
+            const confirmDialog = page.locator(SELECTORS.appDetail.archiveConfirm);
+            await waitForLitUpdates(page);
+            await expect(confirmDialog).toBeVisible({ timeout: 5000 });
+
+            await page.getByRole('button', { name: uiText('dashboard.archive'), exact: true }).click();
+            await waitForSettled(page);
+
+            const closeBtn = page.getByRole('button', { name: uiText('common.close') });
+            if (await closeBtn.isVisible().catch(() => false)) {
+                await closeBtn.click();
+            }
+
+            await expect(confirmDialog).toBeHidden({ timeout: 5000 });
+        }, { timeout: 20000 });
+
+        await expect(this.dashboard.loadingOverlay).toBeHidden({ timeout: 150000 });
+    }
+}
+
+/**
+ * アプリ詳細画面（バージョン管理）のバージョンカード。
+ */
+export class VersionCard {
+    /** 台帳に記録する対象のアプリのキー（不明な場合は undefined） */
+    readonly appKey: string | undefined;
+
+    constructor(readonly dashboard: DashboardPage, readonly version: string, readonly app?: AppCard, appKey?: string) {
+        this.appKey = app?.appKey ?? appKey;
+    }
+
+    /** バージョンカードの要素 */
+    get locator(): Locator {
+        return this.dashboard.page.locator(SELECTORS.appDetail.versionCard, { hasText: this.version });
+    }
+
+    /** ステータスバッジ（'公開中' / '準備完了' など） */
+    get status(): Locator {
+        return this.locator.locator('.badge');
+    }
+
+    private async ensureAppOpen(): Promise<void> {
+        await this.app?.ensureOpen();
+    }
+
+    /**
+     * バージョンがリストに表示されているか/いないかを確認します。
+     */
+    async expectVisible(isVisible: boolean): Promise<void> {
+        await this.ensureAppOpen();
+        await retryUntil('VersionCard.expectVisible', async () => {
+            const versionCell = this.dashboard.page.locator(`${SELECTORS.appDetail.versionCard} ${SELECTORS.appDetail.versionName}`).filter({ hasText: this.version }).first();
+            if (isVisible) {
+                await expect(versionCell).toBeVisible({ timeout: 2000 });
+                await expect(versionCell).toContainText(this.version);
+            } else {
+                await expect(versionCell).toBeHidden({ timeout: 2000 });
+            }
+        }, { timeout: 30000 });
+    }
+
+    /**
+     * ステータスバッジに指定したテキストが含まれることを確認します。
+     */
+    async expectStatus(statusText: string): Promise<void> {
+        await this.ensureAppOpen();
+        await expect(this.status).toContainText(statusText);
+    }
+
+    /**
+     * ステータスバッジが指定したテキストになるまで待機します（審査・公開処理の完了待ちなど）。
+     * 確認の間隔は initialDelay から倍々に延ばし、maxDelay で頭打ちにします（retryUntil を参照）。
+     */
+    async waitForStatus(expectedStatus: string, options: Pick<RetryOptions, 'timeout' | 'initialDelay' | 'maxDelay'> = {}): Promise<void> {
+        const { timeout = 150000, initialDelay = 10000, maxDelay = 30000 } = options;
+        await this.ensureAppOpen();
+
+        await retryUntil('VersionCard.waitForStatus', async () => {
+            await expect(this.status).toContainText(expectedStatus, { timeout: 5000 });
+        }, { timeout, initialDelay, maxDelay });
+    }
+
+    /**
+     * 審査への提出から公開までを一括で行います。
+     */
+    async publish(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.ensureAppOpen();
+
+        const prepBtn = this.locator.getByRole('button', { name: uiText('version.submitForReview') });
+        await prepBtn.evaluate((el: HTMLElement) => el.click()).catch(() => prepBtn.click({ force: true }));
+
+        await this.dashboard.waitForProcessing();
+        let confirmDialog = page.locator(SELECTORS.appDetail.publishConfirm);
+        await expect(confirmDialog).toBeVisible();
+
+        const applyBtn = confirmDialog.getByRole('button', { name: uiText('version.apply') });
+        await applyBtn.evaluate((el: HTMLElement) => el.click()).catch(() => applyBtn.click({ force: true }));
+        await this.dashboard.waitForProcessing();
+
+        await this.waitForStatus(uiText('version.status.ready'), { timeout: 150000, initialDelay: 10000, maxDelay: 20000 });
+        await this.waitForStatus(uiText('version.status.ready'));
+
+        const pubBtn = this.locator.getByRole('button', { name: uiText('version.publish') });
+        await pubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => pubBtn.click({ force: true }));
+
+        await this.dashboard.waitForProcessing();
+        confirmDialog = page.locator(SELECTORS.appDetail.publishConfirm);
+        await expect(confirmDialog).toBeVisible();
+
+        const finalPubBtn = confirmDialog.getByRole('button', { name: uiText('version.publish') });
+        await finalPubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => finalPubBtn.click({ force: true }));
+        this.dashboard.trackAppResource(this.appKey, 'created', 'publish', this.version);
+        await this.dashboard.waitForProcessing();
+    }
+
+    /**
+     * 公開中のバージョンを非公開にします。
+     */
+    async unpublish(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.ensureAppOpen();
+
+        const unpubBtn = this.locator.getByRole('button', { name: uiText('version.unpublish') });
+        await unpubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => unpubBtn.click({ force: true }));
+
+        await this.dashboard.waitForProcessing();
+        const confirmDialog = page.locator(SELECTORS.appDetail.publishConfirm);
+        await expect(confirmDialog).toBeVisible();
+
+        const finalUnpubBtn = confirmDialog.getByRole('button', { name: uiText('version.confirmUnpublish') });
+        await finalUnpubBtn.evaluate((el: HTMLElement) => el.click()).catch(() => finalUnpubBtn.click({ force: true }));
+        await this.dashboard.waitForProcessing();
+        this.dashboard.trackAppResource(this.appKey, 'released', 'publish', this.version);
+    }
+
+    /**
+     * 審査申請のみを行います（公開は completePublication() で行います）。
+     */
+    async startPublishPreparation(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.ensureAppOpen();
+
+        const prepBtn = this.locator.getByRole('button', { name: uiText('version.requestReview') });
+        await prepBtn.click();
+
+        await this.dashboard.waitForProcessing();
+
+        const confirmDialog = page.locator(SELECTORS.appDetail.publishConfirm);
+        await expect(confirmDialog).toBeVisible();
+
+        const applyBtn = confirmDialog.getByRole('button', { name: uiText('version.apply') });
+        await applyBtn.click();
+
+        await this.dashboard.waitForIdle(150000);
+    }
+
+    /**
+     * 審査が「準備完了」になるのを待ってから公開します。
+     */
+    async completePublication(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.waitForStatus(uiText('version.status.ready'), { timeout: 150000, initialDelay: 10000, maxDelay: 20000 });
+        await this.waitForStatus(uiText('version.status.ready'));
+
+        const pubBtn = this.locator.getByRole('button', { name: uiText('version.publish') });
+        await pubBtn.click();
+
+        await this.dashboard.waitForProcessing();
+
+        const publishConfirmDialog = page.locator(SELECTORS.appDetail.publishConfirm);
+        await expect(publishConfirmDialog).toBeVisible();
+
+        const confirmBtn = publishConfirmDialog.getByRole('button', { name: uiText('version.publish') });
+        await confirmBtn.click();
+        this.dashboard.trackAppResource(this.appKey, 'created', 'publish', this.version);
+
+        await this.dashboard.waitForIdle(150000);
+    }
+
+    /**
+     * バージョンをZIPでダウンロードし、ファイル名を検証します。
+     * @param appKey ファイル名の検証に使用します。省略時はカードのアプリキーを使用します
+     */
+    async download(appKey: string | undefined = this.appKey ?? getCurrentApp(this.dashboard.page)): Promise<void> {
+        const page = this.dashboard.page;
+        if (!appKey) throw new Error('[DashboardPage] ダウンロードファイル名の検証に必要なアプリキーが不明です。');
+        await this.ensureAppOpen();
+
+        const dlBtn = this.locator.getByTitle('DL (10PP)');
+        await dlBtn.click();
+
+        await this.dashboard.waitForProcessing();
+
+        const confirmDialog = page.locator(SELECTORS.appDetail.downloadConfirm);
+        await expect(confirmDialog).toBeVisible();
+
+        const confirmDlBtn = confirmDialog.getByRole('button', { name: uiText('common.download') });
+        const [download] = await Promise.all([
+            page.waitForEvent('download'),
+            confirmDlBtn.evaluate((el: HTMLElement) => el.click()).catch(() => confirmDlBtn.click({ force: true })),
+        ]);
+
+        await this.dashboard.waitForProcessing();
+
+        const expectedVersionInFilename = this.version.replace(/\./g, '_');
+        const expectedBaseFilename = `${appKey.replace(/\./g, '_')}_${expectedVersionInFilename}`;
+        const suggestedFilename = download.suggestedFilename();
+        expect(suggestedFilename).toContain(expectedBaseFilename);
+        expect(suggestedFilename).toContain('.zip');
+    }
+
+    /**
+     * バージョン名を変更します。
+     */
+    async rename(newVersion: string): Promise<VersionCard> {
+        const page = this.dashboard.page;
+        await this.ensureAppOpen();
+
+        const editBtn = this.locator.getByTitle(uiText('version.rename'));
+        await editBtn.click();
+
+        await this.dashboard.waitForIdle();
+
+        const modal = page.locator(SELECTORS.appDetail.versionModal);
+        await expect(modal.locator('span[slot="header-title"]')).toBeVisible();
+
+        await waitForLitUpdates(page, { tags: ['dashboard-modal-window'] });
+
+        const versionInput = modal.locator('#input-version');
+        await expect(versionInput).toBeEditable();
+        await versionInput.fill(newVersion);
+        await modal.locator('.submit-button').evaluate((el: HTMLElement) => el.click()).catch(() => modal.locator('.submit-button').click({ force: true }));
+
+        await this.dashboard.waitForIdle();
+        return new VersionCard(this.dashboard, newVersion, this.app, this.appKey);
+    }
+
+    /**
+     * バージョンを複製します。複製先のバージョン名はサーバー側で採番されます。
+     */
+    async duplicate(): Promise<void> {
+        await this.ensureAppOpen();
+        await this.dashboard.waitForIdle();
+
+        const versionNames = this.dashboard.page.locator(`${SELECTORS.appDetail.versionCard} ${SELECTORS.appDetail.versionName}`);
+        const before = new Set((await versionNames.allInnerTexts()).map(name => name.trim()));
+
+        await retryUntil('VersionCard.duplicate', async () => {
+            await this.dashboard.dismissAlert();
+            const dupButton = this.locator.first().getByTitle(uiText('version.duplicate'));
+
+            await dupButton.click();
+        });
+
+        await this.dashboard.waitForIdle();
+
+        // 複製先のバージョン名はサーバー側で採番されるため、複製前後のバージョン一覧の差分から特定して記録します
+        const added = (await versionNames.allInnerTexts()).map(name => name.trim()).filter(name => name && !before.has(name));
+        if (added.length === 1) {
+            this.dashboard.trackAppResource(this.appKey, 'created', 'version', added[0]);
+        } else {
+            console.warn(`[Ledger] 複製先のバージョンを特定できなかったため台帳に記録しません（複製元: ${this.version}、追加: ${added.join(', ') || 'なし'}）`);
+        }
+    }
+
+    /**
+     * バージョンを削除します。
+     */
+    async delete(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.ensureAppOpen();
+
+        const delBtn = this.locator.getByRole('button', { name: '' });
+
+        await delBtn.click();
+
+        await this.dashboard.waitForProcessing();
+
+        await waitForLitUpdates(page);
+
+        const confirmDialog = page.locator(SELECTORS.appDetail.deleteConfirm);
+        await expect(confirmDialog).toBeVisible();
+
+        const confirmDelBtn = confirmDialog.getByRole('button', { name: uiText('common.confirmDelete') });
+        await confirmDelBtn.click();
+
+        await this.dashboard.waitForIdle();
+        this.dashboard.trackAppResource(this.appKey, 'released', 'version', this.version);
+    }
+
+    /**
+     * このバージョンをエディタで新規タブに開きます。
+     * @param options.skipStarterModal デフォルトは true。false にするとスターターモーダルをスキップせず残します。
+     */
+    async openEditor(context: BrowserContext, options: { skipStarterModal?: boolean } = { skipStarterModal: true }): Promise<Page> {
+        const page = this.dashboard.page;
+        await this.ensureAppOpen();
+
+        const versionRow = this.locator.first();
+        await expect(versionRow).toBeVisible({ timeout: 10000 });
+
+        const editorBtn = versionRow.getByRole('button', { name: uiText('version.openEditor') });
+        await expect(editorBtn).toBeVisible({ timeout: 5000 });
+
+        // アプリ作成直後など、背後でローディング中であれば消えるのを待つ
+        await expect(this.dashboard.loadingOverlay).toBeHidden({ timeout: 15000 }).catch(() => { });
+
+        // 新しいタブを開く操作はブラウザごとに異なるため、入力操作の切り替えに任せます
+        const editorPage = await getInputStrategy(page).openPopup(async () => {
+            await editorBtn.click({ force: true }).catch(async () => {
+                await editorBtn.evaluate((el: HTMLElement) => el.click()).catch(() => { });
+            });
+        });
+        getConsoleCollector(context)?.label(editorPage, 'editor');
+
+        // 起動中に表示されるブラウザ標準ダイアログはすべて承認します
+        const removeStartupRule = getDialogManager(editorPage).addRule({
+            name: 'エディタ起動時のダイアログを承認',
+            kinds: ['alert', 'confirm', 'prompt', 'beforeunload'],
+            action: 'accept',
+        });
+
+        await editorPage.waitForLoadState('domcontentloaded');
+
+        // 開発用オーバーレイによるポインタ遮断を防ぐスタイルを注入
+        await editorPage.evaluate(() => {
+            const style = document.createElement('style');
+            style.id = 'webpack-overlay-bypass';
+            style.innerHTML = `
+               #webpack-dev-server-client-overlay,
+               iframe[src*="blank"] {
+                   display: none !important;
+                   pointer-events: none !important;
+                   width: 0 !important;
+                   height: 0 !important;
+                   opacity: 0 !important;
+               }
+           `;
+            document.head.appendChild(style);
+        }).catch(() => { });
+
+        const tempHelper = new EditorHelper(editorPage, false);
+
+        // スナップショット復元ダイアログのスキップ
+        await tempHelper.handleSnapshotRestoreDialog();
+
+        // スターターテンプレートモーダルの処理（デフォルトでスキップ）
+        if (options.skipStarterModal) {
+            await tempHelper.handleStarterTemplateModal();
+        }
+
+        removeStartupRule();
+
+        await expect(editorPage.locator(SELECTORS.editor.preview)).toBeVisible();
+        await this.dashboard.waitForProcessing();
+        return editorPage;
+    }
+}
+
+/**
+ * アーカイブ画面。
+ */
+export class ArchiveSection {
+    constructor(readonly dashboard: DashboardPage) { }
+
+    /**
+     * ワークベンチからアーカイブ画面に切り替えます。
+     */
+    async open(): Promise<void> {
+        await this.dashboard.dismissAlert();
+        await this.dashboard.page.getByRole('button', { name: uiText('dashboard.archive') }).click({ force: true });
+        await this.dashboard.waitForProcessing();
+    }
+
+    /**
+     * アーカイブ画面からワークベンチに戻ります。
+     */
+    async backToWorkbench(): Promise<void> {
+        await this.dashboard.page.getByRole('button', { name: uiText('dashboard.backToWorkbench') }).click();
+    }
+
+    /**
+     * アーカイブ画面上のアプリカードを返します。
+     */
+    app(appKey: string): Locator {
+        const page = this.dashboard.page;
+        return page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) }).first();
+    }
+
+    /**
+     * アーカイブ済みのアプリをワークベンチに復元します。
+     */
+    async restore(appKey: string): Promise<void> {
+        const page = this.dashboard.page;
+        const archiveRow = this.app(appKey);
+
+        await retryUntil('ArchiveSection.restore', async () => {
+            await this.dashboard.dismissAlert();
+
+            await archiveRow.getByRole('button', { name: uiText('dashboard.restore') }).click({ force: true, timeout: 2000 });
+
+            const confirmDialog = page.locator(SELECTORS.archive.restoreConfirm);
+            await expect(confirmDialog).toBeVisible({ timeout: 5000 });
+            await confirmDialog.locator('.confirm-restore-button, .confirm-ok-button').click({ force: true, timeout: 2000 });
+
+            await expect(confirmDialog).toBeHidden({ timeout: 5000 });
+        }, { timeout: 20000 });
+
+        await expect(this.dashboard.loadingOverlay).toBeHidden({ timeout: 150000 });
+
+        const restoredMessage = await getDialogManager(page).closeAlert({ timeout: 20000 });
+        expect(restoredMessage, '[Archive] 復元の完了を知らせるアラートが表示されませんでした').toContain(uiText('dashboard.restored'));
+    }
+
+    /**
+     * アーカイブ済みのアプリを完全に削除します。
+     */
+    async delete(appKey: string): Promise<void> {
+        const page = this.dashboard.page;
+        const archiveRow = this.app(appKey);
+
+        await archiveRow.scrollIntoViewIfNeeded();
+        await archiveRow.locator('.btn-danger-outline').click({ force: true });
+        await this.dashboard.waitForProcessing();
+
+        const confirmDialog = page.locator(SELECTORS.archive.deleteConfirm);
+        await expect(confirmDialog).toBeVisible();
+        await confirmDialog.locator('.confirm-ok-button').click();
+        await this.dashboard.waitForIdle();
+
+        releaseResource({ kind: 'app', appKey, browserCode: detectBrowserCode(page) });
+    }
+}
+
+/**
+ * メニューから開くアカウント設定画面。
+ */
+export class SettingsSection {
+    constructor(readonly dashboard: DashboardPage) { }
+
+    /** 設定画面のコンテンツ領域 */
+    get content(): Locator {
+        return this.dashboard.page.locator(SELECTORS.settings.content);
+    }
+
+    /**
+     * メニューから設定画面を開きます。
+     */
+    async open(): Promise<void> {
+        const page = this.dashboard.page;
+        await expect(this.dashboard.loadingOverlay).toBeHidden({ timeout: 10000 }).catch(() => { });
+        await this.dashboard.dismissAlert();
+
+        const menuBtn = page.locator(`${SELECTORS.dashboard.menuButton}[title="${uiText('dashboard.menu')}"]`);
+        await menuBtn.evaluate((el: HTMLElement) => el.click()).catch(() => menuBtn.click({ force: true }));
+
+        const menuList = page.locator(SELECTORS.transient.appMenuList);
+        await expect(menuList).toBeVisible();
+
+        const settingItem = menuList.locator('.dashboard-menu-item', { hasText: uiText('dashboard.menu.settings') });
+        await settingItem.evaluate((el: HTMLElement) => el.click()).catch(() => settingItem.click({ force: true }));
+
+        await expect(this.content).toBeVisible();
+        await expect(this.content.getByText(uiText('dashboard.settings.enableAi'))).toBeVisible();
+    }
+
+    /**
+     * 設定画面を閉じます。
+     */
+    async close(): Promise<void> {
+        const page = this.dashboard.page;
+        const accountSetting = page.locator(SELECTORS.settings.root);
+        await retryUntil('SettingsSection.close', async () => {
+            if (await this.dashboard.dismissAlert() !== null) {
+                await waitForLitUpdates(page);
+            }
+            await accountSetting.click({ position: { x: 10, y: 10 }, force: true });
+            if (await this.content.isVisible().catch(() => false)) {
+                await page.mouse.click(0, 0);
+            }
+            await expect(this.content).toBeHidden({ timeout: 2000 });
+        }, { timeout: 10000 });
+    }
+
+    /**
+     * AIコーディング機能の有効/無効を切り替えます。既に指定した状態であれば何もしません。
+     */
+    async setAiCoding(enable: boolean): Promise<void> {
+        const page = this.dashboard.page;
+        await this.open();
+        await waitForSettled(page);
+
+        const checkbox = page.locator(SELECTORS.settings.aiCodingCheckbox);
+        const isCurrentlyEnabled = await checkbox.isChecked();
+
+        if (isCurrentlyEnabled === enable) {
+            await this.close();
+            return;
+        }
+
+        const label = page.locator(SELECTORS.settings.aiCodingSwitch).filter({ has: page.locator(SELECTORS.settings.aiCodingCheckbox) });
+        await label.evaluate((el: HTMLElement) => el.click()).catch(() => label.click({ force: true }));
+
+        if (enable) {
+            const parentModal = page.locator(SELECTORS.transient.aiCodingConfirmModal);
+            try {
+                await expect(parentModal.locator('.modal')).toBeVisible({ timeout: 3000 });
+                const submitBtn = parentModal.locator('span[slot="submit-button-text"]');
+                await submitBtn.evaluate((el: HTMLElement) => el.click()).catch(() => submitBtn.click({ force: true }));
+                await expect(parentModal).toBeHidden({ timeout: 5000 });
+            } catch (e) { }
+        }
+
+        if (enable) {
+            await expect(checkbox).toBeChecked({ timeout: 5000 });
+        } else {
+            await expect(checkbox).not.toBeChecked({ timeout: 5000 });
+        }
+
+        await waitForApiIdle(page);
+        await this.close();
+    }
+
+    /**
+     * Gemini APIキーを登録します。APIキーの入力欄がない（登録済みの）場合は何もしません。
+     */
+    async setGeminiApiKey(apiKey: string): Promise<void> {
+        const page = this.dashboard.page;
+        await this.open();
+        const apiKeyForm = page.locator(SELECTORS.transient.apiKeyForm);
+        if (!(await apiKeyForm.isVisible())) {
+            await this.close();
+            return;
+        }
+
+        await apiKeyForm.locator('input#gemini-api-key').fill(apiKey);
+        const saveBtn = apiKeyForm.locator('button.save-api-key-button');
+        await saveBtn.evaluate((el: HTMLElement) => el.click()).catch(() => saveBtn.click({ force: true }));
+
+        const successAlert = page.locator(SELECTORS.transient.settingsAlert, { hasText: uiText('dashboard.settings.apiKeyRegistered') });
+        await expect(successAlert).toBeVisible();
+        const closeBtn = successAlert.locator('button#closeButton');
+        await closeBtn.evaluate((el: HTMLElement) => el.click()).catch(() => closeBtn.click({ force: true }));
+        await expect(successAlert).toBeHidden();
+
+        const registeredDisplay = page.locator(SELECTORS.transient.apiKeyDisplay);
+        await expect(registeredDisplay).toBeVisible();
+        await expect(registeredDisplay.getByText(uiText('dashboard.settings.apiKeyAlreadyRegistered'))).toBeVisible();
+
+        await this.close();
+    }
+
+    /**
+     * 登録済みのGemini APIキーを削除します。未登録の場合は何もしません。
+     */
+    async deleteGeminiApiKey(): Promise<void> {
+        const page = this.dashboard.page;
+        await this.open();
+        const registeredDisplay = page.locator(SELECTORS.transient.apiKeyDisplay);
+        if (!(await registeredDisplay.isVisible())) {
+            await this.close();
+            return;
+        }
+
+        getDialogManager(page).acceptNext('confirm', uiText('dashboard.settings.confirmApiKeyDelete'));
+
+        const delBtn = registeredDisplay.locator('button.delete-api-key-button');
+        await delBtn.evaluate((el: HTMLElement) => el.click()).catch(() => delBtn.click({ force: true }));
+
+        const deleteAlert = page.locator(SELECTORS.transient.settingsAlert, { hasText: uiText('dashboard.settings.apiKeyDeleted') });
+        await expect(deleteAlert).toBeVisible();
+        const closeBtn = deleteAlert.locator('button#closeButton');
+        await closeBtn.evaluate((el: HTMLElement) => el.click()).catch(() => closeBtn.click({ force: true }));
+        await expect(deleteAlert).toBeHidden();
+
+        const apiKeyForm = page.locator(SELECTORS.transient.apiKeyForm);
+        await expect(apiKeyForm.locator('input#gemini-api-key')).toBeVisible();
+
+        await this.close();
+    }
+}
@@ -0,0 +1,303 @@
+/**
+ * アプリのアラート（alert-component）とブラウザ標準ダイアログ（alert / confirm / prompt / beforeunload）の管理。
+ * ページごとのルールで自動的に閉じる・承認する・テストを失敗させるといった対応を宣言し、
+ * テスト中に表示されたアラートとダイアログをすべて記録してレポートに `dialogs` として添付します。
+ *
+ * @example
+ * const dialogs = getDialogManager(page);
+ * dialogs.addRule(DialogRules.failOnErrorAlerts);
+ * dialogs.acceptNext('confirm', '削除しますか');
+ * await dialogs.closeAlert();
+ */
+import { type Dialog, type Locator, type Page, type TestInfo } from '@playwright/test';
+import { uiText } from './ui-strings';
+import { SELECTORS } from './selectors';
+
+/** ブラウザ標準ダイアログの種類 */
+export type NativeDialogKind = 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+
+/** 管理する表示の種類 */
+export type DialogKind = 'alert-component' | NativeDialogKind;
+
+/**
+ * 表示に対する対応。
+ * - accept: 承認します（alert-component は「閉じる」をクリックします）
+ * - dismiss: キャンセルします（alert-component は accept と同じです）
+ * - fail: 閉じた上でテストを失敗させます
+ */
+export type DialogAction = 'accept' | 'dismiss' | 'fail';
+
+export type DialogRule = {
+    /** 記録に表示するルール名 */
+    name: string;
+    /** 対象とする種類（省略時はすべて） */
+    kinds?: DialogKind[];
+    /** メッセージの条件。文字列は部分一致です（省略時はすべて） */
+    message?: string | RegExp | ((message: string) => boolean);
+    action: DialogAction;
+    /** prompt に入力する値 */
+    promptText?: string;
+    /** 1回適用したらルールを削除します */
+    once?: boolean;
+};
+
+/**
+ * 記録したアラート・ダイアログ。
+ */
+export type DialogLogEntry = {
+    kind: DialogKind;
+    message: string;
+    /** 表示されたページのURL */
+    pageUrl: string;
+    /** 行った対応。handled-by-test はテストが登録したリスナーで処理されたことを示します */
+    action: DialogAction | 'handled-by-test';
+    /** 適用したルール（ルールに一致しなかった場合は null） */
+    rule: string | null;
+    /** テスト開始からの経過時間（ミリ秒） */
+    at: number;
+};
+
+/**
+ * よく使うルール。
+ */
+export const DialogRules = {
+    /** 「エラー」「失敗」を含むアラート・ダイアログが表示されたらテストを失敗させます */
+    failOnErrorAlerts: {
+        name: 'エラーのアラートで失敗',
+        kinds: ['alert-component', 'alert'],
+        message: (message: string) => uiText('common.errorMessage').test(message),
+        action: 'fail',
+    },
+    /** エラー以外のお知らせのアラート（「コピーしました」など）を自動で閉じます */
+    closeInfoAlerts: {
+        name: 'お知らせのアラートを閉じる',
+        kinds: ['alert-component'],
+        message: (message: string) => !uiText('common.errorMessage').test(message),
+        action: 'accept',
+    },
+} satisfies Record<string, DialogRule>;
+
+/**
+ * fail ルールに一致したアラート・ダイアログが表示された場合のエラー。
+ */
+export class DialogFailureError extends Error {
+    constructor(readonly entry: DialogLogEntry) {
+        super(`[Dialog] ${entry.kind} に失敗を示すメッセージが表示されました（ルール: ${entry.rule}）: ${entry.message}`);
+        this.name = 'DialogFailureError';
+    }
+}
+
+const targets = (rule: DialogRule, kind: DialogKind): boolean => !rule.kinds || rule.kinds.includes(kind);
+
+/**
+ * 種類とメッセージに一致する最初のルールを返します。
+ */
+const findRule = (rules: DialogRule[], kind: DialogKind, message: string): DialogRule | null => rules.find(rule => {
+    if (!targets(rule, kind)) return false;
+    if (rule.message === undefined) return true;
+    if (typeof rule.message === 'string') return message.includes(rule.message);
+    if (rule.message instanceof RegExp) return rule.message.test(message);
+    return rule.message(message);
+}) ?? null;
+
+// ワーカー内では同時に1テストしか実行されないため、実行中のテストの記録をモジュール単位で保持します
+let startedAt = Date.now();
+const log: DialogLogEntry[] = [];
+
+const managers = new WeakMap<Page, DialogManager>();
+
+/**
+ * ページのダイアログマネージャーを返します。未作成の場合は作成して監視を開始します。
+ * ブラウザ標準ダイアログを記録するため、ダイアログが表示される前（ページを開いた直後）に呼び出してください。
+ */
+export const getDialogManager = (page: Page): DialogManager => {
+    let manager = managers.get(page);
+    if (!manager) {
+        manager = new DialogManager(page);
+        managers.set(page, manager);
+    }
+    return manager;
+};
+
+/**
+ * ページごとのアラート・ダイアログの管理。getDialogManager から取得します。
+ *
+ * - ブラウザ標準ダイアログ: ルールに従って処理します。テストが page.once('dialog') などでリスナーを登録している場合は記録のみ行います。
+ *   ルールに一致しない場合は、Playwright の既定の動作（beforeunload は承認、それ以外はキャンセル）と同じ対応をします
+ * - alert-component: alert-component を対象とするルールがある間は、操作の前に表示を検出してルールを適用します。
+ *   closeAlert で閉じたアラートも記録します
+ */
+export class DialogManager {
+    private readonly rules: DialogRule[] = [];
+    private alertHandlerInstalled = false;
+
+    private readonly onDialog = async (dialog: Dialog) => {
+        const kind = dialog.type() as NativeDialogKind;
+        const message = dialog.message();
+
+        // テストが独自にリスナー（page.once('dialog') や waitForEvent('dialog')）を登録している場合は、そちらに処理を任せます
+        if ((this.page as unknown as NodeJS.EventEmitter).listenerCount('dialog') > 1) {
+            this.record(kind, message, 'handled-by-test', null);
+            return;
+        }
+
+        const rule = this.match(kind, message);
+        const action: DialogAction = rule?.action ?? (kind === 'beforeunload' ? 'accept' : 'dismiss');
+        const entry = this.record(kind, message, action, rule);
+        if (action === 'accept') {
+            await dialog.accept(rule?.promptText).catch(() => { });
+        } else {
+            await dialog.dismiss().catch(() => { });
+        }
+        if (action === 'fail') {
+            // イベントリスナー内で例外を投げても操作は失敗しないため、テスト終了時に assertNoDialogFailures で検出します
+            console.error(new DialogFailureError(entry).message);
+        }
+    };
+
+    constructor(private readonly page: Page) {
+        page.on('dialog', this.onDialog);
+    }
+
+    /** alert-component */
+    get alert(): Locator {
+        return this.page.locator(SELECTORS.transient.alert);
+    }
+
+    /**
+     * ルールを追加します。先に追加したルールが優先されます。
+     * @returns ルールを削除する関数
+     */
+    addRule(rule: DialogRule): () => void {
+        this.rules.push(rule);
+        if (targets(rule, 'alert-component')) void this.installAlertHandler();
+        return () => this.removeRule(rule);
+    }
+
+    /**
+     * ルールを削除します。
+     */
+    removeRule(rule: DialogRule): void {
+        const index = this.rules.indexOf(rule);
+        if (index >= 0) this.rules.splice(index, 1);
+        if (this.alertHandlerInstalled && !this.rules.some(r => targets(r, 'alert-component'))) {
+            this.alertHandlerInstalled = false;
+            void this.page.removeLocatorHandler(this.alert).catch(() => { });
+        }
+    }
+
+    /**
+     * 次に表示されるブラウザ標準ダイアログを1回だけ承認します。
+     * @param kind 対象とする種類（省略時はすべて）
+     * @param message メッセージの条件（省略時はすべて）
+     */
+    acceptNext(kind?: NativeDialogKind, message?: string | RegExp): () => void {
+        return this.addRule({
+            name: `次の${kind ?? 'ダイアログ'}を承認`,
+            kinds: kind ? [kind] : ['alert', 'confirm', 'prompt', 'beforeunload'],
+            message,
+            action: 'accept',
+            once: true,
+        });
+    }
+
+    /**
+     * 表示中のアラート（alert-component）を「閉じる」ボタンで閉じます。表示されていなければ何もしません。
+     * fail ルールに一致した場合は、閉じた上で DialogFailureError を投げます。
+     *
+     * @param options.timeout アラートの表示を待つ時間（ミリ秒）。省略時は待たずに確認します
+     * @param options.rules この呼び出しでのみ、ページのルールより優先して適用するルール
+     * @returns 閉じたアラートのメッセージ（表示されていなかった場合は null）
+     *
+     * @example
+     * await dialogs.closeAlert({ rules: [DialogRules.failOnErrorAlerts] });
+     */
+    async closeAlert(options: { timeout?: number; rules?: DialogRule[] } = {}): Promise<string | null> {
+        const visible = options.timeout
+            ? await this.alert.waitFor({ state: 'visible', timeout: options.timeout }).then(() => true, () => false)
+            : await this.alert.isVisible().catch(() => false);
+        if (!visible) return null;
+
+        const message = await this.readAlertMessage();
+        const rule = findRule(options.rules ?? [], 'alert-component', message) ?? this.match('alert-component', message);
+        const entry = this.record('alert-component', message, rule?.action ?? 'accept', rule);
+        await this.clickClose();
+        if (rule?.action === 'fail') throw new DialogFailureError(entry);
+        return message;
+    }
+
+    private async installAlertHandler(): Promise<void> {
+        if (this.alertHandlerInstalled) return;
+        this.alertHandlerInstalled = true;
+        // 操作・アサーションの前に alert-component が表示されていれば、ルールを適用します
+        await this.page.addLocatorHandler(this.alert, async () => {
+            const message = await this.readAlertMessage();
+            const rule = this.match('alert-component', message);
+            if (!rule) return;
+            const entry = this.record('alert-component', message, rule.action, rule);
+            await this.clickClose();
+            if (rule.action === 'fail') throw new DialogFailureError(entry);
+        }, { noWaitAfter: true });
+    }
+
+    private async readAlertMessage(): Promise<string> {
+        return await this.alert.evaluate((el: any) => el.alertMessage || el.innerText || el.textContent || '').catch(() => '');
+    }
+
+    private async clickClose(): Promise<void> {
+        await this.alert.getByRole('button', { name: uiText('common.close') }).evaluate((el: HTMLElement) => el.click()).catch(() => { });
+        await this.alert.waitFor({ state: 'hidden', timeout: 5000 }).catch(() => { });
+    }
+
+    private match(kind: DialogKind, message: string): DialogRule | null {
+        const rule = findRule(this.rules, kind, message);
+        if (rule?.once) this.removeRule(rule);
+        return rule;
+    }
+
+    private record(kind: DialogKind, message: string, action: DialogLogEntry['action'], rule: DialogRule | null): DialogLogEntry {
+        const entry: DialogLogEntry = {
+            kind,
+            message,
+            pageUrl: this.page.url(),
+            action,
+            rule: rule?.name ?? null,
+            at: Date.now() - startedAt,
+        };
+        log.push(entry);
+        console.log(`[Dialog] ${kind}: ${message.replace(/\s+/g, ' ').slice(0, 100)} → ${action}${rule ? `（${rule.name}）` : ''}`);
+        return entry;
+    }
+}
+
+/**
+ * 実行中のテストの記録を破棄します（テスト開始時にフィクスチャから呼び出します）。
+ */
+export const resetDialogLog = (): void => {
+    startedAt = Date.now();
+    log.length = 0;
+};
+
+/**
+ * 記録したアラート・ダイアログの一覧。
+ */
+export const getDialogLog = (): readonly DialogLogEntry[] => log;
+
+/**
+ * テスト中に fail ルールに一致したアラート・ダイアログがあれば DialogFailureError を投げます（テスト終了時にフィクスチャから呼び出します）。
+ */
+export const assertNoDialogFailures = (): void => {
+    const failure = log.find(entry => entry.action === 'fail');
+    if (failure) throw new DialogFailureError(failure);
+};
+
+/**
+ * 記録をテストのレポートに `dialogs` として添付します。何も記録されていない場合は添付しません。
+ */
+export async function attachDialogLog(testInfo: TestInfo): Promise<void> {
+    if (log.length === 0) return;
+    await testInfo.attach('dialogs', {
+        body: JSON.stringify(log, null, 2),
+        contentType: 'application/json',
+    });
+}
@@ -0,0 +1,80 @@
+import { expect, type Locator } from '@playwright/test';
+import { EditorPanel } from './editor-panel';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+
+/**
+ * スクリプト編集画面から開くAIコーディングウィンドウ（ai-coder-window）の操作。
+ */
+export class AiCoderWindow extends EditorPanel {
+    /** AIコーディングウィンドウ */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.transient.aiCoderWindow);
+    }
+
+    /**
+     * スクリプト編集画面でAIコーディングウィンドウを開きます。
+     * このメソッドはスクリプト編集画面が開かれていることを前提とします。
+     */
+    async open(): Promise<void> {
+        // 1. Shadow DOMのホスト要素である <script-container> をまず特定する
+        const scriptContainer = this.page.locator(SELECTORS.editor.scriptContainer);
+
+        // 2. ホスト要素からチェインして、そのShadow DOM内部のボタンを探す
+        const aiButton = scriptContainer.locator('button#aiButton');
+
+        await expect(aiButton).toBeVisible();
+        await aiButton.click();
+
+        await expect(this.root).toBeVisible();
+    }
+
+    /**
+     * AIコーディング機能を使ってコードを生成し、エディタの内容を置き換えます。
+     * @param prompt AIに送信するプロンプト文字列
+     * @param options AIモデルなどのオプション
+     */
+    async generateCode(prompt: string, options: { model?: string } = {}): Promise<void> {
+        // 1. AIコーディングウィンドウを開く
+        await this.open();
+        const aiWindow = this.root;
+
+        // 2. (オプション) 設定でモデルを変更する
+        if (options.model) {
+            await aiWindow.locator('button#setting-btn').click();
+            const settingsWindow = aiWindow.locator('div#setting-window');
+            await expect(settingsWindow).toBeVisible();
+
+            // モデル選択 (modern-selectクラス)
+            await settingsWindow.locator('select.modern-select').selectOption({ value: options.model });
+
+            // 「設定を適用して戻る」ボタン
+            await settingsWindow.locator('button#close-btn').click();
+            await expect(settingsWindow).toBeHidden();
+        }
+
+        // 3. プロンプトを入力して送信し、応答を待つ
+        const inputArea = aiWindow.locator('textarea#user-input');
+        await expect(inputArea).toBeEditable();
+        await inputArea.fill(prompt);
+        await aiWindow.locator('button#send-btn').click();
+
+        // 「生成中」の表示を待つ
+        const pendingMessage = aiWindow.getByText(uiText('aiCoder.generating'));
+        await expect(pendingMessage).toBeVisible({ timeout: 10000 });
+
+        // 応答が完了するのを待つ
+        await expect(pendingMessage).toBeHidden({ timeout: 120000 });
+
+        // 4. 最新の応答メッセージを取得し、「置き換え」ボタンをクリック
+        const lastBotMessage = aiWindow.locator('.message.bot').last();
+        await expect(lastBotMessage).toBeVisible();
+
+        // 刷新されたボタンクラス（.paste-btn または .bottom-btn）に対応
+        const replaceBtn = lastBotMessage.locator('button').filter({ hasText: uiText('aiCoder.replace') });
+        await replaceBtn.click();
+
+        // 5. AIコーディングウィンドウが閉じるのを待つ
+        await expect(aiWindow).toBeHidden();
+    }
+}
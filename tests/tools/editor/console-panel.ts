@@ -0,0 +1,66 @@
+import { expect, type Locator } from '@playwright/test';
+import { ScriptContainerPanel } from './editor-panel';
+import { uiText } from '../ui-strings';
+
+/** コンソールのログレベル（.log-item に付与されるクラス名） */
+export type ConsoleLogLevel = 'info' | 'warn' | 'error' | 'debug' | 'trace';
+
+/**
+ * 右側のサブウィンドウの「コンソール」タブ（console-container）の操作。
+ * プレビュー内で出力されたログを表示・フィルタリングします。
+ */
+export class ConsolePanel extends ScriptContainerPanel {
+    protected readonly tabName = uiText('tab.console');
+
+    /** コンソール */
+    get root(): Locator {
+        return this.scriptContainer.locator('console-container');
+    }
+
+    /** フィルタメニュー */
+    get filterMenu(): Locator {
+        return this.root.locator('.filter-menu');
+    }
+
+    /**
+     * 表示中のログ行を取得します。
+     * @param level 指定した場合、そのログレベルの行のみを対象にします
+     */
+    logItems(level?: ConsoleLogLevel): Locator {
+        return this.root.locator(level ? `.log-item.${level}` : '.log-item');
+    }
+
+    /**
+     * 「コンソールをクリア」ボタンで出力済みのログを消去します。
+     */
+    async clear(): Promise<void> {
+        await this.root.locator(`button.toolbar-btn[title="${uiText('console.clear')}"]`).click();
+    }
+
+    /**
+     * フィルタメニューを開きます。
+     */
+    async openFilterMenu(): Promise<void> {
+        if (await this.filterMenu.isVisible()) return;
+        await this.root.locator('.filter-toggle-btn').click();
+        await expect(this.filterMenu).toBeVisible();
+    }
+
+    /**
+     * バックドロップをクリックしてフィルタメニューを閉じます。
+     */
+    async closeFilterMenu(): Promise<void> {
+        if (!await this.filterMenu.isVisible()) return;
+        await this.root.locator('.backdrop').click();
+        await expect(this.filterMenu).toBeHidden();
+    }
+
+    /**
+     * フィルタメニューで指定したレベルの表示/非表示を切り替えます。
+     * @param label フィルタメニュー上の表示名 ('情報' / '警告' / 'エラー' / '詳細')
+     */
+    async toggleFilter(label: string): Promise<void> {
+        await this.openFilterMenu();
+        await this.filterMenu.locator('.filter-item', { hasText: label }).click();
+    }
+}
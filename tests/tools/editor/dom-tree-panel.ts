@@ -0,0 +1,224 @@
+import { expect, type Locator } from '@playwright/test';
+import { EditorPanel } from './editor-panel';
+import { retryUntil } from '../retry';
+import { waitForLitUpdates } from '../settled';
+import { waitForIdle } from '../busy-state';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+
+/**
+ * 左側のサブウィンドウ（template-container）のDOMツリーとツールボックスの操作。
+ */
+export class DomTreePanel extends EditorPanel {
+    /** DOMツリー */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.editor.domTree);
+    }
+
+    /** 左側のサブウィンドウ */
+    get templateContainer(): Locator {
+        return this.page.locator(SELECTORS.editor.templateContainer);
+    }
+
+    /**
+     * 左側のサブウィンドウを開きます (モバイル時のみ動作)。
+     */
+    async open(): Promise<void> {
+        await this.panels.ensurePanel('left');
+    }
+
+    /**
+     * エディタ内で新しいページを追加します。
+     * @returns 追加された新しいページノードのLocator
+     */
+    async addPage(): Promise<Locator> {
+        await waitForIdle(this.page, 'editor');
+        await this.panels.ensurePanel('left');
+        const humburgerButton = this.page.locator(`${SELECTORS.editor.templateContainer} #hamburger`);
+        await expect(humburgerButton).toBeVisible();
+        await humburgerButton.click();
+        const contextMenu = this.page.locator(SELECTORS.transient.contextMenu);
+        await expect(contextMenu).toBeVisible();
+        await contextMenu.getByText(uiText('editor.domTree.addPage')).click();
+
+        const newPageNode = this.page.locator(`${SELECTORS.editor.domTree} > .node[data-node-type="page"]`).last();
+        await expect(newPageNode).toBeVisible();
+        return newPageNode;
+    }
+
+    /**
+     * ツールボックスからコンポーネントをDOMツリーの指定場所にドラッグ＆ドロップします。
+     * @param componentName Toolboxに表示されているコンポーネント名
+     * @param target D&Dのドロップ先（セレクタ文字列またはLocatorオブジェクト）
+     */
+    async addComponent(componentName: string, target: string | Locator): Promise<Locator> {
+        await this.panels.ensurePanel('left');
+        const targetLocator = typeof target === 'string' ? this.page.locator(target) : target;
+
+        await expect(targetLocator).toBeVisible();
+
+        const newComponentNode = targetLocator.locator(`> .node[data-node-type="${componentName}"]`).first();
+
+        // 負荷が高い状況下でのドラッグ＆ドロップ（dragTo）の空振りを防ぐため、自動リトライを持たせます
+        await retryUntil('DomTreePanel.addComponent', async () => {
+            await expect(newComponentNode).toBeVisible({ timeout: 3000 });
+        }, {
+            strategies: [{
+                name: 'dragTo',
+                run: async () => {
+                    if (!await newComponentNode.isVisible()) {
+                        await this.page.locator(SELECTORS.editor.toolBoxItem, { hasText: componentName }).dragTo(targetLocator, { targetPosition: { x: 10, y: 10 }, timeout: 3000 });
+                    }
+                },
+            }],
+        });
+
+        return newComponentNode;
+    }
+
+    /**
+     * ツールボックスから「HTML Tag」をドラッグ＆ドロップします。
+     * @param htmlTagName 作成するHTMLタグ名
+     * @param targetSelector D&Dのドロップ先となる要素のセレクタ文字列
+     * @returns 追加されたHTMLタグノードのLocator
+     */
+    async addHtmlTag(htmlTagName: string, targetSelector: string): Promise<Locator> {
+        await this.panels.ensurePanel('left');
+
+        const targetLocator = this.page.locator(targetSelector);
+
+        // 1. ドラッグ＆ドロップを実行してダイアログを起動
+        await this.page.locator(SELECTORS.editor.toolBoxItem, { hasText: 'HTML Tag' }).dragTo(targetLocator);
+
+        // 2. カスタムダイアログの表示を待機 (template-container の外側に移動したため、最上位ページから直接 first() で取得します)
+        const dialog = this.page.locator(SELECTORS.transient.htmlTagSelectDialog).first();
+        await expect(dialog).toBeVisible({ timeout: 5000 });
+
+        const presetTags = ['div', 'span', 'p', 'img', 'a', 'ul', 'li', 'br', 'h1', 'h2', 'h3', 'strong'];
+        const targetTagLower = htmlTagName.toLowerCase();
+
+        if (presetTags.includes(targetTagLower)) {
+            // プリセットに含まれる場合は、対応するボタンをクリックして自動決定
+            const presetBtn = dialog.locator('button.preset-tag-button', { hasText: new RegExp(`^${targetTagLower}$`, 'i') }).first();
+            await presetBtn.click();
+        } else {
+            // プリセットに含まれない場合は、入力欄にテキストを入れてEnterキーで確定
+            const input = dialog.locator('input#custom-tag-input');
+            await expect(input).toBeEditable();
+            await input.fill(htmlTagName);
+            await input.press('Enter');
+        }
+
+        // 3. ダイアログが閉じるのを待機
+        await expect(dialog).toBeHidden();
+
+        const newHtmlTagNode = targetLocator.locator(`> .node[data-node-type="${htmlTagName}"]`);
+        await expect(newHtmlTagNode).toBeVisible({ timeout: 5000 });
+        return newHtmlTagNode;
+    }
+
+    /**
+     * DOMツリー内の指定したノードをクリックして選択状態にします。
+     * @param nodeLocator 選択したいノードのLocator
+     */
+    async selectNode(nodeLocator: Locator): Promise<void> {
+        // 左パネルを開く
+        await this.panels.ensurePanel('left');
+
+        await nodeLocator.click({ position: { x: 0, y: 10 } });
+        await expect(nodeLocator).toHaveClass(/node-select/);
+    }
+
+    /**
+     * DOMツリー内で、特定のデータ属性を持つノードを選択します。
+     * @param attributeName 'data-node-id' や 'data-node-type' などの属性名
+     * @param attributeValue 属性の値
+     * @returns 選択されたノードのLocator
+     */
+    async selectNodeByAttribute(attributeName: string, attributeValue: string): Promise<Locator> {
+        const node = this.root.locator(`div[${attributeName}="${attributeValue}"]`);
+        await this.selectNode(node);
+        return node;
+    }
+
+    /**
+     * 高精度なドラッグ＆ドロップを行います。
+     * 標準のdragToでは速度が速すぎてアプリ側の並び替えイベントが発火しない場合に有効です。
+     * マウスの動きをステップ分けしてシミュレートします。
+     *
+     * @param sourceLocator ドラッグ開始要素
+     * @param targetLocator ドロップ対象要素
+     * @param steps 移動にかけるステップ数（多いほどゆっくり移動し、イベントが発火しやすくなる）
+     */
+    async dragAndDropManually(sourceLocator: Locator, targetLocator: Locator, steps: number = 20): Promise<void> {
+        const sourceBox = await sourceLocator.boundingBox();
+        const targetBox = await targetLocator.boundingBox();
+        if (!sourceBox || !targetBox) {
+            throw new Error('dragAndDropManually: 要素のBoundingBoxが取得できませんでした');
+        }
+
+        // 要素の中心座標を計算
+        const srcX = sourceBox.x + sourceBox.width / 2;
+        const srcY = sourceBox.y + sourceBox.height / 2;
+        const dstX = targetBox.x + targetBox.width / 2;
+        const dstY = targetBox.y + targetBox.height / 2;
+
+        // マウス操作のシミュレーション
+        await this.page.mouse.move(srcX, srcY);
+        await this.page.mouse.down();
+        // stepsを指定することで、時間をかけて移動させ dragover を確実に発火させる
+        await this.page.mouse.move(dstX, dstY, { steps: steps });
+        await this.page.mouse.up();
+
+        // DOMの更新を待つ
+        await waitForLitUpdates(this.page);
+    }
+
+    /**
+     * DOMツリーで選択中のコンテキスト（トップレベルテンプレート）を切り替えます。
+     * @param templateId 'アプリケーション' またはページのdata-template-id
+     */
+    async switchTopLevelTemplate(templateId: string): Promise<void> {
+        await this.panels.ensurePanel('left');
+
+        const topContainer = this.page.locator(SELECTORS.transient.topContainer);
+        const selectBox = topContainer.locator('.select');
+        await selectBox.click();
+
+        const topTemplateListContainer = this.page.locator(SELECTORS.transient.topTemplateList);
+        // リストが表示されるのを待つ
+        await expect(topTemplateListContainer).toBeVisible({ timeout: 5000 });
+
+        const targetToplistItem = topTemplateListContainer.locator(`div.top-template-item[data-template-id="${templateId}"]`);
+
+        try {
+            // ターゲットが見えるかチェック
+            await expect(targetToplistItem).toBeVisible({ timeout: 5000 });
+        } catch (e) {
+            const items = await topTemplateListContainer.locator('div.top-template-item').all();
+            for (const item of items) {
+                const id = await item.getAttribute('data-template-id');
+                const text = await item.innerText();
+            }
+            throw e;
+        }
+
+        await targetToplistItem.click();
+        await expect(topTemplateListContainer).toBeHidden();
+        // 切り替え後の再描画待ち
+        await waitForLitUpdates(this.page);
+    }
+
+    /**
+     * エディタ内のトップテンプレートリストに特定のページが表示されているか確認します。
+     * @param pageName 確認するページ名
+     */
+    async expectPageInTemplateList(pageName: string): Promise<void> {
+        await this.templateContainer.locator('.select').click();
+        const topTemplateList = this.templateContainer.locator(SELECTORS.transient.topTemplateList);
+        await expect(topTemplateList).toBeVisible();
+        await expect(topTemplateList.locator('.top-template-item', { hasText: pageName })).toBeVisible();
+        await this.templateContainer.locator('.title-bar').click();
+        await expect(topTemplateList).toBeHidden();
+    }
+}
@@ -0,0 +1,98 @@
+import { expect, type Page, type Locator } from '@playwright/test';
+import { PanelController } from './panel-controller';
+import { retryUntil } from '../retry';
+import { getDialogManager } from '../dialog-manager';
+import { findUiStringId, type UiStringId } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+
+/**
+ * エディタの各パネルオブジェクトの基底クラス。
+ * パネルは自身のセレクタと、表示に必要なサイドパネルの開閉操作のみを持ちます。
+ */
+export abstract class EditorPanel {
+    protected readonly panels: PanelController;
+
+    /**
+     * @param page エディタのPageオブジェクト
+     * @param isMobile モバイルビューポートでテストを実行しているかどうかのフラグ
+     */
+    constructor(protected readonly page: Page, protected readonly isMobile: boolean) {
+        this.panels = new PanelController(page);
+    }
+
+    /** パネルのルート要素 */
+    abstract get root(): Locator;
+}
+
+/**
+ * 右側のサブウィンドウ（script-container）のタブとして表示されるパネルの基底クラス。
+ */
+export abstract class ScriptContainerPanel extends EditorPanel {
+    /** パネルを表示するタブ名 (例: 'イベント') */
+    protected abstract readonly tabName: string;
+
+    /** 右側のサブウィンドウ */
+    get scriptContainer(): Locator {
+        return this.page.locator(SELECTORS.editor.scriptContainer);
+    }
+
+    /**
+     * 右側のサブウィンドウを開き、このパネルのタブに切り替えます。
+     */
+    async open(): Promise<void> {
+        await this.panels.ensurePanel('right');
+        await expect(this.scriptContainer).toBeVisible();
+        await switchTabInContainer(this.page, this.scriptContainer, this.tabName);
+    }
+}
+
+type TabStringId = Extract<UiStringId, `tab.${string}`>;
+
+/** タブの文言 ID と、タブの要素のセレクタ */
+const TAB_SELECTORS: Record<TabStringId, string> = {
+    'tab.event': '#tab-event',
+    'tab.script': '#tab-script',
+    'tab.serviceWorker': '#tab-serviceworker',
+    'tab.console': '#tab-console',
+    'tab.test': '#tab-test',
+    'tab.attributes': '#tab-attributes',
+    'tab.style': '#tab-style',
+    'tab.appSettings': '#tab-appsetting',
+};
+const TAB_IDS = Object.keys(TAB_SELECTORS) as TabStringId[];
+
+/**
+ * 指定されたコンテナ内のタブを切り替えます。
+ * メインタブの重複を避けるため、ID指定での切り替えを優先します。
+ */
+export async function switchTabInContainer(page: Page, containerLocator: Locator, tabName: string): Promise<void> {
+    // 文言を ID に変換し、タブの要素 ID での指定を優先する（一致しなければ厳密なテキストマッチを行う）
+    const tabId = findUiStringId(tabName, TAB_IDS);
+    const selector = tabId ? TAB_SELECTORS[tabId] : `.tab:text-is("${tabName}")`;
+    const tabLocator = containerLocator.locator(selector).first();
+
+    await retryUntil(`switchTabInContainer(${tabName})`, async () => {
+        // 切り替わったことを確認（activeクラスが付与されるのを待つ）
+        await expect(tabLocator).toHaveClass(/active/, { timeout: 3000 });
+    }, {
+        strategies: [{
+            name: 'click',
+            run: async () => {
+                await getDialogManager(page).closeAlert();
+                // Monacoエディタのサジェストなどが被っているケースを考慮しEscapeを送信
+                await page.keyboard.press('Escape');
+                // アニメーションや重なりを無視してクリック
+                await tabLocator.click({ force: true, timeout: 3000 });
+            },
+        }],
+    });
+}
+
+/**
+ * 文字列から改行を削除し、連続する空白を1つのスペースに変換します。
+ * @param str 対象の文字列
+ * @returns 正規化された文字列
+ */
+export const normalizeWhitespace = (str: string): string => {
+    return str.replace(/\s+/g, ' ').trim();
+};
@@ -0,0 +1,176 @@
+import { expect, type Locator } from '@playwright/test';
+import { ScriptContainerPanel, normalizeWhitespace } from './editor-panel';
+import { MonacoDriver } from './monaco-driver';
+import { getDialogManager } from '../dialog-manager';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+import { retryUntil } from '../retry';
+
+/**
+ * 右側のサブウィンドウの「イベント」タブ（event-container）の操作。
+ * 選択中のノードのイベントに対するスクリプトの追加・編集と、カスタムイベント定義を扱います。
+ */
+export class EventPanel extends ScriptContainerPanel {
+    protected readonly tabName = uiText('tab.event');
+
+    /** イベント一覧 */
+    get root(): Locator {
+        return this.scriptContainer.locator(SELECTORS.editor.eventContainer);
+    }
+
+    /**
+     * 指定したイベントの行を取得します。
+     * @param eventName イベント名 (例: 'DOMContentLoaded', 'click')
+     */
+    eventRow(eventName: string): Locator {
+        return this.root.locator(`div.editor-row:has(div.label:text-is("${eventName}"))`);
+    }
+
+    /**
+     * 指定したイベントに、新しいスクリプトを特定の名前で追加します。
+     * @param eventName イベント名 (例: 'DOMContentLoaded', 'click')
+     * @param scriptName 作成するスクリプト名 (例: 'sample001')
+     */
+    async addScript(
+        { eventName, scriptName }: { eventName: string; scriptName: string }
+    ): Promise<void> {
+        const scriptContainer = this.scriptContainer;
+        await expect(scriptContainer).toBeVisible();
+
+        const eventRow = scriptContainer.locator(`div.editor-row:has(div.label:text-is("${eventName}"))`);
+        await expect(eventRow).toBeVisible();
+
+        await eventRow.getByTitle(uiText('script.add')).click();
+
+        const scriptAddMenu = this.page.locator(`${SELECTORS.editor.eventContainer} #scriptAddMenu`);
+        await expect(scriptAddMenu).toBeVisible();
+
+        const scriptNameInput = scriptAddMenu.locator('#script-name');
+        await expect(scriptNameInput).toBeEditable();
+        await scriptNameInput.fill(scriptName);
+        await expect(scriptAddMenu).toBeVisible();
+        await expect(scriptAddMenu).toBeEnabled();
+        await scriptAddMenu.locator('#edit-add-script').click();
+        await expect(scriptAddMenu).toBeHidden();
+
+        await expect(eventRow.getByText(scriptName)).toBeVisible();
+    }
+
+    /**
+     * イベントに関連付けられたスクリプトを編集し、保存します。
+     * @param eventName イベント名
+     * @param scriptName 編集するスクリプト名
+     * @param scriptContent 新しいスクリプトのコード内容
+     */
+    async editScript(
+        { eventName, scriptName, scriptContent }: { eventName: string; scriptName: string; scriptContent: string }
+    ): Promise<void> {
+        await this.panels.ensurePanel('right');
+        const scriptContainer = this.scriptContainer;
+        await expect(scriptContainer).toBeVisible();
+        const eventContainer = this.root;
+        await expect(eventContainer).toBeVisible();
+
+        const eventRow = this.eventRow(eventName);
+        await expect(eventRow).toBeVisible();
+
+        const scriptRow = eventRow.locator(`div.editor-row-right-item`).filter({ hasText: scriptName });
+        await expect(scriptRow).toBeVisible();
+        await scriptRow.getByTitle(uiText('script.edit')).click();
+
+        const monacoEditor = scriptContainer.locator('.monaco-editor[role="code"]');
+        await expect(monacoEditor).toBeVisible();
+
+        // 変更イベントが発生する方法で書き換えるため、保存ボタンに「変更あり」の表示が付きます
+        await new MonacoDriver(monacoEditor).setValue(scriptContent);
+
+        // 1. 【修正】タイトルが変更されたため、ID（#fab-save）で安全に特定します
+        const saveButton = scriptContainer.locator('#fab-save');
+        const saveIcon = saveButton.locator('i');
+
+        // 保存前に「変更あり」のクラス（shake-save-button）が付くのを待つ
+        await expect(saveIcon).toHaveClass(/shake-save-button/);
+        await saveButton.click();
+
+        // 保存完了の判定
+        // 保存に成功、またはエラーでアラートが出たら判定する
+        const msg = await getDialogManager(this.page).closeAlert();
+        if (msg && uiText('editor.saveError').test(msg)) {
+            throw new Error(`スクリプト保存エラー: ${msg}\n入力したコード:\n${scriptContent}`);
+        }
+
+        // アイコンが通常状態に戻るのを待つ
+        await expect(saveIcon).not.toHaveClass(/shake-save-button/);
+
+        // 2. 【追加】新仕様対応：戻るボタン（#fab-close）をクリックしてエディタを閉じ、一覧に戻る
+        const closeButton = scriptContainer.locator('#fab-close');
+        await closeButton.click();
+    }
+
+    /**
+     * 新しいカスタムイベント定義を追加します。
+     * @param listenerTarget イベント登録先 (例: 'element', 'document')
+     * @param eventName イベント名 (例: 'test-event')
+     * @param comment イベントのコメント
+     */
+    async addCustomEvent(
+        { listenerTarget, eventName, comment }: { listenerTarget: string, eventName: string, comment: string }
+    ): Promise<void> {
+        // 右側のサブウィンドウを表示し、イベントタブに切り替える
+        await this.open();
+        const eventContainer = this.root;
+        await expect(eventContainer).toBeVisible();
+
+        // 「イベントを編集」ボタンをクリック
+        const fabEdit = eventContainer.locator(`button#fab-edit[title="${uiText('event.edit')}"]`);
+        await fabEdit.click();
+
+        const eventListPopup = eventContainer.locator('#eventList');
+        const eventAddPopup = eventContainer.locator('#eventEditMenu');
+
+        // =========================================================================
+        // 【ダンプ事実に基づく修正】
+        // 既存テストのようにイベントがある場合は #eventList が開き、
+        // 今回の p タグのようにイベントが空の場合は直接 #eventEditMenu が開きます。
+        // どちらかが表示されるまで待機します。
+        // =========================================================================
+        await retryUntil('EventPanel.addCustomEvent', async () => {
+            const isListVisible = await eventListPopup.isVisible();
+            const isAddVisible = await eventAddPopup.isVisible();
+            expect(isListVisible || isAddVisible).toBe(true);
+        }, { timeout: 5000 });
+
+        // イベント一覧（#eventList）が開いた場合のみ、「追加」ボタンをクリック
+        if (await eventListPopup.isVisible()) {
+            await eventListPopup.getByRole('button', { name: uiText('common.add') }).click();
+        }
+
+        // ここで確実に #eventEditMenu (イベント追加ポップアップ) が表示された状態になります
+        await expect(eventAddPopup).toBeVisible();
+
+        // 各項目を入力
+        const eventTargetInput = eventAddPopup.locator('input#event-target');
+        const eventNameInput = eventAddPopup.locator('input#event-name');
+        const commentValueInput = eventAddPopup.locator('input#comment-value');
+        await expect(eventTargetInput).toBeEditable();
+        await expect(eventNameInput).toBeEditable();
+        await expect(commentValueInput).toBeEditable();
+        await eventTargetInput.fill(listenerTarget);
+        await eventNameInput.fill(eventName);
+        await commentValueInput.fill(comment);
+
+        // 「追加」ボタンをクリックしてイベントを登録
+        await eventAddPopup.getByRole('button', { name: uiText('common.add') }).click();
+
+        // ポップアップが閉じるのを待つ（両方非表示になることを確認）
+        await expect(eventAddPopup).toBeHidden();
+        await expect(eventListPopup).toBeHidden();
+
+        // イベントがリストに追加されたことを確認 (コメントで重複回避)
+        const newEventRow = eventContainer.locator(`.editor-row`, { hasText: eventName })
+            .filter({ hasText: comment });
+
+        await expect(newEventRow).toBeVisible();
+        await expect(newEventRow.locator('.comment')).toHaveText(comment);
+    }
+}
@@ -0,0 +1,311 @@
+import { expect, type Locator } from '@playwright/test';
+import { EditorPanel } from './editor-panel';
+import { waitForLitUpdates } from '../settled';
+import { waitForIdle } from '../busy-state';
+import { getDialogManager } from '../dialog-manager';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+import { retryUntil } from '../retry';
+
+/** 操作メニューのアクション */
+export type FileOperation = 'copy' | 'cut' | 'paste' | 'delete' | 'rename' | 'copyPath' | 'newDirectory';
+
+/** サイドバーのボタン */
+export type FileSidebarButton = 'upload' | 'download' | 'toggleSelectAll' | 'close';
+
+/**
+ * 下部メニューの「ファイル管理」から開くファイルエクスプローラー（file-explorer）の操作。
+ */
+export class FileExplorer extends EditorPanel {
+    /** ファイルエクスプローラー */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.fileExplorer.root);
+    }
+
+    /**
+     * ファイルエクスプローラーを開きます。
+     */
+    async open(): Promise<void> {
+        await getDialogManager(this.page).closeAlert();
+
+        const menu = this.page.locator(SELECTORS.editorBottomMenu.root);
+
+        // メニューが表示されるまで、メニューボタンのクリックを繰り返す
+        await retryUntil('FileExplorer.open', async () => {
+            await this.page.locator(SELECTORS.editor.bottomMenuButton).click();
+            await expect(menu).toBeVisible({ timeout: 500 });
+        }, { timeout: 5000 });
+
+        // 「ファイル管理」をクリック
+        await menu.getByText(uiText('fileExplorer.open')).click();
+
+        // ファイルエクスプローラーが表示されるのを待つ
+        const fileExplorerContainer = this.root.locator(SELECTORS.fileExplorer.container);
+        await expect(fileExplorerContainer).toBeVisible({ timeout: 10000 });
+
+        // ロード完了を待つ
+        await this.waitForLoading();
+    }
+
+    /**
+     * ファイルエクスプローラーを閉じます。
+     */
+    async close(): Promise<void> {
+        const closeBtn = this.page.locator(SELECTORS.fileExplorer.sidebarButton, { hasText: uiText('fileExplorer.close') });
+        await closeBtn.click();
+        await expect(this.root).toBeHidden();
+    }
+
+    /**
+     * ファイルエクスプローラーのローディングが消え、ファイルリストが表示されるのを待ちます。
+     */
+    async waitForLoading(): Promise<void> {
+        // 1. ローディングの表示とファイル一覧の通信が解消されるのを待つ
+        await waitForIdle(this.page, 'file-explorer', { timeout: 15000 });
+
+        // 2. 【重要】ファイルリスト（または空メッセージ）がレンダリングされるのを待つ
+        // これにより、ロードオーバーレイが消えた直後の「中身が空」の状態を回避する
+        const explorerContent = this.root.locator(SELECTORS.fileExplorer.content);
+        await expect(explorerContent).toBeVisible();
+    }
+
+    /**
+     * 新規ディレクトリを作成します。
+     */
+    async createDirectory(name: string): Promise<void> {
+        // performOperation を利用してメニュー操作を共通化
+        await this.performOperation('newDirectory');
+
+        // 入力ダイアログの実体（.modal）が表示されるのを待つ
+        const dialog = this.page.locator(SELECTORS.transient.directoryMenu);
+        await expect(dialog).toBeVisible();
+
+        // 名前を入力
+        const input = dialog.locator('.input-field');
+        await expect(input).toBeEditable();
+        await input.fill(name);
+
+        // 作成ボタンをクリック
+        await dialog.locator('#ok-button').click();
+
+        // ダイアログが閉じて、リストの更新が終わるのを待つ
+        await expect(dialog).toBeHidden();
+        await this.waitForLoading();
+
+        // 画面上にディレクトリが出現したことをリトライ込みで検証（CIの遅延対策）
+        await retryUntil('FileExplorer.createDirectory', async () => {
+            await expect(this.root.locator('.directory', { hasText: name })).toBeVisible({ timeout: 5000 });
+        }, { timeout: 30000, initialDelay: 2000 });
+    }
+
+    /**
+     * ファイルまたはディレクトリを選択（クリック）します。
+     * @param name 対象の名前
+     */
+    async selectItem(name: string): Promise<void> {
+        const item = this.page.locator('file-explorer .directory, file-explorer .file').filter({ hasText: name });
+        await expect(item).toBeVisible();
+        await item.click();
+
+        // 選択状態になるまで少し待つ（アプリ側の200msタイマー考慮）
+        await expect(item).toHaveClass(/selected/, { timeout: 5000 });
+    }
+
+    /**
+     * ディレクトリをダブルクリックして中に入ります。
+     */
+    async enterDirectory(name: string): Promise<void> {
+        const explorer = this.root;
+
+        // 1. ドラッグの干渉等による空振りを防ぐため、リトライ込みで実行する
+        await retryUntil('FileExplorer.enterDirectory', async () => {
+            const dir = explorer.locator('.directory').filter({ hasText: name });
+            await expect(dir).toBeVisible();
+
+            // 現在のパンくずの数を取得
+            const links = explorer.locator('.path-link');
+            const beforeCount = await links.count();
+
+            // ダブルクリック
+            await dir.dblclick({ delay: 50, force: true });
+
+            // ロード完了を待つ
+            await this.waitForLoading();
+
+            // パンくずの数が変わっている（中に入った）ことを確認
+            const afterCount = await links.count();
+            expect(afterCount).toBeGreaterThan(beforeCount);
+        });
+    }
+
+    /**
+     * パンくずリストを使ってルートディレクトリ（アプリのルート）に戻ります。
+     */
+    async goBackToRoot(): Promise<void> {
+        const links = this.root.locator('.path-link');
+
+        // アプリのルートはパンくずの 1番目（/[AppKey]）なので nth(0)
+        const rootLink = links.first();
+        await expect(rootLink).toBeVisible();
+
+        // クリック実行
+        await rootLink.click();
+
+        // 1. ローディングを待つ
+        await this.waitForLoading();
+
+        // 2. パンくずリストがルートの長さ（1つ）になるまで待機する
+        await retryUntil('FileExplorer.goBackToRoot', async () => {
+            const count = await links.count();
+            expect(count).toBe(1);
+        }, { timeout: 5000 });
+
+        // DOMの安定を待つ
+        await waitForLitUpdates(this.page, { tags: ['file-explorer'] });
+    }
+
+    /**
+     * サイドバーのボタンをクリックします。
+     */
+    async clickSidebarButton(button: FileSidebarButton): Promise<void> {
+        const btn = this.page.locator(SELECTORS.fileExplorer.sidebarButton).filter({ hasText: uiText(`fileExplorer.${button}`) });
+        await expect(btn).toBeVisible();
+        // 無効化（sidebar-icon-disable）が解除されるのを待つ
+        await expect(btn).not.toHaveClass(/sidebar-icon-disable/, { timeout: 5000 });
+        await btn.click();
+    }
+
+    /**
+     * サイドバーの「全選択/全解除」ボタンをクリックします。
+     */
+    async toggleAllSelect(): Promise<void> {
+        const btn = this.page.locator(SELECTORS.fileExplorer.sidebarButton, { hasText: uiText('fileExplorer.toggleSelectAll') });
+        await btn.click();
+    }
+
+    /**
+     * 操作メニューからアクションを実行します。
+     */
+    async performOperation(operation: FileOperation): Promise<void> {
+        const explorer = this.root;
+
+        await retryUntil('FileExplorer.performOperation', async () => {
+            await getDialogManager(this.page).closeAlert();
+            await explorer.locator(SELECTORS.fileExplorer.operationMenu).click({ timeout: 2000, force: true });
+            const popupList = explorer.locator('file-explorer-popup-menu ul');
+            await expect(popupList).toBeVisible({ timeout: 2000 });
+        });
+
+        const popupList = explorer.locator('file-explorer-popup-menu ul');
+
+        const label = uiText(`fileExplorer.${operation}`);
+        let targetItem: Locator;
+        if (operation === 'paste') {
+            targetItem = popupList.locator('.menu-text').filter({ hasText: label });
+        } else {
+            targetItem = popupList.locator('.menu-text').getByText(label, { exact: true });
+        }
+
+        await expect(targetItem).toBeVisible();
+        await targetItem.click({ force: true });
+
+        await expect(popupList).toBeHidden();
+
+        if (operation === 'delete') {
+            const confirmDialog = explorer.locator('#delete-confirm');
+            const dialogBox = confirmDialog.locator('.message-box-content');
+            await expect(dialogBox).toBeVisible();
+
+            const okButton = confirmDialog.locator('#delete-ok');
+            await expect(okButton).toBeVisible();
+            await okButton.click();
+
+            await expect(dialogBox).toBeHidden();
+        }
+
+        if (['paste', 'delete', 'rename', 'newDirectory'].includes(operation)) {
+            await this.waitForLoading();
+        }
+    }
+
+    /**
+     * 選択したアイテムの名前を変更します。
+     * (既にアイテムが選択されている前提)
+     */
+    async renameSelectedItem(newName: string): Promise<void> {
+        await this.performOperation('rename');
+
+        const dialog = this.page.locator(SELECTORS.transient.directoryMenu);
+        await expect(dialog).toBeVisible();
+
+        const input = dialog.locator('.input-field');
+        await expect(input).toBeEditable();
+        await input.fill(newName);
+        await dialog.locator('#ok-button').click();
+
+        await expect(dialog).toBeHidden();
+        await this.waitForLoading();
+
+        // 名前変更後のディレクトリが出現したことをリトライ込みで検証
+        await retryUntil('FileExplorer.renameSelectedItem', async () => {
+            await expect(this.root.locator('.directory', { hasText: newName })).toBeVisible({ timeout: 5000 });
+        }, { timeout: 30000, initialDelay: 2000 });
+    }
+
+    /**
+     * ファイルをアップロードします。
+     * @param filePaths アップロードするファイルのローカルパス（配列）
+     */
+    async uploadFiles(filePaths: string[]): Promise<void> {
+        // 隠しinput要素にファイルをセット
+        const fileChooserPromise = this.page.waitForEvent('filechooser');
+        await this.page.locator(SELECTORS.fileExplorer.sidebarButton, { hasText: uiText('fileExplorer.upload') }).click();
+        const fileChooser = await fileChooserPromise;
+        await fileChooser.setFiles(filePaths);
+
+        // アップロード完了（ローディング消去）を待つ
+        await this.waitForLoading();
+    }
+
+    /**
+     * 選択中のアイテムをダウンロードします。
+     */
+    async downloadSelectedItems(): Promise<void> {
+        const explorer = this.root;
+
+        // 1. 割り込みアラート（「コピーしました」など）があれば閉じる
+        await getDialogManager(this.page).closeAlert();
+
+        // 2. サイドバーの「ダウンロード」ボタンをクリック
+        const downloadBtn = this.page.locator(SELECTORS.fileExplorer.sidebarButton).filter({ hasText: uiText('fileExplorer.download') });
+        await expect(downloadBtn).toBeVisible();
+        await expect(downloadBtn).not.toHaveClass(/sidebar-icon-disable/);
+        await downloadBtn.click();
+
+        // 3. 確認ダイアログの「中身（.message-box-content）」が表示されるのを待つ
+        const confirmDialog = explorer.locator('file-explorer-confirm-menu#download-confirm');
+        const dialogBox = confirmDialog.locator('.message-box-content');
+        await expect(dialogBox).toBeVisible({ timeout: 15000 });
+
+        // 4. ダイアログ内の「ダウンロード」ボタンをクリック
+        const okButton = confirmDialog.locator('button.confirm-download-button');
+        await expect(okButton).toBeVisible();
+        await okButton.click();
+
+        // 5. ダイアログが消えるのを待つ
+        await expect(dialogBox).toBeHidden();
+        await this.waitForLoading();
+    }
+
+    /**
+     * 表示されているトーストメッセージを確認します。
+     */
+    async expectToastMessage(message: string | RegExp): Promise<void> {
+        // 重要：ホスト要素ではなく、中の黒い背景部分（.popup-text）を直接待つ
+        const toastInner = this.root.locator(`${SELECTORS.fileExplorer.container} popup-message-element .popup-text`)
+            .filter({ hasText: message });
+
+        // この .popup-text はサイズを持っているので toBeVisible が通る
+        await expect(toastInner).toBeVisible({ timeout: 10000 });
+    }
+}
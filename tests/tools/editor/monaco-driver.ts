@@ -0,0 +1,295 @@
+import { type Locator, type Page } from '@playwright/test';
+import { getInputStrategy } from '../input-strategy';
+
+/** エディタ上の位置（行・列は1始まり） */
+export type MonacoPosition = { lineNumber: number; column: number };
+
+/** エディタ上の範囲（行・列は1始まり） */
+export type MonacoRange = { startLineNumber: number; startColumn: number; endLineNumber: number; endColumn: number };
+
+/** 元に戻す（undo）・やり直す（redo）の状態 */
+export type MonacoUndoState = {
+    canUndo: boolean;
+    canRedo: boolean;
+    /** 編集のたびに増えるバージョン */
+    versionId: number;
+    /** undo で元の内容に戻ると、元のバージョンと同じ値に戻るバージョン */
+    alternativeVersionId: number;
+};
+
+/** 診断結果（マーカー）の重要度 */
+export type MonacoMarkerSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * エディタが表示している診断結果（構文エラーの波線など）。行・列は1始まりです。
+ */
+export type MonacoMarker = {
+    severity: MonacoMarkerSeverity;
+    message: string;
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+    /** 診断を行った言語サービス（例: 'ts'、'css'） */
+    source?: string;
+    /** エラーコード（例: TypeScript の '1005'） */
+    code?: string;
+};
+
+type MonacoOperation =
+    | { name: 'isReady' }
+    | { name: 'getValue' }
+    | { name: 'setValue'; value: string }
+    | { name: 'type'; text: string }
+    | { name: 'focus' }
+    | { name: 'getPosition' }
+    | { name: 'setPosition'; position: MonacoPosition }
+    | { name: 'getSelection' }
+    | { name: 'setSelection'; range: MonacoRange }
+    | { name: 'getSelectedText' }
+    | { name: 'runAction'; id: string }
+    | { name: 'undoState' }
+    | { name: 'markers' };
+
+/**
+ * エディタに埋め込まれた Monaco Editor（スクリプト編集画面・スタイル編集・テストシナリオ編集など）の操作。
+ * `.monaco-editor` 要素を含む Shadow DOM のホスト（Lit 要素）から、エディタのインスタンス
+ * （`styleEditor` / `monacoEditor` などのプロパティ）を探して API を直接呼び出します。
+ *
+ * @example
+ * const monaco = new MonacoDriver(scriptContainer.locator('.monaco-editor[role="code"]'));
+ * await monaco.setValue('function init(event) {\n}');
+ * await monaco.setPosition({ lineNumber: 2, column: 1 });
+ * await monaco.type('    console.log(event);\n');
+ */
+export class MonacoDriver {
+    /**
+     * @param root `.monaco-editor` 要素の Locator
+     */
+    constructor(readonly root: Locator) { }
+
+    private get page(): Page {
+        return this.root.page();
+    }
+
+    /**
+     * エディタが表示され、インスタンスとモデルが取得できるようになるまで待機します。
+     */
+    async waitForReady(timeout: number = 10000): Promise<void> {
+        await this.root.waitFor({ state: 'visible', timeout });
+        const deadline = Date.now() + timeout;
+        while (!await this.call<boolean>({ name: 'isReady' }).catch(() => false)) {
+            if (Date.now() > deadline) {
+                throw new Error(`[Monaco] ${timeout}ms 以内に Monaco Editor のインスタンスが見つかりませんでした`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+    }
+
+    /**
+     * エディタの内容を返します。
+     * インスタンスが取得できない場合（モバイルなど）は、表示中のテキストから取得します。
+     */
+    async getValue(): Promise<string> {
+        const value = await this.call<string>({ name: 'getValue' }).catch(() => null);
+        if (value !== null) return value;
+
+        const viewLines = this.root.locator('.view-lines');
+        if (await viewLines.isVisible()) {
+            return await viewLines.innerText();
+        }
+        return await this.root.locator('textarea').first().inputValue();
+    }
+
+    /**
+     * エディタの内容を置き換えます。
+     * ユーザーの編集と同じく変更イベント（onDidChangeModelContent）を発生させ、undo の履歴にも残るため、
+     * 保存ボタンの「変更あり」の表示（shake-save-button）も切り替わります。
+     * API で反映できなかった場合は、全選択して入力し直します。
+     */
+    async setValue(value: string): Promise<void> {
+        await this.waitForReady();
+        const actual = await this.call<string>({ name: 'setValue', value }).catch(() => null);
+        if (actual !== null && actual.trim() === value.trim()) return;
+
+        console.warn(`[Monaco] API で値を設定できなかったため、キーボード入力で設定します`);
+        const textarea = this.root.locator('textarea').first();
+        const input = getInputStrategy(this.page);
+        await this.root.locator('.view-lines').click();
+        await textarea.focus();
+        await this.page.keyboard.press('Escape');
+        await input.clearField(textarea);
+        await input.typeText(textarea, value);
+        await this.page.keyboard.press('Escape');
+    }
+
+    /**
+     * カーソル位置にテキストを入力します（選択範囲がある場合は置き換えます）。
+     * キーボード入力と同じく、自動インデントや括弧の補完が適用されます。
+     */
+    async type(text: string): Promise<void> {
+        await this.call({ name: 'type', text });
+    }
+
+    /**
+     * エディタにフォーカスを移します。
+     */
+    async focus(): Promise<void> {
+        await this.call({ name: 'focus' });
+    }
+
+    /**
+     * カーソル位置を返します。
+     */
+    async getPosition(): Promise<MonacoPosition> {
+        return await this.call<MonacoPosition>({ name: 'getPosition' });
+    }
+
+    /**
+     * カーソルを指定した位置に移動し、エディタにフォーカスを移します。
+     */
+    async setPosition(position: MonacoPosition): Promise<void> {
+        await this.call({ name: 'setPosition', position });
+    }
+
+    /**
+     * 選択範囲を返します。
+     */
+    async getSelection(): Promise<MonacoRange> {
+        return await this.call<MonacoRange>({ name: 'getSelection' });
+    }
+
+    /**
+     * 指定した範囲を選択し、エディタにフォーカスを移します。
+     */
+    async select(range: MonacoRange): Promise<void> {
+        await this.call({ name: 'setSelection', range });
+    }
+
+    /**
+     * 選択中のテキストを返します。
+     */
+    async getSelectedText(): Promise<string> {
+        return await this.call<string>({ name: 'getSelectedText' });
+    }
+
+    /**
+     * エディタのアクション（例: 'editor.action.formatDocument'、'undo'）を実行します。
+     */
+    async runAction(id: string): Promise<void> {
+        await this.call({ name: 'runAction', id });
+    }
+
+    /**
+     * 元に戻す（undo）・やり直す（redo）の状態を返します。
+     */
+    async getUndoState(): Promise<MonacoUndoState> {
+        return await this.call<MonacoUndoState>({ name: 'undoState' });
+    }
+
+    /**
+     * エディタのモデルに設定されている診断結果（マーカー）を返します。
+     * 診断は入力後に言語サービスが非同期で行うため、結果を待つ場合は monaco-matchers.ts の
+     * toHaveMonacoError などのマッチャーを使用してください。
+     */
+    async getMarkers(options: { severity?: MonacoMarkerSeverity } = {}): Promise<MonacoMarker[]> {
+        const markers = await this.call<MonacoMarker[]>({ name: 'markers' });
+        return options.severity ? markers.filter(marker => marker.severity === options.severity) : markers;
+    }
+
+    /**
+     * エディタのインスタンスを探して操作を実行します。
+     * evaluate に渡す関数はブラウザ内で実行されるため、インスタンスの探索も含めて1つの関数にまとめています。
+     */
+    private async call<T = void>(operation: MonacoOperation): Promise<T> {
+        return await this.root.evaluate(async (el: Element, op: MonacoOperation) => {
+            const isEditor = (value: any) => value && typeof value.getModel === 'function' && typeof value.getDomNode === 'function';
+            const host = (el.getRootNode() as ShadowRoot).host as any;
+            const candidates: any[] = host
+                ? [...new Set(['styleEditor', 'monacoEditor', 'editor', ...Object.keys(host)].map(key => host[key]))].filter(isEditor)
+                : [];
+            // 1つのホストに複数のエディタがある場合は、この要素を含むエディタを選びます
+            const editor = candidates.find(candidate => {
+                const node: Element | null = candidate.getDomNode();
+                return node && (node === el || node.contains(el) || el.contains(node));
+            }) ?? candidates[0];
+
+            if (op.name === 'isReady') return !!editor?.getModel();
+            if (!editor) throw new Error('Monaco Editor のインスタンスが見つかりません');
+            const model = editor.getModel();
+
+            switch (op.name) {
+                case 'getValue':
+                    return model.getValue();
+                case 'setValue': {
+                    editor.pushUndoStop();
+                    const applied = editor.executeEdits('playwright', [{ range: model.getFullModelRange(), text: op.value, forceMoveMarkers: true }]);
+                    // 読み取り専用などで編集できない場合はモデルを直接書き換えます
+                    if (!applied) model.setValue(op.value);
+                    editor.pushUndoStop();
+                    return model.getValue();
+                }
+                case 'type':
+                    editor.focus();
+                    editor.trigger('keyboard', 'type', { text: op.text });
+                    return;
+                case 'focus':
+                    editor.focus();
+                    return;
+                case 'getPosition': {
+                    const { lineNumber, column } = editor.getPosition();
+                    return { lineNumber, column };
+                }
+                case 'setPosition':
+                    editor.setPosition(op.position);
+                    editor.revealPositionInCenter(op.position);
+                    editor.focus();
+                    return;
+                case 'getSelection': {
+                    const { startLineNumber, startColumn, endLineNumber, endColumn } = editor.getSelection();
+                    return { startLineNumber, startColumn, endLineNumber, endColumn };
+                }
+                case 'setSelection':
+                    editor.setSelection(op.range);
+                    editor.revealRangeInCenter(op.range);
+                    editor.focus();
+                    return;
+                case 'getSelectedText':
+                    return model.getValueInRange(editor.getSelection());
+                case 'runAction': {
+                    const action = editor.getAction(op.id);
+                    if (action) {
+                        await action.run();
+                    } else {
+                        // undo / redo などのコマンドはアクションとして登録されていません
+                        editor.trigger('playwright', op.id, null);
+                    }
+                    return;
+                }
+                case 'undoState':
+                    return {
+                        canUndo: model.canUndo(),
+                        canRedo: model.canRedo(),
+                        versionId: model.getVersionId(),
+                        alternativeVersionId: model.getAlternativeVersionId(),
+                    };
+                case 'markers': {
+                    // monaco の名前空間はホストの `monaco` プロパティか、グローバルに公開されています
+                    const monaco = host.monaco ?? (window as any).monaco;
+                    if (!monaco) throw new Error('monaco の名前空間が見つかりません');
+                    const severities: Record<number, string> = { 8: 'error', 4: 'warning', 2: 'info', 1: 'hint' };
+                    return monaco.editor.getModelMarkers({ resource: model.uri }).map((marker: any) => ({
+                        severity: severities[marker.severity] ?? 'info',
+                        message: marker.message,
+                        line: marker.startLineNumber,
+                        column: marker.startColumn,
+                        endLine: marker.endLineNumber,
+                        endColumn: marker.endColumn,
+                        source: marker.source,
+                        code: typeof marker.code === 'object' ? marker.code?.value : marker.code,
+                    }));
+                }
+            }
+        }, operation) as T;
+    }
+}
@@ -0,0 +1,114 @@
+import { type ExpectMatcherState, type Locator, type MatcherReturnType } from '@playwright/test';
+import { MonacoDriver, type MonacoMarker, type MonacoMarkerSeverity } from './monaco-driver';
+
+/**
+ * 期待する診断結果（マーカー）の条件。指定しなかった項目は比較しません。
+ */
+export type ExpectedMonacoMarker = {
+    /** 開始行（1始まり） */
+    line?: number;
+    /** 開始列（1始まり） */
+    column?: number;
+    /** メッセージ。文字列は部分一致です */
+    message?: string | RegExp;
+};
+
+type MarkerMatcherOptions = {
+    /** 言語サービスの診断を待つ時間（デフォルト: expect のタイムアウト） */
+    timeout?: number;
+};
+
+const POLL_INTERVAL = 200;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toDriver = (target: MonacoDriver | Locator): MonacoDriver => target instanceof MonacoDriver ? target : new MonacoDriver(target);
+
+const matches = (marker: MonacoMarker, severity: MonacoMarkerSeverity | null, expected: ExpectedMonacoMarker): boolean => {
+    if (severity && marker.severity !== severity) return false;
+    if (expected.line !== undefined && marker.line !== expected.line) return false;
+    if (expected.column !== undefined && marker.column !== expected.column) return false;
+    if (expected.message === undefined) return true;
+    return typeof expected.message === 'string' ? marker.message.includes(expected.message) : expected.message.test(marker.message);
+};
+
+const describe = (marker: MonacoMarker) => `  - ${marker.severity} ${marker.line}:${marker.column} ${marker.message}${marker.code ? ` (${marker.source ?? ''}${marker.code})` : ''}`;
+
+/**
+ * 条件に一致するマーカーが現れる（.not の場合は消える）まで、マーカーを繰り返し取得します。
+ * 言語サービスの診断は入力から遅れて反映されるため、タイムアウトまで待ってから判定します。
+ * タイムアウトまでマーカーを取得できなかった場合は、.not の有無にかかわらず失敗します。
+ */
+async function markerMatcher(
+    state: ExpectMatcherState,
+    name: string,
+    target: MonacoDriver | Locator,
+    severity: MonacoMarkerSeverity | null,
+    expected: ExpectedMonacoMarker & { severity?: MonacoMarkerSeverity },
+    options: MarkerMatcherOptions,
+): Promise<MatcherReturnType> {
+    const driver = toDriver(target);
+    const timeout = options.timeout ?? state.timeout;
+    const deadline = Date.now() + timeout;
+
+    let markers: MonacoMarker[] = [];
+    let found = false;
+    let error: unknown = null;
+    while (true) {
+        try {
+            markers = await driver.getMarkers();
+            error = null;
+        } catch (e) {
+            // エディタの初期化中はインスタンスが取得できないため、タイムアウトまで再取得します
+            error = e;
+        }
+        found = markers.some(marker => matches(marker, severity, expected));
+        if (!error && found !== state.isNot) break;
+        if (Date.now() >= deadline) break;
+        await sleep(POLL_INTERVAL);
+    }
+
+    const label = severity ?? expected.severity ?? 'marker';
+    const expectation = state.isNot ? `条件に一致する ${label} がないこと` : `条件に一致する ${label} があること`;
+    const message = () => [
+        state.utils.matcherHint(name, undefined, undefined, { isNot: state.isNot }),
+        '',
+        `期待値: ${expectation} ${state.utils.printExpected(expected)}`,
+        error ? `エラー: ${error instanceof Error ? error.message : String(error)}` : `実際のマーカー:${markers.length === 0 ? ' なし' : '\n' + markers.map(describe).join('\n')}`,
+    ].join('\n');
+
+    // マーカーを取得できないまま終わった場合は、.not でもマーカーがないとは判断できないため、どちらの向きでも失敗させます
+    if (error) return { pass: state.isNot, message, name, expected, actual: markers, timeout };
+
+    return { pass: found, message, name, expected, actual: markers, timeout };
+}
+
+/**
+ * Monaco Editor の診断結果（マーカー）のマッチャー。test-fixtures.ts の expect に登録しています。
+ * 対象には MonacoDriver または `.monaco-editor` 要素の Locator を指定します。
+ *
+ * @example
+ * await expect(editorHelper.scripts.monaco).toHaveMonacoError({ line: 1, message: 'expected' });
+ * await expect(editorHelper.properties.styleEditor).not.toHaveMonacoError();
+ */
+export const monacoMatchers = {
+    /**
+     * 条件に一致するエラー（severity: error）が表示されていることを検証します。
+     * 条件を省略した場合は、いずれかのエラーが表示されていることを検証します（.not ではエラーがないこと）。
+     */
+    async toHaveMonacoError(this: ExpectMatcherState, target: MonacoDriver | Locator, expected: ExpectedMonacoMarker = {}, options: MarkerMatcherOptions = {}) {
+        return await markerMatcher(this, 'toHaveMonacoError', target, 'error', expected, options);
+    },
+
+    /**
+     * 条件に一致するマーカーが表示されていることを検証します。severity を省略した場合は重要度を問いません。
+     */
+    async toHaveMonacoMarker(
+        this: ExpectMatcherState,
+        target: MonacoDriver | Locator,
+        expected: ExpectedMonacoMarker & { severity?: MonacoMarkerSeverity } = {},
+        options: MarkerMatcherOptions = {},
+    ) {
+        return await markerMatcher(this, 'toHaveMonacoMarker', target, expected.severity ?? null, expected, options);
+    },
+};
@@ -0,0 +1,128 @@
+import { type Locator, type Page } from '@playwright/test';
+import { getGestures } from '../gestures';
+import { SELECTORS } from '../selectors';
+
+/** サイドパネル。left は template-container、right は script-container です */
+export type PanelSide = 'left' | 'right';
+
+/**
+ * サイドパネルの状態。
+ * - docked: デスクトップ表示で常に表示されている（開閉ハンドルがない）
+ * - open / closed: モバイル表示で画面内に開いている / 画面外に閉じている
+ * - moving: 開閉のアニメーション中
+ */
+export type PanelState = 'docked' | 'open' | 'closed' | 'moving';
+
+/** ハンドルの操作1回分の結果 */
+export type PanelToggleAttempt = { action: string; state: PanelState; error?: string };
+
+const PANELS: Record<PanelSide, { container: string; handle: string; label: string }> = {
+    left: { container: SELECTORS.editor.templateContainer, handle: SELECTORS.editor.leftMovingHandle, label: '左パネル（template-container）' },
+    right: { container: SELECTORS.editor.scriptContainer, handle: SELECTORS.editor.rightMovingHandle, label: '右パネル（script-container）' },
+};
+
+/**
+ * ハンドルの開閉操作。上から順に1回ずつ試し、状態が変わらなければ次の操作を試します。
+ * ハンドルはダブルタップで開閉し、端末によってはシングルタップにも反応します。
+ */
+const TOGGLE_ACTIONS: { name: string; run: (handle: Locator) => Promise<void> }[] = [
+    { name: 'doubleTap', run: handle => getGestures(handle.page()).doubleTap(handle, { timeout: 1000 }) },
+    { name: 'tap', run: handle => getGestures(handle.page()).tap(handle, { timeout: 1000 }) },
+];
+
+/** 操作後にアニメーションの完了を待つ時間 */
+const SETTLE_TIMEOUT = 3000;
+const POLL_INTERVAL = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * ハンドルを操作してもサイドパネルの状態が変わらなかった場合のエラー。
+ */
+export class PanelToggleError extends Error {
+    constructor(readonly side: PanelSide, readonly goal: 'open' | 'closed', readonly attempts: PanelToggleAttempt[]) {
+        super([
+            `[Panel] ${PANELS[side].label}を${goal === 'open' ? '開けませんでした' : '閉じられませんでした'}`,
+            ...attempts.map(attempt => `  - ${attempt.action} 後の状態: ${attempt.state}${attempt.error ? `（操作エラー: ${attempt.error}）` : ''}`),
+        ].join('\n'));
+        this.name = 'PanelToggleError';
+    }
+}
+
+/**
+ * 左右のサイドパネル（template-container / script-container）の開閉。
+ * パネルの位置とハンドルの有無からエディタ上の実際の状態を読み取り、目的の状態になるまで1回ずつハンドルを操作します。
+ * デスクトップ表示（両方のパネルが常に表示されている）では操作を行わずに状態を確認するだけのため、呼び出し側で表示の種類を判定する必要はありません。
+ */
+export class PanelController {
+    constructor(private readonly page: Page) { }
+
+    /** サイドパネル */
+    container(side: PanelSide): Locator {
+        return this.page.locator(PANELS[side].container).first();
+    }
+
+    /** サイドパネルの開閉ハンドル（モバイル表示のみ） */
+    handle(side: PanelSide): Locator {
+        return this.page.locator(PANELS[side].handle);
+    }
+
+    /**
+     * サイドパネルの現在の状態を返します。
+     * 閉じたパネルは画面外に移動するだけで表示状態（isVisible）は変わらないため、ビューポート内に入っている幅で判定します。
+     */
+    async state(side: PanelSide): Promise<PanelState> {
+        const container = this.container(side);
+        if (!await this.handle(side).isVisible()) {
+            return await container.isVisible() ? 'docked' : 'closed';
+        }
+
+        const box = await container.boundingBox();
+        const viewportWidth = this.page.viewportSize()?.width ?? await this.page.evaluate(() => window.innerWidth);
+        if (!box || box.width === 0) return 'closed';
+
+        const visibleWidth = Math.min(box.x + box.width, viewportWidth) - Math.max(box.x, 0);
+        if (visibleWidth <= 1) return 'closed';
+        return visibleWidth >= box.width - 1 ? 'open' : 'moving';
+    }
+
+    /**
+     * 指定したサイドパネルだけが開いている状態にします。'none' の場合はすべて閉じます。
+     * デスクトップ表示で常に表示されているパネルはそのままにします。
+     * @throws PanelToggleError ハンドルを操作しても状態が変わらなかった場合
+     */
+    async ensurePanel(target: PanelSide | 'none'): Promise<void> {
+        // モバイル表示では開いているパネルがもう一方のハンドルを覆うことがあるため、先に閉じます
+        for (const side of ['left', 'right'] as const) {
+            if (side !== target) await this.toggleTo(side, 'closed');
+        }
+        if (target !== 'none') await this.toggleTo(target, 'open');
+    }
+
+    private async toggleTo(side: PanelSide, goal: 'open' | 'closed'): Promise<void> {
+        let state = await this.waitForSettled(side);
+        if (state === 'docked' || state === goal) return;
+
+        const attempts: PanelToggleAttempt[] = [];
+        for (const action of TOGGLE_ACTIONS) {
+            const error = await action.run(this.handle(side)).then(() => null, (e: Error) => e);
+            state = await this.waitForSettled(side, goal);
+            if (state === goal) return;
+            attempts.push({ action: action.name, state, error: error?.message.split('\n')[0] });
+        }
+        throw new PanelToggleError(side, goal, attempts);
+    }
+
+    /**
+     * 開閉のアニメーションが終わるまで待ち、状態を返します。goal を指定した場合は goal になった時点で終了します。
+     */
+    private async waitForSettled(side: PanelSide, goal?: PanelState): Promise<PanelState> {
+        const deadline = Date.now() + SETTLE_TIMEOUT;
+        let state = await this.state(side);
+        while (state !== goal && (goal || state === 'moving') && Date.now() < deadline) {
+            await sleep(POLL_INTERVAL);
+            state = await this.state(side);
+        }
+        return state;
+    }
+}
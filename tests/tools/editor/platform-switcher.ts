@@ -0,0 +1,118 @@
+import { expect, type Locator, type Page } from '@playwright/test';
+import { EditorPanel } from './editor-panel';
+import { getInputStrategy } from '../input-strategy';
+import { getConsoleCollector } from '../console-collector';
+import { waitForSettled } from '../settled';
+import { waitForIdle } from '../busy-state';
+import { DialogRules, getDialogManager } from '../dialog-manager';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+import { retryUntil } from '../retry';
+
+/**
+ * プレビュー上部のプラットフォーム切り替え（platform-switcher）と、下部メニュー（#platformBottomMenu）の操作。
+ */
+export class PlatformSwitcher extends EditorPanel {
+    /** プラットフォーム切り替え */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.editor.platformSwitcher);
+    }
+
+    /** 下部メニュー */
+    get bottomMenu(): Locator {
+        return this.page.locator(SELECTORS.editorBottomMenu.root);
+    }
+
+    /**
+     * 動作モードに切り替え、必要に応じてアラートを検証します。
+     * @param options オプション
+     * @param options.expectedAlertText 検証したいアラートのテキスト（指定しない場合はアラート検証をスキップ）
+     */
+    async switchToRunMode(options: { expectedAlertText?: string } = {}): Promise<void> {
+        const platformSwitcher = this.root;
+        const menu = platformSwitcher.locator(SELECTORS.transient.platformEditMenu);
+
+        // メニュー展開時のチャタリング（開閉の繰り返し）防止ガード
+        await retryUntil('PlatformSwitcher.switchToRunMode(open)', async () => {
+            if (!await menu.isVisible()) {
+                await platformSwitcher.locator('.screen-rotete-container').click({ force: true });
+            }
+            await expect(menu).toBeVisible({ timeout: 2000 });
+        }, { timeout: 10000 });
+
+        await menu.getByText(uiText('platform.run')).click({ force: true });
+
+        // メニュー閉鎖時のチャタリング防止ガード
+        await retryUntil('PlatformSwitcher.switchToRunMode(close)', async () => {
+            if (await menu.isVisible()) {
+                await platformSwitcher.locator('.screen-rotete-container').click({ force: true });
+            }
+            await expect(menu).toBeHidden({ timeout: 2000 });
+        }, { timeout: 10000 });
+
+        if (options.expectedAlertText) {
+            const previewFrame = this.page.locator(SELECTORS.editor.renderzone).contentFrame();
+            const alertDialog = previewFrame.locator('ons-alert-dialog');
+            await expect(alertDialog).toBeVisible();
+            await expect(alertDialog).toContainText(options.expectedAlertText);
+            const alertDialogButton = alertDialog.locator('ons-alert-dialog-button');
+            await alertDialogButton.click();
+            await expect(alertDialog).toBeHidden();
+        }
+    }
+
+    /**
+     * エディタの内容を保存し、QRコードから実機テストページを新しいタブで開きます。
+     */
+    async saveAndOpenTestPage(): Promise<Page> {
+        const menuButton = this.page.locator(SELECTORS.editor.bottomMenuButton);
+        const platformBottomMenu = this.bottomMenu;
+        await expect(menuButton).toBeVisible();
+        await expect(menuButton).toBeEnabled();
+        await menuButton.click();
+        await expect(platformBottomMenu).toBeVisible();
+
+        // 保存ボタンを押す前に、保存通信(API)の完了を監視する準備をする
+        const saveResponsePromise = this.page.waitForResponse(
+            response => response.request().method() === 'PUT' && response.url().includes('editor'),
+            { timeout: 30000 }
+        ).catch(() => null);
+
+        // 保存をクリック
+        await platformBottomMenu.getByText(uiText('platform.save'), { exact: true }).click();
+
+        // 「処理中」の表示と保存の通信が解消されるのを待つ
+        await waitForIdle(this.page, 'editor');
+
+        // ネットワークレベルで保存APIの通信が完了するのを確実に待つ
+        await saveResponsePromise;
+
+        // 保存に続くファイル書き込み・再読み込みの通信が完了するのを待つ
+        await waitForSettled(this.page, { timeout: 30000 });
+
+        // アラートにエラー文字が含まれていればテストを強制終了させる
+        await getDialogManager(this.page).closeAlert({ rules: [DialogRules.failOnErrorAlerts] });
+
+        // 保存後にメニューが閉じていたら再度開く
+        await retryUntil('PlatformSwitcher.saveAndOpenTestPage(menu)', async () => {
+            if (!await platformBottomMenu.isVisible()) {
+                await menuButton.click({ force: true, timeout: 2000 }).catch(() => { });
+                await expect(platformBottomMenu).toBeVisible({ timeout: 2000 });
+            }
+        }, { timeout: 10000 });
+
+        // 新しいタブを開く操作はブラウザごとに異なるため、入力操作の切り替えに任せます
+        const testPage = await getInputStrategy(this.page).openPopup(async () => {
+            await this.page.locator(SELECTORS.transient.qrcode).click({ force: true }).catch(async () => {
+                await this.page.locator(SELECTORS.transient.qrcode).evaluate((el: HTMLElement) => el.click());
+            });
+        });
+        getConsoleCollector(this.page.context())?.label(testPage, 'test-page');
+        getDialogManager(testPage);
+
+        await testPage.waitForLoadState('domcontentloaded');
+        // console.log(`[TestPage URL] 開いた実機テストページのURL: ${testPage.url()}`);
+
+        return testPage;
+    }
+}
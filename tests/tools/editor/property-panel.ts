@@ -0,0 +1,152 @@
+import { expect, type Locator } from '@playwright/test';
+import { EditorPanel, switchTabInContainer } from './editor-panel';
+import { MonacoDriver } from './monaco-driver';
+import { getDialogManager } from '../dialog-manager';
+import { uiText, type UiStringId } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+import { retryUntil } from '../retry';
+
+type PropertyStringId = Extract<UiStringId, `property.${string}`>;
+
+/** 属性キーと表示名の文言 ID */
+const PROPERTY_LABELS: Record<string, PropertyStringId> = {
+    'domId': 'property.domId',
+    'explain': 'property.explain',
+    'class': 'property.class',
+    'text': 'property.text',
+    'template-id': 'property.templateId',
+    'style-flex': 'property.styleFlex',
+    'style-flexitem': 'property.styleFlexItem',
+    'style-spacing': 'property.styleSpacing',
+    'style-typography': 'property.styleTypography',
+    'style-background': 'property.styleBackground',
+    'style-border': 'property.styleBorder',
+    'style-shadow': 'property.styleShadow',
+    'style-sizing': 'property.styleSizing',
+};
+
+/**
+ * プロパティパネル（property-container）と属性編集モーダルの操作。
+ */
+export class PropertyPanel extends EditorPanel {
+    /** プロパティパネル */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.editor.propertyContainer);
+    }
+
+    /** 「スタイル」タブのCSSエディタ（Monaco Editor）の操作 */
+    get styleEditor(): MonacoDriver {
+        return new MonacoDriver(this.root.locator(SELECTORS.transient.styleEditor));
+    }
+
+    /**
+     * プロパティパネルを開き、指定したタブ（'属性' / 'スタイル' / 'アプリ設定'）に切り替えます。
+     */
+    async switchTab(tabName: string): Promise<void> {
+        await this.panels.ensurePanel('right');
+        await switchTabInContainer(this.page, this.root, tabName);
+    }
+
+    /**
+     * プロパティパネル内の指定された属性のUI要素（入力欄やカスタム要素）を取得します。
+     * @param attributeNameOrTagName 属性名またはカスタムタグ名 (例: 'text', 'style-flex-item')
+     * @returns 指定された属性UI要素のLocator
+     */
+    getInput(attributeNameOrTagName: string): Locator {
+        // ホスト要素（attribute-input等）を特定。内部のinputとの重複を避けるため.first()を適用
+        return this.root.locator(`[data-attribute-type="${attributeNameOrTagName}"], ${attributeNameOrTagName}`).first();
+    }
+
+    /**
+     * 属性キーから画面上の表示名を取得します。表示名が登録されていない属性はキーをそのまま返します。
+     */
+    getDisplayName(key: string): string {
+        const id = PROPERTY_LABELS[key];
+        return id ? uiText(id) : key;
+    }
+
+    /**
+     * 「属性を編集」ボタン（歯車アイコン）をクリックしてモーダルを開きます。
+     */
+    async openAttributeEditor(): Promise<void> {
+        await this.panels.ensurePanel('right');
+        await this.root.getByTitle(uiText('property.editAttributes')).click();
+        await expect(this.page.locator(SELECTORS.transient.attributeList)).toBeVisible();
+    }
+
+    /**
+     * 属性編集モーダルで新しい属性定義を追加します。
+     * @param name 属性名
+     * @param template テンプレート文字列 (例: 'input[text]', 'style-flex')
+     * @param scope 'element' (要素に) または 'tag' (タグに)
+     */
+    async addAttributeDefinition({ name, template, scope }: { name: string; template: string; scope: 'element' | 'tag' }): Promise<void> {
+        const propertyContainer = this.root;
+        const scopeButtonName = uiText(scope === 'element' ? 'property.addToElement' : 'property.addToTag');
+
+        // 1. 設定用モーダルを起動して入力するフェーズ
+        await expect(propertyContainer).toBeVisible();
+        await propertyContainer.getByRole('button', { name: scopeButtonName }).click();
+
+        const nameCombobox = propertyContainer.getByRole('combobox', { name: uiText('property.attributeName') });
+        const templateCombobox = propertyContainer.getByRole('combobox', { name: uiText('property.template') });
+
+        await expect(nameCombobox).toBeEditable();
+        await expect(templateCombobox).toBeEditable();
+
+        await nameCombobox.fill(name);
+        await templateCombobox.fill(template);
+
+        await propertyContainer.getByRole('button', { name: uiText('common.add') }).click();
+
+        // 2. モーダルが閉じて、追加された入力フィールドがDOMに描画されるまでのラグを retryUntil で吸収
+        const newPropertyRow = propertyContainer.locator(`[data-attribute-type="${name}"], [data-attribute-key="${name}"]`).first();
+
+        await retryUntil('PropertyPanel.addAttributeDefinition', async () => {
+            // アラート（重複エラー等）が割り込んでいないか確認
+            await getDialogManager(this.page).closeAlert();
+
+            // 設定用ポップアップが完全に閉じていることを確認
+            await expect(propertyContainer.locator(SELECTORS.transient.attributeList)).toBeHidden({ timeout: 1000 });
+
+            // 追加された行が可視（レンダリング済み）になっていることを検証
+            await expect(newPropertyRow).toBeVisible({ timeout: 1000 });
+        });
+    }
+
+    /**
+     * 属性編集モーダルで指定した属性定義を削除します。
+     * @param name 削除する属性名
+     */
+    async deleteAttributeDefinition(name: string): Promise<void> {
+        const attrList = this.root.locator(SELECTORS.transient.attributeList);
+
+        const targetRow = attrList.locator(`div.attribute-item[data-attribute-key="${name}"]`);
+        await targetRow.locator('.edit-icon').click();
+
+        getDialogManager(this.page).acceptNext();
+        await this.root.getByRole('button', { name: uiText('common.delete') }).click();
+        await expect(targetRow).toBeHidden();
+    }
+
+    /**
+     * プロパティ入力欄の行がハイライトされているか（特定の背景色か）を検証します。
+     * @param propertyInputLocator 検証対象のプロパティ入力欄のLocator
+     * @param expectedColor 期待する背景色 (例: 'rgba(0, 112, 255, 0.11)')。色がついていないことを期待する場合は null を渡す。
+     */
+    async expectHighlight(propertyInputLocator: Locator, expectedColor: string | null): Promise<void> {
+        const backgroundColor = await propertyInputLocator.evaluate(el => {
+            const root = el.getRootNode();
+            if (!(root instanceof ShadowRoot)) return null;
+            const hostElement = root.host;
+            const editorRow = hostElement.closest('.editor-row');
+            return editorRow ? window.getComputedStyle(editorRow).backgroundColor : null;
+        });
+
+        if (expectedColor) {
+            expect(backgroundColor).toBe(expectedColor);
+        } else {
+            expect(backgroundColor).toBe('rgba(0, 0, 0, 0)');
+        }
+    }
+}
@@ -0,0 +1,108 @@
+import { expect, type Locator } from '@playwright/test';
+import { ScriptContainerPanel } from './editor-panel';
+import { MonacoDriver } from './monaco-driver';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+
+/**
+ * 右側のサブウィンドウの「スクリプト」タブ（スクリプト一覧とMonaco Editorによる編集画面）の操作。
+ */
+export class ScriptPanel extends ScriptContainerPanel {
+    protected readonly tabName = uiText('tab.script');
+
+    /** スクリプト一覧 */
+    get root(): Locator {
+        return this.scriptContainer.locator(SELECTORS.transient.scriptList);
+    }
+
+    /** スクリプト編集画面のMonaco Editor */
+    get monacoEditor(): Locator {
+        return this.scriptContainer.locator('.monaco-editor[role="code"]');
+    }
+
+    /** スクリプト編集画面のMonaco Editorの操作 */
+    get monaco(): MonacoDriver {
+        return new MonacoDriver(this.monacoEditor);
+    }
+
+    /**
+     * 新しいスクリプトを追加します。
+     * @param scriptName - 追加するスクリプトの名前
+     * @param scriptType - 'function' または 'class'
+     */
+    async add(scriptName: string, scriptType: 'function' | 'class' = 'function'): Promise<void> {
+        const scriptListContainer = this.root;
+        const scriptAddButton = scriptListContainer.getByTitle(uiText('script.add'));
+        await scriptAddButton.click();
+
+        const addMenu = scriptListContainer.locator('#scriptAddMenu');
+        await expect(addMenu).toBeVisible();
+        await addMenu.locator(`input[type="radio"][value="${scriptType}"]`).check();
+        const scriptNameInput = addMenu.locator('input#script-name');
+        await expect(scriptNameInput).toBeEditable();
+        await scriptNameInput.fill(scriptName);
+        await addMenu.locator(`button:has-text("${uiText('common.add')}")`).click();
+        await expect(addMenu).toBeHidden();
+        await expect(this.scriptContainer.locator(`.editor-row-left:has-text("${scriptName}")`)).toBeVisible();
+    }
+
+    /**
+     * スクリプト一覧から指定された名前のスクリプトを探し、編集画面を開きます。
+     * @param scriptName 編集したいスクリプトの名前
+     */
+    async openForEditing(scriptName: string): Promise<void> {
+        // 指定された名前を持つスクリプトの行を探す
+        const scriptRow = this.scriptContainer.locator('.editor-row', { hasText: scriptName });
+        await expect(scriptRow).toBeVisible();
+
+        // その行にある「編集」ボタンをクリックする
+        await scriptRow.getByTitle(uiText('script.edit')).click();
+
+        // 編集画面（Monaco Editor）が表示されたことを確認する
+        await expect(this.monacoEditor).toBeVisible();
+    }
+
+    /**
+     * 既存のスクリプトの内容を書き換え、保存して一覧に戻ります。
+     * @param scriptName - 編集するスクリプトの名前
+     * @param scriptContent - 新しいスクリプトのコード内容
+     */
+    async edit(scriptName: string, scriptContent: string): Promise<void> {
+        await this.fill(scriptName, scriptContent);
+
+        const scriptContainer = this.scriptContainer;
+        // 1. 【修正】保存ボタンをクリック
+        await scriptContainer.locator('#fab-save').click();
+
+        // 2. 【追加】新仕様対応：戻るボタン（#fab-close）をクリックしてエディタを閉じ、一覧に戻る
+        await scriptContainer.locator('#fab-close').click();
+    }
+
+    /**
+     * 既存のスクリプトの内容を書き換えますが、保存はしません。
+     * Monaco Editorにフォーカスがある状態になります。
+     * @param scriptName - 編集するスクリプトの名前
+     * @param scriptContent - 新しいスクリプトのコード内容
+     */
+    async fill(scriptName: string, scriptContent: string): Promise<void> {
+        const scriptContainer = this.scriptContainer;
+        const scriptRow = scriptContainer.locator('.editor-row', { hasText: scriptName });
+        await scriptRow.getByTitle(uiText('script.edit')).click();
+
+        await expect(scriptContainer.locator('#script-container')).toBeVisible();
+        await expect(this.monacoEditor).toBeVisible();
+
+        await this.monaco.setValue(scriptContent);
+        await this.monaco.focus().catch(() => { });
+    }
+
+    /**
+     * Monaco Editorの現在のテキストコンテンツを取得します。
+     * @returns エディタの現在のテキスト
+     */
+    async getEditorContent(): Promise<string> {
+        // エディタが表示されるのを待つ
+        await expect(this.monacoEditor).toBeVisible();
+        return await this.monaco.getValue();
+    }
+}
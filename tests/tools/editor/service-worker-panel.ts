@@ -0,0 +1,63 @@
+import { expect, type Locator } from '@playwright/test';
+import { ScriptContainerPanel } from './editor-panel';
+import { uiText } from '../ui-strings';
+
+/**
+ * 右側のサブウィンドウの「サービスワーカー」タブ（serviceworker-container）の操作。
+ */
+export class ServiceWorkerPanel extends ScriptContainerPanel {
+    protected readonly tabName = uiText('tab.serviceWorker');
+
+    /** サービスワーカーのイベント一覧 */
+    get root(): Locator {
+        return this.scriptContainer.locator('serviceworker-container');
+    }
+
+    /**
+     * 新しいカスタムイベント定義を追加します。
+     * @param eventName イベント名 (例: 'new-sw-event')
+     * @param comment イベントのコメント
+     */
+    async addCustomEvent(
+        { eventName, comment }: { eventName: string; comment: string }
+    ): Promise<void> {
+        // 右側のサブウィンドウを表示し、サービスワーカータブに切り替える
+        await this.open();
+        const serviceWorkerContainer = this.root;
+        await expect(serviceWorkerContainer).toBeVisible();
+
+        // 「イベントを編集」ボタンをクリック
+        await serviceWorkerContainer.locator(`button#fab-edit[title="${uiText('event.edit')}"]`).click();
+
+        // イベントリストポップアップが表示されるのを待つ
+        const eventListPopup = serviceWorkerContainer.locator('#eventList');
+        await expect(eventListPopup).toBeVisible();
+
+        // 「追加」ボタンをクリック
+        await eventListPopup.getByRole('button', { name: uiText('common.add') }).click();
+
+        // イベント追加ポップアップが表示されるのを待つ
+        const eventAddPopup = serviceWorkerContainer.locator('#eventEditMenu');
+        await expect(eventAddPopup).toBeVisible();
+
+        // 各項目を入力 (イベント登録先はサービスワーカータブにはない)
+        const eventNameInput = eventAddPopup.locator('input#event-name');
+        const commentValueInput = eventAddPopup.locator('input#comment-value');
+        await expect(eventNameInput).toBeEditable();
+        await expect(commentValueInput).toBeEditable();
+        await eventNameInput.fill(eventName);
+        await commentValueInput.fill(comment);
+
+        // 「追加」ボタンをクリックしてイベントを登録
+        await eventAddPopup.getByRole('button', { name: uiText('common.add') }).click();
+
+        // ポップアップが閉じるのを待つ
+        await expect(eventAddPopup).toBeHidden();
+        await expect(eventListPopup).toBeHidden();
+
+        // イベントがリストに追加されたことを確認
+        const newEventRow = serviceWorkerContainer.locator(`.editor-row:has-text("${eventName}")`);
+        await expect(newEventRow).toBeVisible();
+        await expect(newEventRow.locator('.comment')).toHaveText(comment);
+    }
+}
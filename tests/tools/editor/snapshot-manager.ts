@@ -0,0 +1,170 @@
+import { test, expect, type Locator, type Download } from '@playwright/test';
+import { EditorPanel } from './editor-panel';
+import { waitForLitUpdates } from '../settled';
+import { waitForIdle } from '../busy-state';
+import { getDialogLog, getDialogManager } from '../dialog-manager';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+import { retryUntil } from '../retry';
+
+/**
+ * 下部メニューの「スナップショット」から開くスナップショットマネージャー（snapshot-manager）と、
+ * エディタ起動時のスナップショット復元ダイアログの操作。
+ */
+export class SnapshotManager extends EditorPanel {
+    /** スナップショットマネージャー */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.transient.snapshotManager);
+    }
+
+    /**
+     * 下部メニューからスナップショットマネージャーを開きます。
+     */
+    async open(): Promise<void> {
+        await this.page.locator(SELECTORS.editor.bottomMenuButton).click();
+        const bottomMenu = this.page.locator(SELECTORS.editorBottomMenu.root);
+        await expect(bottomMenu).toBeVisible();
+        await bottomMenu.getByText(uiText('snapshot.menu')).click();
+
+        await expect(this.root.locator('.container')).toBeVisible();
+    }
+
+    /**
+     * スナップショットマネージャーを閉じます。
+     */
+    async close(): Promise<void> {
+        await this.root.locator('.close-btn').click();
+        await expect(this.root).toBeHidden();
+    }
+
+    /**
+     * エディタ起動時に表示される可能性のある「スナップショット復元ダイアログ」を処理します。
+     * リスナーを事前に登録することで、ブラウザ標準ダイアログのハンドリングを安定させます。
+     */
+    async handleRestoreDialog(): Promise<void> {
+        // 1. どんなダイアログが出ても自動でOKを押すルールを登録
+        const removeRule = getDialogManager(this.page).addRule({
+            name: 'スナップショット復元時のダイアログを承認',
+            kinds: ['alert', 'confirm', 'prompt'],
+            action: 'accept',
+        });
+
+        try {
+            await test.step('スナップショット復元ダイアログのチェックとクリーンアップ', async () => {
+                // ローディングオーバーレイが完全に消えるのを待つ
+                await waitForIdle(this.page, 'editor');
+
+                const snapshotConfirmDialog = this.page.locator(SELECTORS.transient.messageBox, {
+                    hasText: uiText('snapshot.restorePrompt')
+                });
+
+                // ダイアログが表示されるか確認
+                if (await snapshotConfirmDialog.isVisible({ timeout: 5000 }).catch(() => false)) {
+                    // --- 1. 最初のダイアログ: 「破棄する」をクリック（活性化を待って確実に実行） ---
+                    const discardInitialBtn = snapshotConfirmDialog.getByRole('button', { name: uiText('snapshot.discard') });
+                    await retryUntil('SnapshotManager.handleRestoreDialog(discard)', async () => {
+                        await expect(discardInitialBtn).toBeEnabled({ timeout: 1000 });
+                        await discardInitialBtn.click({ force: true });
+                    }, { timeout: 5000 });
+
+                    // --- 2. 再確認ダイアログが表示されるのを待つ ---
+                    const discardConfirmDialog = this.page.locator(SELECTORS.transient.messageBox, {
+                        hasText: uiText('snapshot.discardAllPrompt')
+                    });
+                    await expect(discardConfirmDialog).toBeVisible({ timeout: 5000 });
+
+                    // --- 3. 「はい、破棄します」をクリック（活性化を待って確実に実行） ---
+                    // アニメーション等の遅延による空振りを防ぐため、ボタンが有効化されるまで retryUntil で再試行します
+                    const discardBtn = discardConfirmDialog.getByRole('button', { name: uiText('snapshot.confirmDiscard') });
+                    await retryUntil('SnapshotManager.handleRestoreDialog(confirm)', async () => {
+                        await expect(discardBtn).toBeEnabled({ timeout: 1000 });
+                        await discardBtn.click({ force: true });
+                    }, { timeout: 5000 });
+
+                    // 4. すべてのモーダルが消え去るのを待つ
+                    // retryUntil による再試行で、ダイアログフェードアウト中の過渡期によるFlaky（不安定化）を防止
+                    await retryUntil('SnapshotManager.handleRestoreDialog(hidden)', async () => {
+                        await expect(snapshotConfirmDialog).toBeHidden({ timeout: 1000 });
+                        await expect(discardConfirmDialog).toBeHidden({ timeout: 1000 });
+                    }, { timeout: 10000 });
+                }
+            });
+        } finally {
+            // 他のテストに影響を与えないよう、ルールを解除
+            removeRule();
+        }
+    }
+
+    /**
+     * 現在のプロジェクトの状態をファイル（.pwappy）として書き出します。
+     */
+    async exportProjectFile(): Promise<Download> {
+        // ハンドルが開いているとメニューボタンが隠れるため確実に閉じる
+        await this.panels.ensurePanel('none');
+        await waitForLitUpdates(this.page);
+
+        await this.page.locator(SELECTORS.editor.bottomMenuButton).click({ force: true });
+        const platformBottomMenu = this.page.locator(SELECTORS.editorBottomMenu.root);
+        await expect(platformBottomMenu).toBeVisible();
+        await platformBottomMenu.getByText(uiText('snapshot.menu')).click();
+        await waitForLitUpdates(this.page, { tags: ['snapshot-manager'] });
+
+        const snapshotManager = this.root;
+        await expect(snapshotManager.locator('.container')).toBeVisible();
+
+        const downloadPromise = this.page.waitForEvent('download');
+        await snapshotManager.getByRole('button', { name: uiText('snapshot.exportFile') }).click();
+        const download = await downloadPromise;
+
+        await this.close();
+
+        return download;
+    }
+
+    /**
+     * 指定されたパスのファイルをプロジェクトにインポートします。
+     */
+    async importProjectFile(filePath: string): Promise<void> {
+        await this.panels.ensurePanel('none');
+
+        // インポート中のダイアログはすべて承認し、記録から成功メッセージを確認します
+        const logOffset = getDialogLog().length;
+        const successAlertDetected = () => getDialogLog().slice(logOffset)
+            .some(entry => entry.kind === 'alert' && entry.message.includes(uiText('snapshot.imported')));
+        const removeRule = getDialogManager(this.page).addRule({
+            name: 'インポート時のダイアログを承認',
+            kinds: ['alert', 'confirm', 'prompt'],
+            action: 'accept',
+        });
+
+        try {
+            await this.open();
+
+            const importLabel = this.root.locator('label.import-label');
+
+            const [fileChooser] = await Promise.all([
+                this.page.waitForEvent('filechooser'),
+                importLabel.click(),
+            ]);
+
+            await fileChooser.setFiles(filePath);
+
+            // --- 完了判定 ---
+            // 標準alertが発火したかをポーリング
+            await expect.poll(successAlertDetected, {
+                message: "インポート完了の通知(window.alert)を待機中",
+                timeout: 30000,
+                intervals: [1000]
+            }).toBe(true);
+
+            // window.alert は自動で閉じているので、あとは Snapshot Manager を閉じるだけ
+            await this.close();
+
+        } catch (error) {
+            console.error(`[Import-Error] Process failed:`, error);
+            throw error;
+        } finally {
+            removeRule();
+        }
+    }
+}
@@ -0,0 +1,54 @@
+import { expect, type Locator } from '@playwright/test';
+import { ScriptContainerPanel } from './editor-panel';
+import { MonacoDriver } from './monaco-driver';
+import { uiText } from '../ui-strings';
+import { SELECTORS } from '../selectors';
+import { retryUntil } from '../retry';
+
+/**
+ * 右側のサブウィンドウの「テスト」タブ（test-container）の操作。
+ * テストシナリオとAPIモックの一覧・実行を扱います。
+ */
+export class TestPanel extends ScriptContainerPanel {
+    protected readonly tabName = uiText('tab.test');
+
+    /** テストパネル */
+    get root(): Locator {
+        return this.page.locator(SELECTORS.transient.testContainer);
+    }
+
+    /** テストシナリオ編集モーダル（test-scenario-editor）のMonaco Editorの操作 */
+    get scenarioEditor(): MonacoDriver {
+        return new MonacoDriver(this.page.locator('test-scenario-editor .modal .monaco-editor[role="code"]'));
+    }
+
+    /**
+     * テストパネル内のサブタブ（'APIモック' など）に切り替えます。
+     */
+    async switchSection(sectionName: string): Promise<void> {
+        await this.root.locator('.tab', { hasText: sectionName }).click({ force: true });
+    }
+
+    /**
+     * 指定した名前のテストシナリオの行を取得します。
+     */
+    scenario(scenarioName: string): Locator {
+        return this.root.locator('.scenario-item', { hasText: scenarioName });
+    }
+
+    /**
+     * テストシナリオを実行し、結果のバッジ（pass / fail）が表示されるまで待機します。
+     * @returns 表示された結果
+     */
+    async runScenario(scenarioName: string, options: { timeout?: number } = {}): Promise<'pass' | 'fail'> {
+        const { timeout = 45000 } = options;
+        const scenarioRow = this.scenario(scenarioName);
+        await scenarioRow.locator('.run-btn').click({ force: true });
+
+        return await retryUntil('TestPanel.runScenario', async () => {
+            if (await scenarioRow.locator('.badge.pass').isVisible()) return 'pass';
+            await expect(scenarioRow.locator('.badge.fail')).toBeVisible({ timeout: 2000 });
+            return 'fail';
+        }, { timeout, initialDelay: 2000 });
+    }
+}
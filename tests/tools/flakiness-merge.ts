@@ -0,0 +1,197 @@
+/**
+ * フレーキーなテストの集計コマンド。
+ * CIのマトリックスの各ジョブが tests/tools/flakiness-reporter.ts で出力したJSONファイルをまとめ、
+ * リトライ率の高い順に並べたMarkdownの表を出力します。
+ *
+ * GitHub Actions の成果物（playwright-report-*）をダウンロードしたディレクトリをそのまま指定できます。
+ * run-ts.mjs から Node.js の型ストリップ機能（Node.js 22.6 以上。古い場合は run-ts.mjs がメッセージを表示して終了します）で直接実行するため、Node.js 標準モジュール以外は import しないでください（型のみの import は可）。
+ *
+ * @example
+ * npm run flakiness -- ./artifacts
+ * npm run flakiness -- ./artifacts --output flakiness.md --min-rate 0.1
+ */
+import fs from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { FlakinessReport, FlakinessTest } from './flakiness-reporter';
+
+const usage = `
+使い方: npm run flakiness -- <ファイルまたはディレクトリ...> [options]
+
+  <ファイルまたはディレクトリ>  レポーターが出力したJSONファイル。ディレクトリの場合は配下の flakiness*.json を探します
+  --output <file>             Markdownの出力先 (省略時は標準出力)
+  --min-rate <0-1>            リトライ率がこの値以上のテストのみを表示します (デフォルト: 0)
+  --limit <n>                 表示する最大件数 (デフォルト: 50)
+  -h, --help                  このヘルプを表示します
+`;
+
+const fail = (message: string): never => {
+    console.error(`[Flakiness] ${message}`);
+    console.error(usage);
+    process.exit(2);
+};
+
+const { values, positionals } = (() => {
+    try {
+        return parseArgs({
+            options: {
+                'output': { type: 'string' },
+                'min-rate': { type: 'string', default: '0' },
+                'limit': { type: 'string', default: '50' },
+                'help': { type: 'boolean', short: 'h', default: false },
+            },
+            allowPositionals: true,
+            strict: true,
+        });
+    } catch (e: any) {
+        return fail(e.message);
+    }
+})();
+
+if (values.help) {
+    console.log(usage);
+    process.exit(0);
+}
+
+const minRate = Number(values['min-rate']);
+if (!Number.isFinite(minRate) || minRate < 0 || minRate > 1) {
+    fail(`--min-rate は 0〜1 の数値で指定してください: ${values['min-rate']}`);
+}
+const limit = Number(values.limit);
+if (!Number.isInteger(limit) || limit < 1) {
+    fail(`--limit は 1 以上の整数で指定してください: ${values.limit}`);
+}
+if (positionals.length === 0) {
+    fail('集計するJSONファイルまたはディレクトリを指定してください。');
+}
+
+/**
+ * 指定されたパスからレポートファイルを集めます。ディレクトリは再帰的に探索します。
+ */
+const collectFiles = (target: string): string[] => {
+    if (!fs.existsSync(target)) return fail(`ファイルが見つかりません: ${target}`);
+    if (fs.statSync(target).isFile()) return [target];
+    return fs.readdirSync(target, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(target, entry.name);
+        if (entry.isDirectory()) return collectFiles(fullPath);
+        return /^flakiness.*\.json$/.test(entry.name) ? [fullPath] : [];
+    });
+};
+
+const reports: FlakinessReport[] = positionals.flatMap(collectFiles).flatMap(file => {
+    try {
+        const report = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        if (report?.version !== 1 || !Array.isArray(report.tests)) {
+            console.warn(`[Flakiness] レポーターの出力ではないためスキップします: ${file}`);
+            return [];
+        }
+        return [report as FlakinessReport];
+    } catch (e: any) {
+        console.warn(`[Flakiness] 読み込みに失敗したためスキップします: ${file} (${e.message})`);
+        return [];
+    }
+});
+
+if (reports.length === 0) {
+    fail('集計できるレポートがありません。');
+}
+
+/**
+ * テスト（スペック + タイトル）単位の集計結果。
+ */
+type TestSummary = {
+    file: string;
+    title: string;
+    /** 実行された環境（OS/プロジェクト）の延べ数 */
+    runs: number;
+    attempts: number;
+    failedAttempts: number;
+    flakyRuns: number;
+    failedRuns: number;
+    /** リトライが発生した環境と、その環境での試行回数 */
+    environments: Map<string, number>;
+    signatures: Map<string, number>;
+};
+
+const summaries = new Map<string, TestSummary>();
+
+const addTest = (test: FlakinessTest) => {
+    if (test.outcome === 'skipped') return;
+
+    const key = `${test.file}\u0000${test.title}`;
+    let summary = summaries.get(key);
+    if (!summary) {
+        summary = { file: test.file, title: test.title, runs: 0, attempts: 0, failedAttempts: 0, flakyRuns: 0, failedRuns: 0, environments: new Map(), signatures: new Map() };
+        summaries.set(key, summary);
+    }
+
+    const failedAttempts = test.attempts.filter(a => a.status !== 'passed' && a.status !== 'skipped');
+    summary.runs++;
+    summary.attempts += test.attempts.length;
+    summary.failedAttempts += failedAttempts.length;
+    if (test.outcome === 'flaky') summary.flakyRuns++;
+    if (test.outcome === 'unexpected') summary.failedRuns++;
+    if (test.attempts.length > 1) {
+        const environment = `${test.os}/${test.project}`;
+        summary.environments.set(environment, (summary.environments.get(environment) ?? 0) + test.attempts.length);
+    }
+    for (const { signature } of failedAttempts) {
+        if (signature) summary.signatures.set(signature, (summary.signatures.get(signature) ?? 0) + 1);
+    }
+};
+
+reports.forEach(report => report.tests.forEach(addTest));
+
+const retryRate = (summary: TestSummary) => summary.attempts === 0 ? 0 : summary.failedAttempts / summary.attempts;
+
+const ranked = [...summaries.values()]
+    .filter(summary => summary.failedAttempts > 0 && retryRate(summary) >= minRate)
+    .sort((a, b) => retryRate(b) - retryRate(a) || b.failedAttempts - a.failedAttempts);
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+const topSignature = (summary: TestSummary) => {
+    const [signature, count] = [...summary.signatures.entries()].sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+    return signature ? `\`${escapeCell(signature)}\`${count > 1 ? ` ×${count}` : ''}` : '';
+};
+
+const environments = [...new Set(reports.map(r => r.os))].sort().join(', ');
+const totalTests = summaries.size;
+const flakyTests = [...summaries.values()].filter(s => s.flakyRuns > 0).length;
+const failedTests = [...summaries.values()].filter(s => s.failedRuns > 0).length;
+
+const lines = [
+    '# フレーキーテスト集計',
+    '',
+    `- 集計したレポート: ${reports.length} 件（${environments}）`,
+    `- テスト: ${totalTests} 件 / リトライで成功: ${flakyTests} 件 / 全試行失敗: ${failedTests} 件`,
+    '',
+];
+
+if (ranked.length === 0) {
+    lines.push('リトライが発生したテストはありません。');
+} else {
+    lines.push(
+        '| # | テスト | リトライ率 | 失敗試行 / 全試行 | flaky / 失敗 / 実行 | 環境（試行回数） | 主な失敗 |',
+        '| --- | --- | --- | --- | --- | --- | --- |',
+        ...ranked.slice(0, limit).map((s, i) => [
+            i + 1,
+            `${escapeCell(s.title)}<br>\`${s.file}\``,
+            `${(retryRate(s) * 100).toFixed(1)}%`,
+            `${s.failedAttempts} / ${s.attempts}`,
+            `${s.flakyRuns} / ${s.failedRuns} / ${s.runs}`,
+            [...s.environments.entries()].map(([env, count]) => `${env} (${count})`).join('<br>'),
+            topSignature(s),
+        ].join(' | ')).map(row => `| ${row} |`),
+    );
+    if (ranked.length > limit) {
+        lines.push('', `ほか ${ranked.length - limit} 件`);
+    }
+}
+
+const markdown = `${lines.join('\n')}\n`;
+if (values.output) {
+    fs.writeFileSync(values.output, markdown, 'utf-8');
+    console.log(`[Flakiness] ${ranked.length} 件のテストを集計しました: ${values.output}`);
+} else {
+    process.stdout.write(markdown);
+}
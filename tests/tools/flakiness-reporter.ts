@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import type { FullConfig, FullResult, Reporter, Suite, TestCase, TestResult } from '@playwright/test/reporter';
+import { config } from '../config';
+
+/**
+ * 1回の試行（リトライを含む）の結果。
+ */
+export type FlakinessAttempt = {
+    retry: number;
+    status: TestResult['status'];
+    durationMs: number;
+    /** 失敗した場合の失敗シグネチャ（エラーの1行目を正規化したものと発生箇所） */
+    signature?: string;
+};
+
+/**
+ * 1テスト分の記録。
+ */
+export type FlakinessTest = {
+    /** スペックの相対パス */
+    file: string;
+    /** describe を含むテストタイトル（` › ` 区切り） */
+    title: string;
+    project: string;
+    /** 実行環境（TEST_RUN_SUFFIX。CIでは ubuntu / win / macos） */
+    os: string;
+    /** expected: 1回目で成功 / flaky: リトライで成功 / unexpected: 全試行失敗 / skipped: スキップ */
+    outcome: ReturnType<TestCase['outcome']>;
+    attempts: FlakinessAttempt[];
+};
+
+/**
+ * レポーターが出力するJSONファイル。
+ */
+export type FlakinessReport = {
+    version: 1;
+    runId: string | null;
+    os: string;
+    platform: NodeJS.Platform;
+    startedAt: string;
+    tests: FlakinessTest[];
+};
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * エラーから失敗シグネチャを作成します。
+ * 実行ごとに変わる値（アプリキーのID・数値・URLのクエリなど）を置き換え、同じ原因の失敗が同じ文字列になるようにします。
+ */
+export const toFailureSignature = (error: { message?: string; location?: { file: string; line: number } }, rootDir: string): string => {
+    const firstLine = (error.message ?? 'unknown error').replace(ANSI_PATTERN, '').split('\n').find(line => line.trim() !== '') ?? '';
+    const normalized = firstLine
+        .trim()
+        .replace(/\?[^\s"'`]*/g, '?…')
+        .replace(/\d+/g, 'N')
+        .slice(0, 200);
+    if (!error.location) return normalized;
+    const file = path.relative(rootDir, error.location.file).replace(/\\/g, '/');
+    return `${normalized} @ ${file}:${error.location.line}`;
+};
+
+/**
+ * テストごとの試行回数と、失敗した試行の失敗シグネチャをJSONファイルに書き出すレポーター。
+ * CIのマトリックス（OS × ブラウザ）ごとに出力したファイルを tests/tools/flakiness-merge.ts で集計します。
+ *
+ * 出力先は PWAPPY_TEST_FLAKINESS_FILE で変更できます（デフォルト: test-results/flakiness.json）。
+ *
+ * @example
+ * npx playwright test --reporter=line,./tests/tools/flakiness-reporter.ts
+ */
+export default class FlakinessReporter implements Reporter {
+    private rootDir = process.cwd();
+    private readonly startedAt = new Date().toISOString();
+    private readonly tests = new Map<TestCase, FlakinessTest>();
+
+    onBegin(fullConfig: FullConfig, _suite: Suite): void {
+        this.rootDir = fullConfig.rootDir;
+    }
+
+    onTestEnd(test: TestCase, result: TestResult): void {
+        let entry = this.tests.get(test);
+        if (!entry) {
+            entry = {
+                file: path.relative(this.rootDir, test.location.file).replace(/\\/g, '/'),
+                title: test.titlePath().slice(3).join(' › '),
+                project: test.parent.project()?.name ?? '',
+                os: config.runSuffix,
+                outcome: test.outcome(),
+                attempts: [],
+            };
+            this.tests.set(test, entry);
+        }
+
+        const failed = result.status !== 'passed' && result.status !== 'skipped';
+        entry.attempts.push({
+            retry: result.retry,
+            status: result.status,
+            durationMs: result.duration,
+            signature: failed && result.errors.length > 0 ? toFailureSignature(result.errors[0], this.rootDir) : undefined,
+        });
+        entry.outcome = test.outcome();
+    }
+
+    onEnd(_result: FullResult): void {
+        const outputFile = config.flakinessFile;
+        const report: FlakinessReport = {
+            version: 1,
+            runId: config.runId ?? null,
+            os: config.runSuffix,
+            platform: process.platform,
+            startedAt: this.startedAt,
+            tests: [...this.tests.values()],
+        };
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+        fs.writeFileSync(outputFile, JSON.stringify(report, null, 2), 'utf-8');
+
+        const flaky = report.tests.filter(t => t.outcome === 'flaky').length;
+        console.log(`[Flakiness] ${report.tests.length} 件のテスト結果を出力しました（flaky: ${flaky}）: ${path.relative(process.cwd(), outputFile)}`);
+    }
+
+    printsToStdio(): boolean {
+        return false;
+    }
+}
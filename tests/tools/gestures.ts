@@ -0,0 +1,324 @@
+/**
+ * タッチ操作（ピンチ・2本指スクロール・長押し・スワイプ・画面端へのドラッグ・ドラッグ）のライブラリ。
+ * mobile-chrome / mobile-safari プロジェクトで、スペックごとにタッチイベントを組み立てる代わりに使用します。
+ *
+ * タッチ入力の送り方は input-strategy.ts の `touch` で切り替えます。
+ * - cdp（mobile-chrome）: CDP の Input.dispatchTouchEvent で実際のタッチ入力を送ります。ブラウザの既定の動作も発生します
+ * - synthetic（mobile-safari など）: WebKit には CDP がないため、ページ内で touches を設定したタッチイベントを
+ *   指が触れた要素に発行します（Shadow DOM を越えて window まで伝わります）。スクロールやズームなどブラウザの既定の動作は起こりません
+ * - mouse（デスクトップ）: 1本指の操作はマウス操作で代用します。複数の指を使う操作は synthetic と同じ方法で発行します
+ *
+ * @example
+ * const gestures = getGestures(page);
+ * await gestures.pinch(editor, { scale: 2 });
+ * await gestures.touchDrag(handle, target, { holdMs: 500 });
+ * await gestures.swipe(badge, 'left', { distance: 50 });
+ */
+import { type CDPSession, type Locator, type Page } from '@playwright/test';
+import { getInputStrategy, type InputBehavior } from './input-strategy';
+
+/** 画面上の座標（ビューポート基準） */
+export type Point = { x: number; y: number };
+
+/** 操作の対象。Locator の場合は要素の中心を使用します */
+export type GestureTarget = Locator | Point;
+
+/** 開始位置からの移動量 */
+export type GestureOffset = { dx: number; dy: number };
+
+export type TouchDragOptions = {
+    /** 移動を分割する回数（デフォルト: 10） */
+    steps?: number;
+    /** 1回の移動ごとの待機時間（デフォルト: 20ミリ秒） */
+    stepDelayMs?: number;
+    /** 触れてから動かし始めるまでの時間。長押しでドラッグを開始するUIで指定します（デフォルト: 0） */
+    holdMs?: number;
+    /** 移動を終えてから指を離すまでの時間（デフォルト: 0） */
+    releaseDelayMs?: number;
+};
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+type TouchPhase = 'touchStart' | 'touchMove' | 'touchEnd';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isPoint = (target: GestureTarget | GestureOffset): target is Point => 'x' in target && 'y' in target;
+
+const gestures = new WeakMap<Page, Gestures>();
+const dragAndDropGestures = new WeakMap<Page, Gestures>();
+
+/**
+ * ページのタッチ操作を返します。
+ */
+export const getGestures = (page: Page): Gestures => {
+    let instance = gestures.get(page);
+    if (!instance) {
+        instance = new Gestures(page, getInputStrategy(page).behavior.touch);
+        gestures.set(page, instance);
+    }
+    return instance;
+};
+
+/**
+ * ページのドラッグ＆ドロップ（ツールボックスの部品をDOMツリーへ追加する操作など）に使用するタッチ操作を返します。
+ * 送り方は input-strategy.ts の `dragAndDrop` で切り替え、タッチイベントでドラッグできないブラウザではマウス操作でドラッグします。
+ */
+export const getDragAndDropGestures = (page: Page): Gestures => {
+    let instance = dragAndDropGestures.get(page);
+    if (!instance) {
+        const { touch, dragAndDrop } = getInputStrategy(page).behavior;
+        instance = new Gestures(page, dragAndDrop === 'mouse' ? 'mouse' : touch);
+        dragAndDropGestures.set(page, instance);
+    }
+    return instance;
+};
+
+/**
+ * タッチ操作。getGestures から取得します。
+ */
+export class Gestures {
+    private cdpSession: Promise<CDPSession> | null = null;
+    /** press で触れている指の位置 */
+    private pressed: Point | null = null;
+
+    constructor(private readonly page: Page, readonly mode: InputBehavior['touch']) { }
+
+    /**
+     * タップします。
+     */
+    async tap(target: GestureTarget, options: { timeout?: number } = {}): Promise<void> {
+        if (this.mode === 'mouse') {
+            if (isPoint(target)) await this.page.mouse.click(target.x, target.y);
+            else await target.click({ timeout: options.timeout });
+            return;
+        }
+        if (isPoint(target)) await this.page.touchscreen.tap(target.x, target.y);
+        else await target.tap({ noWaitAfter: true, timeout: options.timeout });
+    }
+
+    /**
+     * ダブルタップします（デスクトップではダブルクリックします）。
+     */
+    async doubleTap(target: GestureTarget, options: { timeout?: number } = {}): Promise<void> {
+        if (this.mode === 'mouse') {
+            if (isPoint(target)) await this.page.mouse.dblclick(target.x, target.y);
+            else await target.dblclick({ timeout: options.timeout });
+            return;
+        }
+        await this.tap(target, options);
+        await this.tap(target, options);
+    }
+
+    /**
+     * 長押しします。
+     */
+    async longPress(target: GestureTarget, options: { durationMs?: number } = {}): Promise<void> {
+        await this.press(target);
+        await sleep(options.durationMs ?? 800);
+        await this.release();
+    }
+
+    /**
+     * 1本指で触れたまま移動して離します（デスクトップではマウスでドラッグします）。
+     * @param to 移動先の要素・座標、または開始位置からの移動量
+     *
+     * @example
+     * // 長押し（300ms）でドラッグが始まる一覧の並べ替え
+     * await gestures.touchDrag(handleA, { x: endX, y: endY }, { holdMs: 500, releaseDelayMs: 200 });
+     */
+    async touchDrag(from: GestureTarget, to: GestureTarget | GestureOffset, options: TouchDragOptions = {}): Promise<void> {
+        const { holdMs = 0, releaseDelayMs = 0 } = options;
+        const start = await this.press(from);
+        if (holdMs > 0) await sleep(holdMs);
+        await this.moveTo('dx' in to ? { x: start.x + to.dx, y: start.y + to.dy } : to, options);
+        if (releaseDelayMs > 0) await sleep(releaseDelayMs);
+        await this.release();
+    }
+
+    /**
+     * 1本指で触れます（デスクトップではマウスボタンを押します）。
+     * 移動先を途中で判断するドラッグは press → moveTo → release で組み立てます。
+     * @returns 触れた位置
+     */
+    async press(target: GestureTarget): Promise<Point> {
+        const point = await this.resolve(target);
+        await this.touch('touchStart', [point]);
+        this.pressed = point;
+        return point;
+    }
+
+    /**
+     * press で触れた指を、指定した位置まで steps 回に分けて移動します。
+     */
+    async moveTo(target: GestureTarget, options: TouchDragOptions = {}): Promise<void> {
+        if (!this.pressed) throw new Error('[Gesture] moveTo の前に press を呼び出してください');
+        const point = await this.resolve(target);
+        await this.moveFingers([this.pressed], [point], options);
+        this.pressed = point;
+    }
+
+    /**
+     * press で触れた指を離します。
+     */
+    async release(): Promise<void> {
+        if (!this.pressed) return;
+        await this.touch('touchEnd', [this.pressed]);
+        this.pressed = null;
+    }
+
+    /**
+     * 指定した方向にすばやくスワイプします。
+     */
+    async swipe(target: GestureTarget, direction: SwipeDirection, options: { distance?: number; steps?: number } = {}): Promise<void> {
+        const { distance = 100, steps = 5 } = options;
+        const offsets: Record<SwipeDirection, GestureOffset> = {
+            left: { dx: -distance, dy: 0 },
+            right: { dx: distance, dy: 0 },
+            up: { dx: 0, dy: -distance },
+            down: { dx: 0, dy: distance },
+        };
+        await this.touchDrag(target, offsets[direction], { steps, stepDelayMs: 10 });
+    }
+
+    /**
+     * 画面の左端・右端までドラッグし、そのまま dwellMs だけ留まります（ドラッグ中に画面端でパネルを開くUI用）。
+     * from を省略した場合は、既に始まっているドラッグ（アプリのドラッグ開始イベントなど）の続きとして、
+     * ポインター（マウス）を画面端に移動するだけで指は離しません。
+     */
+    async edgeDrag(edge: 'left' | 'right', options: TouchDragOptions & { from?: GestureTarget; inset?: number; dwellMs?: number } = {}): Promise<void> {
+        const { from, inset = 10, dwellMs = 1000 } = options;
+        const viewport = this.page.viewportSize();
+        if (!viewport) throw new Error('[Gesture] ビューポートのサイズが設定されていません');
+        const edgePoint = { x: edge === 'left' ? inset : viewport.width - inset, y: viewport.height / 2 };
+
+        if (!from) {
+            await this.page.mouse.move(edgePoint.x, edgePoint.y);
+            await sleep(dwellMs);
+            return;
+        }
+        await this.touchDrag(from, edgePoint, { ...options, releaseDelayMs: dwellMs });
+    }
+
+    /**
+     * 2本指でピンチします。scale が1より大きい場合はピンチアウト（拡大）、小さい場合はピンチイン（縮小）です。
+     * @param options.spacing 開始時の指の間隔（デフォルト: 100px）
+     */
+    async pinch(target: GestureTarget, options: { scale?: number; spacing?: number } & TouchDragOptions = {}): Promise<void> {
+        const { scale = 2, spacing = 100 } = options;
+        const center = await this.resolve(target);
+        const fingers = (gap: number): Point[] => [
+            { x: center.x - gap / 2, y: center.y },
+            { x: center.x + gap / 2, y: center.y },
+        ];
+
+        await this.touch('touchStart', fingers(spacing), true);
+        await this.moveFingers(fingers(spacing), fingers(spacing * scale), options, true);
+        await this.touch('touchEnd', fingers(spacing * scale), true);
+    }
+
+    /**
+     * 2本指で同じ方向にスクロールします（dy が負の場合は指を上に動かします）。
+     */
+    async twoFingerScroll(target: GestureTarget, options: { dx?: number; dy?: number; spacing?: number } & TouchDragOptions = {}): Promise<void> {
+        const { dx = 0, dy = -100, spacing = 50 } = options;
+        const center = await this.resolve(target);
+        const fingers = (offsetX: number, offsetY: number): Point[] => [
+            { x: center.x - spacing / 2 + offsetX, y: center.y + offsetY },
+            { x: center.x + spacing / 2 + offsetX, y: center.y + offsetY },
+        ];
+
+        await this.touch('touchStart', fingers(0, 0), true);
+        await this.moveFingers(fingers(0, 0), fingers(dx, dy), options, true);
+        await this.touch('touchEnd', fingers(dx, dy), true);
+    }
+
+    /**
+     * 対象の座標を返します。Locator の場合は画面内にスクロールして中心の座標を返します。
+     */
+    private async resolve(target: GestureTarget): Promise<Point> {
+        if (isPoint(target)) return target;
+        await target.scrollIntoViewIfNeeded();
+        const box = await target.boundingBox();
+        if (!box) throw new Error(`[Gesture] 要素の座標を取得できません: ${target}`);
+        return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+    }
+
+    private async moveFingers(from: Point[], to: Point[], options: TouchDragOptions, multiTouch = false): Promise<void> {
+        const { steps = 10, stepDelayMs = 20 } = options;
+        for (let i = 1; i <= steps; i++) {
+            const points = from.map((start, index) => ({
+                x: start.x + (to[index].x - start.x) * (i / steps),
+                y: start.y + (to[index].y - start.y) * (i / steps),
+            }));
+            await this.touch('touchMove', points, multiTouch);
+            if (stepDelayMs > 0) await sleep(stepDelayMs);
+        }
+    }
+
+    /**
+     * タッチ入力を1回送ります。touchEnd の points には離した指の位置を指定します。
+     * @param multiTouch 複数の指を使う操作の場合 true（mouse では synthetic で代用します）
+     */
+    private async touch(phase: TouchPhase, points: Point[], multiTouch = false): Promise<void> {
+        const mode = this.mode === 'mouse' && multiTouch ? 'synthetic' : this.mode;
+        const rounded = points.map(point => ({ x: Math.round(point.x), y: Math.round(point.y) }));
+
+        if (mode === 'mouse') {
+            const [point] = rounded;
+            if (phase === 'touchStart') {
+                await this.page.mouse.move(point.x, point.y);
+                await this.page.mouse.down();
+            } else if (phase === 'touchMove') {
+                await this.page.mouse.move(point.x, point.y);
+            } else {
+                await this.page.mouse.up();
+            }
+            return;
+        }
+
+        if (mode === 'cdp') {
+            this.cdpSession ??= this.page.context().newCDPSession(this.page);
+            await (await this.cdpSession).send('Input.dispatchTouchEvent', {
+                type: phase,
+                touchPoints: phase === 'touchEnd' ? [] : rounded.map((point, id) => ({ ...point, id })),
+            });
+            return;
+        }
+
+        await this.page.evaluate(({ type, points }) => {
+            const state = window as any;
+            // 指が触れた位置の要素（Shadow DOM の内側を含む）
+            const elementAt = (x: number, y: number): Element | null => {
+                let element = document.elementFromPoint(x, y);
+                while (element?.shadowRoot) {
+                    const inner = element.shadowRoot.elementFromPoint(x, y);
+                    if (!inner || inner === element) break;
+                    element = inner;
+                }
+                return element;
+            };
+            // 実際のタッチと同じく、移動・終了のイベントも触れ始めた要素に発行します
+            if (type === 'touchstart') state.__gestureTarget = elementAt(points[0].x, points[0].y) ?? document.body;
+            const target: Element = state.__gestureTarget ?? document.body;
+
+            const toTouch = (point: { x: number; y: number }, identifier: number) => ({
+                identifier, target,
+                clientX: point.x, clientY: point.y,
+                pageX: point.x + window.scrollX, pageY: point.y + window.scrollY,
+                screenX: point.x, screenY: point.y,
+                radiusX: 1, radiusY: 1, force: 1,
+            });
+            const touches = type === 'touchend' ? [] : points.map(toTouch);
+            const event = new Event(type, { bubbles: true, cancelable: true, composed: true });
+            // Touch オブジェクトは生成できないブラウザがあるため、touches などのプロパティを後から設定します
+            Object.defineProperties(event, {
+                touches: { value: touches },
+                targetTouches: { value: touches },
+                changedTouches: { value: points.map(toTouch) },
+            });
+            target.dispatchEvent(event);
+            if (type === 'touchend') state.__gestureTarget = null;
+        }, { type: phase.toLowerCase(), points: rounded });
+    }
+}
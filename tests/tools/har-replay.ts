@@ -0,0 +1,163 @@
+import path from 'path';
+import fs from 'fs';
+import { type BrowserContext, type TestInfo } from '@playwright/test';
+import { config } from '../config';
+
+/**
+ * API通信の記録・再生モード。環境変数 PWAPPY_TEST_HAR_MODE で切り替えます。
+ * - off: 何もしない（デフォルト）
+ * - record: 成功したテストの通信を HAR_DIR 配下にテスト単位で保存する
+ * - replay: 保存済みの HAR から応答を返し、バックエンドに接続せずに実行する（記録がないテストはスキップ）
+ *
+ * replay ではログイン・セッションの確認を行わず、ダッシュボードは記録時のURLで開きます。
+ * 共有アプリ（sharedApp）は別のコンテキストで作成し、一意IDも最初のテストにしか記録されないため、記録・再生の対象外です。
+ */
+export type HarMode = 'off' | 'record' | 'replay';
+
+/**
+ * 記録したHARを保存するディレクトリ。
+ * `<スペックの相対パス>/<プロジェクト名>/<テストタイトル>.zip` と、一意IDを保存する同名の `.json` を配置します。
+ */
+export const HAR_DIR = path.join(process.cwd(), 'har');
+
+/**
+ * HARと一緒に保存するメタデータ。
+ */
+type HarMeta = {
+    /** テスト中に generateUniqueId で払い出したIDを払い出し順に保持します */
+    uniqueIds: string[];
+    /** 記録時のダッシュボードのURL。再生時はこのURLで開きます */
+    baseUrl?: string;
+    recordedAt: string;
+};
+
+export const getHarMode = (): HarMode => config.har.mode;
+
+/**
+ * 記録・再生の対象とするURL。環境変数 PWAPPY_TEST_HAR_URL（正規表現）で絞り込めます。
+ * 省略時はフロントエンドの静的ファイルを含むすべての通信を対象とし、バックエンドなしで再生できるようにします。
+ */
+const getHarUrlFilter = (): RegExp | undefined => config.har.urlFilter;
+
+const sanitize = (name: string): string => name.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 120);
+
+/**
+ * テストに対応するHARファイルとメタデータファイルのパスを返します。
+ */
+export const getHarPaths = (testInfo: TestInfo): { har: string; meta: string } => {
+    const specPath = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.spec\.ts$/, '');
+    const title = sanitize(testInfo.titlePath.slice(1).join(' - '));
+    const base = path.join(HAR_DIR, specPath, sanitize(testInfo.project.name), title);
+    return { har: `${base}.zip`, meta: `${base}.json` };
+};
+
+/**
+ * 1テスト分の記録・再生の状態。
+ * アプリキーなどフィクスチャが生成する一意IDは、記録時の払い出し順を保存しておき、再生時に同じ順で同じ値を払い出します。
+ * これにより、URLやリクエストボディに一意IDを含む通信も記録時と完全一致し、routeFromHAR で照合できます。
+ * チケットIDなどサーバーが採番する値はHARの応答がそのまま再生されるため、後続のリクエストも記録時と一致します。
+ */
+export class HarSession {
+    private readonly issuedIds: string[] = [];
+    private replayIndex = 0;
+
+    constructor(
+        readonly mode: Exclude<HarMode, 'off'>,
+        private readonly recordedIds: string[] = [],
+        /** 再生時に開くダッシュボードのURL（記録時のURL） */
+        readonly baseUrl?: string,
+    ) { }
+
+    /**
+     * 一意IDを払い出します。再生時は記録済みのIDを順に返し、尽きた場合は fresh で新しく生成します。
+     */
+    nextId(fresh: () => string): string {
+        const id = this.mode === 'replay' && this.replayIndex < this.recordedIds.length
+            ? this.recordedIds[this.replayIndex++]
+            : fresh();
+        this.issuedIds.push(id);
+        return id;
+    }
+
+    get uniqueIds(): readonly string[] {
+        return this.issuedIds;
+    }
+}
+
+// ワーカー内では同時に1テストしか実行されないため、実行中のセッションをモジュール単位で保持します
+let activeSession: HarSession | null = null;
+
+/**
+ * 実行中のテストの記録・再生セッションを返します（off の場合は null）。
+ */
+export const getActiveHarSession = (): HarSession | null => activeSession;
+
+/**
+ * 再生中かどうかを返します。再生中はバックエンドに接続しないため、ログインやセッションの確認を省略します。
+ */
+export const isHarReplaying = (): boolean => activeSession?.mode === 'replay';
+
+/**
+ * ダッシュボードのURLを返します。再生中は記録時のURLを返し、PWAPPY_TEST_BASE_URL が未設定でも再生できるようにします。
+ */
+export const resolveBaseUrl = (): string => {
+    if (activeSession?.mode === 'replay' && activeSession.baseUrl) return activeSession.baseUrl;
+    return config.baseUrl;
+};
+
+/**
+ * テスト開始時に記録・再生を開始します。
+ * - record: 通信をテストの出力ディレクトリに一時的に記録します（保存は finishHarSession で行います）
+ * - replay: 保存済みのHARから応答を返します。記録がない場合は null を返します
+ */
+export async function startHarSession(context: BrowserContext, testInfo: TestInfo, mode: HarMode): Promise<HarSession | null> {
+    activeSession = null;
+    if (mode === 'off') return null;
+
+    const url = getHarUrlFilter();
+
+    if (mode === 'record') {
+        await context.routeFromHAR(testInfo.outputPath('api.har.zip'), {
+            url,
+            update: true,
+            updateContent: 'embed',
+            updateMode: 'minimal',
+        });
+        activeSession = new HarSession('record');
+        return activeSession;
+    }
+
+    const { har, meta } = getHarPaths(testInfo);
+    if (!fs.existsSync(har)) return null;
+
+    const recorded: HarMeta = fs.existsSync(meta) ? JSON.parse(fs.readFileSync(meta, 'utf-8')) : { uniqueIds: [], recordedAt: '' };
+    // 記録にないリクエストはバックエンドへ流さず失敗させ、再生の取りこぼしに気付けるようにします
+    await context.routeFromHAR(har, { url, notFound: 'abort' });
+    activeSession = new HarSession('replay', recorded.uniqueIds, recorded.baseUrl);
+    return activeSession;
+}
+
+/**
+ * テスト終了時に記録・再生を終了します。
+ * record の場合はコンテキストを閉じてHARを書き出し、テストが成功していれば HAR_DIR に保存します。
+ */
+export async function finishHarSession(context: BrowserContext, testInfo: TestInfo, session: HarSession | null): Promise<void> {
+    activeSession = null;
+    if (!session || session.mode !== 'record') return;
+
+    // HARはコンテキストを閉じた時点で書き出されるため、ここで明示的に閉じます
+    await context.close();
+
+    const recordedHar = testInfo.outputPath('api.har.zip');
+    if (testInfo.status !== testInfo.expectedStatus || !fs.existsSync(recordedHar)) {
+        console.log(`[HAR] テストが成功しなかったため記録を保存しません: ${testInfo.title}`);
+        return;
+    }
+
+    const { har, meta } = getHarPaths(testInfo);
+    fs.mkdirSync(path.dirname(har), { recursive: true });
+    fs.copyFileSync(recordedHar, har);
+    const data: HarMeta = { uniqueIds: [...session.uniqueIds], baseUrl: config.baseUrl, recordedAt: new Date().toISOString() };
+    fs.writeFileSync(meta, JSON.stringify(data, null, 2), 'utf-8');
+    console.log(`[HAR] 通信を記録しました: ${path.relative(process.cwd(), har)}`);
+}
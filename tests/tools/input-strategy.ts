@@ -0,0 +1,284 @@
+/**
+ * ブラウザ・OS・モバイル表示ごとに異なる入力操作（全選択・入力欄のクリア・文字入力・ポップアップを開く操作・修飾キー・タッチ操作の送り方）の切り替え。
+ * ブラウザごとのワークアラウンドは INPUT_WORKAROUNDS に理由とともにまとめ、テストやヘルパーでは browserName による分岐を書かずに
+ * getInputStrategy(page) の操作を呼び出します。
+ *
+ * 環境変数 PWAPPY_TEST_INPUT_STRATEGY（例: `webkit`、`firefox,mobile`）を指定すると、実行中のブラウザに関係なく
+ * 指定した環境の入力操作を使用します（ワークアラウンドの要否を調べる場合などに使用します）。
+ *
+ * @example
+ * const input = getInputStrategy(page);
+ * await input.clearField(textarea);
+ * await input.typeText(textarea, 'console.log(1);');
+ * const newPage = await input.openPopup(() => button.click());
+ */
+import { test, type Locator, type Page } from '@playwright/test';
+import { config } from '../config';
+import { retryUntil } from './retry';
+
+export type InputBrowser = 'chromium' | 'firefox' | 'webkit';
+export type InputPlatform = 'mac' | 'windows' | 'linux';
+
+/** 入力操作を選択する環境 */
+export type InputEnvironment = {
+    browser: InputBrowser;
+    /** テストを実行しているOS */
+    platform: InputPlatform;
+    isMobile: boolean;
+};
+
+/**
+ * 入力操作の方法。
+ * - modifier: ショートカットの修飾キー
+ * - typeText: 'fill' は値をまとめて入力し、'pressSequentially' は1文字ずつキー入力します
+ * - openPopup: 'page-event' は開かれたページを待ち、'intercept-window-open' は window.open の URL を横取りして自分で開きます
+ * - touch: タッチ操作（gestures.ts）の送り方。'mouse' はマウス操作で代用し、'cdp' は CDP で実際のタッチ入力を送り、
+ *   'synthetic' はページ内でタッチイベントを発行します
+ * - dragAndDrop: ドラッグ＆ドロップ（getDragAndDropGestures）の送り方。'touch' は touch と同じ送り方を使い、'mouse' はマウス操作でドラッグします
+ */
+export type InputBehavior = {
+    modifier: 'Control' | 'Meta';
+    typeText: 'fill' | 'pressSequentially';
+    openPopup: 'page-event' | 'intercept-window-open';
+    touch: 'mouse' | 'cdp' | 'synthetic';
+    dragAndDrop: 'touch' | 'mouse';
+};
+
+type InputWorkaround = {
+    name: string;
+    when: (env: InputEnvironment) => boolean;
+    behavior: Partial<InputBehavior>;
+    /** ワークアラウンドが必要な理由。不要になった場合はエントリーを削除します */
+    reason: string;
+};
+
+/**
+ * ワークアラウンドが不要な環境の入力操作。
+ * typeText の fill は、Chromium / WebKit で Monaco Editor の textarea に入力できることを確認しています
+ * （editScriptContent / fillScriptContent のキーボード入力は、以前から Chromium / WebKit で fill を使用していました）。
+ */
+const DEFAULT_BEHAVIOR: InputBehavior = {
+    modifier: 'Control',
+    typeText: 'fill',
+    openPopup: 'page-event',
+    touch: 'mouse',
+    dragAndDrop: 'touch',
+};
+
+/**
+ * 環境ごとのワークアラウンド。一致したエントリーを上から順に適用します。
+ */
+const INPUT_WORKAROUNDS: InputWorkaround[] = [
+    {
+        name: 'mac-modifier',
+        when: env => env.platform === 'mac',
+        behavior: { modifier: 'Meta' },
+        reason: 'macOS ではショートカットの修飾キーが Command（Meta）のため',
+    },
+    {
+        name: 'webkit-mac-modifier',
+        when: env => env.browser === 'webkit',
+        behavior: { modifier: 'Meta' },
+        reason: 'WebKit（Desktop Safari / iPhone）のユーザーエージェントは Apple の端末を示すため、アプリと Monaco Editor は Command（Meta）のショートカットを使用します',
+    },
+    {
+        name: 'firefox-press-sequentially',
+        when: env => env.browser === 'firefox',
+        behavior: { typeText: 'pressSequentially' },
+        reason: 'Firefox では Monaco Editor の textarea に fill した値が入力イベントとして扱われず、エディタに反映されないことがあるため',
+    },
+    {
+        name: 'webkit-window-open',
+        when: env => env.browser === 'webkit',
+        behavior: { openPopup: 'intercept-window-open' },
+        reason: 'WebKit では window.open で新しいタブを開くとクラッシュすることがあるため、URL を横取りして新しいページで開きます',
+    },
+    {
+        name: 'mobile-chromium-cdp-touch',
+        when: env => env.isMobile && env.browser === 'chromium',
+        behavior: { touch: 'cdp' },
+        reason: 'Playwright の touchscreen は tap しか送れないため、Chromium では CDP（Input.dispatchTouchEvent）で移動や複数の指を含むタッチ入力を送ります',
+    },
+    {
+        name: 'mobile-synthetic-touch',
+        when: env => env.isMobile && env.browser !== 'chromium',
+        behavior: { touch: 'synthetic' },
+        reason: 'WebKit / Firefox には CDP がなく実際のタッチ入力を送れないため、ページ内で touches を設定したタッチイベントを発行します（スクロールやズームなどブラウザの既定の動作は起こりません）',
+    },
+    {
+        name: 'mobile-webkit-mouse-drag-and-drop',
+        when: env => env.isMobile && env.browser === 'webkit',
+        behavior: { dragAndDrop: 'mouse' },
+        reason: 'mobile-safari（WebKit）では、ページ内で発行したタッチイベントでツールボックスの部品をDOMツリーへドラッグ＆ドロップできることを確認できていないため、マウス操作でドラッグします',
+    },
+];
+
+const INPUT_BROWSERS: InputBrowser[] = ['chromium', 'firefox', 'webkit'];
+const INPUT_PLATFORMS: InputPlatform[] = ['mac', 'windows', 'linux'];
+
+const hostPlatform = (): InputPlatform => process.platform === 'darwin' ? 'mac' : process.platform === 'win32' ? 'windows' : 'linux';
+
+/**
+ * ページの実行環境を判定し、PWAPPY_TEST_INPUT_STRATEGY の指定があれば上書きします。
+ */
+export function detectInputEnvironment(page: Page): InputEnvironment {
+    let projectUse: { browserName?: string; defaultBrowserType?: string; isMobile?: boolean } = {};
+    try {
+        projectUse = test.info().project.use;
+    } catch {
+        // テストの外（グローバルセットアップなど）ではプロジェクトの設定を参照できません
+    }
+    const browserName = page.context().browser()?.browserType().name() ?? projectUse.browserName ?? projectUse.defaultBrowserType;
+    const env: InputEnvironment = {
+        browser: INPUT_BROWSERS.includes(browserName as InputBrowser) ? browserName as InputBrowser : 'chromium',
+        platform: hostPlatform(),
+        isMobile: projectUse.isMobile ?? false,
+    };
+
+    for (const token of config.inputStrategy) {
+        if (INPUT_BROWSERS.includes(token as InputBrowser)) env.browser = token as InputBrowser;
+        else if (INPUT_PLATFORMS.includes(token as InputPlatform)) env.platform = token as InputPlatform;
+        else if (token === 'mobile' || token === 'desktop') env.isMobile = token === 'mobile';
+    }
+    return env;
+}
+
+/**
+ * 環境に一致するワークアラウンドを適用した入力操作の方法を返します。
+ */
+export function resolveInputBehavior(env: InputEnvironment): { behavior: InputBehavior; workarounds: string[] } {
+    const applied = INPUT_WORKAROUNDS.filter(workaround => workaround.when(env));
+    return {
+        behavior: Object.assign({ ...DEFAULT_BEHAVIOR }, ...applied.map(workaround => workaround.behavior)),
+        workarounds: applied.map(workaround => workaround.name),
+    };
+}
+
+const strategies = new WeakMap<Page, InputStrategy>();
+
+/**
+ * ページの入力操作を返します。
+ */
+export const getInputStrategy = (page: Page): InputStrategy => {
+    let strategy = strategies.get(page);
+    if (!strategy) {
+        strategy = new InputStrategy(page, detectInputEnvironment(page));
+        strategies.set(page, strategy);
+    }
+    return strategy;
+};
+
+/**
+ * 環境に合わせた入力操作。getInputStrategy から取得します。
+ */
+export class InputStrategy {
+    readonly behavior: InputBehavior;
+    /** 適用したワークアラウンドの名前 */
+    readonly workarounds: string[];
+
+    constructor(private readonly page: Page, readonly env: InputEnvironment) {
+        ({ behavior: this.behavior, workarounds: this.workarounds } = resolveInputBehavior(env));
+        if (config.inputStrategy.length > 0) {
+            console.log(`[Input] 入力操作を ${env.browser} / ${env.platform} / ${env.isMobile ? 'mobile' : 'desktop'} に固定しています（${this.workarounds.join(', ') || 'ワークアラウンドなし'}）`);
+        }
+    }
+
+    /** ショートカットの修飾キー（'Control' または 'Meta'） */
+    get modifier(): InputBehavior['modifier'] {
+        return this.behavior.modifier;
+    }
+
+    /**
+     * 修飾キーを付けたショートカットを返します。
+     * @example input.shortcut('z') // 'Meta+z'（macOS / WebKit）または 'Control+z'
+     */
+    shortcut(key: string): string {
+        return `${this.modifier}+${key}`;
+    }
+
+    /**
+     * 全選択します。target を指定した場合はフォーカスしてから選択します（省略時はフォーカス中の要素）。
+     */
+    async selectAll(target?: Locator): Promise<void> {
+        if (target) await target.focus();
+        await this.page.keyboard.press(this.shortcut('A'));
+    }
+
+    /**
+     * 入力欄の内容を削除します。input 要素は fill で、それ以外（Monaco Editor の textarea など）は全選択して削除します。
+     * Monaco Editor は実行中のOSではなくユーザーエージェントから修飾キーを決めるため（macOS 上の Desktop Chrome は Windows として扱われます）、
+     * 全選択は Control+A と Meta+A の両方を送ります。
+     */
+    async clearField(target: Locator): Promise<void> {
+        if (await target.evaluate(el => el instanceof HTMLInputElement)) {
+            await target.fill('');
+            return;
+        }
+        await target.focus();
+        await this.page.keyboard.press('Control+A');
+        await this.page.keyboard.press('Meta+A');
+        await this.page.keyboard.press('Delete');
+    }
+
+    /**
+     * 入力欄に文字を入力します（カーソル位置に追加します）。
+     */
+    async typeText(target: Locator, text: string): Promise<void> {
+        if (this.behavior.typeText === 'fill') {
+            await target.fill(text);
+        } else {
+            await target.focus();
+            await target.pressSequentially(text, { delay: 10 });
+        }
+    }
+
+    /**
+     * 新しいタブを開く操作（action）を実行し、開かれたページを返します。
+     * 新しいタブが開かれない場合は、操作からやり直します。
+     */
+    async openPopup(action: () => Promise<void>): Promise<Page> {
+        const page = this.page;
+        const context = page.context();
+
+        if (this.behavior.openPopup === 'intercept-window-open') {
+            console.warn(`[Workaround] ${this.env.browser} 環境の window.open クラッシュバグを回避するため、URLをインターセプトします。`);
+            await page.evaluate(() => {
+                (window as any)._interceptedUrl = null;
+                if (!(window as any)._isMockedForWebkit) {
+                    (window as any)._isMockedForWebkit = true;
+                    window.open = function (...args) {
+                        (window as any)._interceptedUrl = args[0];
+                        return null; // クラッシュする本来の呼び出しを防ぐ
+                    };
+                }
+            });
+
+            return retryUntil('openPopup(intercept-window-open)', async () => {
+                await page.evaluate(() => { (window as any)._interceptedUrl = null; });
+
+                // アクション（クリック等）を実行
+                await action();
+
+                const targetUrlHandle = await page.waitForFunction(() => {
+                    return (window as any)._interceptedUrl;
+                }, { timeout: 10000 }).catch(() => null);
+
+                const urlString = targetUrlHandle ? await targetUrlHandle.jsonValue() as string : null;
+                if (!urlString) throw new Error('window.open が検知されませんでした。');
+
+                const spawnedPage = await context.newPage();
+                const absoluteUrl = new URL(urlString, page.url()).toString();
+                await spawnedPage.goto(absoluteUrl, { waitUntil: 'domcontentloaded' });
+                return spawnedPage;
+            }, { timeout: 30000, initialDelay: 2000 });
+        }
+
+        return retryUntil('openPopup', async () => {
+            const pagePromise = context.waitForEvent('page', { timeout: 15000 }).catch(() => null);
+            await action();
+            const spawnedPage = await pagePromise;
+            if (!spawnedPage) throw new Error('新しいタブが開かれませんでした。');
+            return spawnedPage;
+        }, { timeout: 30000, initialDelay: 2000 });
+    }
+}
@@ -0,0 +1,32 @@
+import { config } from '../../config';
+import { startLocalBackend } from './server';
+
+/**
+ * PWAPPY_TEST_PROFILE=local の場合に tests/global-setup.ts から呼び出されるグローバルセットアップ。
+ * ローカル代替バックエンドを起動し、接続先の環境変数を上書きしてからテストを開始します。
+ * ここで設定した環境変数は各ワーカーに引き継がれます。
+ *
+ * - PWAPPY_TEST_LOCAL_BACKEND_PORT: 待ち受けポート（デフォルト: 空きポート）
+ * - PWAPPY_TEST_LOCAL_BACKEND_STATE: 状態を保存するJSONファイル（デフォルト: メモリ上のみ）
+ * - PWAPPY_TEST_LOCAL_FRONTEND_DIR: 配信する pwappy-web のビルド済みフロントエンド
+ * - PWAPPY_TEST_LOCAL_REVIEW_DELAY_MS: 審査待ちから準備完了までの時間（デフォルト: 3000）
+ */
+export default async function globalSetup(): Promise<() => Promise<void>> {
+    process.env.PWAPPY_TEST_LOGIN_PASSCODE ||= 'local';
+
+    const backend = await startLocalBackend({
+        port: config.local.port,
+        stateFile: config.local.stateFile,
+        passcode: config.loginPasscode,
+        reviewDelayMs: config.local.reviewDelayMs,
+        frontendDir: config.local.frontendDir,
+    });
+
+    process.env.PWAPPY_TEST_BASE_URL = backend.baseUrl;
+    process.env.PWAPPY_TEST_LOGIN_ENDPOINT = backend.loginEndpoint;
+    process.env.PWAPPY_TEST_SESSION_CHECK_URL = `${backend.baseUrl}api/dashboard-init`;
+
+    return async () => {
+        await backend.close();
+    };
+}
@@ -0,0 +1,226 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { type AddressInfo } from 'net';
+import { LocalBackendStore, LocalBackendError, VERSION_STATUS_LABELS, type LocalApp } from './store';
+
+const SESSION_COOKIE = 'pwappy_local_session';
+
+export type LocalBackendOptions = {
+    /** 待ち受けポート（0 の場合は空いているポートを自動で割り当てます） */
+    port?: number;
+    /** 状態を保存するJSONファイル（省略時はメモリ上のみ） */
+    stateFile?: string;
+    /** ログイン時に要求するパスコード（省略時は任意の値を受け付けます） */
+    passcode?: string;
+    /** 審査待ちから準備完了に遷移するまでの時間（ミリ秒） */
+    reviewDelayMs?: number;
+    /** pwappy-web のビルド済みフロントエンド。指定した場合は API 以外のパスを静的ファイルとして配信します */
+    frontendDir?: string;
+};
+
+export type LocalBackend = {
+    /** ベースURL（例: http://127.0.0.1:53211/） */
+    baseUrl: string;
+    /** ensureAuthenticated が使用するログインエンドポイント */
+    loginEndpoint: string;
+    store: LocalBackendStore;
+    close: () => Promise<void>;
+};
+
+type Handler = (ctx: { identkey: string; params: string[]; body: any }) => unknown;
+
+/**
+ * message を指定したルートは、本番と同じく details の代わりに { code, message } を返します（受付のみの API など）。
+ */
+type Route = { method: string; pattern: RegExp; message?: string; handler: (store: LocalBackendStore) => Handler };
+
+/**
+ * ローカル代替バックエンドの API 定義。レスポンスは本番と同じく { code, details } の形式で返します。
+ *
+ * 本番の通信で確認できた、次の API のみを提供します。
+ * - GET dashboard-init: DashboardPage.goto / reload が待ち合わせるダッシュボードの初期化
+ * - GET / PUT editor: エディタの初期化と、PlatformSwitcher.saveAndOpenTestPage が待ち合わせるエディタの保存
+ * - publish: delete-and-edit-guard.spec.ts が追跡する公開状態の変更
+ * - ai-script-coding: publish-management.spec.ts がモックするAIコーディングの依頼（POST）と結果の取得（GET）。
+ *   依頼のボディの形式は確認できていないため、requestContent がない場合はボディ全体を依頼内容として記録します
+ *
+ * アプリ・バージョンの作成や削除、アーカイブ、設定の変更は本番のパスを確認できていないため提供しません。
+ * 新しいユーザーには store のサンプルアプリ（LOCAL_SAMPLE_APP）を用意します。
+ * 本番のパスは、PWAPPY_TEST_HAR_MODE=record で記録した HAR（har/）から確認できます。
+ * 未対応のパスへのリクエストは [LocalBackend] のログに出力するため、フロントエンドを配信した場合に不足している API を確認できます。
+ */
+const routes: Route[] = [
+    {
+        method: 'GET', pattern: /^\/api\/dashboard-init$/,
+        handler: store => ({ identkey }) => {
+            const user = store.user(identkey);
+            return { points: user.points, settings: { aiCoding: user.aiCoding, hasGeminiApiKey: !!user.geminiApiKey }, apps: store.listApps(identkey).map(toAppSummary) };
+        },
+    },
+    {
+        method: 'GET', pattern: /^\/api\/editor\/([^/]+)\/([^/]+)$/,
+        handler: store => ({ identkey, params: [appKey, version] }) => store.version(identkey, appKey, version).project,
+    },
+    {
+        method: 'PUT', pattern: /^\/api\/editor\/([^/]+)\/([^/]+)$/,
+        handler: store => ({ identkey, params: [appKey, version], body }) => {
+            const saved = store.saveProject(identkey, appKey, version, body);
+            return { updatedAt: saved.updatedAt };
+        },
+    },
+    {
+        method: 'POST', pattern: /^\/api\/publish\/([^/]+)\/([^/]+)$/,
+        handler: store => ({ identkey, params: [appKey, version], body }) => {
+            const action = requireString(body, 'action');
+            if (action !== 'apply' && action !== 'publish' && action !== 'unpublish') {
+                throw new LocalBackendError(400, `不明な action です: ${action}`);
+            }
+            const updated = store.transition(identkey, appKey, version, action);
+            return { ...updated, statusLabel: VERSION_STATUS_LABELS[updated.status] };
+        },
+    },
+    {
+        method: 'GET', pattern: /^\/api\/ai-script-coding$/,
+        handler: store => ({ identkey }) => store.user(identkey).aiTickets ?? [],
+    },
+    {
+        method: 'POST', pattern: /^\/api\/ai-script-coding$/, message: 'Request accepted',
+        handler: store => ({ identkey, body }) => store.requestScriptCoding(identkey, typeof body?.requestContent === 'string' ? body.requestContent : JSON.stringify(body ?? {})),
+    },
+];
+
+/**
+ * ローカル代替バックエンドを起動します。
+ * 本番環境に接続せずにヘルパー層を開発・回帰テストするためのもので、PWAPPY_TEST_PROFILE=local の場合に
+ * tests/tools/local-backend/global-setup.ts から同一プロセス内で起動されます。
+ */
+export async function startLocalBackend(options: LocalBackendOptions = {}): Promise<LocalBackend> {
+    const store = new LocalBackendStore({ stateFile: options.stateFile, reviewDelayMs: options.reviewDelayMs ?? 3000 });
+    const compiled = routes.map(r => ({ ...r, handle: r.handler(store) }));
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        try {
+            if (req.method === 'POST' && url.pathname === '/api/login') {
+                const body = await readJson(req);
+                // 旧バージョンのログイン処理は identKey で送信していたため、両方を受け付ける
+                const identkey = body?.identkey ?? body?.identKey;
+                if (!identkey || (options.passcode && body?.passcode !== options.passcode)) {
+                    return sendJson(res, 401, { status: 'error', message: 'ログインに失敗しました' });
+                }
+                store.user(identkey);
+                res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(identkey)}; Path=/; HttpOnly; SameSite=Lax`);
+                return sendJson(res, 200, { status: 'success', identkey });
+            }
+
+            if (url.pathname.startsWith('/api/')) {
+                const route = compiled.find(r => r.method === req.method && r.pattern.test(url.pathname));
+                if (!route) {
+                    console.warn(`[LocalBackend] 未対応のAPIです: ${req.method} ${url.pathname}`);
+                    return sendJson(res, 404, { code: 404, message: `Not Found: ${req.method} ${url.pathname}` });
+                }
+
+                const identkey = readSession(req);
+                if (!identkey) return sendJson(res, 401, { code: 401, message: 'ログインしていません' });
+
+                const params = route.pattern.exec(url.pathname)!.slice(1).map(decodeURIComponent);
+                const body = await readJson(req);
+                const details = route.handle({ identkey, params, body });
+                return sendJson(res, 200, route.message ? { code: 200, message: route.message } : { code: 200, details: details ?? null });
+            }
+
+            return serveFrontend(res, url.pathname, options.frontendDir);
+        } catch (error) {
+            if (error instanceof LocalBackendError) {
+                return sendJson(res, error.status, { code: error.status, message: error.message });
+            }
+            console.error('[LocalBackend] Unexpected error:', error);
+            return sendJson(res, 500, { code: 500, message: String(error) });
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const baseUrl = `http://127.0.0.1:${port}/`;
+    console.log(`[LocalBackend] Listening on ${baseUrl}${options.stateFile ? ` (state: ${options.stateFile})` : ''}`);
+
+    return {
+        baseUrl,
+        loginEndpoint: `${baseUrl}api/login`,
+        store,
+        close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+    };
+}
+
+function toAppSummary(app: LocalApp) {
+    return {
+        appKey: app.appKey,
+        appName: app.appName,
+        archived: app.archived,
+        versions: app.versions.map(v => ({ version: v.version, status: v.status, statusLabel: VERSION_STATUS_LABELS[v.status], updatedAt: v.updatedAt })),
+    };
+}
+
+function requireString(body: any, key: string): string {
+    const value = body?.[key];
+    if (typeof value !== 'string' || value === '') {
+        throw new LocalBackendError(400, `${key} は必須です`);
+    }
+    return value;
+}
+
+function readSession(req: http.IncomingMessage): string | null {
+    const cookies = (req.headers.cookie ?? '').split(';').map(c => c.trim());
+    const session = cookies.find(c => c.startsWith(`${SESSION_COOKIE}=`));
+    return session ? decodeURIComponent(session.slice(SESSION_COOKIE.length + 1)) : null;
+}
+
+async function readJson(req: http.IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (!text) return null;
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new LocalBackendError(400, 'リクエストボディが JSON ではありません');
+    }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+};
+
+function serveFrontend(res: http.ServerResponse, pathname: string, frontendDir?: string): void {
+    if (!frontendDir) {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end('<!DOCTYPE html><title>Pwappy local backend</title><p>PWAPPY_TEST_LOCAL_FRONTEND_DIR が設定されていないため、APIのみ提供しています（実行対象は tests/specs/local のテストのみです）。</p>');
+        return;
+    }
+
+    const root = path.resolve(frontendDir);
+    const resolved = path.resolve(root, `.${decodeURIComponent(pathname)}`);
+    // ディレクトリ外への参照と、存在しないパス（SPA のルーティング）は index.html にフォールバックする
+    const file = resolved.startsWith(root) && fs.existsSync(resolved) && fs.statSync(resolved).isFile()
+        ? resolved
+        : path.join(root, 'index.html');
+
+    if (!fs.existsSync(file)) {
+        res.writeHead(404);
+        res.end();
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+    fs.createReadStream(file).pipe(res);
+}
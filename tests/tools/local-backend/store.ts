@@ -0,0 +1,238 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * バージョンの公開状態。ダッシュボードのステータスバッジに表示される文言と対応します。
+ * - draft: 編集中
+ * - review: 審査待ち
+ * - ready: 準備完了
+ * - published: 公開中
+ * - unpublished: 非公開
+ */
+export type LocalVersionStatus = 'draft' | 'review' | 'ready' | 'published' | 'unpublished';
+
+export const VERSION_STATUS_LABELS: Record<LocalVersionStatus, string> = {
+    draft: '編集中',
+    review: '審査待ち',
+    ready: '準備完了',
+    published: '公開中',
+    unpublished: '非公開',
+};
+
+export type LocalVersion = {
+    version: string;
+    status: LocalVersionStatus;
+    /** 審査待ちになった日時（epoch ms）。準備完了への遷移判定に使用します */
+    reviewedAt?: number;
+    /** エディタから保存されたプロジェクトデータ */
+    project: unknown;
+    updatedAt: string;
+};
+
+export type LocalApp = {
+    appKey: string;
+    appName: string;
+    archived: boolean;
+    versions: LocalVersion[];
+    createdAt: string;
+};
+
+/**
+ * 新しいユーザーに用意するサンプルアプリ。バージョン 1.0.0（編集中）を持ちます。
+ */
+export const LOCAL_SAMPLE_APP = { appKey: 'local-sample', appName: 'サンプルアプリ' } as const;
+
+/**
+ * AIコーディングの依頼。ローカル代替バックエンドでは依頼をすぐに完了（completed）として記録します。
+ */
+export type LocalAiTicket = {
+    ticket: string;
+    requestContent: string;
+    responseContent: string;
+    responseFormat: 'text';
+    status: 'completed';
+    createdDate: string;
+    finishReason: 'STOP';
+};
+
+export type LocalUser = {
+    identkey: string;
+    points: number;
+    aiCoding: boolean;
+    geminiApiKey: string | null;
+    apps: LocalApp[];
+    /** 以前の状態ファイルには存在しないため省略可能です */
+    aiTickets?: LocalAiTicket[];
+};
+
+type LocalState = {
+    users: Record<string, LocalUser>;
+};
+
+/**
+ * 操作が許可されない場合のエラー。サーバーはステータスコードをそのままレスポンスに使用します。
+ */
+export class LocalBackendError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'LocalBackendError';
+    }
+}
+
+/**
+ * ローカル代替バックエンドの状態。
+ * stateFile を指定した場合は変更のたびにファイルへ書き出し、次回起動時に読み込みます。
+ * 指定しない場合はメモリ上にのみ保持します。
+ */
+export class LocalBackendStore {
+    private state: LocalState = { users: {} };
+
+    /**
+     * @param options.stateFile 状態を保存するJSONファイルのパス
+     * @param options.reviewDelayMs 審査待ちから準備完了に遷移するまでの時間
+     */
+    constructor(private readonly options: { stateFile?: string; reviewDelayMs: number }) {
+        const { stateFile } = options;
+        if (stateFile && fs.existsSync(stateFile)) {
+            this.state = JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+        }
+    }
+
+    /**
+     * ユーザーを取得します。存在しない場合はログイン時と同じ初期状態で作成します。
+     * アプリを作成する API は提供していないため、新しいユーザーには編集中のサンプルアプリ（LOCAL_SAMPLE_APP）を1つ用意します。
+     */
+    user(identkey: string): LocalUser {
+        const users = this.state.users;
+        if (!users[identkey]) {
+            users[identkey] = { identkey, points: 1000, aiCoding: false, geminiApiKey: null, apps: [] };
+            this.createApp(identkey, LOCAL_SAMPLE_APP.appName, LOCAL_SAMPLE_APP.appKey);
+        }
+        return users[identkey];
+    }
+
+    /**
+     * ユーザーのアプリ一覧を返します。審査待ちのバージョンは経過時間に応じて準備完了に進めます。
+     */
+    listApps(identkey: string): LocalApp[] {
+        const user = this.user(identkey);
+        this.advanceReviews(user);
+        return user.apps;
+    }
+
+    app(identkey: string, appKey: string): LocalApp {
+        const app = this.user(identkey).apps.find(a => a.appKey === appKey);
+        if (!app) throw new LocalBackendError(404, `アプリが見つかりません: ${appKey}`);
+        return app;
+    }
+
+    version(identkey: string, appKey: string, version: string): LocalVersion {
+        const app = this.app(identkey, appKey);
+        this.advanceReviews(this.user(identkey));
+        const found = app.versions.find(v => v.version === version);
+        if (!found) throw new LocalBackendError(404, `バージョンが見つかりません: ${appKey}/${version}`);
+        return found;
+    }
+
+    /**
+     * アプリを作成します。本番のパスを確認できていないため API としては提供せず、サンプルアプリの用意とテストの準備に使用します。
+     */
+    createApp(identkey: string, appName: string, appKey: string): LocalApp {
+        const user = this.user(identkey);
+        if (user.apps.some(a => a.appKey === appKey)) {
+            throw new LocalBackendError(409, `アプリキーが既に使用されています: ${appKey}`);
+        }
+        const now = new Date().toISOString();
+        const app: LocalApp = {
+            appKey, appName, archived: false, createdAt: now,
+            versions: [{ version: '1.0.0', status: 'draft', project: null, updatedAt: now }],
+        };
+        user.apps.push(app);
+        this.save();
+        return app;
+    }
+
+    /**
+     * 公開状態を遷移させます。
+     * - apply: 編集中 / 非公開 → 審査待ち（reviewDelayMs 経過後に準備完了）
+     * - publish: 準備完了 → 公開中
+     * - unpublish: 公開中 → 非公開
+     */
+    transition(identkey: string, appKey: string, version: string, action: 'apply' | 'publish' | 'unpublish'): LocalVersion {
+        const target = this.version(identkey, appKey, version);
+        const allowed: Record<typeof action, LocalVersionStatus[]> = {
+            apply: ['draft', 'unpublished'],
+            publish: ['ready'],
+            unpublish: ['published'],
+        };
+        if (!allowed[action].includes(target.status)) {
+            throw new LocalBackendError(409, `${VERSION_STATUS_LABELS[target.status]}のバージョンに ${action} は実行できません`);
+        }
+
+        if (action === 'apply') {
+            target.status = 'review';
+            target.reviewedAt = Date.now();
+        } else if (action === 'publish') {
+            target.status = 'published';
+        } else {
+            target.status = 'unpublished';
+        }
+        this.save();
+        return target;
+    }
+
+    /**
+     * エディタからの保存内容を記録します。公開中・審査待ちのバージョンは編集できません。
+     */
+    saveProject(identkey: string, appKey: string, version: string, project: unknown): LocalVersion {
+        const target = this.version(identkey, appKey, version);
+        if (target.status === 'published' || target.status === 'review') {
+            throw new LocalBackendError(409, `${VERSION_STATUS_LABELS[target.status]}のバージョンは編集できません`);
+        }
+        target.project = project;
+        target.updatedAt = new Date().toISOString();
+        this.save();
+        return target;
+    }
+
+    /**
+     * AIコーディングの依頼を記録します。応答は依頼内容をコメントにした固定のスクリプトです。
+     */
+    requestScriptCoding(identkey: string, requestContent: string): LocalAiTicket {
+        const user = this.user(identkey);
+        const tickets = user.aiTickets ??= [];
+        const ticket: LocalAiTicket = {
+            ticket: `local-ticket-${tickets.length + 1}`,
+            requestContent,
+            responseContent: `// ${requestContent.replace(/\n/g, ' ')}\nfunction localGeneratedFunction() {\n}`,
+            responseFormat: 'text',
+            status: 'completed',
+            createdDate: new Date().toLocaleString(),
+            finishReason: 'STOP',
+        };
+        tickets.push(ticket);
+        this.save();
+        return ticket;
+    }
+
+    private advanceReviews(user: LocalUser): void {
+        const now = Date.now();
+        let changed = false;
+        for (const app of user.apps) {
+            for (const v of app.versions) {
+                if (v.status === 'review' && now - (v.reviewedAt ?? now) >= this.options.reviewDelayMs) {
+                    v.status = 'ready';
+                    changed = true;
+                }
+            }
+        }
+        if (changed) this.save();
+    }
+
+    private save(): void {
+        const { stateFile } = this.options;
+        if (!stateFile) return;
+        fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+        fs.writeFileSync(stateFile, JSON.stringify(this.state, null, 2), 'utf-8');
+    }
+}
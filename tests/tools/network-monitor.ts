@@ -0,0 +1,192 @@
+import { type BrowserContext, type Request, type Response, type TestInfo } from '@playwright/test';
+
+/**
+ * 記録する通信の種類。
+ * - http-error: 4xx / 5xx のレスポンス
+ * - failed: レスポンスを受け取れなかったリクエスト（接続エラー・中断など）
+ * - slow: slowRequestMs 以上かかったリクエスト
+ */
+export type NetworkIssueKind = 'http-error' | 'failed' | 'slow';
+
+export type NetworkIssue = {
+    kind: NetworkIssueKind;
+    method: string;
+    url: string;
+    resourceType: string;
+    /** リクエストを発行したページのURL（Service Worker などページに属さない場合は null） */
+    pageUrl: string | null;
+    status?: number;
+    statusText?: string;
+    /** failed の場合のエラー内容 */
+    failure?: string;
+    /** リクエスト開始からレスポンス完了までの時間（ミリ秒） */
+    durationMs?: number;
+    /** テスト開始からの経過時間（ミリ秒） */
+    at: number;
+    /** strict モードで許可リストに一致した 5xx かどうか */
+    allowed?: boolean;
+};
+
+/**
+ * strict モードでテストを失敗させないサーバーエラーの条件。
+ * url は部分一致（文字列）または正規表現、status を省略した場合はすべての 5xx を許可します。
+ */
+export type AllowedServerError = string | RegExp | { url: string | RegExp; status?: number };
+
+export type NetworkMonitorOptions = {
+    /** この時間（ミリ秒）以上かかったリクエストを slow として記録します */
+    slowRequestMs: number;
+    /** 許可するサーバーエラー */
+    allowedServerErrors?: AllowedServerError[];
+};
+
+// コンテキストごとのモニター（ダッシュボードのエラーログと二重に出力しないために参照します）
+const monitors = new WeakMap<BrowserContext, NetworkMonitor>();
+
+/**
+ * コンテキストに設定されているネットワークモニターを返します（未設定の場合は undefined）。
+ */
+export const getNetworkMonitor = (context: BrowserContext): NetworkMonitor | undefined => monitors.get(context);
+
+/**
+ * ブラウザコンテキスト内のすべてのページ（エディタのタブ・テストページ・ポップアップを含む）の通信を監視し、
+ * 4xx / 5xx のレスポンス、失敗したリクエスト、時間のかかったリクエストを記録します。
+ * 記録はテスト終了時に `network-monitor` としてレポートに添付します。
+ */
+export class NetworkMonitor {
+    private readonly startedAt = Date.now();
+    private readonly entries: NetworkIssue[] = [];
+    private readonly allowList: AllowedServerError[];
+
+    private readonly onResponse = (response: Response) => {
+        const status = response.status();
+        if (status < 400) return;
+
+        const issue = this.toIssue('http-error', response.request(), {
+            status,
+            statusText: response.statusText(),
+        });
+        if (status >= 500) {
+            issue.allowed = this.isAllowed(issue);
+            console.log(`[NetworkMonitor] ${status} ${issue.statusText} - ${issue.method} ${issue.url}${issue.allowed ? ' (allowed)' : ''}`);
+        }
+        this.entries.push(issue);
+    };
+
+    private readonly onRequestFailed = (request: Request) => {
+        this.entries.push(this.toIssue('failed', request, { failure: request.failure()?.errorText ?? 'unknown' }));
+    };
+
+    private readonly onRequestFinished = (request: Request) => {
+        const { responseEnd } = request.timing();
+        // タイミング情報が取得できない場合は -1 が返ります
+        if (responseEnd >= this.options.slowRequestMs) {
+            this.entries.push(this.toIssue('slow', request, { durationMs: Math.round(responseEnd) }));
+        }
+    };
+
+    constructor(private readonly context: BrowserContext, private readonly options: NetworkMonitorOptions) {
+        this.allowList = [...(options.allowedServerErrors ?? [])];
+    }
+
+    /**
+     * 監視を開始します。
+     */
+    start(): this {
+        this.context.on('response', this.onResponse);
+        this.context.on('requestfailed', this.onRequestFailed);
+        this.context.on('requestfinished', this.onRequestFinished);
+        monitors.set(this.context, this);
+        return this;
+    }
+
+    /**
+     * 監視を終了します。
+     */
+    stop(): void {
+        this.context.off('response', this.onResponse);
+        this.context.off('requestfailed', this.onRequestFailed);
+        this.context.off('requestfinished', this.onRequestFinished);
+        monitors.delete(this.context);
+    }
+
+    /**
+     * テスト中に発生することが分かっているサーバーエラーを許可します。
+     * 許可したエラーは記録には残りますが、strict モードでもテストを失敗させません。
+     *
+     * @example
+     * networkMonitor.allowServerError(/\/agent/, 503);
+     */
+    allowServerError(url: string | RegExp, status?: number): void {
+        this.allowList.push({ url, status });
+        // 許可する前に記録されたエラーにも反映します
+        for (const issue of this.entries) {
+            if (issue.kind === 'http-error' && issue.status! >= 500) {
+                issue.allowed = this.isAllowed(issue);
+            }
+        }
+    }
+
+    /**
+     * 記録した通信の一覧。
+     */
+    get issues(): readonly NetworkIssue[] {
+        return this.entries;
+    }
+
+    /**
+     * 許可されていない 5xx のレスポンス。
+     */
+    get unexpectedServerErrors(): NetworkIssue[] {
+        return this.entries.filter(issue => issue.kind === 'http-error' && issue.status! >= 500 && !issue.allowed);
+    }
+
+    /**
+     * 記録をテストのレポートに添付します。何も記録されていない場合は添付しません。
+     */
+    async attachTo(testInfo: TestInfo): Promise<void> {
+        if (this.entries.length === 0) return;
+
+        const count = (kind: NetworkIssueKind) => this.entries.filter(issue => issue.kind === kind).length;
+        const report = {
+            summary: {
+                httpErrors: count('http-error'),
+                failed: count('failed'),
+                slow: count('slow'),
+                unexpectedServerErrors: this.unexpectedServerErrors.length,
+                slowRequestMs: this.options.slowRequestMs,
+            },
+            issues: this.entries,
+        };
+        await testInfo.attach('network-monitor', {
+            body: JSON.stringify(report, null, 2),
+            contentType: 'application/json',
+        });
+    }
+
+    private toIssue(kind: NetworkIssueKind, request: Request, extra: Partial<NetworkIssue>): NetworkIssue {
+        let pageUrl: string | null = null;
+        try {
+            pageUrl = request.frame().page().url();
+        } catch {
+            // Service Worker のリクエストなど、フレームに属さない場合は取得できません
+        }
+        return {
+            kind,
+            method: request.method(),
+            url: request.url(),
+            resourceType: request.resourceType(),
+            pageUrl,
+            ...extra,
+            at: Date.now() - this.startedAt,
+        };
+    }
+
+    private isAllowed(issue: NetworkIssue): boolean {
+        return this.allowList.some(rule => {
+            const { url, status } = typeof rule === 'string' || rule instanceof RegExp ? { url: rule, status: undefined } : rule;
+            const urlMatched = typeof url === 'string' ? issue.url.includes(url) : url.test(issue.url);
+            return urlMatched && (status === undefined || status === issue.status);
+        });
+    }
+}
@@ -0,0 +1,245 @@
+import path from 'path';
+import fs from 'fs';
+import { type Page } from '@playwright/test';
+import { config } from '../config';
+
+/**
+ * 台帳ファイルを保存するディレクトリ。
+ * 実行ごとに `<runId>.jsonl` を1ファイル作成し、全ワーカーが追記します。
+ */
+export const LEDGER_DIR = path.join(process.cwd(), '.ledger');
+
+/**
+ * 台帳に記録するリソースの種類。
+ * - app: createApp で作成したアプリ
+ * - version: addVersion / duplicateVersion で追加したバージョン
+ * - publish: publishVersion で公開したバージョン
+ */
+export type LedgerResourceKind = 'app' | 'version' | 'publish';
+
+export type LedgerEntry = {
+    event: 'created' | 'released';
+    kind: LedgerResourceKind;
+    appKey: string;
+    appName?: string;
+    /** version / publish の場合の対象バージョン (複製の場合は複製先) */
+    version?: string;
+    runId: string;
+    worker: string;
+    browserCode: string;
+    /** 記録日時 (ISO 8601)。released の場合は解放した日時 */
+    createdAt: string;
+};
+
+/**
+ * 作成されたまま解放されていないリソース（クラッシュやタイムアウトで後片付けされなかったもの）。
+ */
+export type LeakedApp = {
+    appKey: string;
+    appName?: string;
+    runId: string;
+    worker: string;
+    browserCode: string;
+    createdAt: string;
+    /** 公開されたまま残っている可能性のあるバージョン */
+    publishedVersions: string[];
+};
+
+/**
+ * 現在の実行IDを返します。
+ * playwright.config.ts でメインプロセスが一度だけ採番し、環境変数経由で全ワーカーに引き継ぎます。
+ */
+export const getRunId = (): string => {
+    return config.runId || `${config.runSuffix}-${process.pid}`;
+};
+
+/**
+ * リーク判定に使用する最小経過時間（ミリ秒）を返します。
+ * 並行して実行中の別ランが作成した直後のリソースを誤って削除しないための猶予です。
+ * 環境変数 PWAPPY_TEST_LEDGER_MIN_AGE_MINUTES で変更できます（デフォルト: 30分）。
+ */
+export const getLedgerMinAgeMs = (): number => config.ledgerMinAgeMinutes * 60 * 1000;
+
+// ページごとに、最後に作成・選択したアプリキーを保持します（addVersion などはアプリキーを引数に取らないため）
+const currentAppKeys = new WeakMap<Page, string>();
+
+/**
+ * ページ上で現在開いているアプリを記憶します。
+ */
+export const setCurrentApp = (page: Page, appKey: string): void => {
+    currentAppKeys.set(page, appKey);
+};
+
+/**
+ * ページ上で現在開いているアプリのキーを返します。不明な場合は undefined を返します。
+ */
+export const getCurrentApp = (page: Page): string | undefined => {
+    return currentAppKeys.get(page);
+};
+
+const getLedgerPath = (runId: string = getRunId()): string => {
+    return path.join(LEDGER_DIR, `${runId}.jsonl`);
+};
+
+const appendEntry = (entry: LedgerEntry): void => {
+    try {
+        if (!fs.existsSync(LEDGER_DIR)) {
+            fs.mkdirSync(LEDGER_DIR, { recursive: true });
+        }
+        // 1行単位の追記はワーカー間で競合しても行が混ざらないため、ロックは取りません
+        fs.appendFileSync(getLedgerPath(entry.runId), JSON.stringify(entry) + '\n', 'utf-8');
+    } catch (e) {
+        // 台帳の書き込み失敗でテスト自体を落とさないよう、警告のみに留めます
+        console.warn(`[Ledger] 台帳への書き込みに失敗しました (${entry.event} ${entry.kind} ${entry.appKey})`, e);
+    }
+};
+
+type LedgerTarget = {
+    kind: LedgerResourceKind;
+    appKey: string;
+    appName?: string;
+    version?: string;
+    browserCode: string;
+};
+
+/**
+ * 作成したリソースを台帳に記録します。
+ */
+export const recordResource = (target: LedgerTarget): void => {
+    appendEntry({
+        event: 'created',
+        ...target,
+        runId: getRunId(),
+        worker: config.workerIndex,
+        createdAt: new Date().toISOString(),
+    });
+};
+
+/**
+ * 削除・非公開化したリソースを台帳上で解放済みにします。
+ * アプリを解放すると、そのアプリ配下のバージョン・公開状態もすべて解放済みとして扱われます。
+ * 台帳クリーンアップで別ランのリソースを解放する場合は runId に記録元の実行IDを指定します。
+ */
+export const releaseResource = (target: LedgerTarget, runId: string = getRunId()): void => {
+    appendEntry({
+        event: 'released',
+        ...target,
+        runId,
+        worker: config.workerIndex,
+        createdAt: new Date().toISOString(),
+    });
+};
+
+/**
+ * 台帳ファイルを読み込みます。壊れた行（書き込み途中のクラッシュなど）は読み飛ばします。
+ */
+export const readLedger = (file: string): LedgerEntry[] => {
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .flatMap(line => {
+            try {
+                return [JSON.parse(line) as LedgerEntry];
+            } catch {
+                console.warn(`[Ledger] 解析できない行を読み飛ばします: ${line}`);
+                return [];
+            }
+        });
+};
+
+/**
+ * この実行で作成したアプリのうち、アプリ名が一致するアプリのキーを返します（見つからない場合は undefined）。
+ * アプリ名だけを受け取るヘルパーで、台帳に記録する対象のアプリを特定するために使用します。
+ */
+export const findAppKeyByName = (appName: string): string | undefined => {
+    const created = readLedger(getLedgerPath())
+        .filter(entry => entry.event === 'created' && entry.kind === 'app' && entry.appName === appName);
+    return created[created.length - 1]?.appKey;
+};
+
+/**
+ * 台帳ディレクトリ内の全ファイルのパスを返します。
+ */
+export const listLedgerFiles = (): string[] => {
+    if (!fs.existsSync(LEDGER_DIR)) return [];
+    return fs.readdirSync(LEDGER_DIR)
+        .filter(name => name.endsWith('.jsonl'))
+        .map(name => path.join(LEDGER_DIR, name));
+};
+
+const versionKey = (entry: LedgerEntry) => `${entry.appKey}\u0000${entry.version ?? ''}`;
+
+/**
+ * 台帳のエントリを畳み込み、解放されていないアプリの一覧を返します。
+ * @param entries 台帳エントリ
+ * @param options.minAgeMs 作成からこの時間が経過していないアプリは対象外にします
+ * @param options.runId / worker / browserCode 指定した場合、該当する作成記録のみを対象にします
+ */
+export const findLeakedApps = (
+    entries: LedgerEntry[],
+    options: { minAgeMs?: number; runId?: string; worker?: string; browserCode?: string; now?: number } = {}
+): LeakedApp[] => {
+    const { minAgeMs = getLedgerMinAgeMs(), now = Date.now() } = options;
+
+    const apps = new Map<string, LeakedApp>();
+    const published = new Set<string>();
+
+    // 複数の台帳ファイルを連結した場合でも、作成 → 解放の順に畳み込まれるよう時系列に並べ替えます
+    const sorted = [...entries].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+    for (const entry of sorted) {
+        if (entry.event === 'created') {
+            // 絞り込み条件は作成記録にのみ適用し、解放記録はどのワーカー・ランのものでも反映します
+            if (options.runId && entry.runId !== options.runId) continue;
+            if (options.worker && entry.worker !== options.worker) continue;
+            if (options.browserCode && entry.browserCode !== options.browserCode) continue;
+
+            if (entry.kind === 'app') {
+                apps.set(entry.appKey, {
+                    appKey: entry.appKey,
+                    appName: entry.appName,
+                    runId: entry.runId,
+                    worker: entry.worker,
+                    browserCode: entry.browserCode,
+                    createdAt: entry.createdAt,
+                    publishedVersions: [],
+                });
+            } else if (entry.kind === 'publish') {
+                published.add(versionKey(entry));
+            }
+            continue;
+        }
+
+        // released
+        if (entry.kind === 'app') {
+            apps.delete(entry.appKey);
+        } else if (entry.kind === 'publish') {
+            published.delete(versionKey(entry));
+        }
+    }
+
+    for (const key of published) {
+        const [appKey, version] = key.split('\u0000');
+        apps.get(appKey)?.publishedVersions.push(version);
+    }
+
+    return [...apps.values()].filter(app => now - Date.parse(app.createdAt) >= minAgeMs);
+};
+
+/**
+ * すべてのリソースが解放済みで、かつ最終更新から minAgeMs 以上経過した台帳ファイルを削除します。
+ * @returns 削除したファイルのパス
+ */
+export const pruneLedgerFiles = (minAgeMs: number = getLedgerMinAgeMs()): string[] => {
+    const pruned: string[] = [];
+    for (const file of listLedgerFiles()) {
+        const leaked = findLeakedApps(readLedger(file), { minAgeMs: 0 });
+        const idleMs = Date.now() - fs.statSync(file).mtimeMs;
+        if (leaked.length === 0 && idleMs >= minAgeMs) {
+            fs.rmSync(file, { force: true });
+            pruned.push(file);
+        }
+    }
+    return pruned;
+};
@@ -0,0 +1,151 @@
+import { type TestInfo } from '@playwright/test';
+
+/**
+ * 条件を満たすまでの試行ごとに実行する操作（例: クリック、ダブルクリック、タップ）。
+ */
+export type RetryStrategy = {
+    name: string;
+    run: () => Promise<unknown>;
+};
+
+export type RetryOptions = {
+    /** 試行ごとに順番に実行する操作。すべて試しても条件を満たさない場合は先頭から繰り返します */
+    strategies?: RetryStrategy[];
+    /** 全体のタイムアウト（デフォルト: 15000ミリ秒） */
+    timeout?: number;
+    /** 1回目の失敗後の待機時間（デフォルト: 500ミリ秒）。失敗するたびに factor 倍し、maxDelay で頭打ちにします */
+    initialDelay?: number;
+    /** 待機時間の上限（デフォルト: 4000ミリ秒） */
+    maxDelay?: number;
+    /** 待機時間の増加率（デフォルト: 2） */
+    factor?: number;
+};
+
+/**
+ * 呼び出し箇所ごとの試行回数の集計。
+ */
+export type RetryCallStats = {
+    calls: number;
+    /** 全呼び出しの試行回数の合計 */
+    attempts: number;
+    /** 1回の呼び出しで最も多かった試行回数 */
+    maxAttempts: number;
+    /** 2回以上試行した呼び出しの数 */
+    retriedCalls: number;
+    /** タイムアウトした呼び出しの数 */
+    failedCalls: number;
+    /** 条件を満たしたときの操作ごとの回数 */
+    succeededBy: Record<string, number>;
+};
+
+/**
+ * retryUntil がタイムアウトした場合のエラー。最後の試行のエラーを cause に保持します。
+ */
+export class RetryTimeoutError extends Error {
+    constructor(readonly callSite: string, readonly attempts: number, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'RetryTimeoutError';
+    }
+}
+
+// ワーカー内では同時に1テストしか実行されないため、実行中のテストの集計をモジュール単位で保持します
+const stats = new Map<string, RetryCallStats>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const firstLine = (error: unknown): string =>
+    (error instanceof Error ? error.message : String(error)).replace(/\u001b\[[0-9;]*m/g, '').split('\n')[0];
+
+const record = (callSite: string, attempts: number, succeededBy: string | null): void => {
+    let entry = stats.get(callSite);
+    if (!entry) {
+        entry = { calls: 0, attempts: 0, maxAttempts: 0, retriedCalls: 0, failedCalls: 0, succeededBy: {} };
+        stats.set(callSite, entry);
+    }
+    entry.calls++;
+    entry.attempts += attempts;
+    entry.maxAttempts = Math.max(entry.maxAttempts, attempts);
+    if (attempts > 1) entry.retriedCalls++;
+    if (succeededBy === null) {
+        entry.failedCalls++;
+    } else {
+        entry.succeededBy[succeededBy] = (entry.succeededBy[succeededBy] ?? 0) + 1;
+    }
+};
+
+/**
+ * 条件を満たすまで操作と確認を繰り返します。`expect(async () => ...).toPass()` の代わりに使用します。
+ *
+ * - strategies を指定した場合、試行ごとに操作を切り替えてから condition で確認します
+ * - 失敗するたびに待機時間を指数的に延ばします
+ * - 失敗した試行はログに出力し、呼び出し箇所（callSite）ごとの試行回数を集計してテストに添付します（retry-summary）
+ *
+ * @param callSite 集計に使用する呼び出し箇所の名前（例: 'switchTabInContainer(イベント)'）
+ * @param condition 条件を確認する処理。満たさない場合は例外を投げます（expect を使用できます）
+ *
+ * @example
+ * await retryUntil('DomTreePanel.addComponent', async () => {
+ *     await expect(newNode).toBeVisible({ timeout: 3000 });
+ * }, {
+ *     strategies: [{ name: 'dragTo', run: () => toolBoxItem.dragTo(target) }],
+ * });
+ */
+export async function retryUntil<T>(
+    callSite: string,
+    condition: (context: { attempt: number; strategy: string | null }) => Promise<T>,
+    options: RetryOptions = {}
+): Promise<T> {
+    const { strategies = [], timeout = 15000, initialDelay = 500, maxDelay = 4000, factor = 2 } = options;
+    const deadline = Date.now() + timeout;
+    let delay = initialDelay;
+
+    for (let attempt = 1; ; attempt++) {
+        const strategy = strategies.length > 0 ? strategies[(attempt - 1) % strategies.length] : null;
+        try {
+            if (strategy) await strategy.run();
+            const result = await condition({ attempt, strategy: strategy?.name ?? null });
+            record(callSite, attempt, strategy?.name ?? 'condition');
+            if (attempt > 1) {
+                console.log(`[Retry] ${callSite}: ${attempt} 回目で成功しました${strategy ? `（${strategy.name}）` : ''}`);
+            }
+            return result;
+        } catch (error) {
+            console.log(`[Retry] ${callSite}: ${attempt} 回目${strategy ? `（${strategy.name}）` : ''}が失敗しました: ${firstLine(error)}`);
+            if (Date.now() + delay > deadline) {
+                record(callSite, attempt, null);
+                const tried = strategies.length > 0 ? `、操作: ${strategies.map(s => s.name).join(' / ')}` : '';
+                throw new RetryTimeoutError(
+                    callSite,
+                    attempt,
+                    `[Retry] ${callSite}: ${timeout}ms 以内に条件を満たしませんでした（${attempt} 回試行${tried}）\n${firstLine(error)}`,
+                    { cause: error }
+                );
+            }
+            await sleep(delay);
+            delay = Math.min(delay * factor, maxDelay);
+        }
+    }
+}
+
+/**
+ * 実行中のテストの集計を破棄します（テスト開始時にフィクスチャから呼び出します）。
+ */
+export const resetRetryStats = (): void => stats.clear();
+
+/**
+ * 呼び出し箇所ごとの試行回数の集計を返します。
+ */
+export const getRetryStats = (): ReadonlyMap<string, RetryCallStats> => stats;
+
+/**
+ * 集計をテストのレポートに `retry-summary` として添付します。retryUntil が呼ばれていない場合は添付しません。
+ * 試行回数の多い呼び出し箇所ほど先頭に表示します。
+ */
+export async function attachRetrySummary(testInfo: TestInfo): Promise<void> {
+    if (stats.size === 0) return;
+    const summary = Object.fromEntries([...stats.entries()].sort((a, b) => b[1].attempts - b[1].calls - (a[1].attempts - a[1].calls)));
+    await testInfo.attach('retry-summary', {
+        body: JSON.stringify(summary, null, 2),
+        contentType: 'application/json',
+    });
+}
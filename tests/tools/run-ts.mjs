@@ -0,0 +1,30 @@
+/**
+ * TypeScript で書かれたメンテナンス用コマンド（cleanup-cli.ts / flakiness-merge.ts）を、Node.js の型ストリップ機能で起動します。
+ * 型ストリップ機能（--experimental-strip-types）は Node.js 22.6 以上でしか使えず、それより古い Node.js では
+ * コマンドが読み込まれる前に `bad option` で終了するため、このファイルは JavaScript で書き、起動前にバージョンを確認します。
+ * テスト本体（npx playwright test）は Playwright が TypeScript を読み込むため、この制約はありません。
+ *
+ * @example
+ * node tests/tools/run-ts.mjs tests/tools/cleanup-cli.ts --dry-run
+ */
+import { spawnSync } from 'child_process';
+
+const REQUIRED = [22, 6];
+
+const [major, minor] = process.versions.node.split('.').map(Number);
+if (major < REQUIRED[0] || (major === REQUIRED[0] && minor < REQUIRED[1])) {
+    console.error(`[run-ts] このコマンドの実行には Node.js ${REQUIRED.join('.')} 以上が必要です（現在: ${process.version}）。`);
+    console.error('[run-ts] TypeScript のファイルを Node.js の型ストリップ機能で直接実行するためです。nvm などで Node.js 22.6 以上に切り替えてから実行してください。');
+    process.exit(1);
+}
+
+const [script, ...args] = process.argv.slice(2);
+if (!script) {
+    console.error('[run-ts] 実行する TypeScript のファイルを指定してください');
+    process.exit(2);
+}
+
+// Node.js 23.6 以降は型ストリップが既定で有効ですが、22.x と同じ引数で起動します
+const result = spawnSync(process.execPath, ['--experimental-strip-types', '--disable-warning=ExperimentalWarning', script, ...args], { stdio: 'inherit' });
+if (result.error) throw result.error;
+process.exit(result.status ?? 1);
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import type { FullConfig, Reporter, Suite, TestCase, TestResult, TestStep } from '@playwright/test/reporter';
+import { config } from '../config';
+
+/**
+ * テストタイトルのテストケースIDのアノテーション種別（scenario-fixture.ts が追加します）。
+ */
+export const SCENARIO_ANNOTATION = 'scenario';
+
+const ID_PATTERN = /^[A-Z]{2,}(?:-[A-Z0-9]+)+$/;
+const SEGMENT_PATTERN = /^[A-Z][A-Z0-9]*$/;
+
+/**
+ * タイトルの先頭にあるテストケースID（手動テストの項目番号）を取り出します。
+ * `&` で複数指定でき、ハイフンを含まない項目は直前のIDの末尾だけを置き換えたものとして扱います。
+ *
+ * @example
+ * parseScenarioIds('WB-VER-DUP-008: 複製時に...') // ['WB-VER-DUP-008']
+ * parseScenarioIds('WB-APP-ARC & AR-APP-REST: ...') // ['WB-APP-ARC', 'AR-APP-REST']
+ * parseScenarioIds('WB-APP-EDIT & DEL: ...') // ['WB-APP-EDIT', 'WB-APP-DEL']
+ * parseScenarioIds('WB-VER-EDIT (Abnormal): ...') // ['WB-VER-EDIT']
+ */
+export const parseScenarioIds = (title: string): string[] => {
+    const separator = title.indexOf(':');
+    if (separator < 0) return [];
+
+    const ids: string[] = [];
+    for (const part of title.slice(0, separator).split('&')) {
+        // 「(Abnormal)」などの補足は除外します
+        const token = part.replace(/\(.*?\)/g, '').trim();
+        if (ID_PATTERN.test(token)) {
+            ids.push(token);
+        } else if (SEGMENT_PATTERN.test(token) && ids.length > 0) {
+            const previous = ids[ids.length - 1];
+            ids.push(`${previous.slice(0, previous.lastIndexOf('-'))}-${token}`);
+        } else {
+            // IDとして解釈できない部分がある場合は、タイトルの一部とみなして何も返しません
+            return [];
+        }
+    }
+    return ids;
+};
+
+/**
+ * マスターリスト（手動テストの項目一覧）を読み込みます。
+ * 1行に1件、`<ID> <説明（省略可）>` の形式で記述します。`#` 以降はコメントです。
+ */
+export const readScenarioList = (filePath: string): Map<string, string> => {
+    const list = new Map<string, string>();
+    for (const line of fs.readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+        const content = line.replace(/#.*$/, '').trim();
+        if (!content) continue;
+        const [id, ...description] = content.split(/\s+/);
+        if (!ID_PATTERN.test(id)) {
+            throw new Error(`[ScenarioCoverage] マスターリストのIDが不正です: ${id} (${filePath})`);
+        }
+        list.set(id, description.join(' '));
+    }
+    return list;
+};
+
+/** 結果の表示。複数のテストが同じIDを持つ場合は、最も悪い結果を採用します */
+type CoverageResult = 'failed' | 'flaky' | 'passed' | 'skipped';
+
+const RESULT_ORDER: CoverageResult[] = ['failed', 'flaky', 'passed', 'skipped'];
+const RESULT_LABELS: Record<CoverageResult, string> = {
+    failed: '❌ 失敗',
+    flaky: '⚠️ flaky',
+    passed: '✅ 成功',
+    skipped: '⏭ スキップ',
+};
+
+type ScenarioCoverage = {
+    id: string;
+    /** マスターリストの説明 */
+    description: string | null;
+    /** ID を持つテスト（`<スペック> › <タイトル>`）。step のIDの場合は step のタイトルを含みます */
+    tests: string[];
+    /** プロジェクトごとの結果 */
+    results: Record<string, CoverageResult>;
+    /** マスターリストが指定されていて、リストにないIDの場合 true */
+    unlisted: boolean;
+};
+
+/**
+ * テストタイトル・step のタイトルにあるテストケースID（例: WB-APP-NEW）を集計し、
+ * ID × プロジェクト × 結果 のカバレッジ表を出力するレポーター。
+ *
+ * - レポーターで追加したアノテーションはテストの終了時にワーカーの値で上書きされるため、HTMLレポートに表示する
+ *   `scenario` アノテーションは scenario-fixture.ts のフィクスチャで追加します
+ * - PWAPPY_TEST_SCENARIO_LIST にマスターリストを指定すると、自動テストのないIDを「未自動化」として出力します
+ * - 出力先は PWAPPY_TEST_SCENARIO_COVERAGE_FILE で変更できます（デフォルト: test-results/scenario-coverage.md）。
+ *   同じ場所に拡張子 .json の機械可読な結果も出力します
+ */
+export default class ScenarioCoverageReporter implements Reporter {
+    private rootDir = process.cwd();
+    private readonly projects = new Set<string>();
+    private readonly coverage = new Map<string, ScenarioCoverage>();
+    private readonly listed = new Map<string, string>();
+
+    onBegin(fullConfig: FullConfig, suite: Suite): void {
+        this.rootDir = fullConfig.rootDir;
+        const listFile = config.scenarioListFile;
+        if (listFile) {
+            readScenarioList(listFile).forEach((description, id) => this.listed.set(id, description));
+        }
+
+        for (const test of suite.allTests()) {
+            this.projects.add(this.projectOf(test));
+        }
+    }
+
+    onTestEnd(test: TestCase, result: TestResult): void {
+        // リトライ中の結果は最終結果で上書きされるため、最後の試行のみを集計します
+        const isFinal = result.status === 'passed' || result.status === 'skipped' || result.retry >= test.retries;
+        if (!isFinal) return;
+
+        const outcome = test.outcome();
+        const coverageResult: CoverageResult = outcome === 'expected' ? 'passed' : outcome === 'flaky' ? 'flaky' : outcome === 'skipped' ? 'skipped' : 'failed';
+        const testName = `${path.relative(this.rootDir, test.location.file).replace(/\\/g, '/')} › ${test.title}`;
+
+        for (const id of parseScenarioIds(test.title)) {
+            this.record(id, testName, this.projectOf(test), coverageResult);
+        }
+        for (const step of flattenSteps(result.steps)) {
+            for (const id of parseScenarioIds(step.title)) {
+                // step のIDは、テスト全体ではなく step 自体の成否で判定します
+                const stepResult: CoverageResult = step.error ? 'failed' : coverageResult === 'flaky' ? 'flaky' : 'passed';
+                this.record(id, `${testName} › ${step.title}`, this.projectOf(test), stepResult);
+            }
+        }
+    }
+
+    onEnd(): void {
+        for (const [id, description] of this.listed) {
+            if (!this.coverage.has(id)) {
+                this.coverage.set(id, { id, description, tests: [], results: {}, unlisted: false });
+            }
+        }
+        if (this.coverage.size === 0) return;
+
+        const outputFile = config.scenarioCoverageFile;
+        const projects = [...this.projects].sort();
+        const scenarios = [...this.coverage.values()].sort((a, b) => a.id.localeCompare(b.id));
+
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+        fs.writeFileSync(outputFile, this.toMarkdown(projects, scenarios), 'utf-8');
+        fs.writeFileSync(outputFile.replace(/\.md$/, '') + '.json', JSON.stringify({ projects, scenarios }, null, 2), 'utf-8');
+
+        const uncovered = scenarios.filter(s => s.tests.length === 0).length;
+        console.log(`[ScenarioCoverage] ${scenarios.length} 件のIDを集計しました（未自動化: ${uncovered}）: ${path.relative(process.cwd(), outputFile)}`);
+    }
+
+    printsToStdio(): boolean {
+        return false;
+    }
+
+    private record(id: string, testName: string, project: string, result: CoverageResult): void {
+        let entry = this.coverage.get(id);
+        if (!entry) {
+            entry = {
+                id,
+                description: this.listed.get(id) ?? null,
+                tests: [],
+                results: {},
+                unlisted: this.listed.size > 0 && !this.listed.has(id),
+            };
+            this.coverage.set(id, entry);
+        }
+        if (!entry.tests.includes(testName)) entry.tests.push(testName);
+
+        const current = entry.results[project];
+        if (!current || RESULT_ORDER.indexOf(result) < RESULT_ORDER.indexOf(current)) {
+            entry.results[project] = result;
+        }
+    }
+
+    private projectOf(test: TestCase): string {
+        return test.parent.project()?.name ?? '';
+    }
+
+    private toMarkdown(projects: string[], scenarios: ScenarioCoverage[]): string {
+        const escapeCell = (text: string) => text.replace(/\|/g, '\\|');
+        const covered = scenarios.filter(s => s.tests.length > 0).length;
+        const lines = [
+            '# テストケースIDカバレッジ',
+            '',
+            `- ID: ${scenarios.length} 件 / 自動テストあり: ${covered} 件 / 未自動化: ${scenarios.length - covered} 件`,
+            '',
+            `| ID | ${projects.join(' | ')} | テスト |`,
+            `| --- | ${projects.map(() => '---').join(' | ')} | --- |`,
+        ];
+        for (const s of scenarios) {
+            const cells = projects.map(project => s.results[project] ? RESULT_LABELS[s.results[project]] : '-');
+            const tests = s.tests.length > 0 ? s.tests.map(escapeCell).join('<br>') : '**未自動化**';
+            const id = s.unlisted ? `${s.id}（マスター外）` : s.id;
+            const description = s.description ? `<br>${escapeCell(s.description)}` : '';
+            lines.push(`| ${id}${description} | ${cells.join(' | ')} | ${tests} |`);
+        }
+        return `${lines.join('\n')}\n`;
+    }
+}
+
+function flattenSteps(steps: TestStep[]): TestStep[] {
+    return steps.flatMap(step => [step, ...flattenSteps(step.steps)]);
+}
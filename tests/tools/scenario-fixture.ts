@@ -0,0 +1,25 @@
+/**
+ * テストタイトルのテストケースID（例: WB-APP-NEW）を `scenario` アノテーションとしてテストに追加するフィクスチャ。
+ * アノテーションはテストの実行中（testInfo.annotations）に追加したものだけがHTMLレポートに表示されるため、
+ * レポーター（scenario-coverage-reporter.ts）ではなく、このフィクスチャで追加します。
+ *
+ * test-fixtures.ts の test はこのフィクスチャを含みます。test-fixtures.ts を使用しないスペックでは、ここから test を読み込みます。
+ *
+ * @example
+ * import { test, expect } from '../../tools/scenario-fixture';
+ */
+import { test as base, expect } from '@playwright/test';
+import { SCENARIO_ANNOTATION, parseScenarioIds } from './scenario-coverage-reporter';
+
+export { expect };
+
+export const test = base.extend<{ scenarioAnnotations: void }>({
+    scenarioAnnotations: [async ({ }, use, testInfo) => {
+        for (const id of parseScenarioIds(testInfo.title)) {
+            if (!testInfo.annotations.some(a => a.type === SCENARIO_ANNOTATION && a.description === id)) {
+                testInfo.annotations.push({ type: SCENARIO_ANNOTATION, description: id });
+            }
+        }
+        await use();
+    }, { auto: true }],
+});
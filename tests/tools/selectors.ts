@@ -0,0 +1,264 @@
+/**
+ * 画面の要素を探すセレクタのレジストリ。
+ * ヘルパーとスペックではセレクタを文字列で直接書かず、画面ごとにまとめた SELECTORS の名前で参照します。
+ * 製品の DOM 構造が変わった場合は、このレジストリの1行を更新します。
+ *
+ * 登録したセレクタはヘルスチェック（specs/normal/selector-health.spec.ts）で、画面ごと・操作の状態ごとに要素が存在するか確認します。
+ * 多くのテストが同時に失敗した場合は、まずヘルスチェックの結果で解決できなくなったセレクタを確認します。
+ *
+ * @example
+ * const explorer = page.locator(SELECTORS.fileExplorer.root);
+ * const dialog = page.locator(SELECTORS.appDetail.publishConfirm);
+ */
+import { type Page } from '@playwright/test';
+import { uiText } from './ui-strings';
+
+/**
+ * セレクタを登録する画面。ヘルスチェックでは、それぞれの画面を表示した状態で確認します。
+ * - dashboard: ダッシュボードのアプリ一覧
+ * - appDetail: ダッシュボードのアプリ詳細（バージョン管理）
+ * - editor: エディタ
+ * - editorBottomMenu: エディタの下部メニューを開いた状態
+ * - fileExplorer: ファイルエクスプローラーを開いた状態
+ * - archive: ダッシュボードのアーカイブ画面
+ * - settings: ダッシュボードのアカウント設定画面
+ */
+export type SelectorScreen = 'dashboard' | 'appDetail' | 'editor' | 'editorBottomMenu' | 'fileExplorer' | 'archive' | 'settings';
+
+/**
+ * 画面ごとのセレクタ。ヘルスチェックでは要素が DOM に存在するか（表示されているかではなく）を確認するため、
+ * 非表示の状態で配置されているダイアログ（message-box など）も登録できます。
+ *
+ * 登録するのは画面・部品のルート要素です。ルート要素の中のボタンなどは、ルート要素の locator からの相対セレクタで指定します。
+ * 操作の途中でのみ表示される部品（アラート、モーダルなど）は transient に登録し、TRANSIENT_STATES で表示される状態に割り当てます。
+ */
+export const SELECTORS = {
+    dashboard: {
+        loadingOverlay: 'dashboard-loading-overlay',
+        appCard: '.app-card',
+        appKey: '.app-key',
+        appName: '.app-name',
+        appModal: 'dashboard-modal-window#appModal',
+        pointText: 'p.pp-point-text',
+        menuButton: 'button.menu-button',
+    },
+    appDetail: {
+        root: 'dashboard-app-detail',
+        activeTab: '.detail-tab.active',
+        versionCard: '.version-card',
+        versionName: '.v-version',
+        versionModal: 'dashboard-modal-window#versionModal',
+        publishConfirm: 'message-box#publish-action-confirm',
+        deleteConfirm: 'message-box#delete-confirm-general',
+        downloadConfirm: 'message-box#download-confirm',
+        archiveConfirm: 'message-box#archive-confirm',
+    },
+    editor: {
+        appContainer: 'app-container',
+        loadingOverlay: 'app-container-loading-overlay',
+        preview: 'ios-component',
+        domTree: '#dom-tree',
+        templateContainer: 'template-container',
+        scriptContainer: 'script-container',
+        propertyContainer: 'property-container',
+        leftMovingHandle: '#leftMovingHandle',
+        rightMovingHandle: '#rightMovingHandle',
+        paletteOverlay: '#paletteOverlay-teleported',
+        bottomMenuButton: '#fab-bottom-menu-box',
+        renderzone: '#ios-container #renderzone',
+        platformSwitcher: 'platform-switcher',
+        toolBox: 'tool-box',
+        toolBoxItem: 'tool-box-item',
+        eventContainer: 'event-container',
+    },
+    editorBottomMenu: {
+        root: '#platformBottomMenu',
+    },
+    fileExplorer: {
+        root: 'file-explorer',
+        container: '.file-explorer-container',
+        content: '.file-explorer-content',
+        sidebarButton: 'file-explorer .sidebar-icon',
+        operationMenu: '#menu-operation',
+        loadingOverlay: 'file-explorer-loading-overlay',
+    },
+    archive: {
+        /** アーカイブ画面を識別する要素。画面のルート要素の代わりに、アーカイブ画面にのみ表示される「ワークベンチに戻る」ボタンを登録します */
+        root: `button:has-text("${uiText('dashboard.backToWorkbench')}")`,
+        restoreConfirm: 'message-box#restore-confirm',
+        deleteConfirm: 'message-box#delete-confirm',
+    },
+    settings: {
+        root: 'dashboard-account-setting',
+        content: '.setting-content',
+        aiCodingCheckbox: '#aiCodingCheckbox',
+        aiCodingSwitch: 'label.switch',
+    },
+    transient: {
+        /** アプリのアラート。dialog-manager.ts の closeAlert で閉じます */
+        alert: 'alert-component',
+        appMenuList: '#appMenuList',
+        appNameInput: '#input-app-name',
+        appKeyInput: '#input-app-key',
+        aiCodingConfirmModal: '#aiCodingConfirmModal',
+        /** 設定画面の APIキー の入力欄（未登録の場合）と登録済みの表示（登録済みの場合） */
+        apiKeyForm: '.api-key-form',
+        apiKeyDisplay: '.api-key-display',
+        /** 設定画面の操作結果の通知 */
+        settingsAlert: '.alert',
+        appEditModal: 'dashboard-modal-window#appEditModal',
+        aiHintBanner: '.ai-hint-banner',
+        starterTemplateModal: 'starter-template-modal',
+        tourGuide: 'app-tour-guide',
+        topTemplateList: '#top-template-list',
+        contextMenu: '#contextMenu',
+        attributeList: '#attributeList',
+        styleEditor: '#style-container > .monaco-editor',
+        scriptList: '#script-list-container',
+        platformEditMenu: '#platformEditMenu',
+        topContainer: '.top-container',
+        toolBoxItemEditor: 'tool-box-item-editor',
+        directoryMenu: 'file-explorer-edit-directory-menu .modal',
+        testScenarioEditor: 'test-scenario-editor .modal',
+        qrcode: '#qrcode',
+        /** 確認ダイアログ。id のないものは hasText で絞り込みます */
+        messageBox: 'message-box',
+        htmlTagSelectDialog: 'message-box#html-tag-select-dialog',
+        quickEditorModal: '#pwappy-quick-editor-root .quick-editor-modal',
+        quickPropertyToolbar: 'quick-property-editor .quick-toolbar',
+        agentChatWindow: 'agent-chat-window',
+        aiCoderWindow: 'ai-coder-window',
+        snapshotManager: 'snapshot-manager',
+        testContainer: 'test-container',
+    },
+} as const satisfies Record<SelectorScreen | 'transient', Record<string, string>>;
+
+/** transient に登録したセレクタの名前 */
+export type TransientSelectorName = keyof typeof SELECTORS.transient;
+
+/**
+ * transient のセレクタを表示する操作の状態。ヘルスチェックでは、それぞれの状態にしてから確認します。
+ * - editor: エディタの起動直後（非表示の状態で配置されている部品）
+ * - bottomMenu: エディタの下部メニューを開いた状態
+ * - snapshotManager: スナップショットマネージャーを開いた状態
+ * - agentChat: 下部メニューからAIエージェントを開いた状態（AI機能が有効な場合のみ）
+ * - domTreeMenu: 左側のサブウィンドウで、DOMツリーのメニューを開いた状態
+ * - topTemplateList: 左側のサブウィンドウで、トップレベルのテンプレート一覧を開いた状態
+ * - toolBoxItemEditor: ツールボックスのコンポーネントエディタを開いた状態
+ * - platformEditMenu: プラットフォーム切り替えのメニューを開いた状態
+ * - attributeEditor: プロパティパネルの属性編集モーダルを開いた状態
+ * - styleTab: プロパティパネルの「スタイル」タブ
+ * - scriptTab: 右側のサブウィンドウの「スクリプト」タブ
+ * - aiCoder: スクリプトの編集画面からAIコーディングウィンドウを開いた状態（AI機能が有効な場合のみ）
+ * - testTab: 右側のサブウィンドウの「テスト」タブで、テストシナリオの編集モーダルを開いた状態
+ * - quickEditor: ノードを選択し、クイックツールバーから編集モーダルを開いた状態
+ * - directoryMenu: ファイルエクスプローラーの新規ディレクトリの入力ダイアログを開いた状態
+ * - dashboardMenu: ダッシュボードのメニューを開いた状態
+ * - aiHintBanner: ダッシュボードのアプリ一覧（AI機能が無効な場合のみ）
+ * - newAppModal: ダッシュボードの新規作成モーダルを開いた状態
+ * - appEditModal: アプリ詳細の「アプリ設定」から編集モーダルを開いた状態
+ * - settings: ダッシュボードのアカウント設定画面
+ */
+export type TransientState =
+    | 'editor' | 'bottomMenu' | 'snapshotManager' | 'agentChat' | 'domTreeMenu' | 'topTemplateList' | 'toolBoxItemEditor' | 'platformEditMenu'
+    | 'attributeEditor' | 'styleTab' | 'scriptTab' | 'aiCoder' | 'testTab' | 'quickEditor' | 'directoryMenu'
+    | 'dashboardMenu' | 'aiHintBanner' | 'newAppModal' | 'appEditModal' | 'settings';
+
+/**
+ * 状態ごとに確認する transient のセレクタ。配列で囲んだ名前は、いずれか1つが存在すれば解決できたものとします。
+ */
+export const TRANSIENT_STATES = {
+    editor: ['alert', 'starterTemplateModal', 'tourGuide', 'messageBox'],
+    bottomMenu: ['qrcode'],
+    snapshotManager: ['snapshotManager'],
+    agentChat: ['agentChatWindow'],
+    domTreeMenu: ['contextMenu', 'htmlTagSelectDialog'],
+    topTemplateList: ['topContainer', 'topTemplateList'],
+    toolBoxItemEditor: ['toolBoxItemEditor'],
+    platformEditMenu: ['platformEditMenu'],
+    attributeEditor: ['attributeList'],
+    styleTab: ['styleEditor'],
+    scriptTab: ['scriptList'],
+    aiCoder: ['aiCoderWindow'],
+    testTab: ['testContainer', 'testScenarioEditor'],
+    quickEditor: ['quickPropertyToolbar', 'quickEditorModal'],
+    directoryMenu: ['directoryMenu'],
+    dashboardMenu: ['appMenuList'],
+    aiHintBanner: ['aiHintBanner'],
+    newAppModal: ['appNameInput', 'appKeyInput'],
+    appEditModal: ['appEditModal'],
+    /** APIキーは、未登録の場合は入力欄、登録済みの場合は登録済みの表示のみが存在します */
+    settings: ['aiCodingConfirmModal', ['apiKeyForm', 'apiKeyDisplay']],
+} as const satisfies Record<TransientState, readonly (TransientSelectorName | readonly TransientSelectorName[])[]>;
+
+/**
+ * ヘルスチェックで確認しない transient のセレクタと、その理由。
+ */
+export const UNCHECKED_TRANSIENT_SELECTORS: Partial<Record<TransientSelectorName, string>> = {
+    settingsAlert: 'APIキーの登録・削除の結果としてのみ表示され、表示するにはアカウントのデータを変更する必要があるため',
+};
+
+/**
+ * TRANSIENT_STATES と UNCHECKED_TRANSIENT_SELECTORS のいずれにも含まれない transient のセレクタの名前を返します。
+ */
+export const findUnassignedTransientSelectors = (): TransientSelectorName[] => {
+    const assigned = new Set<string>(Object.values(TRANSIENT_STATES).flat(2));
+    return (Object.keys(SELECTORS.transient) as TransientSelectorName[])
+        .filter(name => !assigned.has(name) && !(name in UNCHECKED_TRANSIENT_SELECTORS));
+};
+
+/**
+ * 解決できなかったセレクタ。transient のセレクタは、確認した状態（state）を持ちます。
+ * いずれか1つが存在すればよいセレクタは、名前とセレクタを ' | ' で区切って1件にまとめます。
+ */
+export type MissingSelector =
+    | { screen: SelectorScreen; name: string; selector: string }
+    | { screen: 'transient'; state: TransientState; name: string; selector: string };
+
+/**
+ * セレクタの要素が timeout までに DOM に追加されるかを返します。
+ */
+const isAttached = (page: Page, selector: string, timeout: number): Promise<boolean> => {
+    return page.locator(selector).first().waitFor({ state: 'attached', timeout }).then(() => true, () => false);
+};
+
+/**
+ * 画面に登録したセレクタのうち、要素が見つからないものを返します。
+ * 画面の描画を待つため、各セレクタは timeout まで要素の追加を待ちます。
+ */
+export async function findMissingSelectors(page: Page, screen: SelectorScreen, options: { timeout?: number } = {}): Promise<MissingSelector[]> {
+    const timeout = options.timeout ?? 5000;
+    const missing: MissingSelector[] = [];
+    for (const [name, selector] of Object.entries(SELECTORS[screen])) {
+        if (!await isAttached(page, selector, timeout)) missing.push({ screen, name, selector });
+    }
+    return missing;
+}
+
+/**
+ * 状態に割り当てた transient のセレクタのうち、要素が見つからないものを返します。
+ * 呼び出す前に、操作で画面をその状態にしておきます。
+ */
+export async function findMissingTransientSelectors(page: Page, state: TransientState, options: { timeout?: number } = {}): Promise<MissingSelector[]> {
+    const timeout = options.timeout ?? 5000;
+    const missing: MissingSelector[] = [];
+    for (const entry of TRANSIENT_STATES[state]) {
+        const names: readonly TransientSelectorName[] = typeof entry === 'string' ? [entry] : entry;
+        const selectors = names.map(name => SELECTORS.transient[name]);
+        // いずれか1つのセレクタは、同時に待つと最初に見つかったもので解決できる
+        if (!await isAttached(page, selectors.join(', '), timeout)) {
+            missing.push({ screen: 'transient', state, name: names.join(' | '), selector: selectors.join(' | ') });
+        }
+    }
+    return missing;
+}
+
+/**
+ * 解決できなかったセレクタの一覧を、レポートに出力する形式にします。
+ */
+export const formatMissingSelectors = (missing: MissingSelector[]): string => {
+    return missing.map(entry => {
+        const state = entry.screen === 'transient' ? `（${entry.state}）` : '';
+        return `  - SELECTORS.${entry.screen}.${entry.name}${state}: '${entry.selector}'`;
+    }).join('\n');
+};
@@ -0,0 +1,159 @@
+/**
+ * 描画・通信の完了待ち（waitForSettled）。
+ * 固定時間の waitForTimeout の代わりに、Lit の再描画・Monaco Editor の初期化・API 通信の完了といった実際の状態を待ちます。
+ *
+ * @example
+ * await page.getByText('アプリ設定').click();
+ * await waitForSettled(page);
+ */
+import { type Page } from '@playwright/test';
+import { trackRequests } from './busy-state';
+
+export type SettleOptions = {
+    /** タイムアウト（デフォルト: 10000ミリ秒） */
+    timeout?: number;
+};
+
+export type LitSettleOptions = SettleOptions & {
+    /** 待機するカスタム要素のタグ名（例: 'dashboard-modal-window'）。省略した場合は画面上のすべての Lit 要素を待機します */
+    tags?: string[];
+};
+
+export type ApiSettleOptions = SettleOptions & {
+    /** 通信がない状態がこの時間（ミリ秒）続いたら完了とみなします（デフォルト: 300ミリ秒） */
+    quietMs?: number;
+    /** 完了を待たない通信の URL（部分一致または正規表現）。ストリーミングなど長時間続く通信を指定します */
+    ignore?: (string | RegExp)[];
+};
+
+export type SettledOptions = SettleOptions & {
+    /** Lit 要素の再描画を待ちます。タグ名の配列を指定すると対象を絞り込みます（デフォルト: true） */
+    lit?: boolean | string[];
+    /** Monaco Editor の初期化を待ちます（デフォルト: false） */
+    monaco?: boolean;
+    /** API 通信の完了を待ちます（デフォルト: true） */
+    api?: boolean;
+};
+
+const DEFAULT_TIMEOUT = 10000;
+const POLL_INTERVAL = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Lit 要素（LitElement）の `updateComplete` を待ち、保留中の再描画がなくなるまで待機します。
+ * Shadow DOM 内の要素も対象にします。
+ */
+export async function waitForLitUpdates(page: Page, options: LitSettleOptions = {}): Promise<void> {
+    const { tags, timeout = DEFAULT_TIMEOUT } = options;
+
+    const pending = await page.evaluate(async ({ tags, timeout }) => {
+        const collect = (root: Document | ShadowRoot, found: any[]): any[] => {
+            for (const el of Array.from(root.querySelectorAll('*')) as any[]) {
+                if ((!tags || tags.includes(el.localName)) && el.updateComplete instanceof Promise) found.push(el);
+                if (el.shadowRoot) collect(el.shadowRoot, found);
+            }
+            return found;
+        };
+
+        const deadline = Date.now() + timeout;
+        let elements = collect(document, []);
+        while (Date.now() < deadline) {
+            // updateComplete は待機中に次の再描画が予約された場合 false を返します
+            const settled = await Promise.race([
+                Promise.all(elements.map(el => el.updateComplete.catch(() => true))),
+                new Promise<null>(resolve => setTimeout(() => resolve(null), Math.max(deadline - Date.now(), 0))),
+            ]);
+            if (!settled) break;
+            if (settled.every(Boolean)) return [];
+            // 再描画によって追加された要素も対象にします
+            elements = collect(document, []);
+        }
+        return [...new Set(elements.filter(el => el.isUpdatePending).map(el => el.id ? `${el.localName}#${el.id}` : el.localName))];
+    }, { tags: tags ?? null, timeout });
+
+    if (pending.length > 0) {
+        throw new Error(`[Settled] ${timeout}ms 以内に Lit 要素の再描画が完了しませんでした: ${pending.join(', ')}`);
+    }
+}
+
+/**
+ * 画面上の Monaco Editor にモデルが設定され、言語サービス（フォーマッター）が使用可能になるまで待機します。
+ * エディタは Lit 要素のホストの `styleEditor` / `monacoEditor` プロパティから取得します（monaco-driver.ts と同じ）。
+ */
+export async function waitForMonacoReady(page: Page, options: SettleOptions = {}): Promise<void> {
+    const { timeout = DEFAULT_TIMEOUT } = options;
+    const deadline = Date.now() + timeout;
+
+    let status = { editors: 0, notReady: [] as string[] };
+    while (Date.now() < deadline) {
+        status = await page.evaluate(() => {
+            const hosts: any[] = [];
+            const collect = (root: Document | ShadowRoot) => {
+                for (const el of Array.from(root.querySelectorAll('*')) as any[]) {
+                    if (el.styleEditor || el.monacoEditor) hosts.push(el);
+                    if (el.shadowRoot) collect(el.shadowRoot);
+                }
+            };
+            collect(document);
+
+            const notReady = hosts.filter(host => {
+                const editor = host.styleEditor ?? host.monacoEditor;
+                const model = editor.getModel?.();
+                if (!model || model.isDisposed?.()) return true;
+                // フォーマッターが登録されるまでは isSupported() が false を返します
+                const format = editor.getAction?.('editor.action.formatDocument');
+                return format ? !format.isSupported() : false;
+            }).map(host => host.localName);
+            return { editors: hosts.length, notReady };
+        });
+        if (status.editors > 0 && status.notReady.length === 0) return;
+        await sleep(POLL_INTERVAL);
+    }
+
+    throw new Error(status.editors === 0
+        ? `[Settled] ${timeout}ms 以内に Monaco Editor が表示されませんでした`
+        : `[Settled] ${timeout}ms 以内に Monaco Editor の初期化が完了しませんでした: ${status.notReady.join(', ')}`);
+}
+
+/**
+ * ページから発行された pwappy の API 通信（fetch / XHR）がすべて完了するまで待機します。
+ * 完了していない通信は busy-state.ts のリクエストカウンターで追跡します。
+ */
+export async function waitForApiIdle(page: Page, options: ApiSettleOptions = {}): Promise<void> {
+    const { timeout = DEFAULT_TIMEOUT, quietMs = 300, ignore = [] } = options;
+
+    const counter = trackRequests(page.context());
+    const isIgnored = (url: string) => ignore.some(pattern => typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url));
+    const deadline = Date.now() + timeout;
+    let idleSince: number | null = null;
+    let inFlight: string[] = [];
+
+    while (Date.now() < deadline) {
+        inFlight = counter.pendingRequests(page)
+            .filter(request => !isIgnored(request.url()))
+            .map(request => `${request.method()} ${request.url()}`);
+        if (inFlight.length > 0) {
+            idleSince = null;
+        } else {
+            idleSince ??= Date.now();
+            if (Date.now() - idleSince >= quietMs) return;
+        }
+        await sleep(Math.min(POLL_INTERVAL, quietMs));
+    }
+
+    if (inFlight.length === 0) return;
+    throw new Error(`[Settled] ${timeout}ms 以内に API 通信が完了しませんでした:\n${inFlight.map(entry => `  - ${entry}`).join('\n')}`);
+}
+
+/**
+ * API 通信の完了と Lit 要素の再描画を待ちます（monaco: true の場合は Monaco Editor の初期化も待ちます）。
+ * 通信の完了によって再描画が発生するため、通信 → 再描画の順に待機します。
+ */
+export async function waitForSettled(page: Page, options: SettledOptions = {}): Promise<void> {
+    const { lit = true, monaco = false, api = true, timeout = DEFAULT_TIMEOUT } = options;
+
+    if (api) await waitForApiIdle(page, { timeout });
+    if (lit) await waitForLitUpdates(page, { timeout, tags: Array.isArray(lit) ? lit : undefined });
+    if (monaco) await waitForMonacoReady(page, { timeout });
+}
@@ -0,0 +1,351 @@
+import { expect as baseExpect, type Browser, type Page } from '@playwright/test';
+import { test as base } from './scenario-fixture';
+import { cleanupLeakedApps, createApp, deleteApp, gotoDashboard, openEditor, setAiCoding, setupAppWithVersions } from './dashboard-helpers';
+import { EditorHelper } from './editor-helpers';
+import { getStorageStatePath } from '../constants';
+import { findLeakedApps, getRunId, listLedgerFiles, readLedger } from './resource-ledger';
+import { finishHarSession, getActiveHarSession, getHarMode, startHarSession, type HarMode, type HarSession } from './har-replay';
+import { NetworkMonitor, type AllowedServerError } from './network-monitor';
+import { ConsoleCollector } from './console-collector';
+import { attachRetrySummary, resetRetryStats, retryUntil } from './retry';
+import { waitForIdle } from './busy-state';
+import { assertNoDialogFailures, attachDialogLog, resetDialogLog } from './dialog-manager';
+import { config } from '../config';
+import { monacoMatchers } from './editor/monaco-matchers';
+import { SELECTORS } from './selectors';
+
+/**
+ * Monaco Editor の診断結果のマッチャー（toHaveMonacoError など）を追加した expect。
+ */
+export const expect = baseExpect.extend(monacoMatchers);
+
+/**
+ * アプリ名・アプリキー用の一意なIDを生成します。
+ * タイムスタンプを反転させることで、30文字に切り詰めた際にも末尾の変化しやすい桁が残るようにしています。
+ * @param workerIndex 現在のワーカー番号
+ * @returns `${config.runSuffix}-${workerIndex}-${反転タイムスタンプ}` 形式のID
+ */
+export const generateUniqueId = (workerIndex: number | string = test.info().workerIndex): string => {
+    const fresh = () => {
+        const reversedTimestamp = Date.now().toString().split('').reverse().join('');
+        return `${config.runSuffix}-${workerIndex}-${reversedTimestamp}`;
+    };
+    // HARの記録・再生中は、記録時と同じIDを払い出して通信を照合できるようにします
+    const session = getActiveHarSession();
+    return session ? session.nextId(fresh) : fresh();
+};
+
+/**
+ * 各スペックが `test.use()` で宣言するエディタフィクスチャのオプション。
+ */
+export type EditorFixtureOptions = {
+    /** アプリ名のプレフィックス (例: 'ai-test-app') */
+    appPrefix: string;
+    /** アプリキーのプレフィックス (例: 'test-key') */
+    appKeyPrefix: string;
+    /** アプリに用意するバージョン一覧。先頭のバージョンをエディタで開きます */
+    versions: string[];
+    /**
+     * true の場合、テストファイル単位で1つのアプリを作成し、全テストで使い回します。
+     * アプリはワーカーの終了時に削除されるため、前のテストで変更した状態を引き継ぎます（HARの記録・再生の対象外です）
+     */
+    sharedApp: boolean;
+    /** false にするとスターターテンプレートモーダルを閉じずに残します */
+    skipStarterModal: boolean;
+    /** 指定した場合、スターターテンプレートモーダルから該当のカード（例: '基本の画面遷移'）を選択します */
+    starterTemplate: string | null;
+    /** true の場合、アプリ作成前にAIコーディング機能を有効化し、終了時に無効化へ戻します */
+    aiCoding: boolean;
+    /** true の場合、エディタ側のCSSアニメーションを無効化してアサーションを高速化します */
+    disableAnimations: boolean;
+    /** API通信の記録・再生モード（デフォルト: 環境変数 PWAPPY_TEST_HAR_MODE） */
+    harMode: HarMode;
+    /** true の場合、許可されていない 5xx のレスポンスでテストを失敗させます（デフォルト: 環境変数 PWAPPY_TEST_NETWORK_STRICT） */
+    networkStrict: boolean;
+    /** strict モードでも許可するサーバーエラー。テスト中に追加する場合は networkMonitor.allowServerError を使用します */
+    allowedServerErrors: AllowedServerError[];
+};
+
+export type EditorFixtures = {
+    appName: string;
+    appKey: string;
+    editorPage: Page;
+    editorHelper: EditorHelper;
+    /** HARの記録・再生セッション（harMode が off の場合は null） */
+    apiHar: HarSession | null;
+    /** コンテキスト内のすべてのページの通信を監視するモニター */
+    networkMonitor: NetworkMonitor;
+    /** コンテキスト内のすべてのページ・フレームのコンソールエラーと例外を収集するコレクター */
+    consoleCollector: ConsoleCollector;
+    retrySummary: void;
+    dialogLog: void;
+};
+
+type SharedApp = { appName: string; appKey: string };
+
+type EditorWorkerFixtures = {
+    sharedApps: Map<string, SharedApp>;
+    ledgerCleanup: void;
+};
+
+/**
+ * ワーカー固有のセッションで新しいブラウザコンテキストを開き、ダッシュボード上で処理を実行します。
+ * 共有アプリの作成・削除など、テスト本体の page とは独立して行いたい操作に使用します。
+ */
+async function withDashboardPage(browser: Browser, workerIndex: number, action: (page: Page) => Promise<void>): Promise<void> {
+    const context = await browser.newContext({ storageState: getStorageStatePath(workerIndex) });
+    try {
+        const page = await context.newPage();
+        await gotoDashboard(page);
+        await action(page);
+    } finally {
+        await context.close();
+    }
+}
+
+/**
+ * ダッシュボード上で共有アプリのカードを探して詳細画面を開きます。
+ * 作成直後はカードの反映が遅れることがあるため、見つからない場合はリロードを挟みながら待機します。
+ */
+async function openSharedAppDetail(page: Page, appKey: string): Promise<void> {
+    const appRow = page.locator(SELECTORS.dashboard.appCard, { has: page.locator(SELECTORS.dashboard.appKey, { hasText: appKey }) }).first();
+
+    await retryUntil('openSharedAppDetail', async () => {
+        if (await appRow.count() === 0) {
+            await page.reload({ waitUntil: 'domcontentloaded' }).catch(() => { });
+            // 表示されない場合はカードの確認とともに再試行します
+            await waitForIdle(page, 'dashboard', { timeout: 5000 }).catch(() => { });
+        }
+        await expect(appRow).toBeVisible({ timeout: 2000 });
+    }, { timeout: 30000, initialDelay: 3000 });
+
+    await appRow.click({ force: true });
+    await expect(page.locator(SELECTORS.appDetail.activeTab)).toBeVisible({ timeout: 10000 });
+}
+
+/**
+ * エディタ系スペック共通のフィクスチャ。
+ * アプリの作成 → エディタ起動 → 後片付け（エディタを閉じてアプリ削除）までを一括で提供します。
+ *
+ * @example
+ * test.use({ appPrefix: 'ai-test-app', aiCoding: true });
+ *
+ * test('...', async ({ editorPage, editorHelper }) => {
+ *   // ...
+ * });
+ */
+export const test = base.extend<EditorFixtureOptions & EditorFixtures, EditorWorkerFixtures>({
+    appPrefix: ['test-app', { option: true }],
+    appKeyPrefix: ['test-key', { option: true }],
+    versions: [['1.0.0'], { option: true }],
+    sharedApp: [false, { option: true }],
+    skipStarterModal: [true, { option: true }],
+    starterTemplate: [null, { option: true }],
+    aiCoding: [false, { option: true }],
+    disableAnimations: [false, { option: true }],
+    harMode: [getHarMode(), { option: true }],
+    networkStrict: [config.network.strict, { option: true }],
+    allowedServerErrors: [[], { option: true }],
+
+    // テストファイル単位の共有アプリを保持し、ワーカー終了時にまとめて削除します
+    // ledgerCleanup に依存させ、共有アプリの削除（台帳の解放）を台帳のリーク検査より先に行います
+    sharedApps: [async ({ browser, ledgerCleanup }, use, workerInfo) => {
+        const sharedApps = new Map<string, SharedApp>();
+        await use(sharedApps);
+
+        for (const { appKey } of sharedApps.values()) {
+            try {
+                await withDashboardPage(browser, workerInfo.workerIndex, page => deleteApp(page, appKey));
+            } catch (e) {
+                console.warn(`[Fixture:sharedApps] 共有アプリ (${appKey}) の削除に失敗しました。`, e);
+            }
+        }
+    }, { scope: 'worker' }],
+
+    // ワーカー終了時に、このワーカーが作成したまま解放されなかった（クラッシュ・タイムアウトした）アプリを台帳から削除します
+    // 後片付けは依存先より後に実行されるため、sharedApps がこのフィクスチャに依存し、共有アプリの削除後にリークを検査します
+    ledgerCleanup: [async ({ browser }, use, workerInfo) => {
+        await use();
+
+        // HARの再生中に作成したアプリは実在しないため、バックエンドに接続して削除しません
+        if (getHarMode() === 'replay') return;
+
+        // 対象はこの実行・このワーカーの作成記録に限られ、並行する他の実行と競合しないため、経過時間（minAgeMs）では絞り込みません
+        // 経過時間による保護は、他の実行の記録を扱う cleanup-cli.ts（ledger モード）でのみ適用します
+        const scope = { runId: getRunId(), worker: String(workerInfo.workerIndex), minAgeMs: 0 };
+
+        // リークがなければダッシュボードを開かずに終了します
+        const leaked = findLeakedApps(listLedgerFiles().flatMap(readLedger), scope);
+        if (leaked.length === 0) return;
+
+        try {
+            await withDashboardPage(browser, workerInfo.workerIndex, async page => {
+                const removed = await cleanupLeakedApps(page, scope);
+                if (removed.length > 0) {
+                    console.log(`[Fixture:ledgerCleanup] リークしたアプリを ${removed.length} 件削除しました。`);
+                }
+            });
+        } catch (e) {
+            console.warn('[Fixture:ledgerCleanup] 台帳に基づくクリーンアップに失敗しました。', e);
+        }
+    }, { scope: 'worker', auto: true }],
+
+    // テスト単位でAPI通信を記録・再生します
+    // コンテキストに依存させ、エディタの後片付け（アプリ削除）の通信まで記録してから終了させます
+    apiHar: [async ({ context, harMode, sharedApp }, use, testInfo) => {
+        // 共有アプリは別のコンテキストで作成され、一意IDも最初のテストにしか記録されないため、記録・再生の対象外です
+        if (sharedApp && harMode !== 'off') {
+            testInfo.skip(harMode === 'replay', `[HAR] 共有アプリ（sharedApp）を使用するテストは再生できません: ${testInfo.title}`);
+            console.log(`[HAR] 共有アプリ（sharedApp）を使用するテストは記録しません: ${testInfo.title}`);
+            await use(null);
+            return;
+        }
+
+        const session = await startHarSession(context, testInfo, harMode);
+        if (harMode === 'replay' && !session) {
+            testInfo.skip(true, `[HAR] 記録がないため再生できません: ${testInfo.title}`);
+        }
+        await use(session);
+        await finishHarSession(context, testInfo, session);
+    }, { auto: true }],
+
+    // コンテキスト内の通信を監視し、4xx / 5xx・失敗・遅延したリクエストをレポートに添付します
+    networkMonitor: [async ({ context, networkStrict, allowedServerErrors }, use, testInfo) => {
+        const monitor = new NetworkMonitor(context, { slowRequestMs: config.network.slowRequestMs, allowedServerErrors }).start();
+        await use(monitor);
+        monitor.stop();
+        await monitor.attachTo(testInfo);
+
+        if (networkStrict) {
+            const unexpected = monitor.unexpectedServerErrors.map(({ status, method, url }) => `${status} ${method} ${url}`);
+            expect(unexpected, '[NetworkMonitor] 許可されていないサーバーエラーが発生しました').toEqual([]);
+        }
+    }, { auto: true }],
+
+    // コンテキスト内のコンソールエラー・警告と捕捉されなかった例外を出力元付きで収集し、レポートに添付します
+    consoleCollector: [async ({ context }, use, testInfo) => {
+        const collector = new ConsoleCollector(context).start();
+        await use(collector);
+        await collector.stop();
+        await collector.attachTo(testInfo);
+    }, { auto: true }],
+
+    // retryUntil の呼び出し箇所ごとの試行回数をテスト単位で集計し、レポートに添付します
+    retrySummary: [async ({ }, use, testInfo) => {
+        resetRetryStats();
+        await use();
+        await attachRetrySummary(testInfo);
+    }, { auto: true }],
+
+    // テスト中に表示されたアラート・ダイアログを記録してレポートに添付し、fail ルールに一致したものがあればテストを失敗させます
+    dialogLog: [async ({ }, use, testInfo) => {
+        resetDialogLog();
+        await use();
+        await attachDialogLog(testInfo);
+        assertNoDialogFailures();
+    }, { auto: true }],
+
+    appName: async ({ appPrefix, sharedApp, sharedApps, apiHar }, use, testInfo) => {
+        if (sharedApp && sharedApps.has(testInfo.file)) {
+            await use(sharedApps.get(testInfo.file)!.appName);
+            return;
+        }
+        await use(`${appPrefix}-${generateUniqueId(testInfo.workerIndex)}`.slice(0, 30));
+    },
+
+    appKey: async ({ appKeyPrefix, appName, sharedApp, sharedApps, versions, browser, apiHar }, use, testInfo) => {
+        if (!sharedApp) {
+            await use(`${appKeyPrefix}-${generateUniqueId(testInfo.workerIndex)}`.slice(0, 30));
+            return;
+        }
+
+        // 共有アプリはファイル内の最初のテストで1回だけ作成します
+        let shared = sharedApps.get(testInfo.file);
+        if (!shared) {
+            shared = { appName, appKey: `${appKeyPrefix}-${generateUniqueId(testInfo.workerIndex)}`.slice(0, 30) };
+            const { appKey } = shared;
+            await withDashboardPage(browser, testInfo.workerIndex, page =>
+                setupAppWithVersions(page, { appName, appKey, versions })
+            );
+            sharedApps.set(testInfo.file, shared);
+        }
+        await use(shared.appKey);
+    },
+
+    editorPage: async ({ page, context, appName, appKey, versions, sharedApp, skipStarterModal, starterTemplate, aiCoding, disableAnimations }, use) => {
+        await gotoDashboard(page);
+
+        if (aiCoding) {
+            // 年齢確認モーダル待機などによるタイムアウトでテスト全体を落とさないよう、失敗しても続行します
+            try {
+                await setAiCoding(page, true);
+            } catch (e) {
+                console.warn('[Warning] setAiCoding failed/timed out, continuing test...', e);
+            }
+        }
+
+        if (sharedApp) {
+            await openSharedAppDetail(page, appKey);
+        } else if (versions.length > 1) {
+            await setupAppWithVersions(page, { appName, appKey, versions });
+        } else {
+            await createApp(page, appName, appKey);
+        }
+
+        const keepStarterModal = !skipStarterModal || starterTemplate !== null;
+        const editorPage = await openEditor(page, context, appName, versions[0], { skipStarterModal: !keepStarterModal });
+
+        if (starterTemplate !== null) {
+            const modal = editorPage.locator(SELECTORS.transient.starterTemplateModal);
+            await expect(modal).toBeVisible();
+            await modal.locator('.card', { hasText: starterTemplate }).click();
+            await expect(modal).toBeHidden();
+        }
+
+        if (disableAnimations) {
+            // クライアント側のアニメーションを強制無効化し、ダイアログ非表示などのアサーションを高速化します
+            await editorPage.evaluate(() => {
+                const style = document.createElement('style');
+                style.innerHTML = `
+                    *, *::before, *::after {
+                        transition: none !important;
+                        animation: none !important;
+                        transition-duration: 0s !important;
+                        animation-duration: 0s !important;
+                    }
+                `;
+                document.head.appendChild(style);
+            }).catch(() => { });
+        }
+
+        // テスト本体の実行
+        await use(editorPage);
+
+        try {
+            await editorPage.evaluate(() => window.stop());
+        } catch (e) {
+            // 既にナビゲーション中等でエラーが出た場合は無視
+        }
+        await editorPage.close();
+
+        // 共有アプリはワーカー終了時にまとめて削除するため、ここでは削除しません
+        if (!sharedApp) {
+            await page.bringToFront();
+            await deleteApp(page, appKey);
+        }
+
+        if (aiCoding) {
+            try {
+                // 他のテストに影響を与えないよう無効化に戻す
+                await setAiCoding(page, false);
+            } catch (e) {
+                console.warn('[Warning] setAiCoding (disable) failed, ignoring...', e);
+            }
+        }
+    },
+
+    editorHelper: async ({ editorPage, isMobile }, use) => {
+        await use(new EditorHelper(editorPage, isMobile));
+    },
+});
+
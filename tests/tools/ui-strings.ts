@@ -0,0 +1,165 @@
+/**
+ * 画面の文言（ボタン名・タブ名・メニュー項目・メッセージ）のカタログ。
+ * ヘルパーではロケーターに文言を直接書かず、意味を表す ID から uiText で取得します。
+ * 製品の文言が変わった場合は、このカタログの1行を更新します。
+ *
+ * 環境変数 PWAPPY_TEST_UI_LOCALE で画面の言語を切り替えます（デフォルト: ja）。
+ * 指定した言語に訳がない文言は日本語を使用します。
+ *
+ * @example
+ * await page.getByRole('button', { name: uiText('version.publish') }).click();
+ * await menu.getByText(uiText('snapshot.menu')).click();
+ */
+import { config } from '../config';
+
+/** 画面の言語 */
+export type UiLocale = typeof config.uiLocale;
+
+/**
+ * 日本語（デフォルト）の文言。正規表現の文言は、表記の揺れがある要素や部分一致で探す要素に使用します。
+ */
+const JA = {
+    // 共通
+    'common.add': '追加',
+    'common.close': '閉じる',
+    'common.delete': '削除',
+    'common.confirmDelete': '削除する',
+    'common.download': 'ダウンロード',
+    'common.errorMessage': /エラー|失敗/,
+
+    // ダッシュボード
+    'dashboard.busy': '処理中...',
+    'dashboard.newApp': '+ 新規作成',
+    'dashboard.menu': 'メニュー',
+    'dashboard.menu.settings': '設定',
+    'dashboard.appSettings': 'アプリ設定',
+    'dashboard.editApp': '編集する',
+    'dashboard.archiveApp': 'アーカイブする',
+    'dashboard.archive': 'アーカイブ',
+    'dashboard.backToWorkbench': 'ワークベンチに戻る',
+    'dashboard.restore': /復元/,
+    'dashboard.restored': '復元しました',
+    'dashboard.tab.versions': 'バージョン管理',
+    'dashboard.settings.enableAi': 'AI機能を有効にする',
+    'dashboard.settings.apiKeyRegistered': 'APIキーを登録しました。',
+    'dashboard.settings.apiKeyAlreadyRegistered': 'APIキーは登録済みです。',
+    'dashboard.settings.confirmApiKeyDelete': '登録されているAPIキーを本当に削除しますか？',
+    'dashboard.settings.apiKeyDeleted': 'APIキーを削除しました。',
+
+    // バージョン
+    'version.new': '+ 新規バージョン',
+    'version.submitForReview': '審査に提出',
+    'version.requestReview': '審査申請',
+    'version.apply': '申請する',
+    'version.publish': '公開する',
+    'version.unpublish': /非公開/,
+    'version.confirmUnpublish': /非公開にする|公開停止/,
+    'version.openEditor': /エディタ/,
+    'version.rename': '名前変更',
+    'version.duplicate': '複製',
+    'version.status.ready': '準備完了',
+    'version.status.published': '公開中',
+
+    // エディタ
+    'editor.busy': '処理中',
+    'editor.starter.skip': '閉じて一から自分で作る',
+    'editor.domTree.addPage': 'ページ追加',
+    'editor.domTree.contentArea': 'コンテンツ',
+    'editor.saveError': /エラー|修正/,
+
+    // 右側サブウィンドウ・属性パネルのタブ
+    'tab.event': 'イベント',
+    'tab.script': 'スクリプト',
+    'tab.serviceWorker': 'サービスワーカー',
+    'tab.console': 'コンソール',
+    'tab.test': 'テスト',
+    'tab.attributes': '属性',
+    'tab.style': 'スタイル',
+    'tab.appSettings': 'アプリ設定',
+
+    // 属性パネル
+    'property.domId': 'ID',
+    'property.explain': '説明',
+    'property.class': 'クラス',
+    'property.text': 'テキスト',
+    'property.templateId': 'テンプレートID',
+    'property.styleFlex': 'Flexboxレイアウト (親要素)',
+    'property.styleFlexItem': 'Flexbox配置 (子要素)',
+    'property.styleSpacing': '余白調整',
+    'property.styleTypography': '文字装飾',
+    'property.styleBackground': '背景 / 装飾',
+    'property.styleBorder': 'ボーダー / 角丸',
+    'property.styleShadow': 'シャドウ / 奥行き',
+    'property.styleSizing': 'サイズ / 表示制御',
+    'property.editAttributes': '属性を編集',
+    'property.addToElement': '要素に追加',
+    'property.addToTag': 'タグに追加',
+    'property.attributeName': '属性名:',
+    'property.template': 'テンプレート:',
+
+    // スクリプト・イベント・コンソール
+    'script.add': 'スクリプトの追加',
+    'script.edit': 'スクリプトの編集',
+    'event.edit': 'イベントを編集',
+    'console.clear': 'コンソールをクリア',
+
+    // ファイルエクスプローラー
+    'fileExplorer.open': 'ファイル管理',
+    'fileExplorer.close': '閉じる',
+    'fileExplorer.toggleSelectAll': '全選択/全解除',
+    'fileExplorer.upload': 'アップロード',
+    'fileExplorer.download': 'ダウンロード',
+    'fileExplorer.copy': 'コピー',
+    'fileExplorer.cut': '切り取り',
+    'fileExplorer.paste': '貼り付け',
+    'fileExplorer.delete': '削除',
+    'fileExplorer.rename': '名前変更',
+    'fileExplorer.copyPath': 'パスをコピー',
+    'fileExplorer.newDirectory': '新規ディレクトリ',
+
+    // スナップショット
+    'snapshot.menu': 'スナップショット',
+    'snapshot.restorePrompt': '前回正常に終了されなかった可能性',
+    'snapshot.discard': '破棄する',
+    'snapshot.discardAllPrompt': 'すべてのスナップショットを破棄しますか？',
+    'snapshot.confirmDiscard': 'はい、破棄します',
+    'snapshot.exportFile': 'ファイルに出力',
+    'snapshot.imported': 'プロジェクトを正常にインポートしました',
+
+    // 下部メニュー
+    'platform.run': '動作',
+    'platform.save': '保存',
+    'platform.agent': 'AIエージェント',
+
+    // AIコーディングウィンドウ
+    'aiCoder.generating': 'コード生成中',
+    'aiCoder.replace': '置き換え',
+} satisfies Record<string, string | RegExp>;
+
+export type UiCatalog = typeof JA;
+
+/** 文言の ID */
+export type UiStringId = keyof UiCatalog;
+
+/**
+ * 言語ごとの文言。日本語以外は訳のある文言だけを定義します。
+ */
+const UI_CATALOGS: Record<UiLocale, Partial<UiCatalog>> = {
+    ja: JA,
+    // 英語版の画面の文言は、英語版が提供された時点で追加します
+    en: {},
+};
+
+/**
+ * 現在の言語（PWAPPY_TEST_UI_LOCALE）の文言を返します。訳がない場合は日本語の文言を返します。
+ */
+export const uiText = <K extends UiStringId>(id: K): UiCatalog[K] => {
+    return (UI_CATALOGS[config.uiLocale][id] ?? JA[id]) as UiCatalog[K];
+};
+
+/**
+ * 画面の文言（いずれかの言語）に対応する ID を返します。文言で指定された引数を ID に変換する場合に使用します。
+ */
+export const findUiStringId = <K extends UiStringId>(text: string, candidates: readonly K[]): K | undefined => {
+    return candidates.find(id => Object.values(UI_CATALOGS).some(catalog => catalog[id] === text));
+};